@@ -5,6 +5,20 @@ import AppNavigator from './src/navigation/AppNavigator';
 import { supabase } from './src/lib/supabase';
 import { registerForPushAndSaveToken } from './src/services/notifications';
 
+// hagz://game/<code> opens the invite preview for a private game and
+// hagz://guest/<code> claims the spots a guest was given
+const linking = {
+  prefixes: ['hagz://'],
+  config: {
+    screens: {
+      GameDetails: {
+        path: 'game/:joinCode',
+        alias: ['guest/:guestToken'],
+      },
+    },
+  },
+};
+
 export default function App() {
   const navigationRef = useRef<any>(null);
 
@@ -35,7 +49,7 @@ export default function App() {
   return (
     <>
       <StatusBar style="light" />
-      <NavigationContainer ref={navigationRef}>
+      <NavigationContainer ref={navigationRef} linking={linking}>
         <AppNavigator />
       </NavigationContainer>
     </>
@@ -0,0 +1,267 @@
+-- Atomic Booking Operations
+-- Creating or moving a booking used to be several client round trips (check
+-- availability, insert booking, add pitch booking, add organizer) with a manual
+-- rollback on failure, and two players racing for a slot could both pass the check.
+-- These functions do the whole operation in one transaction, serialised per pitch
+-- and date with an advisory lock, and return either the booking or a structured
+-- conflict:
+--   { "success": true,  "booking": {...} }
+--   { "success": false, "conflict": { "code": ..., "message": ..., "conflicting_booking": {...} } }
+-- Conflict codes: closed, outside_hours, slot_taken, not_found, forbidden
+
+-- Why a slot can't be used, or NULL when it is free (optionally ignoring one source)
+CREATE OR REPLACE FUNCTION get_booking_slot_conflict(
+    p_booking_date DATE,
+    p_time_slot INTEGER,
+    p_pitch_id UUID,
+    p_exclude_source_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_slot_end INTEGER;
+    v_conflict RECORD;
+    v_closure RECORD;
+BEGIN
+    SELECT * INTO v_closure FROM public.pitch_closures
+    WHERE pitch_id = p_pitch_id AND closure_date = p_booking_date;
+
+    IF FOUND THEN
+        RETURN json_build_object(
+            'code', 'closed',
+            'message', COALESCE('Pitch closed: ' || v_closure.reason, 'The pitch is closed on this date')
+        );
+    END IF;
+
+    SELECT slot_end INTO v_slot_end
+    FROM get_pitch_slots(p_booking_date, p_pitch_id)
+    WHERE slot_start = p_time_slot;
+
+    IF v_slot_end IS NULL THEN
+        RETURN json_build_object(
+            'code', 'outside_hours',
+            'message', 'This time is outside the pitch opening hours'
+        );
+    END IF;
+
+    SELECT * INTO v_conflict FROM public.pitch_bookings pb
+    WHERE pb.pitch_id = p_pitch_id
+      AND pb.booking_date = p_booking_date
+      AND pb.time_slot < v_slot_end
+      AND pb.time_slot + COALESCE(pb.duration_minutes, 60) > p_time_slot
+      AND (p_exclude_source_id IS NULL OR pb.source_id <> p_exclude_source_id)
+    LIMIT 1;
+
+    IF FOUND THEN
+        RETURN json_build_object(
+            'code', 'slot_taken',
+            'message', 'This pitch is already booked for the selected date and time',
+            'conflicting_booking', json_build_object(
+                'source_type', v_conflict.source_type,
+                'source_id', v_conflict.source_id,
+                'time_slot', v_conflict.time_slot
+            )
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Serialise writers for one pitch and date until the transaction ends
+CREATE OR REPLACE FUNCTION lock_pitch_date(p_pitch_id UUID, p_booking_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(p_pitch_id::TEXT || ':' || p_booking_date::TEXT));
+END;
+$$;
+
+-- Booking columns an organizer picks when creating a game. Migrations that add
+-- such a column extend this list.
+CREATE OR REPLACE FUNCTION booking_setting_keys()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT ARRAY['time', 'max_players', 'is_public'];
+$$;
+
+-- The settings of a new booking request. Anything else the app sends (id,
+-- owner, status, price, timestamps) is dropped, and a series can only be one
+-- of the organizer's own.
+CREATE OR REPLACE FUNCTION booking_request_settings(p_booking JSONB, p_user_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(jsonb_object_agg(setting.key, setting.value), '{}'::JSONB)
+    FROM jsonb_each(p_booking) setting
+    WHERE setting.key = ANY(booking_setting_keys())
+       OR (setting.key = 'series_id' AND EXISTS (
+           SELECT 1 FROM public.booking_series s
+           WHERE s.id = (p_booking->>'series_id')::UUID AND s.created_by = p_user_id
+       ));
+$$;
+
+-- Insert a booking row; columns left NULL get their defaults
+CREATE OR REPLACE FUNCTION insert_booking_row(p_booking public.bookings)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_columns TEXT;
+    v_booking public.bookings;
+BEGIN
+    SELECT string_agg(quote_ident(column_name), ', ') INTO v_columns
+    FROM jsonb_object_keys(jsonb_strip_nulls(to_jsonb(p_booking))) AS column_name;
+
+    EXECUTE format(
+        'INSERT INTO public.bookings (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.bookings, $1) RETURNING *',
+        v_columns
+    ) INTO v_booking USING to_jsonb(p_booking);
+
+    RETURN v_booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION insert_booking_row(public.bookings) FROM PUBLIC;
+
+-- Reserve the slot, create the booking and add the creator as organizer
+CREATE OR REPLACE FUNCTION create_booking(p_booking JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_pitch_id UUID := (p_booking->>'pitch_id')::UUID;
+    v_date DATE := (p_booking->>'date')::DATE;
+    v_time_slot INTEGER := (p_booking->>'time_slot')::INTEGER;
+    v_conflict JSON;
+    v_pitch public.pitches;
+    v_booking public.bookings;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'You must be logged in to create a booking'));
+    END IF;
+
+    IF v_pitch_id IS NULL OR v_date IS NULL OR v_time_slot IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'A pitch, date and time slot are required'));
+    END IF;
+
+    SELECT * INTO v_pitch FROM public.pitches WHERE id = v_pitch_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Pitch not found'));
+    END IF;
+
+    PERFORM lock_pitch_date(v_pitch_id, v_date);
+
+    v_conflict := get_booking_slot_conflict(v_date, v_time_slot, v_pitch_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    v_booking := jsonb_populate_record(NULL::public.bookings, booking_request_settings(p_booking, v_user_id));
+    v_booking.id := gen_random_uuid();
+    v_booking.created_by := v_user_id;
+    v_booking.pitch_id := v_pitch_id;
+    v_booking.venue_id := v_pitch.venue_id;
+    v_booking.pitch_name := v_pitch.name;
+    v_booking.pitch_location := COALESCE((SELECT v.location FROM public.venues v WHERE v.id = v_pitch.venue_id), '');
+    v_booking.date := v_date;
+    v_booking.booking_date := v_date;
+    v_booking.time_slot := v_time_slot;
+    v_booking.price := v_pitch.price;
+    v_booking.status := 'confirmed';
+    v_booking.created_at := NOW();
+
+    v_booking := insert_booking_row(v_booking);
+
+    INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+    VALUES (v_date, v_time_slot, 'booking', v_booking.id, v_pitch_id);
+
+    INSERT INTO public.game_members (game_id, user_id, role, status)
+    VALUES (v_booking.id, v_user_id, 'organizer', 'joined');
+
+    RETURN json_build_object('success', TRUE, 'booking', row_to_json(v_booking));
+END;
+$$;
+
+-- Change a booking and move its pitch reservation in one step
+CREATE OR REPLACE FUNCTION update_booking(p_booking_id UUID, p_changes JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_existing public.bookings;
+    v_booking public.bookings;
+    v_conflict JSON;
+BEGIN
+    SELECT * INTO v_existing FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Booking not found'));
+    END IF;
+
+    IF v_existing.created_by IS DISTINCT FROM v_user_id THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'Only the organizer can change this booking'));
+    END IF;
+
+    -- Identity and ownership can't be changed through this function
+    v_booking := jsonb_populate_record(v_existing, p_changes - 'id' - 'created_by' - 'created_at');
+    v_booking.booking_date := v_booking.date::DATE;
+
+    PERFORM lock_pitch_date(v_booking.pitch_id, v_booking.date::DATE);
+
+    v_conflict := get_booking_slot_conflict(v_booking.date::DATE, v_booking.time_slot, v_booking.pitch_id, p_booking_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    UPDATE public.bookings SET
+        date = v_booking.date,
+        booking_date = v_booking.booking_date,
+        time = v_booking.time,
+        time_slot = v_booking.time_slot,
+        pitch_id = v_booking.pitch_id,
+        venue_id = v_booking.venue_id,
+        pitch_name = v_booking.pitch_name,
+        pitch_location = v_booking.pitch_location,
+        price = v_booking.price,
+        max_players = v_booking.max_players,
+        is_public = v_booking.is_public,
+        status = v_booking.status
+    WHERE id = p_booking_id;
+
+    DELETE FROM public.pitch_bookings WHERE source_type = 'booking' AND source_id = p_booking_id;
+
+    IF v_booking.status = 'confirmed' THEN
+        INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+        VALUES (v_booking.date::DATE, v_booking.time_slot, 'booking', p_booking_id, v_booking.pitch_id);
+    END IF;
+
+    RETURN json_build_object('success', TRUE, 'booking', row_to_json(v_booking));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booking_slot_conflict(DATE, INTEGER, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_booking(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_booking(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION create_booking IS 'Atomically reserve a pitch slot, create the booking and add the organizer';
+COMMENT ON FUNCTION update_booking IS 'Atomically change a booking and move its pitch reservation';
@@ -0,0 +1,197 @@
+-- Booking Reschedules Migration
+-- Organizers can move a game to another date, time or pitch. Every other member
+-- is asked to re-confirm; anyone who declines leaves the game and frees their spot.
+
+-- Re-confirmation state per member (NULL = nothing to confirm)
+ALTER TABLE public.game_members
+ADD COLUMN IF NOT EXISTS reconfirm_status TEXT CHECK (reconfirm_status IN ('pending', 'confirmed')),
+ADD COLUMN IF NOT EXISTS reconfirm_requested_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.game_members.reconfirm_status IS 'pending after the game was rescheduled, confirmed once the member accepts the new time';
+
+-- History of every move
+CREATE TABLE IF NOT EXISTS public.booking_reschedules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    rescheduled_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    from_date DATE NOT NULL,
+    from_time_slot INTEGER NOT NULL,
+    from_pitch_id UUID REFERENCES public.pitches(id) ON DELETE SET NULL,
+    to_date DATE NOT NULL,
+    to_time_slot INTEGER NOT NULL,
+    to_pitch_id UUID REFERENCES public.pitches(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reschedules_booking ON public.booking_reschedules(booking_id, created_at DESC);
+
+COMMENT ON TABLE public.booking_reschedules IS 'Every date, time or pitch change made to a booking';
+
+ALTER TABLE public.booking_reschedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reschedules of their games" ON public.booking_reschedules
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.created_by = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = booking_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+        )
+    );
+
+-- Same as atomic_bookings.sql, but only the pitch, date and slot can change,
+-- and a move to another pitch also takes that pitch's price
+CREATE OR REPLACE FUNCTION update_booking(p_booking_id UUID, p_changes JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_existing public.bookings;
+    v_booking public.bookings;
+    v_pitch public.pitches;
+    v_conflict JSON;
+BEGIN
+    SELECT * INTO v_existing FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Booking not found'));
+    END IF;
+
+    IF v_existing.created_by IS DISTINCT FROM v_user_id THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'Only the organizer can change this booking'));
+    END IF;
+
+    -- Only where and when the game is played can change; everything else
+    -- about the booking is kept or worked out again here
+    v_booking := v_existing;
+    v_booking.pitch_id := COALESCE((p_changes->>'pitch_id')::UUID, v_existing.pitch_id);
+    v_booking.date := COALESCE((p_changes->>'date')::DATE, v_existing.date::DATE);
+    v_booking.booking_date := v_booking.date::DATE;
+    v_booking.time_slot := COALESCE((p_changes->>'time_slot')::INTEGER, v_existing.time_slot);
+    v_booking.time := COALESCE(p_changes->>'time', v_existing.time);
+
+    SELECT * INTO v_pitch FROM public.pitches WHERE id = v_booking.pitch_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Pitch not found'));
+    END IF;
+
+    IF v_booking.pitch_id IS DISTINCT FROM v_existing.pitch_id THEN
+        v_booking.venue_id := v_pitch.venue_id;
+        v_booking.pitch_name := v_pitch.name;
+        v_booking.pitch_location := COALESCE((SELECT v.location FROM public.venues v WHERE v.id = v_pitch.venue_id), '');
+        v_booking.price := v_pitch.price;
+        v_booking.price_amount := v_pitch.price_amount;
+        v_booking.price_currency := v_pitch.price_currency;
+    END IF;
+
+    PERFORM lock_pitch_date(v_booking.pitch_id, v_booking.date::DATE);
+
+    -- The booking's own reservation never counts as a clash
+    v_conflict := get_booking_slot_conflict(v_booking.date::DATE, v_booking.time_slot, v_booking.pitch_id, p_booking_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    UPDATE public.bookings SET
+        date = v_booking.date,
+        booking_date = v_booking.booking_date,
+        time = v_booking.time,
+        time_slot = v_booking.time_slot,
+        pitch_id = v_booking.pitch_id,
+        venue_id = v_booking.venue_id,
+        pitch_name = v_booking.pitch_name,
+        pitch_location = v_booking.pitch_location,
+        price = v_booking.price,
+        price_amount = v_booking.price_amount,
+        price_currency = v_booking.price_currency
+    WHERE id = p_booking_id;
+
+    DELETE FROM public.pitch_bookings WHERE source_type = 'booking' AND source_id = p_booking_id;
+
+    IF v_booking.status = 'confirmed' THEN
+        INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+        VALUES (v_booking.date::DATE, v_booking.time_slot, 'booking', p_booking_id, v_booking.pitch_id);
+    END IF;
+
+    RETURN json_build_object('success', TRUE, 'booking', row_to_json(v_booking));
+END;
+$$;
+
+-- Record a move and ask every member except the organizer to re-confirm
+CREATE OR REPLACE FUNCTION request_reschedule_confirmations(
+    p_booking_id UUID,
+    p_from_date DATE,
+    p_from_time_slot INTEGER,
+    p_from_pitch_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking public.bookings;
+    v_count INTEGER;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+    IF NOT FOUND OR v_booking.created_by IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the organizer can reschedule this booking';
+    END IF;
+
+    INSERT INTO public.booking_reschedules (
+        booking_id, rescheduled_by, from_date, from_time_slot, from_pitch_id, to_date, to_time_slot, to_pitch_id
+    ) VALUES (
+        p_booking_id, auth.uid(), p_from_date, p_from_time_slot, p_from_pitch_id,
+        v_booking.date::DATE, v_booking.time_slot, v_booking.pitch_id
+    );
+
+    UPDATE public.game_members gm
+    SET reconfirm_status = 'pending', reconfirm_requested_at = NOW()
+    WHERE gm.game_id = p_booking_id AND gm.status = 'joined' AND gm.user_id <> v_booking.created_by;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- A member accepts the new date and time
+CREATE OR REPLACE FUNCTION confirm_rescheduled_booking(p_game_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.game_members gm
+    SET reconfirm_status = 'confirmed'
+    WHERE gm.game_id = p_game_id AND gm.user_id = auth.uid() AND gm.reconfirm_status = 'pending';
+END;
+$$;
+
+-- Same as cancellation_policies.sql, but members who haven't re-confirmed a
+-- moved game leave for free: it wasn't their choice to move it
+CREATE OR REPLACE FUNCTION leave_fee_percent(p_booking public.bookings, p_user_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = p_booking.id AND gm.user_id = p_user_id AND gm.reconfirm_status = 'pending'
+        ) THEN 0
+        ELSE (booking_cancellation_terms(p_booking)->>'fee_percent')::NUMERIC
+    END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_booking(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_reschedule_confirmations(UUID, DATE, INTEGER, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_rescheduled_booking(UUID) TO authenticated;
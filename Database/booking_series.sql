@@ -0,0 +1,48 @@
+-- Booking Series Migration
+-- Recurring weekly / bi-weekly bookings. Every occurrence is still a regular row in
+-- bookings (with its own pitch_bookings reservation); the series only records the
+-- rule that generated them so occurrences can be managed together.
+
+CREATE TABLE IF NOT EXISTS public.booking_series (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    pitch_id UUID NOT NULL REFERENCES public.pitches(id) ON DELETE CASCADE,
+    venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL,
+    frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly')),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    occurrence_count INTEGER CHECK (occurrence_count IS NULL OR occurrence_count BETWEEN 1 AND 26),
+    time_slot INTEGER NOT NULL,
+    is_public BOOLEAN DEFAULT TRUE,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+-- Link each occurrence back to its series
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_created_by ON public.booking_series(created_by);
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON public.bookings(series_id, date);
+
+COMMENT ON TABLE public.booking_series IS 'Recurring booking rules; occurrences live in bookings';
+COMMENT ON COLUMN public.bookings.series_id IS 'Series this booking is an occurrence of, if any';
+COMMENT ON COLUMN public.bookings.status IS 'confirmed, skipped (single series occurrence dropped) or cancelled';
+
+CREATE TRIGGER update_booking_series_updated_at
+    BEFORE UPDATE ON public.booking_series
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security: organizers manage their own series
+ALTER TABLE public.booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their booking series" ON public.booking_series
+    FOR SELECT USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can create booking series" ON public.booking_series
+    FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can update their booking series" ON public.booking_series
+    FOR UPDATE USING (auth.uid() = created_by);
@@ -0,0 +1,242 @@
+-- Calendar Feeds Migration
+-- Every user gets a private, subscribable iCalendar feed of their games: bookings
+-- they belong to, their team's ranked matches and their team's tournament fixtures.
+-- Events keep a stable UID per row and a sequence number that goes up whenever the
+-- date, time, place or status changes, so subscribed calendars update in place.
+
+-- One secret feed token per user. Anyone with the link can read the feed,
+-- so the token can be reset from the app.
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_fetched_at TIMESTAMP WITH TIME ZONE
+);
+
+COMMENT ON TABLE public.calendar_feeds IS 'Secret token behind each user''s subscribable calendar feed';
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed" ON public.calendar_feeds
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Revision tracking for calendar clients
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS calendar_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE public.matches
+ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS calendar_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE public.tournament_matches
+ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS calendar_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Bump the sequence when any of the columns named in the trigger arguments change
+CREATE OR REPLACE FUNCTION bump_calendar_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM unnest(TG_ARGV) AS col
+        WHERE to_jsonb(NEW) -> col IS DISTINCT FROM to_jsonb(OLD) -> col
+    ) THEN
+        NEW.calendar_sequence := OLD.calendar_sequence + 1;
+        NEW.calendar_updated_at := NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_bookings_calendar_sequence ON public.bookings;
+CREATE TRIGGER bump_bookings_calendar_sequence
+    BEFORE UPDATE ON public.bookings
+    FOR EACH ROW EXECUTE FUNCTION bump_calendar_sequence('date', 'time_slot', 'pitch_id', 'pitch_name', 'pitch_location', 'status');
+
+DROP TRIGGER IF EXISTS bump_matches_calendar_sequence ON public.matches;
+CREATE TRIGGER bump_matches_calendar_sequence
+    BEFORE UPDATE ON public.matches
+    FOR EACH ROW EXECUTE FUNCTION bump_calendar_sequence('match_date', 'time_slot', 'pitch_id', 'pitch_name', 'status');
+
+DROP TRIGGER IF EXISTS bump_tournament_matches_calendar_sequence ON public.tournament_matches;
+CREATE TRIGGER bump_tournament_matches_calendar_sequence
+    BEFORE UPDATE ON public.tournament_matches
+    FOR EACH ROW EXECUTE FUNCTION bump_calendar_sequence('scheduled_time', 'status', 'team1_id', 'team2_id');
+
+-- The current user's feed token, created on first use
+CREATE OR REPLACE FUNCTION get_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_token TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+
+    INSERT INTO public.calendar_feeds (user_id, token)
+    VALUES (auth.uid(), replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''))
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT token INTO v_token FROM public.calendar_feeds WHERE user_id = auth.uid();
+    RETURN v_token;
+END;
+$$;
+
+-- Replace the token; the old feed link stops working immediately
+CREATE OR REPLACE FUNCTION reset_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_token TEXT := replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in';
+    END IF;
+
+    INSERT INTO public.calendar_feeds (user_id, token, created_at)
+    VALUES (auth.uid(), v_token, NOW())
+    ON CONFLICT (user_id) DO UPDATE SET token = EXCLUDED.token, created_at = NOW(), last_fetched_at = NULL;
+
+    RETURN v_token;
+END;
+$$;
+
+-- Used by the server to render a feed. Bookings the user belongs to (including
+-- cancelled ones, so calendars can mark them), plus ranked matches and tournament
+-- fixtures of the user's teams, from 30 days back onwards.
+-- Pass a kind ('booking', 'match', 'fixture') and id to fetch a single event;
+-- a single fixture can be exported by anyone holding a valid token.
+CREATE OR REPLACE FUNCTION get_calendar_feed_events(
+    p_token TEXT,
+    p_kind TEXT DEFAULT NULL,
+    p_source_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    kind TEXT,
+    source_id UUID,
+    title TEXT,
+    location TEXT,
+    description TEXT,
+    starts_on DATE,
+    start_minutes INTEGER,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    duration_minutes INTEGER,
+    status TEXT,
+    sequence INTEGER,
+    updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_since DATE := CURRENT_DATE - 30;
+BEGIN
+    UPDATE public.calendar_feeds cf
+    SET last_fetched_at = NOW()
+    WHERE cf.token = p_token
+    RETURNING cf.user_id INTO v_user_id;
+
+    IF v_user_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        'booking'::TEXT,
+        b.id,
+        COALESCE(b.pitch_name, 'Football game'),
+        b.pitch_location,
+        CASE WHEN b.status = 'cancelled'
+            THEN 'Cancelled' || COALESCE(': ' || b.cancellation_reason, '')
+            ELSE 'Pickup game booked on Hagz'
+        END,
+        b.date::DATE,
+        b.time_slot,
+        NULL::TIMESTAMP WITH TIME ZONE,
+        COALESCE(p.slot_duration_minutes, 60),
+        b.status,
+        b.calendar_sequence,
+        b.calendar_updated_at
+    FROM public.bookings b
+    LEFT JOIN public.pitches p ON p.id = b.pitch_id
+    WHERE b.status <> 'skipped'
+      AND b.date::DATE >= v_since
+      AND (p_kind IS NULL OR (p_kind = 'booking' AND b.id = p_source_id))
+      AND (
+          b.created_by = v_user_id
+          OR EXISTS (
+              SELECT 1 FROM public.game_members gm
+              WHERE gm.game_id = b.id AND gm.user_id = v_user_id AND gm.status = 'joined'
+          )
+      );
+
+    RETURN QUERY
+    SELECT
+        'match'::TEXT,
+        m.id,
+        COALESCE(t1.name, 'TBD') || ' vs ' || COALESCE(t2.name, 'TBD'),
+        COALESCE(m.pitch_name, m.pitch_location),
+        'Ranked match' || COALESCE(' · Division ' || m.division, ''),
+        m.match_date::DATE,
+        m.time_slot,
+        NULL::TIMESTAMP WITH TIME ZONE,
+        COALESCE(m.match_duration, 90),
+        m.status,
+        m.calendar_sequence,
+        m.calendar_updated_at
+    FROM public.matches m
+    LEFT JOIN public.teams t1 ON t1.id = m.team1_id
+    LEFT JOIN public.teams t2 ON t2.id = m.team2_id
+    WHERE m.match_date::DATE >= v_since
+      AND (p_kind IS NULL OR (p_kind = 'match' AND m.id = p_source_id))
+      AND EXISTS (
+          SELECT 1 FROM public.team_members tm
+          WHERE tm.user_id = v_user_id AND tm.team_id IN (m.team1_id, m.team2_id)
+      );
+
+    RETURN QUERY
+    SELECT
+        'fixture'::TEXT,
+        tmatch.id,
+        COALESCE(t1.name, 'TBD') || ' vs ' || COALESCE(t2.name, 'TBD'),
+        NULL::TEXT,
+        COALESCE(tour.name, 'Tournament') || ' · Round ' || tmatch.round_number,
+        NULL::DATE,
+        NULL::INTEGER,
+        tmatch.scheduled_time,
+        90,
+        tmatch.status,
+        tmatch.calendar_sequence,
+        tmatch.calendar_updated_at
+    FROM public.tournament_matches tmatch
+    JOIN public.tournaments tour ON tour.id = tmatch.tournament_id
+    LEFT JOIN public.teams t1 ON t1.id = tmatch.team1_id
+    LEFT JOIN public.teams t2 ON t2.id = tmatch.team2_id
+    WHERE tmatch.scheduled_time IS NOT NULL
+      AND tmatch.scheduled_time::DATE >= v_since
+      AND (p_kind IS NULL OR (p_kind = 'fixture' AND tmatch.id = p_source_id))
+      AND (
+          p_kind = 'fixture'
+          OR EXISTS (
+              SELECT 1 FROM public.team_members tm
+              WHERE tm.user_id = v_user_id AND tm.team_id IN (tmatch.team1_id, tmatch.team2_id)
+          )
+      );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_calendar_feed_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_calendar_feed_token() TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_calendar_feed_events(TEXT, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_calendar_feed_events(TEXT, TEXT, UUID) TO service_role;
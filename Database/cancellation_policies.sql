@@ -0,0 +1,307 @@
+-- Cancellation Policies Migration
+-- Per-pitch cancellation rules, soft-cancelled bookings with a reason, and
+-- cancellation fees kept in the payments ledger. Cancelling and leaving go
+-- through cancel_booking and leave_game so the fee and refunds are settled in
+-- the same transaction; series occurrences are skipped and cancelled through
+-- cancel_booking too.
+
+-- Rules, counted back from kick-off
+ALTER TABLE public.pitches
+ADD COLUMN IF NOT EXISTS free_cancellation_hours INTEGER NOT NULL DEFAULT 24 CHECK (free_cancellation_hours >= 0),
+ADD COLUMN IF NOT EXISTS late_cancel_fee_percent NUMERIC(5, 2) NOT NULL DEFAULT 50
+    CHECK (late_cancel_fee_percent BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS no_refund_hours INTEGER NOT NULL DEFAULT 2 CHECK (no_refund_hours >= 0);
+
+ALTER TABLE public.pitches
+DROP CONSTRAINT IF EXISTS pitches_cancellation_window_check;
+
+ALTER TABLE public.pitches
+ADD CONSTRAINT pitches_cancellation_window_check CHECK (no_refund_hours <= free_cancellation_hours);
+
+COMMENT ON COLUMN public.pitches.free_cancellation_hours IS 'Cancelling at least this many hours before kick-off is free';
+COMMENT ON COLUMN public.pitches.late_cancel_fee_percent IS 'Share of the amount paid kept when cancelling inside the free window';
+COMMENT ON COLUMN public.pitches.no_refund_hours IS 'Nothing is refunded when cancelling within this many hours of kick-off';
+
+-- Cancelled bookings stay around with who cancelled, when and why
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+ADD COLUMN IF NOT EXISTS cancellation_fee NUMERIC(10, 2);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_cancelled_by ON public.bookings(cancelled_by) WHERE cancelled_by IS NOT NULL;
+
+-- Fees are their own ledger entries. booking_net_paid already subtracts every
+-- non-charge row from the amount paid, so a re-split never refunds a kept fee.
+ALTER TABLE public.booking_payments
+DROP CONSTRAINT IF EXISTS booking_payments_kind_check;
+
+ALTER TABLE public.booking_payments
+ADD CONSTRAINT booking_payments_kind_check CHECK (kind IN ('charge', 'refund', 'fee'));
+
+-- Hours from now until a booking kicks off
+CREATE OR REPLACE FUNCTION hours_until_kickoff(p_booking public.bookings)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXTRACT(EPOCH FROM (
+        (COALESCE(p_booking.booking_date, p_booking.date::DATE) + make_interval(mins => COALESCE(p_booking.time_slot, 0)))
+        - (NOW() AT TIME ZONE 'UTC')
+    )) / 3600;
+$$;
+
+-- Which tier of the pitch's policy cancelling right now falls in, and the
+-- share of what was paid that is kept (same shape as getCancellationTerms)
+CREATE OR REPLACE FUNCTION booking_cancellation_terms(p_booking public.bookings)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_hours NUMERIC := hours_until_kickoff(p_booking);
+    v_free_hours INTEGER := 24;
+    v_fee_percent NUMERIC := 50;
+    v_no_refund_hours INTEGER := 2;
+BEGIN
+    SELECT p.free_cancellation_hours, p.late_cancel_fee_percent, p.no_refund_hours
+    INTO v_free_hours, v_fee_percent, v_no_refund_hours
+    FROM public.pitches p
+    WHERE p.id = COALESCE(p_booking.pitch_id, '00000000-0000-0000-0000-000000000001');
+
+    IF v_hours >= COALESCE(v_free_hours, 24) THEN
+        RETURN jsonb_build_object('tier', 'free', 'hours_until_start', v_hours, 'fee_percent', 0);
+    END IF;
+    IF v_hours >= COALESCE(v_no_refund_hours, 2) THEN
+        RETURN jsonb_build_object('tier', 'late', 'hours_until_start', v_hours, 'fee_percent', COALESCE(v_fee_percent, 50));
+    END IF;
+    RETURN jsonb_build_object('tier', 'no_refund', 'hours_until_start', v_hours, 'fee_percent', 100);
+END;
+$$;
+
+-- Share of what a member paid that is kept when they leave the game now
+CREATE OR REPLACE FUNCTION leave_fee_percent(p_booking public.bookings, p_user_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT (booking_cancellation_terms(p_booking)->>'fee_percent')::NUMERIC;
+$$;
+
+-- Keep part of what a user paid for a booking as a cancellation fee, capped
+-- at what they've paid. Callers hold the booking row lock.
+CREATE OR REPLACE FUNCTION record_cancellation_fee(p_booking public.bookings, p_user_id UUID, p_amount NUMERIC, p_reason TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_fee NUMERIC := GREATEST(LEAST(COALESCE(p_amount, 0), booking_net_paid(p_booking.id, p_user_id)), 0);
+BEGIN
+    IF v_fee > 0 THEN
+        INSERT INTO public.booking_payments (booking_id, user_id, kind, amount, currency, status, provider, reason)
+        VALUES (p_booking.id, p_user_id, 'fee', v_fee, p_booking.price_currency, 'succeeded', 'ledger',
+                'Cancellation fee: ' || p_reason);
+    END IF;
+
+    RETURN v_fee;
+END;
+$$;
+
+-- Cancel a booking as its organizer. The record is kept with a reason, the
+-- slot is released and the organizer's fee (a share of the whole booking) is
+-- kept; the re-split then queues refunds for everything else that was paid.
+CREATE OR REPLACE FUNCTION cancel_booking(p_booking_id UUID, p_reason TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_booking public.bookings;
+    v_terms JSONB;
+    v_fee NUMERIC;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Booking not found');
+    END IF;
+
+    IF v_booking.created_by IS DISTINCT FROM v_user_id THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer can cancel this game');
+    END IF;
+
+    v_terms := booking_cancellation_terms(v_booking);
+
+    IF v_booking.status = 'cancelled' THEN
+        RETURN json_build_object('success', TRUE, 'message', 'Booking already cancelled', 'terms', v_terms,
+                                 'fee', COALESCE(v_booking.cancellation_fee, 0), 'currency', v_booking.price_currency);
+    END IF;
+
+    v_fee := ROUND(COALESCE(v_booking.price_amount, 0) * (v_terms->>'fee_percent')::NUMERIC / 100, 2);
+
+    UPDATE public.bookings
+    SET status = 'cancelled',
+        cancelled_at = NOW(),
+        cancelled_by = v_user_id,
+        cancellation_reason = p_reason,
+        cancellation_fee = v_fee
+    WHERE id = p_booking_id;
+
+    DELETE FROM public.pitch_bookings WHERE source_type = 'booking' AND source_id = p_booking_id;
+
+    PERFORM record_cancellation_fee(v_booking, v_user_id, v_fee, COALESCE(p_reason, 'Game cancelled'));
+    PERFORM apply_booking_shares(p_booking_id);
+
+    RETURN json_build_object('success', TRUE, 'terms', v_terms, 'fee', v_fee, 'currency', v_booking.price_currency);
+END;
+$$;
+
+-- Leave a game, keeping the late-leave fee from what the player paid. The
+-- re-split after they're gone refunds the rest and moves their share onto
+-- everyone else.
+CREATE OR REPLACE FUNCTION leave_game(p_game_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_booking public.bookings;
+    v_fee NUMERIC := 0;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_game_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Game not found');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.game_members gm WHERE gm.game_id = p_game_id AND gm.user_id = v_user_id
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'You are not in this game');
+    END IF;
+
+    IF v_booking.created_by = v_user_id THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Organizers can''t leave their own game: cancel it instead');
+    END IF;
+
+    -- Nothing is kept from a game that isn't going ahead anyway
+    IF v_booking.status NOT IN ('cancelled', 'skipped', 'rejected') THEN
+        v_fee := record_cancellation_fee(
+            v_booking,
+            v_user_id,
+            ROUND(booking_net_paid(p_game_id, v_user_id) * leave_fee_percent(v_booking, v_user_id) / 100, 2),
+            COALESCE(p_reason, 'Left the game')
+        );
+    END IF;
+
+    DELETE FROM public.game_members gm WHERE gm.game_id = p_game_id AND gm.user_id = v_user_id;
+
+    PERFORM apply_booking_shares(p_game_id);
+
+    RETURN json_build_object('success', TRUE, 'fee', v_fee, 'currency', v_booking.price_currency);
+END;
+$$;
+
+-- Skip one date of a series. It's cancelled like any other game (fee, refunds,
+-- who and why) and then marked skipped so it drops out of the series.
+CREATE OR REPLACE FUNCTION skip_series_occurrence(p_booking_id UUID, p_reason TEXT DEFAULT 'Date skipped')
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result JSON;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = p_booking_id AND b.series_id IS NOT NULL) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'This game isn''t part of a series');
+    END IF;
+
+    v_result := cancel_booking(p_booking_id, p_reason);
+    IF NOT (v_result->>'success')::BOOLEAN THEN
+        RETURN v_result;
+    END IF;
+
+    UPDATE public.bookings SET status = 'skipped' WHERE id = p_booking_id;
+
+    RETURN v_result;
+END;
+$$;
+
+-- Cancel every date of a series from p_from_date on through cancel_booking and
+-- stop the series there, all in one transaction. Returns the cancelled dates so
+-- their members can be told.
+CREATE OR REPLACE FUNCTION cancel_booking_series(p_series_id UUID, p_from_date DATE, p_reason TEXT DEFAULT 'Series cancelled')
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_series public.booking_series;
+    v_occurrence RECORD;
+    v_result JSON;
+    v_cancelled JSONB := '[]'::JSONB;
+    v_fee NUMERIC := 0;
+BEGIN
+    SELECT * INTO v_series FROM public.booking_series WHERE id = p_series_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Series not found');
+    END IF;
+
+    IF v_series.created_by IS DISTINCT FROM v_user_id THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer can cancel this series');
+    END IF;
+
+    FOR v_occurrence IN
+        SELECT b.id, b.pitch_name, b.date, b.time
+        FROM public.bookings b
+        WHERE b.series_id = p_series_id
+          AND b.date >= p_from_date
+          AND b.status NOT IN ('cancelled', 'skipped', 'rejected')
+        ORDER BY b.date
+    LOOP
+        v_result := cancel_booking(v_occurrence.id, p_reason);
+        -- Undo the dates already cancelled rather than stop the series halfway
+        IF NOT (v_result->>'success')::BOOLEAN THEN
+            RAISE EXCEPTION 'Could not cancel the game on %: %', v_occurrence.date, v_result->>'message';
+        END IF;
+
+        v_fee := v_fee + COALESCE((v_result->>'fee')::NUMERIC, 0);
+        v_cancelled := v_cancelled || jsonb_build_object(
+            'id', v_occurrence.id, 'pitch_name', v_occurrence.pitch_name, 'date', v_occurrence.date, 'time', v_occurrence.time
+        );
+    END LOOP;
+
+    IF p_from_date <= v_series.start_date THEN
+        UPDATE public.booking_series SET status = 'cancelled' WHERE id = p_series_id;
+    ELSE
+        UPDATE public.booking_series SET end_date = p_from_date - 1 WHERE id = p_series_id;
+    END IF;
+
+    RETURN json_build_object('success', TRUE, 'cancelled', v_cancelled, 'fee', v_fee,
+                             'currency', COALESCE((SELECT p.price_currency FROM public.pitches p WHERE p.id = v_series.pitch_id), 'USD'));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION booking_cancellation_terms(public.bookings) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION leave_fee_percent(public.bookings, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_cancellation_fee(public.bookings, UUID, NUMERIC, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION cancel_booking(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_game(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION skip_series_occurrence(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_booking_series(UUID, DATE, TEXT) TO authenticated;
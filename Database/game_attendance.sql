@@ -0,0 +1,240 @@
+-- Game Attendance Migration
+-- Records who actually turned up. Every game gets a secret check-in code that
+-- only its organizer and the venue can see; they show it as a QR code and
+-- members scan it on arrival. Organizers and operators can also mark
+-- attendance by hand. No-shows count against a reliability score on the
+-- player's profile, and chronic no-shows can't join public games.
+
+ALTER TABLE public.game_members
+ADD COLUMN IF NOT EXISTS attendance TEXT CHECK (attendance IN ('present', 'no_show')),
+ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS attendance_marked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.game_members.attendance IS 'present or no_show once the game has started; NULL = not recorded';
+COMMENT ON COLUMN public.game_members.attendance_marked_by IS 'Who recorded the attendance (the member themselves when they scanned in)';
+
+-- Kept out of bookings so members of public games can't read the code
+CREATE TABLE IF NOT EXISTS public.game_check_in_codes (
+    game_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+    code TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT, '-', ''),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.game_check_in_codes IS 'Secret code behind each game''s check-in QR; read through get_check_in_code()';
+
+-- No policies: the code is only handed out by get_check_in_code()
+ALTER TABLE public.game_check_in_codes ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS games_attended INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS no_shows INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS reliability_score INTEGER NOT NULL DEFAULT 100 CHECK (reliability_score BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN public.user_profiles.reliability_score IS 'Percentage of recorded games the player turned up to (100 until anything is recorded)';
+
+-- When a game kicks off, in the venue's timezone
+CREATE OR REPLACE FUNCTION game_starts_at(p_game_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT (COALESCE(b.booking_date, b.date::DATE) + make_interval(mins => b.time_slot))
+           AT TIME ZONE COALESCE(v.timezone, 'UTC')
+    FROM public.bookings b
+    LEFT JOIN public.pitches p ON p.id = b.pitch_id
+    LEFT JOIN public.venues v ON v.id = p.venue_id
+    WHERE b.id = p_game_id;
+$$;
+
+-- Check-in opens an hour before kick-off and closes three hours after
+CREATE OR REPLACE FUNCTION check_in_window(p_game_id UUID, OUT opens_at TIMESTAMP WITH TIME ZONE, OUT closes_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT game_starts_at(p_game_id) - INTERVAL '1 hour', game_starts_at(p_game_id) + INTERVAL '3 hours';
+$$;
+
+-- Recount a player's attendance and work out their score again
+CREATE OR REPLACE FUNCTION refresh_player_reliability(p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.user_profiles up
+    SET games_attended = counts.attended,
+        no_shows = counts.missed,
+        reliability_score = CASE
+            WHEN counts.attended + counts.missed = 0 THEN 100
+            ELSE ROUND(100.0 * counts.attended / (counts.attended + counts.missed))::INTEGER
+        END
+    FROM (
+        SELECT COUNT(*) FILTER (WHERE gm.attendance = 'present') AS attended,
+               COUNT(*) FILTER (WHERE gm.attendance = 'no_show') AS missed
+        FROM public.game_members gm
+        WHERE gm.user_id = p_user_id
+    ) counts
+    WHERE up.id = p_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_player_reliability(UUID) FROM PUBLIC;
+
+-- Three or more no-shows and turning up to fewer than 70% of games
+-- (mirrored in src/utils/reliability.ts)
+CREATE OR REPLACE FUNCTION is_chronic_no_show(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE((
+        SELECT up.no_shows >= 3 AND up.reliability_score < 70
+        FROM public.user_profiles up WHERE up.id = p_user_id
+    ), FALSE);
+$$;
+
+-- Chronic no-shows can still play in games they're invited to, just not public ones
+CREATE OR REPLACE FUNCTION block_unreliable_public_joins()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.role <> 'organizer'
+       AND EXISTS (
+           SELECT 1 FROM public.bookings b
+           WHERE b.id = NEW.game_id AND b.is_public AND b.created_by IS DISTINCT FROM NEW.user_id
+       )
+       AND is_chronic_no_show(NEW.user_id) THEN
+        RAISE EXCEPTION 'Too many missed games: you can''t join public games right now';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_block_unreliable_public_joins ON public.game_members;
+CREATE TRIGGER trigger_block_unreliable_public_joins
+    BEFORE INSERT ON public.game_members
+    FOR EACH ROW EXECUTE FUNCTION block_unreliable_public_joins();
+
+-- The code behind a game's check-in QR, for its organizer or the venue
+CREATE OR REPLACE FUNCTION get_check_in_code(p_game_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code TEXT;
+    v_window RECORD;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = p_game_id AND b.created_by = auth.uid())
+       AND NOT is_booking_operator(p_game_id) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer or the venue can show the check-in code');
+    END IF;
+
+    INSERT INTO public.game_check_in_codes (game_id) VALUES (p_game_id)
+    ON CONFLICT (game_id) DO NOTHING;
+
+    SELECT code INTO v_code FROM public.game_check_in_codes WHERE game_id = p_game_id;
+    SELECT * INTO v_window FROM check_in_window(p_game_id);
+
+    RETURN json_build_object('success', TRUE, 'code', v_code, 'opens_at', v_window.opens_at, 'closes_at', v_window.closes_at);
+END;
+$$;
+
+-- A member checks themselves in with the code from the QR
+CREATE OR REPLACE FUNCTION check_in_to_game(p_code TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_game_id UUID;
+    v_window RECORD;
+BEGIN
+    SELECT game_id INTO v_game_id FROM public.game_check_in_codes WHERE code = TRIM(p_code);
+
+    IF v_game_id IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'message', 'This QR code isn''t a check-in code for any game');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.game_members gm
+        WHERE gm.game_id = v_game_id AND gm.user_id = v_user_id AND gm.status = 'joined'
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'game_id', v_game_id, 'message', 'You''re not in this game');
+    END IF;
+
+    SELECT * INTO v_window FROM check_in_window(v_game_id);
+    IF NOW() < v_window.opens_at THEN
+        RETURN json_build_object('success', FALSE, 'game_id', v_game_id, 'message', 'Check-in opens an hour before kick-off');
+    END IF;
+    IF NOW() > v_window.closes_at THEN
+        RETURN json_build_object('success', FALSE, 'game_id', v_game_id, 'message', 'Check-in for this game has closed');
+    END IF;
+
+    UPDATE public.game_members
+    SET attendance = 'present', checked_in_at = NOW(), attendance_marked_by = v_user_id
+    WHERE game_id = v_game_id AND user_id = v_user_id;
+
+    PERFORM refresh_player_reliability(v_user_id);
+
+    RETURN json_build_object('success', TRUE, 'game_id', v_game_id, 'message', 'You''re checked in. Enjoy the game!');
+END;
+$$;
+
+-- The organizer or the venue records (or clears) a member's attendance.
+-- No-shows can only be recorded once the game has kicked off.
+CREATE OR REPLACE FUNCTION mark_attendance(p_game_id UUID, p_user_id UUID, p_attendance TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_window RECORD;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = p_game_id AND b.created_by = auth.uid())
+       AND NOT is_booking_operator(p_game_id) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer or the venue can take attendance');
+    END IF;
+
+    IF p_attendance IS NOT NULL AND p_attendance NOT IN ('present', 'no_show') THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Attendance must be present or no_show');
+    END IF;
+
+    SELECT * INTO v_window FROM check_in_window(p_game_id);
+    IF NOW() < v_window.opens_at OR (p_attendance = 'no_show' AND NOW() < game_starts_at(p_game_id)) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Attendance can be taken once the game is about to start');
+    END IF;
+
+    UPDATE public.game_members
+    SET attendance = p_attendance,
+        checked_in_at = CASE WHEN p_attendance = 'present' THEN COALESCE(checked_in_at, NOW()) END,
+        attendance_marked_by = auth.uid()
+    WHERE game_id = p_game_id AND user_id = p_user_id AND status = 'joined';
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'This player isn''t in the game');
+    END IF;
+
+    PERFORM refresh_player_reliability(p_user_id);
+
+    RETURN json_build_object('success', TRUE);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION game_starts_at(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_chronic_no_show(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_check_in_code(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_in_to_game(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_attendance(UUID, UUID, TEXT) TO authenticated;
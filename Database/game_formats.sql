@@ -0,0 +1,82 @@
+-- Game Formats Migration
+-- Games are played 5-a-side, 7-a-side or 11-a-side instead of always taking
+-- eight players. The organizer picks a format when creating the game, which
+-- sets how many play on each side, how many substitutes can join on top and
+-- how long the match runs. max_players is kept as the game's capacity so the
+-- waitlist and join checks keep working off one number.
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS game_format TEXT CHECK (game_format IN ('5_a_side', '7_a_side', '11_a_side')),
+ADD COLUMN IF NOT EXISTS substitutes INTEGER NOT NULL DEFAULT 0 CHECK (substitutes BETWEEN 0 AND 10),
+ADD COLUMN IF NOT EXISTS match_minutes INTEGER CHECK (match_minutes > 0);
+
+COMMENT ON COLUMN public.bookings.game_format IS '5_a_side, 7_a_side or 11_a_side (NULL for games created before formats)';
+COMMENT ON COLUMN public.bookings.substitutes IS 'Extra players on top of both starting line-ups';
+COMMENT ON COLUMN public.bookings.match_minutes IS 'How long the match runs';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_public_format ON public.bookings(game_format, date) WHERE is_public;
+
+-- Players on each side for a format (mirrored in src/utils/gameFormats.ts)
+CREATE OR REPLACE FUNCTION game_format_players_per_side(p_format TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_format
+        WHEN '5_a_side' THEN 5
+        WHEN '7_a_side' THEN 7
+        WHEN '11_a_side' THEN 11
+    END;
+$$;
+
+-- The format decides the capacity, whatever max_players the client sent
+CREATE OR REPLACE FUNCTION apply_game_format()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.game_format IS NOT NULL THEN
+        NEW.max_players := game_format_players_per_side(NEW.game_format) * 2 + NEW.substitutes;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_game_format ON public.bookings;
+CREATE TRIGGER trigger_apply_game_format
+    BEFORE INSERT OR UPDATE OF game_format, substitutes, max_players ON public.bookings
+    FOR EACH ROW EXECUTE FUNCTION apply_game_format();
+
+-- New games also take their format, substitutes and match length from the organizer
+CREATE OR REPLACE FUNCTION booking_setting_keys()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT ARRAY['time', 'max_players', 'is_public', 'payment_mode', 'per_player_fee',
+                 'game_format', 'substitutes', 'match_minutes'];
+$$;
+
+-- Existing games get the format that fits their player count best, keeping
+-- their capacity: anything left over after both line-ups counts as substitutes
+UPDATE public.bookings
+SET game_format = CASE
+        WHEN COALESCE(max_players, 8) >= 22 THEN '11_a_side'
+        WHEN COALESCE(max_players, 8) >= 14 THEN '7_a_side'
+        ELSE '5_a_side'
+    END,
+    substitutes = LEAST(GREATEST(COALESCE(max_players, 8) - CASE
+        WHEN COALESCE(max_players, 8) >= 22 THEN 22
+        WHEN COALESCE(max_players, 8) >= 14 THEN 14
+        ELSE 10
+    END, 0), 10),
+    match_minutes = CASE
+        WHEN COALESCE(max_players, 8) >= 22 THEN 90
+        WHEN COALESCE(max_players, 8) >= 14 THEN 60
+        ELSE 50
+    END
+WHERE game_format IS NULL
+  AND COALESCE(max_players, 8) >= 10;
+
+GRANT EXECUTE ON FUNCTION game_format_players_per_side(TEXT) TO authenticated;
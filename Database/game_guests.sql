@@ -0,0 +1,391 @@
+-- Game Guests Migration
+-- Organizers can put friends who don't have the app on a game as guests. A
+-- guest takes a spot like a member does, shows up in the roster, and gets an
+-- invite code they can use to claim an account later. Claiming turns that spot,
+-- and every guest spot booked under the account's verified email or phone, into
+-- a membership, so their history carries over.
+
+CREATE TABLE IF NOT EXISTS public.game_guests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    game_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    email TEXT,
+    phone TEXT,
+    claim_token TEXT NOT NULL UNIQUE DEFAULT upper(substr(md5(random()::TEXT || clock_timestamp()::TEXT), 1, 10)),
+    claimed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_guests_game ON public.game_guests(game_id) WHERE claimed_by IS NULL;
+CREATE INDEX IF NOT EXISTS idx_game_guests_email ON public.game_guests(lower(email)) WHERE claimed_by IS NULL;
+CREATE INDEX IF NOT EXISTS idx_game_guests_phone ON public.game_guests(phone) WHERE claimed_by IS NULL;
+
+COMMENT ON TABLE public.game_guests IS 'Players without an account who have a spot in a game';
+COMMENT ON COLUMN public.game_guests.claim_token IS 'Code the guest uses to claim their spots with a real account';
+COMMENT ON COLUMN public.game_guests.claimed_by IS 'Account the guest spot was merged into (it is a membership from then on)';
+
+-- Unclaimed guests per game, so capacity checks don't need another query
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS guest_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.bookings.guest_count IS 'Unclaimed guest spots (kept up to date by triggers)';
+
+-- Row Level Security: organizers manage their game's guests. Members see the
+-- guest names through get_game_guests so contact details stay private.
+ALTER TABLE public.game_guests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organizers can view their game guests" ON public.game_guests
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = game_id AND b.created_by = auth.uid())
+    );
+
+CREATE POLICY "Organizers can add game guests" ON public.game_guests
+    FOR INSERT WITH CHECK (
+        added_by = auth.uid() AND
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = game_id AND b.created_by = auth.uid())
+    );
+
+CREATE POLICY "Organizers can remove game guests" ON public.game_guests
+    FOR DELETE USING (
+        claimed_by IS NULL AND
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = game_id AND b.created_by = auth.uid())
+    );
+
+-- A guest needs a free spot, just like a joining player
+CREATE OR REPLACE FUNCTION check_guest_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking public.bookings;
+    v_joined INTEGER;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = NEW.game_id FOR UPDATE;
+
+    SELECT COUNT(*) INTO v_joined
+    FROM public.game_members gm WHERE gm.game_id = NEW.game_id AND gm.status = 'joined';
+
+    IF v_joined + v_booking.guest_count + waitlist_reserved_spots(NEW.game_id) >= COALESCE(v_booking.max_players, 8) THEN
+        RAISE EXCEPTION 'Game is full';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_guest_capacity ON public.game_guests;
+CREATE TRIGGER check_guest_capacity
+    BEFORE INSERT ON public.game_guests
+    FOR EACH ROW EXECUTE FUNCTION check_guest_capacity();
+
+CREATE OR REPLACE FUNCTION sync_booking_guest_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_game_id UUID := COALESCE(NEW.game_id, OLD.game_id);
+BEGIN
+    UPDATE public.bookings b
+    SET guest_count = (
+        SELECT COUNT(*) FROM public.game_guests g
+        WHERE g.game_id = v_game_id AND g.claimed_by IS NULL
+    )
+    WHERE b.id = v_game_id;
+
+    -- A removed guest frees a spot for the waitlist
+    IF TG_OP = 'DELETE' AND OLD.claimed_by IS NULL THEN
+        PERFORM promote_waitlist(v_game_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_booking_guest_count ON public.game_guests;
+CREATE TRIGGER sync_booking_guest_count
+    AFTER INSERT OR UPDATE OF claimed_by OR DELETE ON public.game_guests
+    FOR EACH ROW EXECUTE FUNCTION sync_booking_guest_count();
+
+-- The game's guests for its members; contact details and invite codes only
+-- for the organizer
+CREATE OR REPLACE FUNCTION get_game_guests(p_game_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_is_organizer BOOLEAN;
+BEGIN
+    SELECT b.created_by = auth.uid() INTO v_is_organizer FROM public.bookings b WHERE b.id = p_game_id;
+
+    IF NOT COALESCE(v_is_organizer, FALSE) AND NOT EXISTS (
+        SELECT 1 FROM public.game_members gm
+        WHERE gm.game_id = p_game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+    ) THEN
+        RETURN '[]'::JSON;
+    END IF;
+
+    RETURN COALESCE((
+        SELECT json_agg(json_build_object(
+            'id', g.id,
+            'name', g.name,
+            'email', CASE WHEN v_is_organizer THEN g.email END,
+            'phone', CASE WHEN v_is_organizer THEN g.phone END,
+            'claim_token', CASE WHEN v_is_organizer THEN g.claim_token END,
+            'created_at', g.created_at
+        ) ORDER BY g.created_at)
+        FROM public.game_guests g
+        WHERE g.game_id = p_game_id AND g.claimed_by IS NULL
+    ), '[]'::JSON);
+END;
+$$;
+
+-- Claim a guest invite with the current account. The invite's own spot becomes
+-- a membership, and so does every other unclaimed guest spot booked under the
+-- email or phone the account has verified (never the invite's own contact
+-- details, which anyone holding the token could have typed in)
+CREATE OR REPLACE FUNCTION claim_guest_invite(p_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_guest public.game_guests;
+    v_email TEXT;
+    v_phone TEXT;
+    v_merged INTEGER;
+BEGIN
+    SELECT * INTO v_guest FROM public.game_guests WHERE claim_token = UPPER(TRIM(p_token)) FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'That guest invite doesn''t exist');
+    END IF;
+
+    IF v_guest.claimed_by IS NOT NULL THEN
+        IF v_guest.claimed_by = v_user_id THEN
+            RETURN json_build_object('success', TRUE, 'game_id', v_guest.game_id, 'merged', 0);
+        END IF;
+        RETURN json_build_object('success', FALSE, 'message', 'This guest invite has already been claimed');
+    END IF;
+
+    SELECT CASE WHEN u.email_confirmed_at IS NOT NULL THEN lower(u.email) END,
+           CASE WHEN u.phone_confirmed_at IS NOT NULL THEN NULLIF(regexp_replace(u.phone, '\D', '', 'g'), '') END
+    INTO v_email, v_phone
+    FROM auth.users u
+    WHERE u.id = v_user_id;
+
+    WITH claimed AS (
+        UPDATE public.game_guests g
+        SET claimed_by = v_user_id, claimed_at = NOW()
+        WHERE g.claimed_by IS NULL AND (
+            g.id = v_guest.id
+            OR (v_email IS NOT NULL AND lower(g.email) = v_email)
+            OR (v_phone IS NOT NULL AND regexp_replace(g.phone, '\D', '', 'g') = v_phone)
+        )
+        RETURNING g.game_id
+    ),
+    joined AS (
+        INSERT INTO public.game_members (game_id, user_id, role, status)
+        SELECT DISTINCT c.game_id, v_user_id, 'player', 'joined' FROM claimed c
+        ON CONFLICT (game_id, user_id) DO UPDATE SET status = 'joined'
+        RETURNING game_id
+    )
+    SELECT COUNT(*) INTO v_merged FROM joined;
+
+    RETURN json_build_object('success', TRUE, 'game_id', v_guest.game_id, 'merged', v_merged);
+END;
+$$;
+
+-- Guests take spots too, so the waitlist and join code capacity checks count them
+
+CREATE OR REPLACE FUNCTION promote_waitlist(p_game_id UUID)
+RETURNS TABLE (user_id UUID, offer_expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking public.bookings;
+    v_joined INTEGER;
+    v_free INTEGER;
+BEGIN
+    -- Serialize promotions for the same game
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_game_id FOR UPDATE;
+
+    IF NOT FOUND OR v_booking.status IN ('cancelled', 'skipped') THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.game_waitlist w
+    SET status = 'expired'
+    WHERE w.game_id = p_game_id AND w.status = 'offered' AND w.offer_expires_at <= NOW();
+
+    SELECT COUNT(*) INTO v_joined
+    FROM public.game_members gm WHERE gm.game_id = p_game_id AND gm.status = 'joined';
+
+    v_free := COALESCE(v_booking.max_players, 8) - v_joined - v_booking.guest_count - waitlist_reserved_spots(p_game_id);
+
+    IF v_free <= 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.game_waitlist w
+    SET status = 'offered',
+        offered_at = NOW(),
+        offer_expires_at = NOW() + make_interval(mins => v_booking.waitlist_acceptance_minutes)
+    WHERE w.id IN (
+        SELECT next.id FROM public.game_waitlist next
+        WHERE next.game_id = p_game_id AND next.status = 'waiting'
+        ORDER BY next.created_at
+        LIMIT v_free
+    )
+    RETURNING w.user_id, w.offer_expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION join_waitlist(p_game_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking public.bookings;
+    v_joined INTEGER;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_game_id;
+
+    IF NOT FOUND OR v_booking.status IN ('cancelled', 'skipped') THEN
+        RETURN json_build_object('success', false, 'message', 'This game is no longer available');
+    END IF;
+
+    IF NOT v_booking.is_public THEN
+        RETURN json_build_object('success', false, 'message', 'Only public games have a waitlist');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.game_members gm
+        WHERE gm.game_id = p_game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+    ) THEN
+        RETURN json_build_object('success', false, 'message', 'You are already in this game');
+    END IF;
+
+    SELECT COUNT(*) INTO v_joined
+    FROM public.game_members gm WHERE gm.game_id = p_game_id AND gm.status = 'joined';
+
+    IF v_joined + v_booking.guest_count + waitlist_reserved_spots(p_game_id) < COALESCE(v_booking.max_players, 8) THEN
+        RETURN json_build_object('success', false, 'message', 'This game still has space, join it directly');
+    END IF;
+
+    INSERT INTO public.game_waitlist (game_id, user_id, status, created_at)
+    VALUES (p_game_id, auth.uid(), 'waiting', NOW())
+    ON CONFLICT (game_id, user_id) DO UPDATE
+    SET status = 'waiting', offered_at = NULL, offer_expires_at = NULL, created_at = NOW()
+    WHERE public.game_waitlist.status NOT IN ('waiting', 'offered');
+
+    RETURN json_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION join_game_with_code(p_code TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_code public.game_join_codes;
+    v_booking public.bookings;
+    v_problem TEXT;
+    v_joined INTEGER;
+BEGIN
+    SELECT * INTO v_code FROM public.game_join_codes WHERE code = UPPER(TRIM(p_code)) FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'That join code doesn''t match any game');
+    END IF;
+
+    -- Serialize joins so the last spot can't be taken twice
+    SELECT * INTO v_booking FROM public.bookings WHERE id = v_code.game_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM public.game_members gm
+        WHERE gm.game_id = v_code.game_id AND gm.user_id = v_user_id AND gm.status = 'joined'
+    ) THEN
+        RETURN json_build_object('success', TRUE, 'game_id', v_code.game_id);
+    END IF;
+
+    v_problem := join_code_problem(v_code);
+    IF v_problem IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'game_id', v_code.game_id, 'message', v_problem);
+    END IF;
+
+    SELECT COUNT(*) INTO v_joined
+    FROM public.game_members gm WHERE gm.game_id = v_code.game_id AND gm.status = 'joined';
+
+    IF v_joined + v_booking.guest_count + waitlist_reserved_spots(v_code.game_id, v_user_id) >= COALESCE(v_booking.max_players, 8) THEN
+        RETURN json_build_object('success', FALSE, 'game_id', v_code.game_id, 'message', 'Game is full');
+    END IF;
+
+    INSERT INTO public.game_members (game_id, user_id, role, status)
+    VALUES (v_code.game_id, v_user_id, 'player', 'joined')
+    ON CONFLICT (game_id, user_id) DO UPDATE SET status = 'joined', role = 'player';
+
+    UPDATE public.game_join_codes SET uses = uses + 1 WHERE game_id = v_code.game_id;
+
+    RETURN json_build_object('success', TRUE, 'game_id', v_code.game_id);
+END;
+$$;
+
+-- Previews of a join code count guests among the players
+CREATE OR REPLACE FUNCTION get_join_code_game(p_code TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code public.game_join_codes;
+    v_booking public.bookings;
+    v_joined INTEGER;
+BEGIN
+    SELECT * INTO v_code FROM public.game_join_codes WHERE code = UPPER(TRIM(p_code));
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'That join code doesn''t match any game');
+    END IF;
+
+    SELECT * INTO v_booking FROM public.bookings WHERE id = v_code.game_id;
+    SELECT COUNT(*) INTO v_joined
+    FROM public.game_members gm WHERE gm.game_id = v_code.game_id AND gm.status = 'joined';
+
+    RETURN json_build_object(
+        'success', TRUE,
+        'game_id', v_booking.id,
+        'pitch_name', v_booking.pitch_name,
+        'pitch_location', v_booking.pitch_location,
+        'date', v_booking.date,
+        'time', v_booking.time,
+        'players', v_joined + v_booking.guest_count,
+        'max_players', v_booking.max_players,
+        'is_member', v_booking.created_by = auth.uid() OR EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = v_code.game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+        ),
+        'problem', join_code_problem(v_code)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_game_guests(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_guest_invite(TEXT) TO authenticated;
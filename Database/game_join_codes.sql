@@ -0,0 +1,263 @@
+-- Game Join Codes Migration
+-- Private games can be shared with a join code, either typed in or opened as
+-- a hagz://game/<code> link. A game has at most one code at a time; the
+-- organizer can give it an expiry and a use limit, regenerate it (which kills
+-- the old one) or revoke it. Codes are only handed out and redeemed through
+-- the functions below, so nobody can list them.
+
+CREATE TABLE IF NOT EXISTS public.game_join_codes (
+    game_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+    code TEXT NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+    uses INTEGER NOT NULL DEFAULT 0,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.game_join_codes IS 'Shareable code for joining a game without a personal invite';
+COMMENT ON COLUMN public.game_join_codes.expires_at IS 'When the code stops working (NULL = until the game is over)';
+COMMENT ON COLUMN public.game_join_codes.max_uses IS 'How many players can join with the code (NULL = unlimited)';
+
+-- No policies: codes are only read through the functions below
+ALTER TABLE public.game_join_codes ENABLE ROW LEVEL SECURITY;
+
+-- Eight characters without look-alikes (no 0/O or 1/I) so codes are easy to type
+CREATE OR REPLACE FUNCTION generate_join_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    v_code TEXT;
+BEGIN
+    LOOP
+        SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1), '')
+        INTO v_code
+        FROM generate_series(1, 8);
+
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM public.game_join_codes WHERE code = v_code);
+    END LOOP;
+    RETURN v_code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_join_code() FROM PUBLIC;
+
+-- Why a code can't be used right now, or NULL when it can
+CREATE OR REPLACE FUNCTION join_code_problem(p_code public.game_join_codes)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_code.revoked_at IS NOT NULL THEN 'This invite link has been turned off by the organizer'
+        WHEN p_code.expires_at IS NOT NULL AND p_code.expires_at <= NOW() THEN 'This invite link has expired'
+        WHEN p_code.max_uses IS NOT NULL AND p_code.uses >= p_code.max_uses THEN 'This invite link has been used up'
+        WHEN game_starts_at(p_code.game_id) <= NOW() THEN 'This game has already started'
+        WHEN EXISTS (
+            SELECT 1 FROM public.bookings b
+            WHERE b.id = p_code.game_id AND b.status IN ('cancelled', 'skipped', 'rejected')
+        ) THEN 'This game has been cancelled'
+    END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION join_code_problem(public.game_join_codes) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION join_code_json(p_code public.game_join_codes)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT json_build_object(
+        'success', TRUE,
+        'code', p_code.code,
+        'expires_at', p_code.expires_at,
+        'max_uses', p_code.max_uses,
+        'uses', p_code.uses,
+        'revoked', p_code.revoked_at IS NOT NULL
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION join_code_json(public.game_join_codes) FROM PUBLIC;
+
+-- The game's current code for its organizer (code is NULL when there isn't one)
+CREATE OR REPLACE FUNCTION get_game_join_code(p_game_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code public.game_join_codes;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = p_game_id AND b.created_by = auth.uid()) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer can share the game');
+    END IF;
+
+    SELECT * INTO v_code FROM public.game_join_codes WHERE game_id = p_game_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', TRUE, 'code', NULL);
+    END IF;
+
+    RETURN join_code_json(v_code);
+END;
+$$;
+
+-- Create the game's code, or replace it with a fresh one (the old code stops working)
+CREATE OR REPLACE FUNCTION regenerate_game_join_code(p_game_id UUID, p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL, p_max_uses INTEGER DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code public.game_join_codes;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = p_game_id AND b.created_by = auth.uid()) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer can share the game');
+    END IF;
+
+    IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+        RETURN json_build_object('success', FALSE, 'message', 'The expiry has to be in the future');
+    END IF;
+
+    IF p_max_uses IS NOT NULL AND p_max_uses <= 0 THEN
+        RETURN json_build_object('success', FALSE, 'message', 'The use limit has to be at least 1');
+    END IF;
+
+    INSERT INTO public.game_join_codes (game_id, code, expires_at, max_uses, uses, revoked_at, created_by, created_at)
+    VALUES (p_game_id, generate_join_code(), p_expires_at, p_max_uses, 0, NULL, auth.uid(), NOW())
+    ON CONFLICT (game_id) DO UPDATE
+    SET code = EXCLUDED.code,
+        expires_at = EXCLUDED.expires_at,
+        max_uses = EXCLUDED.max_uses,
+        uses = 0,
+        revoked_at = NULL,
+        created_by = EXCLUDED.created_by,
+        created_at = EXCLUDED.created_at
+    RETURNING * INTO v_code;
+
+    RETURN join_code_json(v_code);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_game_join_code(p_game_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = p_game_id AND b.created_by = auth.uid()) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer can share the game');
+    END IF;
+
+    UPDATE public.game_join_codes SET revoked_at = NOW()
+    WHERE game_id = p_game_id AND revoked_at IS NULL;
+
+    RETURN json_build_object('success', TRUE);
+END;
+$$;
+
+-- What someone opening an invite link gets to see before joining
+CREATE OR REPLACE FUNCTION get_join_code_game(p_code TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code public.game_join_codes;
+    v_booking public.bookings;
+    v_joined INTEGER;
+BEGIN
+    SELECT * INTO v_code FROM public.game_join_codes WHERE code = UPPER(TRIM(p_code));
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'That join code doesn''t match any game');
+    END IF;
+
+    SELECT * INTO v_booking FROM public.bookings WHERE id = v_code.game_id;
+    SELECT COUNT(*) INTO v_joined
+    FROM public.game_members gm WHERE gm.game_id = v_code.game_id AND gm.status = 'joined';
+
+    RETURN json_build_object(
+        'success', TRUE,
+        'game_id', v_booking.id,
+        'pitch_name', v_booking.pitch_name,
+        'pitch_location', v_booking.pitch_location,
+        'date', v_booking.date,
+        'time', v_booking.time,
+        'players', v_joined,
+        'max_players', v_booking.max_players,
+        'is_member', v_booking.created_by = auth.uid() OR EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = v_code.game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+        ),
+        'problem', join_code_problem(v_code)
+    );
+END;
+$$;
+
+-- Join a game with its code; counts a use of the code
+CREATE OR REPLACE FUNCTION join_game_with_code(p_code TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_code public.game_join_codes;
+    v_booking public.bookings;
+    v_problem TEXT;
+    v_joined INTEGER;
+BEGIN
+    SELECT * INTO v_code FROM public.game_join_codes WHERE code = UPPER(TRIM(p_code)) FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'That join code doesn''t match any game');
+    END IF;
+
+    -- Serialize joins so the last spot can't be taken twice
+    SELECT * INTO v_booking FROM public.bookings WHERE id = v_code.game_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM public.game_members gm
+        WHERE gm.game_id = v_code.game_id AND gm.user_id = v_user_id AND gm.status = 'joined'
+    ) THEN
+        RETURN json_build_object('success', TRUE, 'game_id', v_code.game_id);
+    END IF;
+
+    v_problem := join_code_problem(v_code);
+    IF v_problem IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'game_id', v_code.game_id, 'message', v_problem);
+    END IF;
+
+    SELECT COUNT(*) INTO v_joined
+    FROM public.game_members gm WHERE gm.game_id = v_code.game_id AND gm.status = 'joined';
+
+    IF v_joined + waitlist_reserved_spots(v_code.game_id, v_user_id) >= COALESCE(v_booking.max_players, 8) THEN
+        RETURN json_build_object('success', FALSE, 'game_id', v_code.game_id, 'message', 'Game is full');
+    END IF;
+
+    INSERT INTO public.game_members (game_id, user_id, role, status)
+    VALUES (v_code.game_id, v_user_id, 'player', 'joined')
+    ON CONFLICT (game_id, user_id) DO UPDATE SET status = 'joined', role = 'player';
+
+    UPDATE public.game_join_codes SET uses = uses + 1 WHERE game_id = v_code.game_id;
+
+    RETURN json_build_object('success', TRUE, 'game_id', v_code.game_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_game_join_code(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION regenerate_game_join_code(UUID, TIMESTAMP WITH TIME ZONE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_game_join_code(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_join_code_game(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_game_with_code(TEXT) TO authenticated;
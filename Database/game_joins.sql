@@ -0,0 +1,159 @@
+-- Game Joins Migration
+-- Players join games through join_game, which locks the booking row first so
+-- two players can't both take the last spot. Guests, spots offered to the
+-- waitlist and spots kept for positions nobody has claimed yet all count as
+-- taken, for joins through a join code too. Private games only take players
+-- who have their join code or an invitation. Rejoining keeps a member's role.
+-- Run after game_guests.sql.
+
+-- Why a player can't take a spot in the game right now, or NULL if they can.
+-- Callers hold the booking row lock.
+CREATE OR REPLACE FUNCTION game_join_problem(p_booking public.bookings, p_user_id UUID, p_position TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_taken INTEGER;
+    v_held INTEGER;
+    v_needed TEXT;
+BEGIN
+    IF p_booking.status IN ('cancelled', 'skipped', 'rejected') THEN
+        RETURN 'This game is no longer available';
+    END IF;
+
+    IF p_booking.is_public
+       AND p_booking.created_by IS DISTINCT FROM p_user_id
+       AND is_chronic_no_show(p_user_id) THEN
+        RETURN 'Too many missed games: you can''t join public games right now';
+    END IF;
+
+    SELECT COUNT(*) INTO v_taken
+    FROM public.game_members gm
+    WHERE gm.game_id = p_booking.id AND gm.status = 'joined' AND gm.user_id <> p_user_id;
+
+    v_taken := v_taken + p_booking.guest_count + waitlist_reserved_spots(p_booking.id, p_user_id);
+
+    IF v_taken >= COALESCE(p_booking.max_players, 8) THEN
+        RETURN 'Game is full';
+    END IF;
+
+    IF p_position IS NOT NULL THEN
+        IF position_spots_left(p_booking.id, p_position, p_user_id) <= 0 THEN
+            RETURN format('This game doesn''t need another %s', p_position);
+        END IF;
+        RETURN NULL;
+    END IF;
+
+    -- Spots for positions nobody has claimed yet are kept for those positions
+    SELECT COALESCE(SUM(GREATEST(position_spots_left(p_booking.id, position.key, p_user_id), 0)), 0),
+           string_agg(position.key, ', ' ORDER BY position.key)
+               FILTER (WHERE position_spots_left(p_booking.id, position.key, p_user_id) > 0)
+    INTO v_held, v_needed
+    FROM jsonb_each_text(p_booking.open_positions) position;
+
+    IF v_taken + v_held >= COALESCE(p_booking.max_players, 8) THEN
+        RETURN 'The spots left are for positions: ' || v_needed;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION game_join_problem(public.bookings, UUID, TEXT) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION join_game(p_game_id UUID, p_position TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_booking public.bookings;
+    v_problem TEXT;
+BEGIN
+    -- Serialize joins so the last spot can't be taken twice
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_game_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Game not found');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.game_members gm
+        WHERE gm.game_id = p_game_id AND gm.user_id = v_user_id AND gm.status = 'joined'
+    ) THEN
+        RETURN json_build_object('success', TRUE, 'game_id', p_game_id);
+    END IF;
+
+    -- Private games are joined through their join code or an invitation
+    IF NOT v_booking.is_public AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.game_id = p_game_id AND n.user_id = v_user_id
+          AND n.type = 'game_invitation' AND n.status IN ('pending', 'accepted')
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'This game is private: join it with its join code or an invitation');
+    END IF;
+
+    v_problem := game_join_problem(v_booking, v_user_id, p_position);
+    IF v_problem IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'message', v_problem);
+    END IF;
+
+    INSERT INTO public.game_members (game_id, user_id, role, position, status)
+    VALUES (p_game_id, v_user_id, 'player', p_position, 'joined')
+    ON CONFLICT (game_id, user_id) DO UPDATE
+    SET status = 'joined', position = EXCLUDED.position;
+
+    RETURN json_build_object('success', TRUE, 'game_id', p_game_id);
+END;
+$$;
+
+-- Same as game_guests.sql, but with join_game's checks, so spots held for
+-- open positions can't be taken through a join code either
+CREATE OR REPLACE FUNCTION join_game_with_code(p_code TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_code public.game_join_codes;
+    v_booking public.bookings;
+    v_problem TEXT;
+BEGIN
+    SELECT * INTO v_code FROM public.game_join_codes WHERE code = UPPER(TRIM(p_code)) FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'That join code doesn''t match any game');
+    END IF;
+
+    -- Serialize joins so the last spot can't be taken twice
+    SELECT * INTO v_booking FROM public.bookings WHERE id = v_code.game_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM public.game_members gm
+        WHERE gm.game_id = v_code.game_id AND gm.user_id = v_user_id AND gm.status = 'joined'
+    ) THEN
+        RETURN json_build_object('success', TRUE, 'game_id', v_code.game_id);
+    END IF;
+
+    v_problem := COALESCE(join_code_problem(v_code), game_join_problem(v_booking, v_user_id));
+    IF v_problem IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'game_id', v_code.game_id, 'message', v_problem);
+    END IF;
+
+    INSERT INTO public.game_members (game_id, user_id, role, status)
+    VALUES (v_code.game_id, v_user_id, 'player', 'joined')
+    ON CONFLICT (game_id, user_id) DO UPDATE SET status = 'joined';
+
+    UPDATE public.game_join_codes SET uses = uses + 1 WHERE game_id = v_code.game_id;
+
+    RETURN json_build_object('success', TRUE, 'game_id', v_code.game_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_game(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_game_with_code(TEXT) TO authenticated;
@@ -0,0 +1,125 @@
+-- Game Positions Migration
+-- Organizers can say which positions a game still needs (for example 1 GK,
+-- 2 DEF, 2 MID, 2 FWD) and players claim one of them when they join. Each
+-- booking keeps a positions_needed list of the positions with spots left, so
+-- the public games list can be filtered to games that need your position.
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS open_positions JSONB NOT NULL DEFAULT '{}'::JSONB,
+ADD COLUMN IF NOT EXISTS positions_needed TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.bookings.open_positions IS 'Spots per position, e.g. {"goalkeeper": 1, "defender": 2}';
+COMMENT ON COLUMN public.bookings.positions_needed IS 'Positions that still have a spot left (kept up to date by triggers)';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_positions_needed ON public.bookings USING GIN (positions_needed) WHERE is_public;
+
+ALTER TABLE public.game_members
+ADD COLUMN IF NOT EXISTS position TEXT CHECK (position IN ('goalkeeper', 'defender', 'midfielder', 'forward'));
+
+COMMENT ON COLUMN public.game_members.position IS 'The open position the player claimed when joining (NULL = any)';
+
+-- New games also take their open positions from the organizer
+CREATE OR REPLACE FUNCTION booking_setting_keys()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT ARRAY['time', 'max_players', 'is_public', 'payment_mode', 'per_player_fee',
+                 'game_format', 'substitutes', 'match_minutes', 'open_positions'];
+$$;
+
+-- Spots for a position that nobody in the game has claimed yet
+CREATE OR REPLACE FUNCTION position_spots_left(p_game_id UUID, p_position TEXT, p_exclude_user UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE((b.open_positions->>p_position)::INTEGER, 0) - (
+        SELECT COUNT(*)::INTEGER FROM public.game_members gm
+        WHERE gm.game_id = p_game_id
+          AND gm.position = p_position
+          AND gm.status = 'joined'
+          AND gm.user_id IS DISTINCT FROM p_exclude_user
+    )
+    FROM public.bookings b
+    WHERE b.id = p_game_id;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_positions_needed(p_game_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.bookings b
+    SET positions_needed = ARRAY(
+        SELECT position.key
+        FROM jsonb_each_text(b.open_positions) position
+        WHERE position_spots_left(b.id, position.key) > 0
+        ORDER BY position.key
+    )
+    WHERE b.id = p_game_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_positions_needed(UUID) FROM PUBLIC;
+
+-- A position can only be claimed while the game still has a spot for it
+CREATE OR REPLACE FUNCTION check_position_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.position IS NOT NULL
+       AND NEW.status = 'joined'
+       AND (TG_OP = 'INSERT' OR OLD.position IS DISTINCT FROM NEW.position OR OLD.status IS DISTINCT FROM NEW.status)
+       AND position_spots_left(NEW.game_id, NEW.position, NEW.user_id) <= 0 THEN
+        RAISE EXCEPTION 'This game doesn''t need another %', NEW.position;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_check_position_claim ON public.game_members;
+CREATE TRIGGER trigger_check_position_claim
+    BEFORE INSERT OR UPDATE OF position, status ON public.game_members
+    FOR EACH ROW EXECUTE FUNCTION check_position_claim();
+
+CREATE OR REPLACE FUNCTION sync_member_positions_needed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM refresh_positions_needed(CASE WHEN TG_OP = 'DELETE' THEN OLD.game_id ELSE NEW.game_id END);
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_member_positions_needed ON public.game_members;
+CREATE TRIGGER trigger_sync_member_positions_needed
+    AFTER INSERT OR DELETE OR UPDATE OF position, status ON public.game_members
+    FOR EACH ROW EXECUTE FUNCTION sync_member_positions_needed();
+
+CREATE OR REPLACE FUNCTION sync_booking_positions_needed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM refresh_positions_needed(NEW.id);
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_booking_positions_needed ON public.bookings;
+CREATE TRIGGER trigger_sync_booking_positions_needed
+    AFTER INSERT OR UPDATE OF open_positions ON public.bookings
+    FOR EACH ROW EXECUTE FUNCTION sync_booking_positions_needed();
+
+GRANT EXECUTE ON FUNCTION position_spots_left(UUID, TEXT, UUID) TO authenticated;
@@ -0,0 +1,330 @@
+-- Game Results Migration
+-- Once a pickup game is over its organizer enters the final score (one per
+-- team, so splits into 3 or 4 teams work too) and who scored and assisted.
+-- The players listed then have 24 hours to confirm or dispute it. The result
+-- becomes final when everyone has confirmed (the organizer's own confirmation
+-- is never enough on its own), or when the window closes without a dispute;
+-- a disputed result waits for the organizer to correct it, which
+-- opens a new window. Finalising adds the game to each player's
+-- user_profiles totals in the same transaction, exactly once.
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS matches_played INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS wins INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS draws INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS losses INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS goals INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS assists INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.game_results (
+    game_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+    scores INTEGER[] NOT NULL CHECK (cardinality(scores) BETWEEN 2 AND 4 AND 0 <= ALL(scores)),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'disputed', 'final')),
+    submitted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    confirm_by TIMESTAMP WITH TIME ZONE NOT NULL,
+    finalized_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS public.game_result_players (
+    game_id UUID NOT NULL REFERENCES public.game_results(game_id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    team_index INTEGER CHECK (team_index BETWEEN 0 AND 3),
+    goals INTEGER NOT NULL DEFAULT 0 CHECK (goals >= 0),
+    assists INTEGER NOT NULL DEFAULT 0 CHECK (assists >= 0),
+    PRIMARY KEY (game_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.game_result_responses (
+    game_id UUID NOT NULL REFERENCES public.game_results(game_id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    response TEXT NOT NULL CHECK (response IN ('confirmed', 'disputed')),
+    reason TEXT,
+    responded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (game_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_results_due ON public.game_results(confirm_by) WHERE status = 'pending';
+
+COMMENT ON TABLE public.game_results IS 'The final score of a pickup game, as entered by its organizer';
+COMMENT ON COLUMN public.game_results.scores IS 'Goals per team, in team order (Team A first)';
+COMMENT ON COLUMN public.game_results.confirm_by IS 'Players can confirm or dispute until then; undisputed results become final';
+COMMENT ON COLUMN public.game_result_players.team_index IS '0-based side the player was on, NULL when they were not on a team (no win/draw/loss)';
+COMMENT ON TABLE public.game_result_responses IS 'Players confirming or disputing the entered result';
+
+-- Row Level Security: everyone in the game, and everyone on the result sheet,
+-- can see it. Changes go through the functions below.
+ALTER TABLE public.game_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_result_players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_result_responses ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user organised, joined or played in the game
+CREATE OR REPLACE FUNCTION can_view_game_result(p_game_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = p_game_id AND b.created_by = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = p_game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.game_result_players rp
+            WHERE rp.game_id = p_game_id AND rp.user_id = auth.uid()
+        );
+$$;
+
+CREATE POLICY "Players can view their games' results" ON public.game_results
+    FOR SELECT USING (can_view_game_result(game_id));
+
+CREATE POLICY "Players can view their games' result sheets" ON public.game_result_players
+    FOR SELECT USING (can_view_game_result(game_id));
+
+CREATE POLICY "Players can view confirmations of their games' results" ON public.game_result_responses
+    FOR SELECT USING (can_view_game_result(game_id));
+
+-- Add a pending result to the players' totals and mark it final. Runs inside
+-- the caller's transaction and locks the result, so it can only count once.
+CREATE OR REPLACE FUNCTION finalize_game_result(p_game_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result RECORD;
+BEGIN
+    SELECT * INTO v_result
+    FROM public.game_results
+    WHERE game_id = p_game_id AND status = 'pending'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.user_profiles up
+    SET matches_played = COALESCE(up.matches_played, 0) + 1,
+        goals = COALESCE(up.goals, 0) + o.goals,
+        assists = COALESCE(up.assists, 0) + o.assists,
+        wins = COALESCE(up.wins, 0) + (o.outcome = 'win')::INTEGER,
+        draws = COALESCE(up.draws, 0) + (o.outcome = 'draw')::INTEGER,
+        losses = COALESCE(up.losses, 0) + (o.outcome = 'loss')::INTEGER
+    FROM (
+        SELECT rp.user_id, rp.goals, rp.assists,
+               CASE
+                   WHEN rp.team_index IS NULL THEN NULL
+                   WHEN v_result.scores[rp.team_index + 1] < (SELECT MAX(s) FROM unnest(v_result.scores) s) THEN 'loss'
+                   WHEN (SELECT COUNT(*) FROM unnest(v_result.scores) s WHERE s = v_result.scores[rp.team_index + 1]) > 1 THEN 'draw'
+                   ELSE 'win'
+               END AS outcome
+        FROM public.game_result_players rp
+        WHERE rp.game_id = p_game_id
+    ) o
+    WHERE up.id = o.user_id;
+
+    UPDATE public.game_results
+    SET status = 'final', finalized_at = NOW()
+    WHERE game_id = p_game_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Enter (or correct) a game's result. p_scores holds each team's goals and
+-- p_players is [{user_id, team_index, goals, assists}] for everyone who played.
+CREATE OR REPLACE FUNCTION submit_game_result(p_game_id UUID, p_scores INTEGER[], p_players JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_game RECORD;
+    v_confirm_by TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '24 hours';
+BEGIN
+    SELECT b.created_by, b.status, b.match_minutes INTO v_game
+    FROM public.bookings b
+    WHERE b.id = p_game_id;
+
+    IF NOT FOUND OR v_game.created_by IS DISTINCT FROM auth.uid() THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer can enter the result');
+    END IF;
+
+    IF v_game.status IN ('cancelled', 'skipped', 'rejected') THEN
+        RETURN json_build_object('success', FALSE, 'message', 'This game didn''t go ahead');
+    END IF;
+
+    IF NOW() < game_starts_at(p_game_id) + make_interval(mins => COALESCE(v_game.match_minutes, 60)) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'The result can be entered once the game is over');
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.game_results r WHERE r.game_id = p_game_id AND r.status = 'final') THEN
+        RETURN json_build_object('success', FALSE, 'message', 'This result is already final');
+    END IF;
+
+    IF cardinality(p_scores) NOT BETWEEN 2 AND 4 OR EXISTS (SELECT 1 FROM unnest(p_scores) s WHERE s IS NULL OR s < 0) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Enter a score for every team');
+    END IF;
+
+    IF jsonb_typeof(p_players) <> 'array' OR jsonb_array_length(p_players) = 0 THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Add the players who played');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_players) player
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = p_game_id
+              AND gm.user_id = (player->>'user_id')::UUID
+              AND gm.status = 'joined'
+        )
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only players in the game can be on the result');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_players) player
+        WHERE COALESCE((player->>'goals')::INTEGER, 0) < 0
+           OR COALESCE((player->>'assists')::INTEGER, 0) < 0
+           OR (player->>'team_index')::INTEGER >= cardinality(p_scores)
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Check the teams, goals and assists');
+    END IF;
+
+    -- A team's scorers can't have scored more than the team did
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_players) player
+        WHERE player->>'team_index' IS NOT NULL
+        GROUP BY (player->>'team_index')::INTEGER
+        HAVING SUM(COALESCE((player->>'goals')::INTEGER, 0)) > p_scores[(player->>'team_index')::INTEGER + 1]
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'A team''s goalscorers add up to more than its score');
+    END IF;
+
+    INSERT INTO public.game_results (game_id, scores, status, submitted_by, submitted_at, confirm_by, finalized_at)
+    VALUES (p_game_id, p_scores, 'pending', auth.uid(), NOW(), v_confirm_by, NULL)
+    ON CONFLICT (game_id) DO UPDATE
+    SET scores = EXCLUDED.scores,
+        status = 'pending',
+        submitted_by = EXCLUDED.submitted_by,
+        submitted_at = EXCLUDED.submitted_at,
+        confirm_by = EXCLUDED.confirm_by;
+
+    -- A corrected result is confirmed from scratch
+    DELETE FROM public.game_result_responses WHERE game_id = p_game_id;
+    DELETE FROM public.game_result_players WHERE game_id = p_game_id;
+
+    INSERT INTO public.game_result_players (game_id, user_id, team_index, goals, assists)
+    SELECT DISTINCT ON ((player->>'user_id')::UUID)
+           p_game_id,
+           (player->>'user_id')::UUID,
+           (player->>'team_index')::INTEGER,
+           COALESCE((player->>'goals')::INTEGER, 0),
+           COALESCE((player->>'assists')::INTEGER, 0)
+    FROM jsonb_array_elements(p_players) player;
+
+    -- Entering the result counts as the organizer confirming it. That alone
+    -- never makes it final: another player confirms, or the window runs out.
+    INSERT INTO public.game_result_responses (game_id, user_id, response)
+    SELECT p_game_id, auth.uid(), 'confirmed'
+    WHERE EXISTS (SELECT 1 FROM public.game_result_players rp WHERE rp.game_id = p_game_id AND rp.user_id = auth.uid());
+
+    RETURN json_build_object('success', TRUE, 'status', 'pending', 'confirm_by', v_confirm_by);
+END;
+$$;
+
+-- Confirm or dispute the result of a game you played in. The result is final
+-- as soon as every player has confirmed it, as long as someone besides the
+-- organizer who entered it is among them.
+CREATE OR REPLACE FUNCTION respond_game_result(p_game_id UUID, p_response TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_result RECORD;
+    v_status TEXT;
+BEGIN
+    IF p_response NOT IN ('confirmed', 'disputed') THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Confirm or dispute the result');
+    END IF;
+
+    SELECT * INTO v_result FROM public.game_results WHERE game_id = p_game_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'No result has been entered for this game');
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.game_result_players rp WHERE rp.game_id = p_game_id AND rp.user_id = auth.uid()) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'You are not on this game''s result');
+    END IF;
+
+    IF v_result.status = 'final' OR NOW() >= v_result.confirm_by THEN
+        RETURN json_build_object('success', FALSE, 'message', 'This result can no longer be changed');
+    END IF;
+
+    INSERT INTO public.game_result_responses (game_id, user_id, response, reason, responded_at)
+    VALUES (p_game_id, auth.uid(), p_response, NULLIF(TRIM(p_reason), ''), NOW())
+    ON CONFLICT (game_id, user_id) DO UPDATE
+    SET response = EXCLUDED.response, reason = EXCLUDED.reason, responded_at = NOW();
+
+    v_status := CASE
+        WHEN EXISTS (SELECT 1 FROM public.game_result_responses rr WHERE rr.game_id = p_game_id AND rr.response = 'disputed')
+        THEN 'disputed' ELSE 'pending'
+    END;
+
+    UPDATE public.game_results SET status = v_status WHERE game_id = p_game_id;
+
+    IF v_status = 'pending' AND NOT EXISTS (
+        SELECT 1 FROM public.game_result_players rp
+        WHERE rp.game_id = p_game_id
+          AND NOT EXISTS (
+              SELECT 1 FROM public.game_result_responses rr
+              WHERE rr.game_id = p_game_id AND rr.user_id = rp.user_id AND rr.response = 'confirmed'
+          )
+    ) AND EXISTS (
+        SELECT 1 FROM public.game_result_responses rr
+        WHERE rr.game_id = p_game_id AND rr.response = 'confirmed' AND rr.user_id IS DISTINCT FROM v_result.submitted_by
+    ) THEN
+        PERFORM finalize_game_result(p_game_id);
+        v_status := 'final';
+    END IF;
+
+    RETURN json_build_object('success', TRUE, 'status', v_status);
+END;
+$$;
+
+-- Used by the server's cron job: finalise every undisputed result whose
+-- confirmation window has closed. Returns the players of each one to notify.
+CREATE OR REPLACE FUNCTION finalize_due_game_results()
+RETURNS TABLE (game_id UUID, user_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_game_id UUID;
+BEGIN
+    FOR v_game_id IN
+        SELECT r.game_id FROM public.game_results r
+        WHERE r.status = 'pending' AND r.confirm_by <= NOW()
+    LOOP
+        IF finalize_game_result(v_game_id) THEN
+            RETURN QUERY
+            SELECT rp.game_id, rp.user_id FROM public.game_result_players rp WHERE rp.game_id = v_game_id;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION finalize_game_result(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION finalize_due_game_results() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION submit_game_result(UUID, INTEGER[], JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_game_result(UUID, TEXT, TEXT) TO authenticated;
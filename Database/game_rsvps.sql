@@ -0,0 +1,177 @@
+-- Game RSVPs Migration
+-- Before kick-off every member is asked whether they're still coming, at the
+-- times the organizer picked (24 and 3 hours before by default). Later rounds
+-- only go to members who haven't said yes yet. Anyone who doesn't answer gets
+-- up to two reminders, the last one also flagging them to the organizer.
+-- Saying no takes the member out of the game through leave_game, which frees
+-- the spot for the waitlist. Answers outlive the membership so the organizer's attendance board
+-- still shows who dropped out.
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS rsvp_hours_before INTEGER[] NOT NULL DEFAULT '{24,3}'
+    CHECK (rsvp_hours_before <@ '{1,3,6,12,24,48}'::INTEGER[]);
+
+COMMENT ON COLUMN public.bookings.rsvp_hours_before IS 'Hours before kick-off when members are asked to confirm (empty = no RSVP rounds)';
+
+CREATE TABLE IF NOT EXISTS public.game_rsvps (
+    game_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    response TEXT NOT NULL DEFAULT 'pending' CHECK (response IN ('pending', 'yes', 'no', 'maybe')),
+    round INTEGER NOT NULL DEFAULT 0,
+    prompted_at TIMESTAMP WITH TIME ZONE,
+    reminders_sent INTEGER NOT NULL DEFAULT 0,
+    last_reminded_at TIMESTAMP WITH TIME ZONE,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (game_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_rsvps_pending ON public.game_rsvps(game_id) WHERE response = 'pending';
+
+COMMENT ON TABLE public.game_rsvps IS 'Members'' answers to the "still coming?" prompts before a game';
+COMMENT ON COLUMN public.game_rsvps.round IS 'How many of the game''s RSVP rounds this member has been asked in';
+
+-- Row Level Security: the game's organizer and members see the board, players
+-- always see their own answer. Answers go through respond_game_rsvp.
+ALTER TABLE public.game_rsvps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own RSVPs" ON public.game_rsvps
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Game members can view the game's RSVPs" ON public.game_rsvps
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = game_id AND b.created_by = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = game_rsvps.game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+        )
+    );
+
+-- Answer the prompt for a game you're in. Declining leaves the game in the same
+-- transaction, so the fee, refunds and waitlist offers run as for any other
+-- leave, and the no is only recorded once the member is out.
+CREATE OR REPLACE FUNCTION respond_game_rsvp(p_game_id UUID, p_response TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_left JSON;
+BEGIN
+    IF p_response NOT IN ('yes', 'no', 'maybe') THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Answer yes, no or maybe');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.game_members gm
+        WHERE gm.game_id = p_game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'You are not in this game');
+    END IF;
+
+    IF game_starts_at(p_game_id) <= NOW() THEN
+        RETURN json_build_object('success', FALSE, 'message', 'This game has already started');
+    END IF;
+
+    IF p_response = 'no' THEN
+        v_left := leave_game(p_game_id, 'Can''t make it');
+        IF NOT (v_left->>'success')::BOOLEAN THEN
+            RETURN v_left;
+        END IF;
+    END IF;
+
+    INSERT INTO public.game_rsvps (game_id, user_id, response, responded_at)
+    VALUES (p_game_id, auth.uid(), p_response, NOW())
+    ON CONFLICT (game_id, user_id) DO UPDATE
+    SET response = EXCLUDED.response, responded_at = NOW();
+
+    -- A decline also carries leave_game's fee and waitlist offers
+    RETURN COALESCE(v_left, json_build_object('success', TRUE));
+END;
+$$;
+
+-- Used by the server's cron job: open any RSVP round that's due and send
+-- reminders to members who haven't answered. Returns who to notify:
+--   prompt   - asked "still coming?" for the round
+--   reminder - still hasn't answered (level 1, then 2 which also tells the organizer)
+CREATE OR REPLACE FUNCTION process_rsvp_rounds()
+RETURNS TABLE (game_id UUID, user_id UUID, organizer_id UUID, kind TEXT, level INTEGER, starts_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_game RECORD;
+    v_round INTEGER;
+    v_round_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    FOR v_game IN
+        SELECT b.id, b.created_by, b.rsvp_hours_before, game_starts_at(b.id) AS starts_at
+        FROM public.bookings b
+        WHERE b.status NOT IN ('cancelled', 'skipped', 'rejected', 'pending_approval')
+          AND cardinality(b.rsvp_hours_before) > 0
+          AND COALESCE(b.booking_date, b.date::DATE) BETWEEN CURRENT_DATE - 1 AND CURRENT_DATE + 3
+    LOOP
+        CONTINUE WHEN v_game.starts_at IS NULL OR v_game.starts_at <= NOW();
+
+        -- Rounds whose time has come, and when the latest of them opened
+        SELECT COUNT(*), MAX(v_game.starts_at - make_interval(hours => h))
+        INTO v_round, v_round_at
+        FROM unnest(v_game.rsvp_hours_before) h
+        WHERE v_game.starts_at - make_interval(hours => h) <= NOW();
+
+        CONTINUE WHEN v_round = 0;
+
+        -- Joining after a round opened counts as a yes for that round
+        INSERT INTO public.game_rsvps AS r (game_id, user_id, response, round, responded_at)
+        SELECT gm.game_id, gm.user_id, 'yes', v_round, gm.joined_at
+        FROM public.game_members gm
+        WHERE gm.game_id = v_game.id AND gm.status = 'joined'
+          AND gm.user_id IS DISTINCT FROM v_game.created_by
+          AND gm.joined_at >= v_round_at
+        ON CONFLICT ON CONSTRAINT game_rsvps_pkey DO UPDATE
+        SET response = 'yes', round = EXCLUDED.round, responded_at = EXCLUDED.responded_at
+        WHERE r.round < EXCLUDED.round AND r.response <> 'yes';
+
+        RETURN QUERY
+        WITH asked AS (
+            INSERT INTO public.game_rsvps AS r (game_id, user_id, response, round, prompted_at, reminders_sent)
+            SELECT gm.game_id, gm.user_id, 'pending', v_round, NOW(), 0
+            FROM public.game_members gm
+            WHERE gm.game_id = v_game.id AND gm.status = 'joined'
+              AND gm.user_id IS DISTINCT FROM v_game.created_by
+            ON CONFLICT ON CONSTRAINT game_rsvps_pkey DO UPDATE
+            SET response = 'pending', round = EXCLUDED.round, prompted_at = NOW(),
+                reminders_sent = 0, last_reminded_at = NULL, responded_at = NULL
+            WHERE r.round < EXCLUDED.round AND r.response <> 'yes'
+            RETURNING r.game_id, r.user_id
+        )
+        SELECT a.game_id, a.user_id, v_game.created_by, 'prompt'::TEXT, 0, v_game.starts_at FROM asked a;
+
+        -- Reminders at a third and two thirds of the way from the prompt to kick-off
+        RETURN QUERY
+        WITH reminded AS (
+            UPDATE public.game_rsvps r
+            SET reminders_sent = r.reminders_sent + 1, last_reminded_at = NOW()
+            WHERE r.game_id = v_game.id
+              AND r.response = 'pending'
+              AND r.reminders_sent < 2
+              AND r.prompted_at IS NOT NULL
+              AND NOW() >= r.prompted_at + (v_game.starts_at - r.prompted_at) * ((r.reminders_sent + 1) / 3.0)::FLOAT8
+              AND EXISTS (
+                  SELECT 1 FROM public.game_members gm
+                  WHERE gm.game_id = r.game_id AND gm.user_id = r.user_id AND gm.status = 'joined'
+              )
+            RETURNING r.game_id, r.user_id, r.reminders_sent
+        )
+        SELECT m.game_id, m.user_id, v_game.created_by, 'reminder'::TEXT, m.reminders_sent, v_game.starts_at FROM reminded m;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION process_rsvp_rounds() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION respond_game_rsvp(UUID, TEXT) TO authenticated;
+
+-- The organizer's attendance board updates live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.game_rsvps;
@@ -0,0 +1,107 @@
+-- Game Teams Migration
+-- The organizer of a pickup game can split its players into balanced sides
+-- before kick-off (the split itself is worked out in the app, see
+-- src/utils/teamBalance.ts). Publishing replaces any earlier split and every
+-- member of the game can see it. Players the organizer locked together keep a
+-- shared lock_group so the next reshuffle keeps them on the same side.
+
+CREATE TABLE IF NOT EXISTS public.game_teams (
+    game_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+    team_count INTEGER NOT NULL CHECK (team_count BETWEEN 2 AND 4),
+    published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    published_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.game_team_players (
+    game_id UUID NOT NULL REFERENCES public.game_teams(game_id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    team_index INTEGER NOT NULL CHECK (team_index BETWEEN 0 AND 3),
+    lock_group INTEGER,
+    PRIMARY KEY (game_id, user_id)
+);
+
+COMMENT ON TABLE public.game_teams IS 'The published team split of a pickup game';
+COMMENT ON COLUMN public.game_team_players.team_index IS '0-based side the player is on (Team A = 0)';
+COMMENT ON COLUMN public.game_team_players.lock_group IS 'Players sharing a lock group are always put on the same side';
+
+ALTER TABLE public.game_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_team_players ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view the teams of their games" ON public.game_teams
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = game_id AND b.created_by = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = game_teams.game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+        )
+    );
+
+CREATE POLICY "Members can view the team players of their games" ON public.game_team_players
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = game_id AND b.created_by = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = game_team_players.game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+        )
+    );
+
+-- Replace a game's team split. p_players is [{user_id, team_index, lock_group}]
+-- and must only name players who are in the game.
+CREATE OR REPLACE FUNCTION publish_game_teams(p_game_id UUID, p_players JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_team_count INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = p_game_id AND b.created_by = auth.uid()) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer can pick the teams');
+    END IF;
+
+    IF jsonb_typeof(p_players) <> 'array' OR jsonb_array_length(p_players) = 0 THEN
+        RETURN json_build_object('success', FALSE, 'message', 'There are no players to split');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_players) player
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.game_members gm
+            WHERE gm.game_id = p_game_id
+              AND gm.user_id = (player->>'user_id')::UUID
+              AND gm.status = 'joined'
+        )
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Someone in the split has left the game. Please generate the teams again.');
+    END IF;
+
+    SELECT MAX((player->>'team_index')::INTEGER) + 1 INTO v_team_count
+    FROM jsonb_array_elements(p_players) player;
+
+    IF v_team_count NOT BETWEEN 2 AND 4 THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Games can be split into 2 to 4 teams');
+    END IF;
+
+    INSERT INTO public.game_teams (game_id, team_count, published_by, published_at)
+    VALUES (p_game_id, v_team_count, auth.uid(), NOW())
+    ON CONFLICT (game_id) DO UPDATE
+    SET team_count = EXCLUDED.team_count,
+        published_by = EXCLUDED.published_by,
+        published_at = EXCLUDED.published_at;
+
+    DELETE FROM public.game_team_players WHERE game_id = p_game_id;
+
+    INSERT INTO public.game_team_players (game_id, user_id, team_index, lock_group)
+    SELECT DISTINCT ON ((player->>'user_id')::UUID)
+           p_game_id,
+           (player->>'user_id')::UUID,
+           (player->>'team_index')::INTEGER,
+           NULLIF(player->>'lock_group', '')::INTEGER
+    FROM jsonb_array_elements(p_players) player;
+
+    RETURN json_build_object('success', TRUE, 'team_count', v_team_count);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION publish_game_teams(UUID, JSONB) TO authenticated;
@@ -0,0 +1,339 @@
+-- Game Waitlist Migration
+-- Players can queue for a full public game. When a spot opens the next person
+-- in line gets an offer that holds the spot for the game's acceptance window;
+-- if they don't take it in time the offer moves on to the next person. Spots
+-- are offered by the functions that free them (leaving the game, leaving the
+-- queue, turning down or missing an offer), which return the new offers so
+-- the app can tell those players.
+
+-- How long a waitlist offer holds a spot, per game
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS waitlist_acceptance_minutes INTEGER NOT NULL DEFAULT 30
+    CHECK (waitlist_acceptance_minutes BETWEEN 5 AND 1440);
+
+COMMENT ON COLUMN public.bookings.waitlist_acceptance_minutes IS 'Minutes a waitlisted player has to accept an open spot';
+
+CREATE TABLE IF NOT EXISTS public.game_waitlist (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    game_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'waiting'
+        CHECK (status IN ('waiting', 'offered', 'accepted', 'declined', 'expired', 'left')),
+    offered_at TIMESTAMP WITH TIME ZONE,
+    offer_expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (game_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_waitlist_queue ON public.game_waitlist(game_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_game_waitlist_offers ON public.game_waitlist(offer_expires_at) WHERE status = 'offered';
+
+COMMENT ON TABLE public.game_waitlist IS 'Queue of players waiting for a spot in a full game';
+
+CREATE TRIGGER update_game_waitlist_updated_at
+    BEFORE UPDATE ON public.game_waitlist
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security: players see their own entries, organizers see their game's queue.
+-- All changes go through the functions below.
+ALTER TABLE public.game_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own waitlist entries" ON public.game_waitlist
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Organizers can view their game waitlists" ON public.game_waitlist
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = game_id AND b.created_by = auth.uid())
+    );
+
+-- Spots held by offers that are still open
+CREATE OR REPLACE FUNCTION waitlist_reserved_spots(p_game_id UUID, p_exclude_user UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.game_waitlist w
+    WHERE w.game_id = p_game_id
+      AND w.status = 'offered'
+      AND w.offer_expires_at > NOW()
+      AND w.user_id IS DISTINCT FROM p_exclude_user;
+$$;
+
+-- Expire stale offers and offer every free spot to the next people in line.
+-- Returns the players who just received an offer so they can be notified.
+CREATE OR REPLACE FUNCTION promote_waitlist(p_game_id UUID)
+RETURNS TABLE (user_id UUID, offer_expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking public.bookings;
+    v_joined INTEGER;
+    v_free INTEGER;
+BEGIN
+    -- Serialize promotions for the same game
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_game_id FOR UPDATE;
+
+    IF NOT FOUND OR v_booking.status IN ('cancelled', 'skipped') THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.game_waitlist w
+    SET status = 'expired'
+    WHERE w.game_id = p_game_id AND w.status = 'offered' AND w.offer_expires_at <= NOW();
+
+    SELECT COUNT(*) INTO v_joined
+    FROM public.game_members gm WHERE gm.game_id = p_game_id AND gm.status = 'joined';
+
+    v_free := COALESCE(v_booking.max_players, 8) - v_joined - waitlist_reserved_spots(p_game_id);
+
+    IF v_free <= 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.game_waitlist w
+    SET status = 'offered',
+        offered_at = NOW(),
+        offer_expires_at = NOW() + make_interval(mins => v_booking.waitlist_acceptance_minutes)
+    WHERE w.id IN (
+        SELECT next.id FROM public.game_waitlist next
+        WHERE next.game_id = p_game_id AND next.status = 'waiting'
+        ORDER BY next.created_at
+        LIMIT v_free
+    )
+    RETURNING w.user_id, w.offer_expires_at;
+END;
+$$;
+
+-- Queue the current user for a full game (re-joining goes to the back of the line)
+CREATE OR REPLACE FUNCTION join_waitlist(p_game_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking public.bookings;
+    v_joined INTEGER;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_game_id;
+
+    IF NOT FOUND OR v_booking.status IN ('cancelled', 'skipped') THEN
+        RETURN json_build_object('success', false, 'message', 'This game is no longer available');
+    END IF;
+
+    IF NOT v_booking.is_public THEN
+        RETURN json_build_object('success', false, 'message', 'Only public games have a waitlist');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.game_members gm
+        WHERE gm.game_id = p_game_id AND gm.user_id = auth.uid() AND gm.status = 'joined'
+    ) THEN
+        RETURN json_build_object('success', false, 'message', 'You are already in this game');
+    END IF;
+
+    SELECT COUNT(*) INTO v_joined
+    FROM public.game_members gm WHERE gm.game_id = p_game_id AND gm.status = 'joined';
+
+    IF v_joined + waitlist_reserved_spots(p_game_id) < COALESCE(v_booking.max_players, 8) THEN
+        RETURN json_build_object('success', false, 'message', 'This game still has space, join it directly');
+    END IF;
+
+    INSERT INTO public.game_waitlist (game_id, user_id, status, created_at)
+    VALUES (p_game_id, auth.uid(), 'waiting', NOW())
+    ON CONFLICT (game_id, user_id) DO UPDATE
+    SET status = 'waiting', offered_at = NULL, offer_expires_at = NULL, created_at = NOW()
+    WHERE public.game_waitlist.status NOT IN ('waiting', 'offered');
+
+    RETURN json_build_object('success', true);
+END;
+$$;
+
+-- promote_waitlist's new offers as a JSON array
+CREATE OR REPLACE FUNCTION promote_waitlist_json(p_game_id UUID)
+RETURNS JSON
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(json_agg(json_build_object('user_id', p.user_id, 'offer_expires_at', p.offer_expires_at)), '[]'::JSON)
+    FROM promote_waitlist(p_game_id) p;
+$$;
+
+-- Leave the queue, or turn down an open offer and pass the spot on. It used to
+-- return nothing, so the old version is dropped first.
+DROP FUNCTION IF EXISTS leave_waitlist(UUID);
+
+CREATE OR REPLACE FUNCTION leave_waitlist(p_game_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.game_waitlist w
+    SET status = CASE WHEN w.status = 'offered' THEN 'declined' ELSE 'left' END
+    WHERE w.game_id = p_game_id AND w.user_id = auth.uid() AND w.status IN ('waiting', 'offered');
+
+    RETURN json_build_object('success', true, 'offers', promote_waitlist_json(p_game_id));
+END;
+$$;
+
+-- Take an open offer: the held spot becomes a membership
+CREATE OR REPLACE FUNCTION accept_waitlist_offer(p_game_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_entry public.game_waitlist;
+BEGIN
+    SELECT * INTO v_entry
+    FROM public.game_waitlist w
+    WHERE w.game_id = p_game_id AND w.user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_entry.status <> 'offered' THEN
+        RETURN json_build_object('success', false, 'message', 'You have no open offer for this game');
+    END IF;
+
+    IF v_entry.offer_expires_at <= NOW() THEN
+        UPDATE public.game_waitlist SET status = 'expired' WHERE id = v_entry.id;
+        RETURN json_build_object('success', false, 'message', 'This offer has expired',
+                                 'offers', promote_waitlist_json(p_game_id));
+    END IF;
+
+    INSERT INTO public.game_members (game_id, user_id, role, status)
+    VALUES (p_game_id, auth.uid(), 'player', 'joined')
+    ON CONFLICT (game_id, user_id) DO UPDATE SET status = 'joined';
+
+    UPDATE public.game_waitlist SET status = 'accepted' WHERE id = v_entry.id;
+
+    -- Other offers may have run out while this one was open
+    RETURN json_build_object('success', true, 'offers', promote_waitlist_json(p_game_id));
+END;
+$$;
+
+-- The current user's place in the queue plus how many spots are held by offers
+CREATE OR REPLACE FUNCTION get_waitlist_summary(p_game_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_entry public.game_waitlist;
+    v_position INTEGER;
+BEGIN
+    SELECT * INTO v_entry
+    FROM public.game_waitlist w
+    WHERE w.game_id = p_game_id AND w.user_id = auth.uid();
+
+    IF FOUND AND v_entry.status = 'waiting' THEN
+        SELECT COUNT(*) + 1 INTO v_position
+        FROM public.game_waitlist w
+        WHERE w.game_id = p_game_id AND w.status = 'waiting' AND w.created_at < v_entry.created_at;
+    END IF;
+
+    RETURN json_build_object(
+        'status', CASE
+            WHEN v_entry.id IS NULL THEN NULL
+            WHEN v_entry.status = 'offered' AND v_entry.offer_expires_at <= NOW() THEN 'expired'
+            ELSE v_entry.status
+        END,
+        'position', v_position,
+        'offer_expires_at', v_entry.offer_expires_at,
+        'waiting_count', (SELECT COUNT(*) FROM public.game_waitlist w WHERE w.game_id = p_game_id AND w.status = 'waiting'),
+        'reserved_spots', waitlist_reserved_spots(p_game_id, auth.uid())
+    );
+END;
+$$;
+
+-- Used by the server's cron job: pass every expired offer on to the next player.
+-- Returns the new offers so the server can notify them.
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS TABLE (game_id UUID, user_id UUID, offer_expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_game_id UUID;
+BEGIN
+    FOR v_game_id IN
+        SELECT DISTINCT w.game_id FROM public.game_waitlist w
+        WHERE w.status = 'offered' AND w.offer_expires_at <= NOW()
+    LOOP
+        RETURN QUERY
+        SELECT v_game_id, p.user_id, p.offer_expires_at FROM promote_waitlist(v_game_id) p;
+    END LOOP;
+END;
+$$;
+
+-- Same as cancellation_policies.sql, but the freed spot is offered to the
+-- waitlist in the same transaction
+CREATE OR REPLACE FUNCTION leave_game(p_game_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_booking public.bookings;
+    v_fee NUMERIC := 0;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_game_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Game not found');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.game_members gm WHERE gm.game_id = p_game_id AND gm.user_id = v_user_id
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'You are not in this game');
+    END IF;
+
+    IF v_booking.created_by = v_user_id THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Organizers can''t leave their own game: cancel it instead');
+    END IF;
+
+    -- Nothing is kept from a game that isn't going ahead anyway
+    IF v_booking.status NOT IN ('cancelled', 'skipped', 'rejected') THEN
+        v_fee := record_cancellation_fee(
+            v_booking,
+            v_user_id,
+            ROUND(booking_net_paid(p_game_id, v_user_id) * leave_fee_percent(v_booking, v_user_id) / 100, 2),
+            COALESCE(p_reason, 'Left the game')
+        );
+    END IF;
+
+    DELETE FROM public.game_members gm WHERE gm.game_id = p_game_id AND gm.user_id = v_user_id;
+
+    PERFORM apply_booking_shares(p_game_id);
+
+    RETURN json_build_object('success', TRUE, 'fee', v_fee, 'currency', v_booking.price_currency,
+                             'offers', promote_waitlist_json(p_game_id));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION waitlist_reserved_spots(UUID, UUID) TO authenticated;
+-- Spots are only offered by the functions that free them
+REVOKE EXECUTE ON FUNCTION promote_waitlist(UUID) FROM PUBLIC, authenticated;
+REVOKE EXECUTE ON FUNCTION promote_waitlist_json(UUID) FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION join_waitlist(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_waitlist(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_waitlist_offer(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_waitlist_summary(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION expire_waitlist_offers() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION expire_waitlist_offers() TO service_role;
@@ -0,0 +1,439 @@
+-- Match Votes Migration
+-- After a match everyone who played gets 24 hours to vote for an MVP and rate
+-- the other players, teammates and opponents alike, from 1 to 10. Voting opens
+-- when a pickup game's result becomes final (see game_results.sql) or when a
+-- ranked match is completed. Nobody can vote for or rate themselves.
+--
+-- The vote is tallied when the window closes, or as soon as everyone has
+-- voted. The player with the most MVP votes gets the award (ties go to the
+-- better average rating, then share it) and each rated player's rolling
+-- rating becomes the average of their last 10 rated matches.
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS mvps INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS avg_rating NUMERIC(4,2),
+ADD COLUMN IF NOT EXISTS rated_matches INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.user_profiles.avg_rating IS 'Average of the player''s ratings over their last 10 rated matches';
+COMMENT ON COLUMN public.user_profiles.rated_matches IS 'How many matches the player has been rated in';
+
+-- One voting window per pickup game ('game', bookings.id) or ranked match ('match', matches.id)
+CREATE TABLE IF NOT EXISTS public.match_vote_windows (
+    source TEXT NOT NULL CHECK (source IN ('game', 'match')),
+    source_id UUID NOT NULL,
+    opens_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    closes_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+    prompted_at TIMESTAMP WITH TIME ZONE,
+    tallied_at TIMESTAMP WITH TIME ZONE,
+    mvp_ids UUID[] NOT NULL DEFAULT '{}',
+    PRIMARY KEY (source, source_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.match_votes (
+    source TEXT NOT NULL,
+    source_id UUID NOT NULL,
+    voter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    mvp_id UUID REFERENCES auth.users(id) ON DELETE SET NULL CHECK (mvp_id <> voter_id),
+    voted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (source, source_id, voter_id),
+    FOREIGN KEY (source, source_id) REFERENCES public.match_vote_windows(source, source_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS public.match_ratings (
+    source TEXT NOT NULL,
+    source_id UUID NOT NULL,
+    voter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    player_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 10),
+    PRIMARY KEY (source, source_id, voter_id, player_id),
+    CHECK (player_id <> voter_id),
+    FOREIGN KEY (source, source_id, voter_id) REFERENCES public.match_votes(source, source_id, voter_id) ON DELETE CASCADE
+);
+
+-- Each player's outcome once a vote is tallied; feeds the rolling rating
+CREATE TABLE IF NOT EXISTS public.match_player_ratings (
+    source TEXT NOT NULL,
+    source_id UUID NOT NULL,
+    player_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    avg_rating NUMERIC(4,2),
+    ratings INTEGER NOT NULL DEFAULT 0,
+    mvp_votes INTEGER NOT NULL DEFAULT 0,
+    is_mvp BOOLEAN NOT NULL DEFAULT FALSE,
+    tallied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (source, source_id, player_id),
+    FOREIGN KEY (source, source_id) REFERENCES public.match_vote_windows(source, source_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_vote_windows_open ON public.match_vote_windows(closes_at) WHERE tallied_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_match_player_ratings_player ON public.match_player_ratings(player_id, tallied_at DESC);
+
+COMMENT ON TABLE public.match_vote_windows IS 'Post-match MVP and rating votes for a pickup game or ranked match';
+COMMENT ON TABLE public.match_votes IS 'Each participant''s MVP pick';
+COMMENT ON TABLE public.match_ratings IS 'Each participant''s 1-10 ratings of the other players';
+COMMENT ON TABLE public.match_player_ratings IS 'Tallied rating and MVP votes per player and match';
+
+-- Row Level Security: ballots stay private, tallied results are public.
+-- Voting goes through submit_match_vote and reading through get_match_vote.
+ALTER TABLE public.match_vote_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.match_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.match_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.match_player_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view vote windows" ON public.match_vote_windows
+    FOR SELECT USING (TRUE);
+
+CREATE POLICY "Users can view their own votes" ON public.match_votes
+    FOR SELECT USING (auth.uid() = voter_id);
+
+CREATE POLICY "Users can view their own ratings" ON public.match_ratings
+    FOR SELECT USING (auth.uid() = voter_id);
+
+CREATE POLICY "Anyone can view tallied ratings" ON public.match_player_ratings
+    FOR SELECT USING (TRUE);
+
+-- Who played: the result sheet of a pickup game, both squads of a ranked
+-- match. side tells teammates from opponents.
+CREATE OR REPLACE FUNCTION match_vote_participants(p_source TEXT, p_source_id UUID)
+RETURNS TABLE (user_id UUID, side TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT rp.user_id, rp.team_index::TEXT
+    FROM public.game_result_players rp
+    WHERE p_source = 'game' AND rp.game_id = p_source_id
+    UNION
+    SELECT tm.user_id, tm.team_id::TEXT
+    FROM public.matches m
+    JOIN public.team_members tm ON tm.team_id IN (m.team1_id, m.team2_id)
+    WHERE p_source = 'match' AND m.id = p_source_id;
+$$;
+
+CREATE OR REPLACE FUNCTION open_match_vote(p_source TEXT, p_source_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO public.match_vote_windows (source, source_id)
+    VALUES (p_source, p_source_id)
+    ON CONFLICT (source, source_id) DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION open_game_result_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM open_match_vote('game', NEW.game_id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION open_ranked_match_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM open_match_vote('match', NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS open_vote_on_final_result ON public.game_results;
+CREATE TRIGGER open_vote_on_final_result
+    AFTER UPDATE OF status ON public.game_results
+    FOR EACH ROW
+    WHEN (NEW.status = 'final' AND OLD.status IS DISTINCT FROM 'final')
+    EXECUTE FUNCTION open_game_result_vote();
+
+DROP TRIGGER IF EXISTS open_vote_on_completed_match ON public.matches;
+CREATE TRIGGER open_vote_on_completed_match
+    AFTER UPDATE OF status ON public.matches
+    FOR EACH ROW
+    WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+    EXECUTE FUNCTION open_ranked_match_vote();
+
+-- Count a window's votes, award the MVP and refresh the rolling ratings.
+-- Locks the window so a vote is only ever tallied once.
+CREATE OR REPLACE FUNCTION tally_match_vote(p_source TEXT, p_source_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_mvp_ids UUID[];
+BEGIN
+    PERFORM 1 FROM public.match_vote_windows w
+    WHERE w.source = p_source AND w.source_id = p_source_id AND w.tallied_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.match_player_ratings (source, source_id, player_id, avg_rating, ratings, mvp_votes)
+    SELECT p_source, p_source_id, p.user_id,
+           (SELECT ROUND(AVG(mr.rating), 2) FROM public.match_ratings mr
+            WHERE mr.source = p_source AND mr.source_id = p_source_id AND mr.player_id = p.user_id),
+           (SELECT COUNT(*) FROM public.match_ratings mr
+            WHERE mr.source = p_source AND mr.source_id = p_source_id AND mr.player_id = p.user_id),
+           (SELECT COUNT(*) FROM public.match_votes mv
+            WHERE mv.source = p_source AND mv.source_id = p_source_id AND mv.mvp_id = p.user_id)
+    FROM (SELECT DISTINCT vp.user_id FROM match_vote_participants(p_source, p_source_id) vp) p
+    ON CONFLICT (source, source_id, player_id) DO NOTHING;
+
+    -- Most MVP votes wins; a tie goes to the better rating, and is shared if that's level too
+    SELECT array_agg(r.player_id) INTO v_mvp_ids
+    FROM public.match_player_ratings r
+    WHERE r.source = p_source AND r.source_id = p_source_id
+      AND r.mvp_votes > 0
+      AND (r.mvp_votes, COALESCE(r.avg_rating, 0)) = (
+          SELECT best.mvp_votes, COALESCE(best.avg_rating, 0)
+          FROM public.match_player_ratings best
+          WHERE best.source = p_source AND best.source_id = p_source_id
+          ORDER BY best.mvp_votes DESC, best.avg_rating DESC NULLS LAST
+          LIMIT 1
+      );
+
+    v_mvp_ids := COALESCE(v_mvp_ids, '{}');
+
+    UPDATE public.match_player_ratings
+    SET is_mvp = TRUE
+    WHERE source = p_source AND source_id = p_source_id AND player_id = ANY(v_mvp_ids);
+
+    UPDATE public.user_profiles
+    SET mvps = COALESCE(mvps, 0) + 1
+    WHERE id = ANY(v_mvp_ids);
+
+    UPDATE public.user_profiles up
+    SET avg_rating = recent.avg_rating,
+        rated_matches = recent.rated_matches
+    FROM (
+        SELECT r.player_id,
+               ROUND(AVG(r.avg_rating) FILTER (WHERE r.rn <= 10), 2) AS avg_rating,
+               COUNT(*)::INTEGER AS rated_matches
+        FROM (
+            SELECT mpr.player_id, mpr.avg_rating,
+                   ROW_NUMBER() OVER (PARTITION BY mpr.player_id ORDER BY mpr.tallied_at DESC) AS rn
+            FROM public.match_player_ratings mpr
+            WHERE mpr.avg_rating IS NOT NULL
+              AND mpr.player_id IN (
+                  SELECT t.player_id FROM public.match_player_ratings t
+                  WHERE t.source = p_source AND t.source_id = p_source_id AND t.avg_rating IS NOT NULL
+              )
+        ) r
+        GROUP BY r.player_id
+    ) recent
+    WHERE up.id = recent.player_id;
+
+    UPDATE public.match_vote_windows
+    SET tallied_at = NOW(), mvp_ids = v_mvp_ids
+    WHERE source = p_source AND source_id = p_source_id;
+
+    RETURN v_mvp_ids;
+END;
+$$;
+
+-- Cast or change your vote: p_ratings is [{player_id, rating}] and may skip
+-- players you'd rather not rate
+CREATE OR REPLACE FUNCTION submit_match_vote(p_source TEXT, p_source_id UUID, p_mvp_id UUID, p_ratings JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_window RECORD;
+BEGIN
+    SELECT * INTO v_window
+    FROM public.match_vote_windows w
+    WHERE w.source = p_source AND w.source_id = p_source_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Voting hasn''t opened for this match');
+    END IF;
+
+    IF v_window.tallied_at IS NOT NULL OR NOW() >= v_window.closes_at THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Voting for this match has closed');
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM match_vote_participants(p_source, p_source_id) vp WHERE vp.user_id = auth.uid()) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only players from this match can vote');
+    END IF;
+
+    IF p_mvp_id = auth.uid() THEN
+        RETURN json_build_object('success', FALSE, 'message', 'You can''t vote for yourself');
+    END IF;
+
+    IF p_mvp_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM match_vote_participants(p_source, p_source_id) vp WHERE vp.user_id = p_mvp_id
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Your MVP pick didn''t play in this match');
+    END IF;
+
+    IF jsonb_typeof(COALESCE(p_ratings, '[]'::JSONB)) <> 'array' THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Ratings must be a list');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(p_ratings, '[]'::JSONB)) rating
+        WHERE (rating->>'player_id')::UUID = auth.uid()
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'You can''t rate yourself');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(p_ratings, '[]'::JSONB)) rating
+        WHERE (rating->>'rating')::INTEGER NOT BETWEEN 1 AND 10
+           OR NOT EXISTS (
+               SELECT 1 FROM match_vote_participants(p_source, p_source_id) vp
+               WHERE vp.user_id = (rating->>'player_id')::UUID
+           )
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Ratings go from 1 to 10 for players in this match');
+    END IF;
+
+    IF p_mvp_id IS NULL AND jsonb_array_length(COALESCE(p_ratings, '[]'::JSONB)) = 0 THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Pick an MVP or rate at least one player');
+    END IF;
+
+    INSERT INTO public.match_votes (source, source_id, voter_id, mvp_id, voted_at)
+    VALUES (p_source, p_source_id, auth.uid(), p_mvp_id, NOW())
+    ON CONFLICT (source, source_id, voter_id) DO UPDATE
+    SET mvp_id = EXCLUDED.mvp_id, voted_at = NOW();
+
+    DELETE FROM public.match_ratings
+    WHERE source = p_source AND source_id = p_source_id AND voter_id = auth.uid();
+
+    INSERT INTO public.match_ratings (source, source_id, voter_id, player_id, rating)
+    SELECT DISTINCT ON ((rating->>'player_id')::UUID)
+           p_source, p_source_id, auth.uid(), (rating->>'player_id')::UUID, (rating->>'rating')::INTEGER
+    FROM jsonb_array_elements(COALESCE(p_ratings, '[]'::JSONB)) rating;
+
+    -- Everyone has voted: no need to wait for the window to close
+    IF NOT EXISTS (
+        SELECT 1 FROM match_vote_participants(p_source, p_source_id) vp
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.match_votes mv
+            WHERE mv.source = p_source AND mv.source_id = p_source_id AND mv.voter_id = vp.user_id
+        )
+    ) THEN
+        PERFORM tally_match_vote(p_source, p_source_id);
+        RETURN json_build_object('success', TRUE, 'tallied', TRUE);
+    END IF;
+
+    RETURN json_build_object('success', TRUE, 'tallied', FALSE);
+END;
+$$;
+
+-- Everything the vote screen needs: the window, who played (with names and
+-- sides), your own ballot and, once tallied, everyone's results
+CREATE OR REPLACE FUNCTION get_match_vote(p_source TEXT, p_source_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_window RECORD;
+BEGIN
+    SELECT * INTO v_window
+    FROM public.match_vote_windows w
+    WHERE w.source = p_source AND w.source_id = p_source_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN json_build_object(
+        'opens_at', v_window.opens_at,
+        'closes_at', v_window.closes_at,
+        'tallied_at', v_window.tallied_at,
+        'mvp_ids', v_window.mvp_ids,
+        'participants', COALESCE((
+            SELECT json_agg(json_build_object(
+                'user_id', vp.user_id,
+                'side', vp.side,
+                'full_name', up.full_name,
+                'username', up.username
+            ) ORDER BY vp.side, up.full_name)
+            FROM match_vote_participants(p_source, p_source_id) vp
+            LEFT JOIN public.user_profiles up ON up.id = vp.user_id
+        ), '[]'::JSON),
+        'voters', (SELECT COUNT(*) FROM public.match_votes mv WHERE mv.source = p_source AND mv.source_id = p_source_id),
+        'my_vote', (
+            SELECT json_build_object(
+                'mvp_id', mv.mvp_id,
+                'ratings', COALESCE((
+                    SELECT json_object_agg(mr.player_id, mr.rating)
+                    FROM public.match_ratings mr
+                    WHERE mr.source = p_source AND mr.source_id = p_source_id AND mr.voter_id = auth.uid()
+                ), '{}'::JSON)
+            )
+            FROM public.match_votes mv
+            WHERE mv.source = p_source AND mv.source_id = p_source_id AND mv.voter_id = auth.uid()
+        ),
+        'results', COALESCE((
+            SELECT json_agg(json_build_object(
+                'player_id', r.player_id,
+                'avg_rating', r.avg_rating,
+                'ratings', r.ratings,
+                'mvp_votes', r.mvp_votes,
+                'is_mvp', r.is_mvp
+            ) ORDER BY r.is_mvp DESC, r.avg_rating DESC NULLS LAST)
+            FROM public.match_player_ratings r
+            WHERE r.source = p_source AND r.source_id = p_source_id
+        ), '[]'::JSON)
+    );
+END;
+$$;
+
+-- Used by the server's cron job: returns who to tell that voting has opened
+-- ('prompt') and, for windows that have closed, who was voted MVP ('mvp')
+CREATE OR REPLACE FUNCTION process_match_votes()
+RETURNS TABLE (kind TEXT, source TEXT, source_id UUID, user_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_window RECORD;
+    v_mvp_ids UUID[];
+BEGIN
+    FOR v_window IN
+        UPDATE public.match_vote_windows w
+        SET prompted_at = NOW()
+        WHERE w.prompted_at IS NULL AND w.tallied_at IS NULL
+        RETURNING w.source, w.source_id
+    LOOP
+        RETURN QUERY
+        SELECT DISTINCT 'prompt'::TEXT, v_window.source, v_window.source_id, vp.user_id
+        FROM match_vote_participants(v_window.source, v_window.source_id) vp;
+    END LOOP;
+
+    FOR v_window IN
+        SELECT w.source, w.source_id FROM public.match_vote_windows w
+        WHERE w.tallied_at IS NULL AND w.closes_at <= NOW()
+    LOOP
+        v_mvp_ids := tally_match_vote(v_window.source, v_window.source_id);
+        RETURN QUERY
+        SELECT 'mvp'::TEXT, v_window.source, v_window.source_id, mvp.id
+        FROM unnest(COALESCE(v_mvp_ids, '{}')) AS mvp(id);
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION open_match_vote(TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION tally_match_vote(TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION process_match_votes() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION submit_match_vote(TEXT, UUID, UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_match_vote(TEXT, UUID) TO authenticated;
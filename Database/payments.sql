@@ -0,0 +1,285 @@
+-- Payments Migration
+-- Structured prices (amount + currency), a per-booking payments ledger and
+-- per-member payment status for cost splitting.
+
+-- Structured prices on pitches and bookings (the old price TEXT stays for display history)
+ALTER TABLE public.pitches
+ADD COLUMN IF NOT EXISTS price_amount NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS price_currency TEXT NOT NULL DEFAULT 'USD';
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS price_amount NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS price_currency TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN IF NOT EXISTS payment_mode TEXT NOT NULL DEFAULT 'organizer_pays'
+    CHECK (payment_mode IN ('organizer_pays', 'split_equally', 'per_player')),
+ADD COLUMN IF NOT EXISTS per_player_fee NUMERIC(10, 2) CHECK (per_player_fee IS NULL OR per_player_fee >= 0);
+
+-- Backfill amounts from display strings like "$25/hour"
+UPDATE public.pitches
+SET price_amount = substring(price FROM '([0-9]+(\.[0-9]+)?)')::NUMERIC
+WHERE price_amount IS NULL AND price ~ '[0-9]';
+
+UPDATE public.bookings
+SET price_amount = substring(price FROM '([0-9]+(\.[0-9]+)?)')::NUMERIC
+WHERE price_amount IS NULL AND price ~ '[0-9]';
+
+COMMENT ON COLUMN public.pitches.price_amount IS 'Price of one slot in price_currency';
+COMMENT ON COLUMN public.bookings.price_amount IS 'Price of the booked slot in price_currency';
+COMMENT ON COLUMN public.bookings.payment_mode IS 'organizer_pays, split_equally across members, or per_player fee';
+
+-- Per-member share and status
+ALTER TABLE public.game_members
+ADD COLUMN IF NOT EXISTS amount_due NUMERIC(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'not_required'
+    CHECK (payment_status IN ('not_required', 'pending', 'paid', 'refunded'));
+
+-- Ledger: one row per charge or refund, never updated except for provider status
+CREATE TABLE IF NOT EXISTS public.booking_payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('charge', 'refund')),
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+    currency TEXT NOT NULL DEFAULT 'USD',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'succeeded', 'failed')),
+    provider TEXT NOT NULL,
+    provider_reference TEXT,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_payments_booking ON public.booking_payments(booking_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_booking_payments_user ON public.booking_payments(user_id);
+
+-- A member has at most one charge in flight per booking
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_payments_pending_charge
+ON public.booking_payments(booking_id, user_id) WHERE kind = 'charge' AND status = 'pending';
+
+COMMENT ON TABLE public.booking_payments IS 'Payments ledger: charges and refunds per booking member';
+COMMENT ON COLUMN public.booking_payments.status IS 'pending charges are with the provider; pending refunds are queued and sending once the payments server has claimed them';
+
+CREATE TRIGGER update_booking_payments_updated_at
+    BEFORE UPDATE ON public.booking_payments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security: members see payments for games they're in, organizers see all of theirs
+ALTER TABLE public.booking_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payments" ON public.booking_payments
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Organizers can view payments for their bookings" ON public.booking_payments
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.created_by = auth.uid())
+    );
+
+-- Nobody can insert from the app: ledger rows are only written by the functions
+-- below and by the payments server (server/payments.js) once it has the
+-- provider's answer
+
+-- New games also take how they're paid for from the organizer
+CREATE OR REPLACE FUNCTION booking_setting_keys()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT ARRAY['time', 'max_players', 'is_public', 'payment_mode', 'per_player_fee'];
+$$;
+
+-- What a member has paid towards a booking: succeeded charges, less refunds
+-- that went through or are still on their way back
+CREATE OR REPLACE FUNCTION booking_net_paid(p_booking_id UUID, p_user_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(SUM(CASE
+        WHEN bp.kind = 'charge' THEN CASE WHEN bp.status = 'succeeded' THEN bp.amount ELSE 0 END
+        WHEN bp.status IN ('pending', 'sending', 'succeeded') THEN -bp.amount
+        ELSE 0
+    END), 0)
+    FROM public.booking_payments bp
+    WHERE bp.booking_id = p_booking_id AND bp.user_id = p_user_id;
+$$;
+
+-- Queue a refund to the member's last payment method. The payments server sends
+-- it through the provider and marks it succeeded or failed; a failed refund
+-- counts as paid again, so the next share sync queues it once more.
+CREATE OR REPLACE FUNCTION queue_member_refund(p_booking_id UUID, p_user_id UUID, p_amount NUMERIC, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_charge public.booking_payments;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_charge FROM public.booking_payments bp
+    WHERE bp.booking_id = p_booking_id AND bp.user_id = p_user_id AND bp.kind = 'charge' AND bp.status = 'succeeded'
+    ORDER BY bp.created_at DESC
+    LIMIT 1;
+
+    INSERT INTO public.booking_payments (booking_id, user_id, kind, amount, currency, status, provider, reason)
+    VALUES (p_booking_id, p_user_id, 'refund', p_amount, v_charge.currency, 'pending', v_charge.provider, p_reason);
+END;
+$$;
+
+-- Recompute every member's share from the booking's payment mode and the ledger,
+-- and queue a refund for anyone who has paid more than they now owe (people
+-- who left owe nothing). Leftover cents from an equal split go to the organizer.
+-- Returns each member's due and paid amounts. Internal: the app goes through
+-- sync_booking_shares and the payments server calls it directly.
+CREATE OR REPLACE FUNCTION apply_booking_shares(p_booking_id UUID)
+RETURNS TABLE (user_id UUID, amount_due NUMERIC, amount_paid NUMERIC, payment_status TEXT, currency TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking public.bookings;
+    v_member_count INTEGER;
+    v_base NUMERIC;
+    v_remainder NUMERIC;
+    v_remainder_holder UUID;
+    v_overpaid RECORD;
+BEGIN
+    -- One re-split at a time per booking, so a refund is never queued twice
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT COUNT(*) INTO v_member_count
+    FROM public.game_members gm WHERE gm.game_id = p_booking_id AND gm.status = 'joined';
+
+    IF v_member_count > 0 THEN
+        v_base := FLOOR(COALESCE(v_booking.price_amount, 0) * 100 / v_member_count) / 100;
+        v_remainder := COALESCE(v_booking.price_amount, 0) - v_base * v_member_count;
+    END IF;
+
+    SELECT COALESCE(
+        (SELECT gm.user_id FROM public.game_members gm
+         WHERE gm.game_id = p_booking_id AND gm.status = 'joined' AND gm.user_id = v_booking.created_by),
+        (SELECT gm.user_id FROM public.game_members gm
+         WHERE gm.game_id = p_booking_id AND gm.status = 'joined' ORDER BY gm.joined_at LIMIT 1)
+    ) INTO v_remainder_holder;
+
+    -- Nobody owes anything for a game that isn't going ahead
+    UPDATE public.game_members gm
+    SET amount_due = CASE
+        WHEN v_booking.status IN ('cancelled', 'skipped', 'rejected') THEN 0
+        ELSE CASE v_booking.payment_mode
+            WHEN 'organizer_pays' THEN CASE WHEN gm.user_id = v_booking.created_by THEN COALESCE(v_booking.price_amount, 0) ELSE 0 END
+            WHEN 'per_player' THEN COALESCE(v_booking.per_player_fee, 0)
+            ELSE v_base + CASE WHEN gm.user_id = v_remainder_holder THEN v_remainder ELSE 0 END
+        END
+    END
+    WHERE gm.game_id = p_booking_id AND gm.status = 'joined';
+
+    FOR v_overpaid IN
+        SELECT payer.user_id, payer.paid - COALESCE(gm.amount_due, 0) AS amount, gm.user_id IS NULL AS departed
+        FROM (
+            SELECT DISTINCT bp.user_id, booking_net_paid(p_booking_id, bp.user_id) AS paid
+            FROM public.booking_payments bp WHERE bp.booking_id = p_booking_id
+        ) payer
+        LEFT JOIN public.game_members gm
+          ON gm.game_id = p_booking_id AND gm.user_id = payer.user_id AND gm.status = 'joined'
+        WHERE payer.paid > COALESCE(gm.amount_due, 0)
+    LOOP
+        PERFORM queue_member_refund(p_booking_id, v_overpaid.user_id, v_overpaid.amount,
+            CASE WHEN v_overpaid.departed THEN 'No longer in the game' ELSE 'Cost split changed' END);
+    END LOOP;
+
+    RETURN QUERY
+    WITH updated AS (
+        UPDATE public.game_members gm
+        SET payment_status = CASE
+            WHEN gm.amount_due <= 0 THEN 'not_required'
+            WHEN booking_net_paid(p_booking_id, gm.user_id) >= gm.amount_due THEN 'paid'
+            ELSE 'pending'
+        END
+        WHERE gm.game_id = p_booking_id AND gm.status = 'joined'
+        RETURNING gm.user_id, gm.amount_due, booking_net_paid(p_booking_id, gm.user_id) AS amount_paid, gm.payment_status
+    )
+    SELECT u.user_id, u.amount_due, u.amount_paid, u.payment_status, v_booking.price_currency FROM updated u;
+END;
+$$;
+
+-- Re-split a booking the current user organizes, is in, or has paid towards
+-- (members who just left still trigger a re-split for everyone else)
+CREATE OR REPLACE FUNCTION sync_booking_shares(p_booking_id UUID)
+RETURNS TABLE (user_id UUID, amount_due NUMERIC, amount_paid NUMERIC, payment_status TEXT, currency TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = p_booking_id AND b.created_by = auth.uid())
+       AND NOT EXISTS (
+           SELECT 1 FROM public.game_members gm WHERE gm.game_id = p_booking_id AND gm.user_id = auth.uid()
+       ) AND NOT EXISTS (
+           SELECT 1 FROM public.booking_payments bp WHERE bp.booking_id = p_booking_id AND bp.user_id = auth.uid()
+       ) THEN
+        RAISE EXCEPTION 'Not allowed to update payments for this booking';
+    END IF;
+
+    RETURN QUERY SELECT * FROM apply_booking_shares(p_booking_id);
+END;
+$$;
+
+-- Start charging a member what they still owe: re-split the booking under its
+-- row lock and record a pending charge for the outstanding amount. The payments
+-- server charges that amount and marks the row succeeded or failed, so two
+-- requests can't both charge the same share.
+CREATE OR REPLACE FUNCTION start_share_charge(p_booking_id UUID, p_user_id UUID, p_provider TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_share RECORD;
+    v_outstanding NUMERIC;
+    v_payment_id UUID;
+BEGIN
+    -- apply_booking_shares holds the booking row lock until we commit
+    SELECT * INTO v_share FROM apply_booking_shares(p_booking_id) share WHERE share.user_id = p_user_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'You are not in this game');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.booking_payments bp
+        WHERE bp.booking_id = p_booking_id AND bp.user_id = p_user_id AND bp.kind = 'charge' AND bp.status = 'pending'
+    ) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'A payment for this game is already in progress');
+    END IF;
+
+    v_outstanding := v_share.amount_due - v_share.amount_paid;
+    IF v_outstanding <= 0 THEN
+        RETURN json_build_object('success', TRUE, 'amount', 0, 'currency', v_share.currency);
+    END IF;
+
+    INSERT INTO public.booking_payments (booking_id, user_id, kind, amount, currency, status, provider)
+    VALUES (p_booking_id, p_user_id, 'charge', v_outstanding, v_share.currency, 'pending', p_provider)
+    RETURNING id INTO v_payment_id;
+
+    RETURN json_build_object('success', TRUE, 'payment_id', v_payment_id, 'amount', v_outstanding, 'currency', v_share.currency);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION booking_net_paid(UUID, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION queue_member_refund(UUID, UUID, NUMERIC, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION apply_booking_shares(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION start_share_charge(UUID, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_booking_shares(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION start_share_charge(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION sync_booking_shares(UUID) TO authenticated;
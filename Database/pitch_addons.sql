@@ -0,0 +1,448 @@
+-- Pitch Add-ons Migration
+-- Venues can offer extras with a booking (bibs, ball rental, a referee, showers,
+-- a camera recording...). Each add-on has its own price and, optionally, a stock
+-- limit per slot: the number in use at the same time across the venue's pitches.
+-- Add-ons are picked at checkout and priced once, and their cost is added to the
+-- booking's price_amount so it's split between players like the pitch itself.
+
+CREATE TABLE IF NOT EXISTS public.pitch_addons (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+    pitch_ids UUID[],
+    name TEXT NOT NULL,
+    description TEXT,
+    icon TEXT,
+    price_amount NUMERIC(10, 2) NOT NULL CHECK (price_amount >= 0),
+    price_currency TEXT NOT NULL DEFAULT 'USD',
+    stock_per_slot INTEGER CHECK (stock_per_slot IS NULL OR stock_per_slot >= 0),
+    max_per_booking INTEGER NOT NULL DEFAULT 1 CHECK (max_per_booking > 0),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pitch_addons_venue ON public.pitch_addons(venue_id, sort_order) WHERE is_active;
+
+COMMENT ON TABLE public.pitch_addons IS 'Extras a venue rents out with a booking';
+COMMENT ON COLUMN public.pitch_addons.pitch_ids IS 'Pitches the add-on is offered on (NULL = every pitch at the venue)';
+COMMENT ON COLUMN public.pitch_addons.icon IS 'Ionicons name shown next to the add-on';
+COMMENT ON COLUMN public.pitch_addons.stock_per_slot IS 'How many can be out at the same time across the venue (NULL = unlimited)';
+
+ALTER TABLE public.pitch_addons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active add-ons" ON public.pitch_addons
+    FOR SELECT USING (is_active);
+
+CREATE POLICY "Operators can manage their venue's add-ons" ON public.pitch_addons
+    FOR ALL USING (is_venue_operator(venue_id)) WITH CHECK (is_venue_operator(venue_id));
+
+-- What each booking rented, with the price frozen at booking time
+CREATE TABLE IF NOT EXISTS public.booking_addons (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    addon_id UUID REFERENCES public.pitch_addons(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_price NUMERIC(10, 2) NOT NULL CHECK (unit_price >= 0),
+    currency TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (booking_id, addon_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_addons_addon ON public.booking_addons(addon_id);
+
+COMMENT ON TABLE public.booking_addons IS 'Add-ons rented with a booking; name and unit_price are kept even if the add-on changes';
+
+ALTER TABLE public.booking_addons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can view add-ons of their games" ON public.booking_addons
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.created_by = auth.uid())
+        OR EXISTS (SELECT 1 FROM public.game_members gm WHERE gm.game_id = booking_id AND gm.user_id = auth.uid())
+    );
+
+CREATE POLICY "Operators can view add-ons booked on their pitches" ON public.booking_addons
+    FOR SELECT USING (is_booking_operator(booking_id));
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS addons_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.bookings.addons_amount IS 'Cost of the booking''s add-ons, already included in price_amount';
+
+-- How many of an add-on are out during [p_start, p_end) on a date, counting
+-- only bookings that still hold their slot (other than p_exclude_booking_id,
+-- the booking being moved)
+CREATE OR REPLACE FUNCTION addon_stock_used(
+    p_addon_id UUID,
+    p_booking_date DATE,
+    p_start INTEGER,
+    p_end INTEGER,
+    p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(SUM(ba.quantity), 0)::INTEGER
+    FROM public.booking_addons ba
+    JOIN public.pitch_bookings pb ON pb.source_type = 'booking' AND pb.source_id = ba.booking_id
+    WHERE ba.addon_id = p_addon_id
+      AND pb.booking_date = p_booking_date
+      AND pb.time_slot < p_end
+      AND pb.time_slot + COALESCE(pb.duration_minutes, 60) > p_start
+      AND ba.booking_id IS DISTINCT FROM p_exclude_booking_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION addon_stock_used(UUID, DATE, INTEGER, INTEGER, UUID) FROM PUBLIC;
+
+-- Add-ons offered on a pitch, with how many are still free for a slot
+-- (available is NULL when the add-on has no stock limit)
+CREATE OR REPLACE FUNCTION get_slot_addons(p_pitch_id UUID, p_booking_date DATE, p_time_slot INTEGER)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    description TEXT,
+    icon TEXT,
+    price_amount NUMERIC,
+    price_currency TEXT,
+    max_per_booking INTEGER,
+    available INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT a.id, a.name, a.description, a.icon, a.price_amount, a.price_currency, a.max_per_booking,
+           CASE WHEN a.stock_per_slot IS NULL THEN NULL
+                ELSE GREATEST(a.stock_per_slot - addon_stock_used(
+                    a.id, p_booking_date, p_time_slot, p_time_slot + p.slot_duration_minutes), 0)
+           END
+    FROM public.pitches p
+    JOIN public.pitch_addons a ON a.venue_id = p.venue_id
+    WHERE p.id = p_pitch_id
+      AND a.is_active
+      AND a.price_currency = p.price_currency
+      AND (a.pitch_ids IS NULL OR p.id = ANY(a.pitch_ids))
+    ORDER BY a.sort_order, a.name;
+$$;
+
+-- Same as promo_codes.sql, but also rents the add-ons listed in p_booking->'addons'
+-- ([{ "addon_id": ..., "quantity": ... }]) and adds their cost to the price.
+-- The promo discount only ever applies to the slot itself.
+CREATE OR REPLACE FUNCTION create_booking(p_booking JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_pitch_id UUID := (p_booking->>'pitch_id')::UUID;
+    v_date DATE := (p_booking->>'date')::DATE;
+    v_time_slot INTEGER := (p_booking->>'time_slot')::INTEGER;
+    v_promo_code TEXT := NULLIF(UPPER(TRIM(p_booking->>'promo_code')), '');
+    v_conflict JSON;
+    v_price JSON;
+    v_promo JSON;
+    v_booking public.bookings;
+    v_pitch public.pitches;
+    v_selection RECORD;
+    v_addon public.pitch_addons;
+    v_available INTEGER;
+    v_addons_total NUMERIC := 0;
+    v_rentals JSONB := '[]'::JSONB;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'You must be logged in to create a booking'));
+    END IF;
+
+    IF v_pitch_id IS NULL OR v_date IS NULL OR v_time_slot IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'A pitch, date and time slot are required'));
+    END IF;
+
+    SELECT * INTO v_pitch FROM public.pitches WHERE id = v_pitch_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Pitch not found'));
+    END IF;
+
+    PERFORM lock_pitch_date(v_pitch_id, v_date);
+
+    v_conflict := get_booking_slot_conflict(v_date, v_time_slot, v_pitch_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    v_booking := jsonb_populate_record(NULL::public.bookings, booking_request_settings(p_booking, v_user_id));
+    v_booking.id := gen_random_uuid();
+    v_booking.created_by := v_user_id;
+    v_booking.pitch_id := v_pitch_id;
+    v_booking.venue_id := v_pitch.venue_id;
+    v_booking.pitch_name := v_pitch.name;
+    v_booking.pitch_location := COALESCE((SELECT v.location FROM public.venues v WHERE v.id = v_pitch.venue_id), '');
+    v_booking.date := v_date;
+    v_booking.booking_date := v_date;
+    v_booking.time_slot := v_time_slot;
+    v_booking.price := v_pitch.price;
+    v_booking.status := 'confirmed';
+    v_booking.created_at := NOW();
+
+    IF v_pitch.requires_approval THEN
+        v_booking.status := 'pending_approval';
+    END IF;
+
+    -- A slot without a price can't be booked; the app's amount is never used
+    v_price := resolve_slot_price(v_pitch_id, v_date, v_time_slot);
+    IF v_price IS NULL OR (v_price->>'amount') IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'no_price', 'message', 'This slot doesn''t have a price yet'));
+    END IF;
+
+    v_booking.price_amount := (v_price->>'amount')::NUMERIC;
+    v_booking.price_currency := v_price->>'currency';
+    v_booking.base_price_amount := (v_price->>'base_amount')::NUMERIC;
+    v_booking.pricing_rule_id := (v_price->>'rule_id')::UUID;
+    v_booking.pricing_rule_name := v_price->>'rule_name';
+
+    IF v_promo_code IS NOT NULL THEN
+        -- Serialize redemptions of the same code so max_uses holds
+        PERFORM 1 FROM public.promo_codes WHERE code = v_promo_code FOR UPDATE;
+
+        v_promo := check_promo_code(v_promo_code, v_user_id, v_pitch_id, v_booking.price_amount, v_booking.price_currency);
+        IF NOT (v_promo->>'valid')::BOOLEAN THEN
+            RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                'code', 'promo_invalid', 'message', v_promo->>'message'));
+        END IF;
+
+        v_booking.promo_code_id := (v_promo->>'promo_code_id')::UUID;
+        v_booking.promo_code := v_promo->>'code';
+        v_booking.discount_amount := (v_promo->>'discount_amount')::NUMERIC;
+        v_booking.price_amount := GREATEST(COALESCE(v_booking.price_amount, 0) - v_booking.discount_amount, 0);
+    END IF;
+
+    -- Add-on stock is shared across the venue's pitches, so lock the add-ons
+    -- themselves rather than relying on the pitch lock
+    FOR v_selection IN
+        SELECT (item->>'addon_id')::UUID AS addon_id, SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+        FROM jsonb_array_elements(COALESCE(p_booking->'addons', '[]'::JSONB)) AS item
+        GROUP BY 1
+        ORDER BY 1
+    LOOP
+        CONTINUE WHEN v_selection.quantity IS NULL OR v_selection.quantity <= 0;
+
+        SELECT * INTO v_addon FROM public.pitch_addons WHERE id = v_selection.addon_id FOR UPDATE;
+
+        IF NOT FOUND OR NOT v_addon.is_active OR v_addon.venue_id IS DISTINCT FROM v_pitch.venue_id
+           OR NOT (v_addon.pitch_ids IS NULL OR v_pitch_id = ANY(v_addon.pitch_ids)) THEN
+            RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                'code', 'addon_unavailable', 'message', 'One of the add-ons is no longer offered on this pitch'));
+        END IF;
+
+        IF v_addon.price_currency IS DISTINCT FROM v_booking.price_currency THEN
+            RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                'code', 'addon_unavailable', 'message', v_addon.name || ' can''t be added to this booking'));
+        END IF;
+
+        IF v_selection.quantity > v_addon.max_per_booking THEN
+            RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                'code', 'addon_unavailable', 'message',
+                'You can rent at most ' || v_addon.max_per_booking || ' × ' || v_addon.name || ' per booking'));
+        END IF;
+
+        IF v_addon.stock_per_slot IS NOT NULL THEN
+            v_available := v_addon.stock_per_slot - addon_stock_used(
+                v_addon.id, v_date, v_time_slot, v_time_slot + COALESCE(v_pitch.slot_duration_minutes, 60));
+            IF v_selection.quantity > v_available THEN
+                RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                    'code', 'addon_unavailable', 'message', CASE
+                        WHEN v_available <= 0 THEN v_addon.name || ' is fully booked for this slot'
+                        ELSE 'Only ' || v_available || ' × ' || v_addon.name || ' left for this slot'
+                    END));
+            END IF;
+        END IF;
+
+        v_rentals := v_rentals || jsonb_build_object(
+            'addon_id', v_addon.id, 'name', v_addon.name, 'quantity', v_selection.quantity, 'unit_price', v_addon.price_amount);
+        v_addons_total := v_addons_total + v_addon.price_amount * v_selection.quantity;
+    END LOOP;
+
+    IF v_addons_total > 0 THEN
+        v_booking.addons_amount := v_addons_total;
+        v_booking.price_amount := COALESCE(v_booking.price_amount, 0) + v_addons_total;
+    END IF;
+
+    v_booking := insert_booking_row(v_booking);
+
+    INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+    VALUES (v_date, v_time_slot, 'booking', v_booking.id, v_pitch_id);
+
+    INSERT INTO public.game_members (game_id, user_id, role, status)
+    VALUES (v_booking.id, v_user_id, 'organizer', 'joined');
+
+    IF v_booking.promo_code_id IS NOT NULL THEN
+        INSERT INTO public.promo_redemptions (promo_code_id, user_id, booking_id, discount_amount, currency)
+        VALUES (v_booking.promo_code_id, v_user_id, v_booking.id, v_booking.discount_amount, v_booking.price_currency);
+    END IF;
+
+    INSERT INTO public.booking_addons (booking_id, addon_id, name, quantity, unit_price, currency)
+    SELECT v_booking.id, (r->>'addon_id')::UUID, r->>'name', (r->>'quantity')::INTEGER, (r->>'unit_price')::NUMERIC, v_booking.price_currency
+    FROM jsonb_array_elements(v_rentals) AS r;
+
+    RETURN json_build_object('success', TRUE, 'booking', row_to_json(v_booking));
+END;
+$$;
+
+-- Same as venue_operators.sql, but the promo discount and the add-ons stay with
+-- a moved booking, and the add-ons must still be in stock for the new slot
+CREATE OR REPLACE FUNCTION update_booking(p_booking_id UUID, p_changes JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_existing public.bookings;
+    v_booking public.bookings;
+    v_pitch public.pitches;
+    v_conflict JSON;
+    v_price JSON;
+    v_rental RECORD;
+    v_addon public.pitch_addons;
+    v_available INTEGER;
+BEGIN
+    SELECT * INTO v_existing FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Booking not found'));
+    END IF;
+
+    IF v_existing.created_by IS DISTINCT FROM v_user_id THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'Only the organizer can change this booking'));
+    END IF;
+
+    -- Only where and when the game is played can change; everything else
+    -- about the booking is kept or worked out again here
+    v_booking := v_existing;
+    v_booking.pitch_id := COALESCE((p_changes->>'pitch_id')::UUID, v_existing.pitch_id);
+    v_booking.date := COALESCE((p_changes->>'date')::DATE, v_existing.date::DATE);
+    v_booking.booking_date := v_booking.date::DATE;
+    v_booking.time_slot := COALESCE((p_changes->>'time_slot')::INTEGER, v_existing.time_slot);
+    v_booking.time := COALESCE(p_changes->>'time', v_existing.time);
+
+    SELECT * INTO v_pitch FROM public.pitches WHERE id = v_booking.pitch_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Pitch not found'));
+    END IF;
+
+    IF v_booking.pitch_id IS DISTINCT FROM v_existing.pitch_id THEN
+        v_booking.venue_id := v_pitch.venue_id;
+        v_booking.pitch_name := v_pitch.name;
+        v_booking.pitch_location := COALESCE((SELECT v.location FROM public.venues v WHERE v.id = v_pitch.venue_id), '');
+        v_booking.price := v_pitch.price;
+    END IF;
+
+    -- A move is priced again from the new pitch's rules for the new slot
+    IF v_booking.pitch_id IS DISTINCT FROM v_existing.pitch_id
+       OR v_booking.date::DATE IS DISTINCT FROM v_existing.date::DATE
+       OR v_booking.time_slot IS DISTINCT FROM v_existing.time_slot THEN
+        v_price := resolve_slot_price(v_booking.pitch_id, v_booking.date::DATE, v_booking.time_slot);
+        IF v_price IS NULL OR (v_price->>'amount') IS NULL THEN
+            RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                'code', 'no_price', 'message', 'This slot doesn''t have a price yet'));
+        END IF;
+
+        v_booking.price_amount := GREATEST((v_price->>'amount')::NUMERIC - COALESCE(v_existing.discount_amount, 0), 0)
+            + v_existing.addons_amount;
+        v_booking.price_currency := v_price->>'currency';
+        v_booking.base_price_amount := (v_price->>'base_amount')::NUMERIC;
+        v_booking.pricing_rule_id := (v_price->>'rule_id')::UUID;
+        v_booking.pricing_rule_name := v_price->>'rule_name';
+    END IF;
+
+    -- A confirmed game moved onto an approval-only pitch needs the operator's approval
+    IF v_booking.pitch_id IS DISTINCT FROM v_existing.pitch_id
+       AND v_pitch.requires_approval AND v_existing.status = 'confirmed' THEN
+        v_booking.status := 'pending_approval';
+    END IF;
+
+    PERFORM lock_pitch_date(v_booking.pitch_id, v_booking.date::DATE);
+
+    -- The booking's own reservation never counts as a clash
+    v_conflict := get_booking_slot_conflict(v_booking.date::DATE, v_booking.time_slot, v_booking.pitch_id, p_booking_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    -- The add-ons go with the game, so they must be offered on the new pitch
+    -- and still in stock for the new slot. Stock is shared across the venue's
+    -- pitches, so lock the add-ons themselves.
+    FOR v_rental IN
+        SELECT ba.addon_id, ba.name, ba.quantity
+        FROM public.booking_addons ba
+        WHERE ba.booking_id = p_booking_id AND ba.addon_id IS NOT NULL
+        ORDER BY ba.addon_id
+    LOOP
+        SELECT * INTO v_addon FROM public.pitch_addons WHERE id = v_rental.addon_id FOR UPDATE;
+
+        IF NOT FOUND OR NOT v_addon.is_active OR v_addon.venue_id IS DISTINCT FROM v_pitch.venue_id
+           OR NOT (v_addon.pitch_ids IS NULL OR v_booking.pitch_id = ANY(v_addon.pitch_ids))
+           OR v_addon.price_currency IS DISTINCT FROM v_booking.price_currency THEN
+            RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                'code', 'addon_unavailable', 'message', v_rental.name || ' isn''t offered on this pitch'));
+        END IF;
+
+        IF v_addon.stock_per_slot IS NOT NULL THEN
+            v_available := v_addon.stock_per_slot - addon_stock_used(
+                v_addon.id, v_booking.date::DATE, v_booking.time_slot,
+                v_booking.time_slot + COALESCE(v_pitch.slot_duration_minutes, 60), p_booking_id);
+            IF v_rental.quantity > v_available THEN
+                RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                    'code', 'addon_unavailable', 'message', CASE
+                        WHEN v_available <= 0 THEN v_addon.name || ' is fully booked for this slot'
+                        ELSE 'Only ' || v_available || ' × ' || v_addon.name || ' left for this slot'
+                    END));
+            END IF;
+        END IF;
+    END LOOP;
+
+    UPDATE public.bookings SET
+        date = v_booking.date,
+        booking_date = v_booking.booking_date,
+        time = v_booking.time,
+        time_slot = v_booking.time_slot,
+        pitch_id = v_booking.pitch_id,
+        venue_id = v_booking.venue_id,
+        pitch_name = v_booking.pitch_name,
+        pitch_location = v_booking.pitch_location,
+        price = v_booking.price,
+        price_amount = v_booking.price_amount,
+        base_price_amount = v_booking.base_price_amount,
+        pricing_rule_id = v_booking.pricing_rule_id,
+        pricing_rule_name = v_booking.pricing_rule_name,
+        price_currency = v_booking.price_currency,
+        status = v_booking.status
+    WHERE id = p_booking_id;
+
+    DELETE FROM public.pitch_bookings WHERE source_type = 'booking' AND source_id = p_booking_id;
+
+    IF v_booking.status IN ('confirmed', 'pending_approval') THEN
+        INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+        VALUES (v_booking.date::DATE, v_booking.time_slot, 'booking', p_booking_id, v_booking.pitch_id);
+    END IF;
+
+    RETURN json_build_object('success', TRUE, 'booking', row_to_json(v_booking));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_slot_addons(UUID, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_booking(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_booking(JSONB) TO authenticated;
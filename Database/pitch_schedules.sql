@@ -0,0 +1,233 @@
+-- Pitch Schedules Migration
+-- Per-pitch opening hours, slot length, buffer time and holiday closures.
+--
+-- Time slots are now stored as minutes from midnight of the booking date
+-- (1080 = 6:00 PM, 1500 = 1:00 AM the following night) instead of whole hours,
+-- so pitches can open in the morning and rent in 90-minute blocks.
+
+-- Slot configuration lives on the pitch itself
+ALTER TABLE public.pitches
+ADD COLUMN IF NOT EXISTS slot_duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (slot_duration_minutes BETWEEN 15 AND 240),
+ADD COLUMN IF NOT EXISTS buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes BETWEEN 0 AND 120);
+
+COMMENT ON COLUMN public.pitches.slot_duration_minutes IS 'Length of one rentable slot in minutes';
+COMMENT ON COLUMN public.pitches.buffer_minutes IS 'Gap left between consecutive slots (cleaning, changeover)';
+
+-- Opening hours per weekday (0 = Sunday). closes_at may exceed 1440 for late closing.
+CREATE TABLE IF NOT EXISTS public.pitch_opening_hours (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    pitch_id UUID NOT NULL REFERENCES public.pitches(id) ON DELETE CASCADE,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+    opens_at INTEGER NOT NULL CHECK (opens_at BETWEEN 0 AND 1439),
+    closes_at INTEGER NOT NULL CHECK (closes_at > opens_at AND closes_at <= 2880),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (pitch_id, weekday, opens_at)
+);
+
+-- Holiday and maintenance closures (whole day)
+CREATE TABLE IF NOT EXISTS public.pitch_closures (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    pitch_id UUID NOT NULL REFERENCES public.pitches(id) ON DELETE CASCADE,
+    closure_date DATE NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (pitch_id, closure_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pitch_opening_hours_pitch ON public.pitch_opening_hours(pitch_id, weekday);
+CREATE INDEX IF NOT EXISTS idx_pitch_closures_pitch_date ON public.pitch_closures(pitch_id, closure_date);
+
+-- Seed the league pitch with its original 6pm - 3am hourly schedule
+INSERT INTO public.pitch_opening_hours (pitch_id, weekday, opens_at, closes_at)
+SELECT '00000000-0000-0000-0000-000000000001', d, 1080, 1620
+FROM generate_series(0, 6) AS d
+ON CONFLICT (pitch_id, weekday, opens_at) DO NOTHING;
+
+-- Convert stored hour slots (18-26) to minutes. This only runs on the pass that
+-- adds duration_minutes, so running the migration again never converts slots
+-- that are already in minutes (a 12:30 AM slot is 30, which looks like an hour).
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'pitch_bookings' AND column_name = 'duration_minutes'
+    ) THEN
+        ALTER TABLE public.pitch_bookings ADD COLUMN duration_minutes INTEGER;
+
+        UPDATE public.pitch_bookings SET time_slot = time_slot * 60 WHERE time_slot < 48;
+        UPDATE public.bookings SET time_slot = time_slot * 60 WHERE time_slot < 48;
+        UPDATE public.matches SET time_slot = time_slot * 60 WHERE time_slot < 48;
+        UPDATE public.matchmaking_queue SET preferred_time_slot = preferred_time_slot * 60 WHERE preferred_time_slot < 48;
+    END IF;
+END;
+$$;
+
+UPDATE public.pitch_bookings pb
+SET duration_minutes = COALESCE(p.slot_duration_minutes, 60)
+FROM public.pitches p
+WHERE pb.duration_minutes IS NULL AND p.id = pb.pitch_id;
+
+UPDATE public.pitch_bookings SET duration_minutes = 60 WHERE duration_minutes IS NULL;
+
+-- Fill in the slot length from the pitch for rows added via add_pitch_booking
+CREATE OR REPLACE FUNCTION set_pitch_booking_duration()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.duration_minutes IS NULL THEN
+        SELECT slot_duration_minutes INTO NEW.duration_minutes
+        FROM public.pitches WHERE id = NEW.pitch_id;
+        NEW.duration_minutes := COALESCE(NEW.duration_minutes, 60);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_pitch_booking_duration ON public.pitch_bookings;
+CREATE TRIGGER trigger_pitch_booking_duration
+    BEFORE INSERT ON public.pitch_bookings
+    FOR EACH ROW EXECUTE FUNCTION set_pitch_booking_duration();
+
+-- Every slot a pitch offers on a date, derived from its schedule
+CREATE OR REPLACE FUNCTION get_pitch_slots(p_booking_date DATE, p_pitch_id UUID)
+RETURNS TABLE (slot_start INTEGER, slot_end INTEGER)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_duration INTEGER;
+    v_buffer INTEGER;
+BEGIN
+    SELECT slot_duration_minutes, buffer_minutes INTO v_duration, v_buffer
+    FROM public.pitches WHERE id = p_pitch_id;
+
+    IF v_duration IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.pitch_closures
+        WHERE pitch_id = p_pitch_id AND closure_date = p_booking_date
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT s AS slot_start, s + v_duration AS slot_end
+    FROM public.pitch_opening_hours oh,
+         generate_series(oh.opens_at, oh.closes_at - v_duration, v_duration + v_buffer) AS s
+    WHERE oh.pitch_id = p_pitch_id
+      AND oh.weekday = EXTRACT(DOW FROM p_booking_date)
+    ORDER BY s;
+END;
+$$;
+
+-- Availability for a single slot, taking slot length into account
+CREATE OR REPLACE FUNCTION check_pitch_availability(p_booking_date DATE, p_time_slot INTEGER, p_pitch_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_slot_end INTEGER;
+    v_conflict RECORD;
+    v_closure RECORD;
+BEGIN
+    SELECT * INTO v_closure FROM public.pitch_closures
+    WHERE pitch_id = p_pitch_id AND closure_date = p_booking_date;
+
+    IF FOUND THEN
+        RETURN json_build_object(
+            'available', FALSE,
+            'message', COALESCE('Pitch closed: ' || v_closure.reason, 'The pitch is closed on this date')
+        );
+    END IF;
+
+    SELECT slot_end INTO v_slot_end
+    FROM get_pitch_slots(p_booking_date, p_pitch_id)
+    WHERE slot_start = p_time_slot;
+
+    IF v_slot_end IS NULL THEN
+        RETURN json_build_object(
+            'available', FALSE,
+            'message', 'This time is outside the pitch opening hours'
+        );
+    END IF;
+
+    SELECT * INTO v_conflict FROM public.pitch_bookings pb
+    WHERE pb.pitch_id = p_pitch_id
+      AND pb.booking_date = p_booking_date
+      AND pb.time_slot < v_slot_end
+      AND pb.time_slot + COALESCE(pb.duration_minutes, 60) > p_time_slot
+    LIMIT 1;
+
+    IF FOUND THEN
+        RETURN json_build_object(
+            'available', FALSE,
+            'message', 'This pitch is already booked for the selected date and time',
+            'conflicting_booking', json_build_object(
+                'source_type', v_conflict.source_type,
+                'source_id', v_conflict.source_id,
+                'time_slot', v_conflict.time_slot
+            )
+        );
+    END IF;
+
+    RETURN json_build_object('available', TRUE, 'message', 'Time slot available');
+END;
+$$;
+
+-- All slots for a date split into available and booked
+CREATE OR REPLACE FUNCTION get_available_time_slots(p_booking_date DATE, p_pitch_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_available INTEGER[];
+    v_booked INTEGER[];
+    v_total INTEGER;
+    v_closure TEXT;
+BEGIN
+    SELECT reason INTO v_closure FROM public.pitch_closures
+    WHERE pitch_id = p_pitch_id AND closure_date = p_booking_date;
+
+    SELECT
+        COALESCE(array_agg(s.slot_start ORDER BY s.slot_start) FILTER (WHERE b.id IS NULL), '{}'),
+        COALESCE(array_agg(s.slot_start ORDER BY s.slot_start) FILTER (WHERE b.id IS NOT NULL), '{}'),
+        COUNT(*)
+    INTO v_available, v_booked, v_total
+    FROM get_pitch_slots(p_booking_date, p_pitch_id) s
+    LEFT JOIN LATERAL (
+        SELECT pb.id FROM public.pitch_bookings pb
+        WHERE pb.pitch_id = p_pitch_id
+          AND pb.booking_date = p_booking_date
+          AND pb.time_slot < s.slot_end
+          AND pb.time_slot + COALESCE(pb.duration_minutes, 60) > s.slot_start
+        LIMIT 1
+    ) b ON TRUE;
+
+    RETURN json_build_object(
+        'date', p_booking_date,
+        'available_slots', v_available,
+        'booked_slots', v_booked,
+        'total_slots', v_total,
+        'available_count', COALESCE(array_length(v_available, 1), 0),
+        'closed', v_closure IS NOT NULL OR EXISTS (
+            SELECT 1 FROM public.pitch_closures WHERE pitch_id = p_pitch_id AND closure_date = p_booking_date
+        ),
+        'closure_reason', v_closure
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_pitch_slots(DATE, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_pitch_availability(DATE, INTEGER, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_available_time_slots(DATE, UUID) TO authenticated;
+
+-- Row Level Security: schedules are public
+ALTER TABLE public.pitch_opening_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pitch_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pitch opening hours" ON public.pitch_opening_hours
+    FOR SELECT USING (TRUE);
+
+CREATE POLICY "Anyone can view pitch closures" ON public.pitch_closures
+    FOR SELECT USING (TRUE);
@@ -0,0 +1,223 @@
+-- Pricing Rules Migration
+-- Venue operators can vary a pitch's price by weekday, hour band, season and
+-- lead time (e.g. a last-minute discount on slots starting within 3 hours).
+-- The highest-priority matching rule sets the slot's price; with no match the
+-- pitch's base price applies. The price is resolved once, when the booking is
+-- created, and stays on the booking from then on.
+
+-- Lead times are measured in the venue's local time
+ALTER TABLE public.venues
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+COMMENT ON COLUMN public.venues.timezone IS 'IANA timezone of the venue, used to work out how soon a slot starts';
+
+CREATE TABLE IF NOT EXISTS public.pitch_pricing_rules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    pitch_id UUID NOT NULL REFERENCES public.pitches(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0,
+    -- Conditions (NULL = any)
+    weekdays SMALLINT[] CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+    start_minute INTEGER CHECK (start_minute BETWEEN 0 AND 2880),
+    end_minute INTEGER CHECK (end_minute BETWEEN 0 AND 2880),
+    season_start TEXT CHECK (season_start ~ '^(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$'),
+    season_end TEXT CHECK (season_end ~ '^(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$'),
+    min_lead_hours NUMERIC(6, 2) CHECK (min_lead_hours >= 0),
+    max_lead_hours NUMERIC(6, 2) CHECK (max_lead_hours >= 0),
+    -- Effect on the base price
+    adjustment_type TEXT NOT NULL CHECK (adjustment_type IN ('fixed', 'percent', 'amount')),
+    adjustment_value NUMERIC(10, 2) NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (start_minute IS NULL OR end_minute IS NULL OR end_minute > start_minute),
+    CHECK ((season_start IS NULL) = (season_end IS NULL)),
+    CHECK (min_lead_hours IS NULL OR max_lead_hours IS NULL OR max_lead_hours > min_lead_hours),
+    CHECK (adjustment_type <> 'fixed' OR adjustment_value >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pitch_pricing_rules_pitch ON public.pitch_pricing_rules(pitch_id, priority DESC) WHERE is_active;
+
+COMMENT ON TABLE public.pitch_pricing_rules IS 'Price rules per pitch; the highest-priority matching rule wins';
+COMMENT ON COLUMN public.pitch_pricing_rules.start_minute IS 'Hour band start in minutes from midnight of the booking date (inclusive)';
+COMMENT ON COLUMN public.pitch_pricing_rules.end_minute IS 'Hour band end in minutes from midnight of the booking date (exclusive, may exceed 1440)';
+COMMENT ON COLUMN public.pitch_pricing_rules.season_start IS 'First day of the season as MM-DD; seasons may wrap over the new year';
+COMMENT ON COLUMN public.pitch_pricing_rules.max_lead_hours IS 'Applies only when the slot starts within this many hours (last-minute pricing)';
+COMMENT ON COLUMN public.pitch_pricing_rules.adjustment_type IS 'fixed = set the price, percent = change by a percentage, amount = add or subtract an amount';
+
+ALTER TABLE public.pitch_pricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pricing rules" ON public.pitch_pricing_rules
+    FOR SELECT USING (TRUE);
+
+-- What was charged and why, frozen at booking time
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS base_price_amount NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS pricing_rule_id UUID REFERENCES public.pitch_pricing_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS pricing_rule_name TEXT;
+
+COMMENT ON COLUMN public.bookings.base_price_amount IS 'Pitch base price when the booking was made';
+COMMENT ON COLUMN public.bookings.pricing_rule_name IS 'Rule that set price_amount, kept even if the rule is later removed';
+
+-- Price of one slot on a date. Mirrors resolveSlotPrice in src/utils/pricing.ts.
+CREATE OR REPLACE FUNCTION resolve_slot_price(p_pitch_id UUID, p_booking_date DATE, p_time_slot INTEGER)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_pitch RECORD;
+    v_rule public.pitch_pricing_rules;
+    v_lead_hours NUMERIC;
+    v_month_day TEXT := to_char(p_booking_date, 'MM-DD');
+    v_amount NUMERIC;
+BEGIN
+    SELECT p.price_amount, p.price_currency, COALESCE(v.timezone, 'UTC') AS timezone
+    INTO v_pitch
+    FROM public.pitches p
+    LEFT JOIN public.venues v ON v.id = p.venue_id
+    WHERE p.id = p_pitch_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_lead_hours := EXTRACT(EPOCH FROM (
+        (p_booking_date + make_interval(mins => p_time_slot)) - (NOW() AT TIME ZONE v_pitch.timezone)
+    )) / 3600;
+
+    SELECT * INTO v_rule
+    FROM public.pitch_pricing_rules r
+    WHERE r.pitch_id = p_pitch_id
+      AND r.is_active
+      AND (r.weekdays IS NULL OR EXTRACT(DOW FROM p_booking_date)::SMALLINT = ANY (r.weekdays))
+      AND (r.start_minute IS NULL OR p_time_slot >= r.start_minute)
+      AND (r.end_minute IS NULL OR p_time_slot < r.end_minute)
+      AND (
+          r.season_start IS NULL
+          OR (r.season_start <= r.season_end AND v_month_day BETWEEN r.season_start AND r.season_end)
+          OR (r.season_start > r.season_end AND (v_month_day >= r.season_start OR v_month_day <= r.season_end))
+      )
+      AND (r.min_lead_hours IS NULL OR v_lead_hours >= r.min_lead_hours)
+      AND (r.max_lead_hours IS NULL OR v_lead_hours < r.max_lead_hours)
+    ORDER BY r.priority DESC, r.created_at
+    LIMIT 1;
+
+    v_amount := CASE
+        WHEN v_rule.id IS NULL THEN v_pitch.price_amount
+        WHEN v_rule.adjustment_type = 'fixed' THEN v_rule.adjustment_value
+        WHEN v_rule.adjustment_type = 'percent' THEN ROUND(v_pitch.price_amount * (100 + v_rule.adjustment_value) / 100, 2)
+        ELSE v_pitch.price_amount + v_rule.adjustment_value
+    END;
+
+    RETURN json_build_object(
+        -- GREATEST would turn a missing base price into 0
+        'amount', CASE WHEN v_amount IS NULL THEN NULL ELSE GREATEST(v_amount, 0) END,
+        'currency', v_pitch.price_currency,
+        'base_amount', v_pitch.price_amount,
+        'rule_id', v_rule.id,
+        'rule_name', v_rule.name
+    );
+END;
+$$;
+
+-- Same as atomic_bookings.sql, but the price is resolved from the pitch's rules.
+-- A slot that resolves to no price is refused with a no_price conflict.
+CREATE OR REPLACE FUNCTION create_booking(p_booking JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_pitch_id UUID := (p_booking->>'pitch_id')::UUID;
+    v_date DATE := (p_booking->>'date')::DATE;
+    v_time_slot INTEGER := (p_booking->>'time_slot')::INTEGER;
+    v_conflict JSON;
+    v_price JSON;
+    v_pitch public.pitches;
+    v_booking public.bookings;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'You must be logged in to create a booking'));
+    END IF;
+
+    IF v_pitch_id IS NULL OR v_date IS NULL OR v_time_slot IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'A pitch, date and time slot are required'));
+    END IF;
+
+    SELECT * INTO v_pitch FROM public.pitches WHERE id = v_pitch_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Pitch not found'));
+    END IF;
+
+    PERFORM lock_pitch_date(v_pitch_id, v_date);
+
+    v_conflict := get_booking_slot_conflict(v_date, v_time_slot, v_pitch_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    v_booking := jsonb_populate_record(NULL::public.bookings, booking_request_settings(p_booking, v_user_id));
+    v_booking.id := gen_random_uuid();
+    v_booking.created_by := v_user_id;
+    v_booking.pitch_id := v_pitch_id;
+    v_booking.venue_id := v_pitch.venue_id;
+    v_booking.pitch_name := v_pitch.name;
+    v_booking.pitch_location := COALESCE((SELECT v.location FROM public.venues v WHERE v.id = v_pitch.venue_id), '');
+    v_booking.date := v_date;
+    v_booking.booking_date := v_date;
+    v_booking.time_slot := v_time_slot;
+    v_booking.price := v_pitch.price;
+    v_booking.status := 'confirmed';
+    v_booking.created_at := NOW();
+
+    -- A slot without a price can't be booked; the app's amount is never used
+    v_price := resolve_slot_price(v_pitch_id, v_date, v_time_slot);
+    IF v_price IS NULL OR (v_price->>'amount') IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'no_price', 'message', 'This slot doesn''t have a price yet'));
+    END IF;
+
+    v_booking.price_amount := (v_price->>'amount')::NUMERIC;
+    v_booking.price_currency := v_price->>'currency';
+    v_booking.base_price_amount := (v_price->>'base_amount')::NUMERIC;
+    v_booking.pricing_rule_id := (v_price->>'rule_id')::UUID;
+    v_booking.pricing_rule_name := v_price->>'rule_name';
+
+    v_booking := insert_booking_row(v_booking);
+
+    INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+    VALUES (v_date, v_time_slot, 'booking', v_booking.id, v_pitch_id);
+
+    INSERT INTO public.game_members (game_id, user_id, role, status)
+    VALUES (v_booking.id, v_user_id, 'organizer', 'joined');
+
+    RETURN json_build_object('success', TRUE, 'booking', row_to_json(v_booking));
+END;
+$$;
+
+-- Same as cancellation_policies.sql, but kick-off is in the venue's local time
+CREATE OR REPLACE FUNCTION hours_until_kickoff(p_booking public.bookings)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXTRACT(EPOCH FROM (
+        (COALESCE(p_booking.booking_date, p_booking.date::DATE) + make_interval(mins => COALESCE(p_booking.time_slot, 0)))
+        - (NOW() AT TIME ZONE COALESCE(v.timezone, 'UTC'))
+    )) / 3600
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.pitches p ON p.id = p_booking.pitch_id
+    LEFT JOIN public.venues v ON v.id = p.venue_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_slot_price(UUID, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_booking(JSONB) TO authenticated;
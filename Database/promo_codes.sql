@@ -0,0 +1,474 @@
+-- Promo Codes and Booking Credits Migration
+-- Promo codes take a percentage or fixed amount off a booking's price when it is
+-- created, subject to expiry, usage limits, first-booking-only and pitch
+-- restrictions. Credits are a per-user balance that cancellation refunds can be
+-- paid into and that can pay for a share of a booking. Only the database moves
+-- money into credit: whatever was paid with credit is refunded to credit, and
+-- an organizer can ask for their whole refund as credit when cancelling.
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code) AND code <> ''),
+    description TEXT,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+    discount_value NUMERIC(10, 2) NOT NULL CHECK (discount_value > 0),
+    currency TEXT, -- fixed discounts only apply to bookings priced in this currency
+    starts_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    max_uses INTEGER CHECK (max_uses > 0),
+    max_uses_per_user INTEGER NOT NULL DEFAULT 1 CHECK (max_uses_per_user > 0),
+    first_booking_only BOOLEAN NOT NULL DEFAULT FALSE,
+    pitch_ids UUID[], -- NULL = every pitch
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (discount_type <> 'percent' OR discount_value <= 100),
+    CHECK (discount_type <> 'fixed' OR currency IS NOT NULL)
+);
+
+COMMENT ON TABLE public.promo_codes IS 'Discount codes entered at checkout';
+COMMENT ON COLUMN public.promo_codes.first_booking_only IS 'Only valid for users who have never booked a game';
+
+-- Codes are looked up through check_promo_code only, so they can't be listed
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.promo_redemptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    promo_code_id UUID NOT NULL REFERENCES public.promo_codes(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    booking_id UUID NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+    discount_amount NUMERIC(10, 2) NOT NULL,
+    currency TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code_user ON public.promo_redemptions(promo_code_id, user_id);
+
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own redemptions" ON public.promo_redemptions
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- What the booking's price_amount already has taken off, and how much was paid with credit
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS promo_code TEXT,
+ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS credit_applied NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.bookings.discount_amount IS 'Promo discount already taken off price_amount';
+COMMENT ON COLUMN public.bookings.credit_applied IS 'Total paid towards this booking from credit balances';
+
+-- Credit ledger: positive rows add to a balance, negative rows spend it
+CREATE TABLE IF NOT EXISTS public.credit_transactions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount <> 0),
+    currency TEXT NOT NULL DEFAULT 'USD',
+    kind TEXT NOT NULL CHECK (kind IN ('refund', 'booking', 'grant', 'adjustment')),
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user ON public.credit_transactions(user_id, currency);
+
+COMMENT ON TABLE public.credit_transactions IS 'Booking credit ledger; a balance is the sum of a user''s rows per currency';
+
+ALTER TABLE public.credit_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit" ON public.credit_transactions
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Whether a code can be used by a user on a pitch, and how much it takes off
+-- p_amount. Shared by the checkout preview and create_booking.
+CREATE OR REPLACE FUNCTION check_promo_code(p_code TEXT, p_user_id UUID, p_pitch_id UUID, p_amount NUMERIC, p_currency TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_promo public.promo_codes;
+    v_discount NUMERIC;
+BEGIN
+    SELECT * INTO v_promo FROM public.promo_codes WHERE code = UPPER(TRIM(p_code));
+
+    IF NOT FOUND OR NOT v_promo.is_active THEN
+        RETURN json_build_object('valid', FALSE, 'message', 'This promo code doesn''t exist');
+    END IF;
+
+    IF v_promo.starts_at IS NOT NULL AND NOW() < v_promo.starts_at THEN
+        RETURN json_build_object('valid', FALSE, 'message', 'This promo code isn''t active yet');
+    END IF;
+
+    IF v_promo.expires_at IS NOT NULL AND NOW() >= v_promo.expires_at THEN
+        RETURN json_build_object('valid', FALSE, 'message', 'This promo code has expired');
+    END IF;
+
+    IF v_promo.pitch_ids IS NOT NULL AND NOT (p_pitch_id = ANY (v_promo.pitch_ids)) THEN
+        RETURN json_build_object('valid', FALSE, 'message', 'This promo code can''t be used on this pitch');
+    END IF;
+
+    IF v_promo.max_uses IS NOT NULL AND
+       (SELECT COUNT(*) FROM public.promo_redemptions r WHERE r.promo_code_id = v_promo.id) >= v_promo.max_uses THEN
+        RETURN json_build_object('valid', FALSE, 'message', 'This promo code has been used up');
+    END IF;
+
+    IF (SELECT COUNT(*) FROM public.promo_redemptions r
+        WHERE r.promo_code_id = v_promo.id AND r.user_id = p_user_id) >= v_promo.max_uses_per_user THEN
+        RETURN json_build_object('valid', FALSE, 'message', 'You''ve already used this promo code');
+    END IF;
+
+    IF v_promo.first_booking_only AND EXISTS (
+        SELECT 1 FROM public.bookings b WHERE b.created_by = p_user_id AND b.status <> 'rejected'
+    ) THEN
+        RETURN json_build_object('valid', FALSE, 'message', 'This promo code is only for your first booking');
+    END IF;
+
+    IF v_promo.discount_type = 'fixed' AND v_promo.currency IS DISTINCT FROM p_currency THEN
+        RETURN json_build_object('valid', FALSE, 'message', 'This promo code can''t be used for this price');
+    END IF;
+
+    v_discount := CASE v_promo.discount_type
+        WHEN 'percent' THEN ROUND(COALESCE(p_amount, 0) * v_promo.discount_value / 100, 2)
+        ELSE LEAST(v_promo.discount_value, COALESCE(p_amount, 0))
+    END;
+
+    RETURN json_build_object(
+        'valid', TRUE,
+        'promo_code_id', v_promo.id,
+        'code', v_promo.code,
+        'description', v_promo.description,
+        'discount_amount', v_discount,
+        'currency', p_currency
+    );
+END;
+$$;
+
+-- Checkout preview for the current user
+CREATE OR REPLACE FUNCTION validate_promo_code(p_code TEXT, p_pitch_id UUID, p_amount NUMERIC, p_currency TEXT)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT check_promo_code(p_code, auth.uid(), p_pitch_id, p_amount, p_currency);
+$$;
+
+-- Same as venue_operators.sql, but applies the booking's promo code (if any)
+-- to the resolved price and records the redemption
+CREATE OR REPLACE FUNCTION create_booking(p_booking JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_pitch_id UUID := (p_booking->>'pitch_id')::UUID;
+    v_date DATE := (p_booking->>'date')::DATE;
+    v_time_slot INTEGER := (p_booking->>'time_slot')::INTEGER;
+    v_promo_code TEXT := NULLIF(UPPER(TRIM(p_booking->>'promo_code')), '');
+    v_conflict JSON;
+    v_price JSON;
+    v_promo JSON;
+    v_pitch public.pitches;
+    v_booking public.bookings;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'You must be logged in to create a booking'));
+    END IF;
+
+    IF v_pitch_id IS NULL OR v_date IS NULL OR v_time_slot IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'A pitch, date and time slot are required'));
+    END IF;
+
+    SELECT * INTO v_pitch FROM public.pitches WHERE id = v_pitch_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Pitch not found'));
+    END IF;
+
+    PERFORM lock_pitch_date(v_pitch_id, v_date);
+
+    v_conflict := get_booking_slot_conflict(v_date, v_time_slot, v_pitch_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    v_booking := jsonb_populate_record(NULL::public.bookings, booking_request_settings(p_booking, v_user_id));
+    v_booking.id := gen_random_uuid();
+    v_booking.created_by := v_user_id;
+    v_booking.pitch_id := v_pitch_id;
+    v_booking.venue_id := v_pitch.venue_id;
+    v_booking.pitch_name := v_pitch.name;
+    v_booking.pitch_location := COALESCE((SELECT v.location FROM public.venues v WHERE v.id = v_pitch.venue_id), '');
+    v_booking.date := v_date;
+    v_booking.booking_date := v_date;
+    v_booking.time_slot := v_time_slot;
+    v_booking.price := v_pitch.price;
+    v_booking.status := 'confirmed';
+    v_booking.created_at := NOW();
+
+    IF v_pitch.requires_approval THEN
+        v_booking.status := 'pending_approval';
+    END IF;
+
+    -- A slot without a price can't be booked; the app's amount is never used
+    v_price := resolve_slot_price(v_pitch_id, v_date, v_time_slot);
+    IF v_price IS NULL OR (v_price->>'amount') IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'no_price', 'message', 'This slot doesn''t have a price yet'));
+    END IF;
+
+    v_booking.price_amount := (v_price->>'amount')::NUMERIC;
+    v_booking.price_currency := v_price->>'currency';
+    v_booking.base_price_amount := (v_price->>'base_amount')::NUMERIC;
+    v_booking.pricing_rule_id := (v_price->>'rule_id')::UUID;
+    v_booking.pricing_rule_name := v_price->>'rule_name';
+
+    IF v_promo_code IS NOT NULL THEN
+        -- Serialize redemptions of the same code so max_uses holds
+        PERFORM 1 FROM public.promo_codes WHERE code = v_promo_code FOR UPDATE;
+
+        v_promo := check_promo_code(v_promo_code, v_user_id, v_pitch_id, v_booking.price_amount, v_booking.price_currency);
+        IF NOT (v_promo->>'valid')::BOOLEAN THEN
+            RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                'code', 'promo_invalid', 'message', v_promo->>'message'));
+        END IF;
+
+        v_booking.promo_code_id := (v_promo->>'promo_code_id')::UUID;
+        v_booking.promo_code := v_promo->>'code';
+        v_booking.discount_amount := (v_promo->>'discount_amount')::NUMERIC;
+        v_booking.price_amount := GREATEST(COALESCE(v_booking.price_amount, 0) - v_booking.discount_amount, 0);
+    END IF;
+
+    v_booking := insert_booking_row(v_booking);
+
+    INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+    VALUES (v_date, v_time_slot, 'booking', v_booking.id, v_pitch_id);
+
+    INSERT INTO public.game_members (game_id, user_id, role, status)
+    VALUES (v_booking.id, v_user_id, 'organizer', 'joined');
+
+    IF v_booking.promo_code_id IS NOT NULL THEN
+        INSERT INTO public.promo_redemptions (promo_code_id, user_id, booking_id, discount_amount, currency)
+        VALUES (v_booking.promo_code_id, v_user_id, v_booking.id, v_booking.discount_amount, v_booking.price_currency);
+    END IF;
+
+    RETURN json_build_object('success', TRUE, 'booking', row_to_json(v_booking));
+END;
+$$;
+
+-- The current user's credit per currency
+CREATE OR REPLACE FUNCTION get_credit_balances()
+RETURNS TABLE (currency TEXT, balance NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT ct.currency, SUM(ct.amount)
+    FROM public.credit_transactions ct
+    WHERE ct.user_id = auth.uid()
+    GROUP BY ct.currency
+    HAVING SUM(ct.amount) > 0;
+$$;
+
+-- Pay up to p_amount of the current user's outstanding share from their credit.
+-- Recorded as a 'credit' charge in the payments ledger.
+CREATE OR REPLACE FUNCTION spend_booking_credit(p_booking_id UUID, p_amount NUMERIC)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_booking public.bookings;
+    v_amount_due NUMERIC;
+    v_paid NUMERIC;
+    v_balance NUMERIC;
+    v_amount NUMERIC;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+    SELECT gm.amount_due INTO v_amount_due
+    FROM public.game_members gm
+    WHERE gm.game_id = p_booking_id AND gm.user_id = v_user_id AND gm.status = 'joined';
+
+    IF v_booking.id IS NULL OR v_amount_due IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'message', 'You are not in this game');
+    END IF;
+
+    -- One balance check at a time per user
+    PERFORM pg_advisory_xact_lock(hashtext('credit:' || v_user_id::TEXT));
+
+    v_paid := booking_net_paid(p_booking_id, v_user_id);
+
+    SELECT COALESCE(SUM(ct.amount), 0) INTO v_balance
+    FROM public.credit_transactions ct
+    WHERE ct.user_id = v_user_id AND ct.currency = v_booking.price_currency;
+
+    v_amount := LEAST(COALESCE(p_amount, 0), v_balance, v_amount_due - v_paid);
+    IF v_amount <= 0 THEN
+        RETURN json_build_object('success', FALSE, 'message', 'No credit available for this booking');
+    END IF;
+
+    INSERT INTO public.booking_payments (booking_id, user_id, kind, amount, currency, status, provider, reason)
+    VALUES (p_booking_id, v_user_id, 'charge', v_amount, v_booking.price_currency, 'succeeded', 'credit', 'Paid with booking credit');
+
+    INSERT INTO public.credit_transactions (user_id, amount, currency, kind, booking_id, reason)
+    VALUES (v_user_id, -v_amount, v_booking.price_currency, 'booking', p_booking_id, 'Used for a booking');
+
+    UPDATE public.bookings SET credit_applied = credit_applied + v_amount WHERE id = p_booking_id;
+
+    RETURN json_build_object('success', TRUE, 'amount', v_amount, 'currency', v_booking.price_currency);
+END;
+$$;
+
+-- Send up to p_amount of what a member paid for a booking back to their credit
+-- balance and return how much was sent. Internal: only the share re-split and
+-- cancel_booking decide how much a member is owed. Callers hold the booking
+-- row lock.
+CREATE OR REPLACE FUNCTION refund_to_credit(p_booking_id UUID, p_user_id UUID, p_amount NUMERIC, p_reason TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_amount NUMERIC := LEAST(COALESCE(p_amount, 0), booking_net_paid(p_booking_id, p_user_id));
+    v_currency TEXT;
+BEGIN
+    IF v_amount <= 0 THEN
+        RETURN 0;
+    END IF;
+
+    SELECT bp.currency INTO v_currency FROM public.booking_payments bp
+    WHERE bp.booking_id = p_booking_id AND bp.user_id = p_user_id AND bp.kind = 'charge' AND bp.status = 'succeeded'
+    ORDER BY bp.created_at DESC
+    LIMIT 1;
+
+    INSERT INTO public.booking_payments (booking_id, user_id, kind, amount, currency, status, provider, reason)
+    VALUES (p_booking_id, p_user_id, 'refund', v_amount, v_currency, 'succeeded', 'credit', p_reason);
+
+    INSERT INTO public.credit_transactions (user_id, amount, currency, kind, booking_id, reason)
+    VALUES (p_user_id, v_amount, v_currency, 'refund', p_booking_id, p_reason);
+
+    RETURN v_amount;
+END;
+$$;
+
+-- Same as payments.sql, but whatever was paid with credit goes straight back to
+-- credit; only the rest is queued for the provider that took the card payment
+CREATE OR REPLACE FUNCTION queue_member_refund(p_booking_id UUID, p_user_id UUID, p_amount NUMERIC, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_credit_paid NUMERIC;
+    v_rest NUMERIC;
+    v_charge public.booking_payments;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(CASE WHEN bp.kind = 'charge' THEN bp.amount ELSE -bp.amount END), 0) INTO v_credit_paid
+    FROM public.booking_payments bp
+    WHERE bp.booking_id = p_booking_id AND bp.user_id = p_user_id AND bp.provider = 'credit' AND bp.status = 'succeeded';
+
+    v_rest := p_amount - refund_to_credit(p_booking_id, p_user_id, LEAST(p_amount, GREATEST(v_credit_paid, 0)), p_reason);
+    IF v_rest <= 0 THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_charge FROM public.booking_payments bp
+    WHERE bp.booking_id = p_booking_id AND bp.user_id = p_user_id AND bp.kind = 'charge' AND bp.status = 'succeeded'
+      AND bp.provider <> 'credit'
+    ORDER BY bp.created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        PERFORM refund_to_credit(p_booking_id, p_user_id, v_rest, p_reason);
+        RETURN;
+    END IF;
+
+    INSERT INTO public.booking_payments (booking_id, user_id, kind, amount, currency, status, provider, reason)
+    VALUES (p_booking_id, p_user_id, 'refund', v_rest, v_charge.currency, 'pending', v_charge.provider, p_reason);
+END;
+$$;
+
+-- Same as cancellation_policies.sql, but the organizer can take their refund as
+-- credit instead of waiting for the card refund. The extra argument makes it a
+-- new function, so the old one is dropped to keep calls unambiguous.
+DROP FUNCTION IF EXISTS cancel_booking(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION cancel_booking(p_booking_id UUID, p_reason TEXT, p_refund_to TEXT DEFAULT 'original')
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_booking public.bookings;
+    v_terms JSONB;
+    v_fee NUMERIC;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Booking not found');
+    END IF;
+
+    IF v_booking.created_by IS DISTINCT FROM v_user_id THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the organizer can cancel this game');
+    END IF;
+
+    v_terms := booking_cancellation_terms(v_booking);
+
+    IF v_booking.status = 'cancelled' THEN
+        RETURN json_build_object('success', TRUE, 'message', 'Booking already cancelled', 'terms', v_terms,
+                                 'fee', COALESCE(v_booking.cancellation_fee, 0), 'currency', v_booking.price_currency);
+    END IF;
+
+    v_fee := ROUND(COALESCE(v_booking.price_amount, 0) * (v_terms->>'fee_percent')::NUMERIC / 100, 2);
+
+    UPDATE public.bookings
+    SET status = 'cancelled',
+        cancelled_at = NOW(),
+        cancelled_by = v_user_id,
+        cancellation_reason = p_reason,
+        cancellation_fee = v_fee
+    WHERE id = p_booking_id;
+
+    DELETE FROM public.pitch_bookings WHERE source_type = 'booking' AND source_id = p_booking_id;
+
+    PERFORM record_cancellation_fee(v_booking, v_user_id, v_fee, COALESCE(p_reason, 'Game cancelled'));
+
+    IF p_refund_to = 'credit' THEN
+        PERFORM refund_to_credit(p_booking_id, v_user_id, booking_net_paid(p_booking_id, v_user_id), 'Game cancelled');
+    END IF;
+
+    PERFORM apply_booking_shares(p_booking_id);
+
+    RETURN json_build_object('success', TRUE, 'terms', v_terms, 'fee', v_fee, 'currency', v_booking.price_currency);
+END;
+$$;
+
+-- check_promo_code takes any user id, so it stays internal
+REVOKE EXECUTE ON FUNCTION check_promo_code(TEXT, UUID, UUID, NUMERIC, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION validate_promo_code(TEXT, UUID, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_booking(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_credit_balances() TO authenticated;
+GRANT EXECUTE ON FUNCTION spend_booking_credit(UUID, NUMERIC) TO authenticated;
+REVOKE EXECUTE ON FUNCTION refund_to_credit(UUID, UUID, NUMERIC, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION cancel_booking(UUID, TEXT, TEXT) TO authenticated;
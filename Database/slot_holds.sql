@@ -0,0 +1,240 @@
+-- Slot Holds Migration
+-- Picking a time slot in the booking flow places a short hold on it so nobody
+-- else can grab it while the user finishes checkout. Holds expire on their own;
+-- the app also releases them when the user backs out.
+
+CREATE TABLE IF NOT EXISTS public.pitch_slot_holds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    pitch_id UUID NOT NULL REFERENCES public.pitches(id) ON DELETE CASCADE,
+    booking_date DATE NOT NULL,
+    time_slot INTEGER NOT NULL,
+    held_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pitch_slot_holds_lookup ON public.pitch_slot_holds(pitch_id, booking_date, expires_at);
+CREATE INDEX IF NOT EXISTS idx_pitch_slot_holds_user ON public.pitch_slot_holds(held_by);
+
+COMMENT ON TABLE public.pitch_slot_holds IS 'Short-lived reservations taken while a user completes checkout';
+
+-- How long a hold lasts
+CREATE OR REPLACE FUNCTION slot_hold_duration()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT INTERVAL '5 minutes' $$;
+
+-- Slot conflicts now also account for other users' live holds
+CREATE OR REPLACE FUNCTION get_booking_slot_conflict(
+    p_booking_date DATE,
+    p_time_slot INTEGER,
+    p_pitch_id UUID,
+    p_exclude_source_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_slot_end INTEGER;
+    v_conflict RECORD;
+    v_closure RECORD;
+    v_hold RECORD;
+BEGIN
+    SELECT * INTO v_closure FROM public.pitch_closures
+    WHERE pitch_id = p_pitch_id AND closure_date = p_booking_date;
+
+    IF FOUND THEN
+        RETURN json_build_object(
+            'code', 'closed',
+            'message', COALESCE('Pitch closed: ' || v_closure.reason, 'The pitch is closed on this date')
+        );
+    END IF;
+
+    SELECT slot_end INTO v_slot_end
+    FROM get_pitch_slots(p_booking_date, p_pitch_id)
+    WHERE slot_start = p_time_slot;
+
+    IF v_slot_end IS NULL THEN
+        RETURN json_build_object(
+            'code', 'outside_hours',
+            'message', 'This time is outside the pitch opening hours'
+        );
+    END IF;
+
+    SELECT * INTO v_conflict FROM public.pitch_bookings pb
+    WHERE pb.pitch_id = p_pitch_id
+      AND pb.booking_date = p_booking_date
+      AND pb.time_slot < v_slot_end
+      AND pb.time_slot + COALESCE(pb.duration_minutes, 60) > p_time_slot
+      AND (p_exclude_source_id IS NULL OR pb.source_id <> p_exclude_source_id)
+    LIMIT 1;
+
+    IF FOUND THEN
+        RETURN json_build_object(
+            'code', 'slot_taken',
+            'message', 'This pitch is already booked for the selected date and time',
+            'conflicting_booking', json_build_object(
+                'source_type', v_conflict.source_type,
+                'source_id', v_conflict.source_id,
+                'time_slot', v_conflict.time_slot
+            )
+        );
+    END IF;
+
+    SELECT * INTO v_hold FROM public.pitch_slot_holds h
+    WHERE h.pitch_id = p_pitch_id
+      AND h.booking_date = p_booking_date
+      AND h.time_slot = p_time_slot
+      AND h.expires_at > NOW()
+      AND h.held_by IS DISTINCT FROM auth.uid()
+    LIMIT 1;
+
+    IF FOUND THEN
+        RETURN json_build_object(
+            'code', 'held',
+            'message', 'Someone else is completing a booking for this slot. Try again in a few minutes.',
+            'expires_at', v_hold.expires_at
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Hold a slot for the current user, replacing any other hold they have
+CREATE OR REPLACE FUNCTION place_slot_hold(p_pitch_id UUID, p_booking_date DATE, p_time_slot INTEGER)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_conflict JSON;
+    v_hold public.pitch_slot_holds;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'You must be logged in to hold a slot'));
+    END IF;
+
+    PERFORM lock_pitch_date(p_pitch_id, p_booking_date);
+
+    DELETE FROM public.pitch_slot_holds WHERE expires_at <= NOW() OR held_by = v_user_id;
+
+    v_conflict := get_booking_slot_conflict(p_booking_date, p_time_slot, p_pitch_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    INSERT INTO public.pitch_slot_holds (pitch_id, booking_date, time_slot, held_by, expires_at)
+    VALUES (p_pitch_id, p_booking_date, p_time_slot, v_user_id, NOW() + slot_hold_duration())
+    RETURNING * INTO v_hold;
+
+    RETURN json_build_object('success', TRUE, 'hold', json_build_object(
+        'id', v_hold.id,
+        'pitch_id', v_hold.pitch_id,
+        'booking_date', v_hold.booking_date,
+        'time_slot', v_hold.time_slot,
+        'expires_at', v_hold.expires_at
+    ));
+END;
+$$;
+
+-- Release a hold early (user navigated back or changed slot)
+CREATE OR REPLACE FUNCTION release_slot_hold(p_hold_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.pitch_slot_holds WHERE id = p_hold_id AND held_by = auth.uid();
+    RETURN json_build_object('success', FOUND);
+END;
+$$;
+
+-- A confirmed reservation consumes any hold on the same slot
+CREATE OR REPLACE FUNCTION clear_slot_holds_on_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM public.pitch_slot_holds
+    WHERE pitch_id = NEW.pitch_id
+      AND booking_date = NEW.booking_date
+      AND time_slot = NEW.time_slot;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_clear_slot_holds ON public.pitch_bookings;
+CREATE TRIGGER trigger_clear_slot_holds
+    AFTER INSERT ON public.pitch_bookings
+    FOR EACH ROW EXECUTE FUNCTION clear_slot_holds_on_booking();
+
+-- Slots for a date split into available, booked and held by someone else.
+-- SECURITY DEFINER so other users' holds are visible despite RLS.
+CREATE OR REPLACE FUNCTION get_available_time_slots(p_booking_date DATE, p_pitch_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_available INTEGER[];
+    v_booked INTEGER[];
+    v_held INTEGER[];
+    v_total INTEGER;
+    v_closure TEXT;
+    v_closed BOOLEAN;
+BEGIN
+    SELECT TRUE, reason INTO v_closed, v_closure FROM public.pitch_closures
+    WHERE pitch_id = p_pitch_id AND closure_date = p_booking_date;
+
+    SELECT
+        COALESCE(array_agg(s.slot_start ORDER BY s.slot_start) FILTER (WHERE b.id IS NULL AND h.id IS NULL), '{}'),
+        COALESCE(array_agg(s.slot_start ORDER BY s.slot_start) FILTER (WHERE b.id IS NOT NULL), '{}'),
+        COALESCE(array_agg(s.slot_start ORDER BY s.slot_start) FILTER (WHERE b.id IS NULL AND h.id IS NOT NULL), '{}'),
+        COUNT(*)
+    INTO v_available, v_booked, v_held, v_total
+    FROM get_pitch_slots(p_booking_date, p_pitch_id) s
+    LEFT JOIN LATERAL (
+        SELECT pb.id FROM public.pitch_bookings pb
+        WHERE pb.pitch_id = p_pitch_id
+          AND pb.booking_date = p_booking_date
+          AND pb.time_slot < s.slot_end
+          AND pb.time_slot + COALESCE(pb.duration_minutes, 60) > s.slot_start
+        LIMIT 1
+    ) b ON TRUE
+    LEFT JOIN LATERAL (
+        SELECT sh.id FROM public.pitch_slot_holds sh
+        WHERE sh.pitch_id = p_pitch_id
+          AND sh.booking_date = p_booking_date
+          AND sh.time_slot = s.slot_start
+          AND sh.expires_at > NOW()
+          AND sh.held_by IS DISTINCT FROM auth.uid()
+        LIMIT 1
+    ) h ON TRUE;
+
+    RETURN json_build_object(
+        'date', p_booking_date,
+        'available_slots', v_available,
+        'booked_slots', v_booked,
+        'held_slots', v_held,
+        'total_slots', v_total,
+        'available_count', COALESCE(array_length(v_available, 1), 0),
+        'closed', COALESCE(v_closed, FALSE),
+        'closure_reason', v_closure
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_slot_hold(UUID, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_slot_hold(UUID) TO authenticated;
+
+-- Row Level Security: users only see their own holds; other holds surface via the functions above
+ALTER TABLE public.pitch_slot_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their slot holds" ON public.pitch_slot_holds
+    FOR SELECT USING (auth.uid() = held_by);
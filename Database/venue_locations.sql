@@ -0,0 +1,25 @@
+-- Venue Locations Migration
+-- Gives venues map coordinates so the public games list can be sorted by
+-- distance from the player and limited to a radius. Games pick up their
+-- position through bookings.venue_id. Venues without coordinates still list,
+-- they just drop out of distance searches.
+
+ALTER TABLE public.venues
+ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+
+COMMENT ON COLUMN public.venues.latitude IS 'WGS84 latitude in degrees (NULL until the venue is placed on the map)';
+COMMENT ON COLUMN public.venues.longitude IS 'WGS84 longitude in degrees (NULL until the venue is placed on the map)';
+
+ALTER TABLE public.venues DROP CONSTRAINT IF EXISTS venues_coordinates_check;
+ALTER TABLE public.venues
+ADD CONSTRAINT venues_coordinates_check CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+);
+
+-- Radius searches filter on a bounding box first
+CREATE INDEX IF NOT EXISTS idx_venues_coordinates
+    ON public.venues(latitude, longitude)
+    WHERE latitude IS NOT NULL;
+
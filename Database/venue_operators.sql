@@ -0,0 +1,545 @@
+-- Venue Operators Migration
+-- Pitch owners and their staff get an operator portal: a schedule of every
+-- booking on their pitches, slot blocking for maintenance, a revenue summary and
+-- approval of bookings on pitches that require it.
+
+-- Who runs which venue. Rows are added with the service role when a venue is
+-- onboarded; operators can only read their own.
+CREATE TABLE IF NOT EXISTS public.venue_operators (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'staff' CHECK (role IN ('owner', 'staff')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (venue_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_venue_operators_user ON public.venue_operators(user_id);
+
+COMMENT ON TABLE public.venue_operators IS 'Users allowed to manage a venue from the operator portal';
+
+ALTER TABLE public.venue_operators ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Operators can view their own venue roles" ON public.venue_operators
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION is_venue_operator(p_venue_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.venue_operators vo
+        WHERE vo.venue_id = p_venue_id AND vo.user_id = auth.uid()
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION is_pitch_operator(p_pitch_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.pitches p
+        JOIN public.venue_operators vo ON vo.venue_id = p.venue_id
+        WHERE p.id = p_pitch_id AND vo.user_id = auth.uid()
+    );
+$$;
+
+-- Bookings policies look at game_members, so the game_members and payments
+-- policies below go through this instead of querying bookings directly
+CREATE OR REPLACE FUNCTION is_booking_operator(p_booking_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.bookings b
+        WHERE b.id = p_booking_id AND is_pitch_operator(b.pitch_id)
+    );
+$$;
+
+-- Operators see everything booked on their pitches
+CREATE POLICY "Operators can view bookings on their pitches" ON public.bookings
+    FOR SELECT USING (is_pitch_operator(pitch_id));
+
+CREATE POLICY "Operators can view members of games on their pitches" ON public.game_members
+    FOR SELECT USING (is_booking_operator(game_id));
+
+CREATE POLICY "Operators can view payments for their pitches" ON public.booking_payments
+    FOR SELECT USING (is_booking_operator(booking_id));
+
+-- Approval: bookings on these pitches start as pending_approval and hold their
+-- slot until an operator approves (confirmed) or rejects (rejected) them
+ALTER TABLE public.pitches
+ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN public.pitches.requires_approval IS 'New bookings wait for an operator to approve them';
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+COMMENT ON COLUMN public.bookings.status IS 'pending_approval, confirmed, rejected, skipped (single series occurrence dropped) or cancelled';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_pending_approval ON public.bookings(pitch_id, date) WHERE status = 'pending_approval';
+
+-- Maintenance and other blocked time. Each block also reserves its slot in
+-- pitch_bookings (source_type 'block') so every availability check respects it.
+CREATE TABLE IF NOT EXISTS public.pitch_blocks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    pitch_id UUID NOT NULL REFERENCES public.pitches(id) ON DELETE CASCADE,
+    block_date DATE NOT NULL,
+    time_slot INTEGER NOT NULL,
+    reason TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pitch_blocks_pitch_date ON public.pitch_blocks(pitch_id, block_date);
+
+COMMENT ON TABLE public.pitch_blocks IS 'Slots taken out of sale by a venue operator';
+
+ALTER TABLE public.pitch_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Operators can view blocks on their pitches" ON public.pitch_blocks
+    FOR SELECT USING (is_pitch_operator(pitch_id));
+
+ALTER TABLE public.pitch_bookings
+DROP CONSTRAINT IF EXISTS pitch_bookings_source_type_check;
+
+ALTER TABLE public.pitch_bookings
+ADD CONSTRAINT pitch_bookings_source_type_check CHECK (source_type IN ('match', 'booking', 'block'));
+
+-- Take a slot out of sale
+CREATE OR REPLACE FUNCTION block_pitch_slot(p_pitch_id UUID, p_block_date DATE, p_time_slot INTEGER, p_reason TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_conflict JSON;
+    v_block_id UUID;
+BEGIN
+    IF NOT is_pitch_operator(p_pitch_id) THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'Only the venue operator can block this pitch'));
+    END IF;
+
+    PERFORM lock_pitch_date(p_pitch_id, p_block_date);
+
+    v_conflict := get_booking_slot_conflict(p_block_date, p_time_slot, p_pitch_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    INSERT INTO public.pitch_blocks (pitch_id, block_date, time_slot, reason, created_by)
+    VALUES (p_pitch_id, p_block_date, p_time_slot, NULLIF(TRIM(p_reason), ''), auth.uid())
+    RETURNING id INTO v_block_id;
+
+    INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+    VALUES (p_block_date, p_time_slot, 'block', v_block_id, p_pitch_id);
+
+    RETURN json_build_object('success', TRUE, 'block_id', v_block_id);
+END;
+$$;
+
+-- Put a blocked slot back on sale
+CREATE OR REPLACE FUNCTION unblock_pitch_slot(p_block_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_block public.pitch_blocks;
+BEGIN
+    SELECT * INTO v_block FROM public.pitch_blocks WHERE id = p_block_id;
+
+    IF NOT FOUND OR NOT is_pitch_operator(v_block.pitch_id) THEN
+        RETURN FALSE;
+    END IF;
+
+    DELETE FROM public.pitch_bookings WHERE source_type = 'block' AND source_id = p_block_id;
+    DELETE FROM public.pitch_blocks WHERE id = p_block_id;
+    RETURN TRUE;
+END;
+$$;
+
+-- Approve or reject a pending booking. Rejecting frees the slot and queues a
+-- refund for everyone who paid; the app then lets the players know.
+CREATE OR REPLACE FUNCTION review_booking(p_booking_id UUID, p_approve BOOLEAN, p_note TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking public.bookings;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_pitch_operator(v_booking.pitch_id) THEN
+        RETURN json_build_object('success', FALSE, 'message', 'Only the venue operator can review this booking');
+    END IF;
+
+    IF v_booking.status <> 'pending_approval' THEN
+        RETURN json_build_object('success', FALSE, 'message', 'This booking is no longer waiting for approval');
+    END IF;
+
+    UPDATE public.bookings
+    SET status = CASE WHEN p_approve THEN 'confirmed' ELSE 'rejected' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW(),
+        review_note = NULLIF(TRIM(p_note), '')
+    WHERE id = p_booking_id;
+
+    IF NOT p_approve THEN
+        DELETE FROM public.pitch_bookings WHERE source_type = 'booking' AND source_id = p_booking_id;
+        PERFORM apply_booking_shares(p_booking_id);
+    END IF;
+
+    RETURN json_build_object('success', TRUE);
+END;
+$$;
+
+-- Same as pricing_rules.sql, but bookings on approval-only pitches start as pending_approval
+CREATE OR REPLACE FUNCTION create_booking(p_booking JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_pitch_id UUID := (p_booking->>'pitch_id')::UUID;
+    v_date DATE := (p_booking->>'date')::DATE;
+    v_time_slot INTEGER := (p_booking->>'time_slot')::INTEGER;
+    v_conflict JSON;
+    v_price JSON;
+    v_pitch public.pitches;
+    v_booking public.bookings;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'You must be logged in to create a booking'));
+    END IF;
+
+    IF v_pitch_id IS NULL OR v_date IS NULL OR v_time_slot IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'A pitch, date and time slot are required'));
+    END IF;
+
+    SELECT * INTO v_pitch FROM public.pitches WHERE id = v_pitch_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Pitch not found'));
+    END IF;
+
+    PERFORM lock_pitch_date(v_pitch_id, v_date);
+
+    v_conflict := get_booking_slot_conflict(v_date, v_time_slot, v_pitch_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    v_booking := jsonb_populate_record(NULL::public.bookings, booking_request_settings(p_booking, v_user_id));
+    v_booking.id := gen_random_uuid();
+    v_booking.created_by := v_user_id;
+    v_booking.pitch_id := v_pitch_id;
+    v_booking.venue_id := v_pitch.venue_id;
+    v_booking.pitch_name := v_pitch.name;
+    v_booking.pitch_location := COALESCE((SELECT v.location FROM public.venues v WHERE v.id = v_pitch.venue_id), '');
+    v_booking.date := v_date;
+    v_booking.booking_date := v_date;
+    v_booking.time_slot := v_time_slot;
+    v_booking.price := v_pitch.price;
+    v_booking.status := 'confirmed';
+    v_booking.created_at := NOW();
+
+    IF v_pitch.requires_approval THEN
+        v_booking.status := 'pending_approval';
+    END IF;
+
+    -- A slot without a price can't be booked; the app's amount is never used
+    v_price := resolve_slot_price(v_pitch_id, v_date, v_time_slot);
+    IF v_price IS NULL OR (v_price->>'amount') IS NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'no_price', 'message', 'This slot doesn''t have a price yet'));
+    END IF;
+
+    v_booking.price_amount := (v_price->>'amount')::NUMERIC;
+    v_booking.price_currency := v_price->>'currency';
+    v_booking.base_price_amount := (v_price->>'base_amount')::NUMERIC;
+    v_booking.pricing_rule_id := (v_price->>'rule_id')::UUID;
+    v_booking.pricing_rule_name := v_price->>'rule_name';
+
+    v_booking := insert_booking_row(v_booking);
+
+    INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+    VALUES (v_date, v_time_slot, 'booking', v_booking.id, v_pitch_id);
+
+    INSERT INTO public.game_members (game_id, user_id, role, status)
+    VALUES (v_booking.id, v_user_id, 'organizer', 'joined');
+
+    RETURN json_build_object('success', TRUE, 'booking', row_to_json(v_booking));
+END;
+$$;
+
+-- Same as booking_reschedules.sql, but a pending booking keeps its slot reserved
+-- while it waits for approval, a move is priced from the pitch's rules, and a
+-- move onto an approval-only pitch needs approval again
+CREATE OR REPLACE FUNCTION update_booking(p_booking_id UUID, p_changes JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_existing public.bookings;
+    v_booking public.bookings;
+    v_pitch public.pitches;
+    v_conflict JSON;
+    v_price JSON;
+BEGIN
+    SELECT * INTO v_existing FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Booking not found'));
+    END IF;
+
+    IF v_existing.created_by IS DISTINCT FROM v_user_id THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'forbidden', 'message', 'Only the organizer can change this booking'));
+    END IF;
+
+    -- Only where and when the game is played can change; everything else
+    -- about the booking is kept or worked out again here
+    v_booking := v_existing;
+    v_booking.pitch_id := COALESCE((p_changes->>'pitch_id')::UUID, v_existing.pitch_id);
+    v_booking.date := COALESCE((p_changes->>'date')::DATE, v_existing.date::DATE);
+    v_booking.booking_date := v_booking.date::DATE;
+    v_booking.time_slot := COALESCE((p_changes->>'time_slot')::INTEGER, v_existing.time_slot);
+    v_booking.time := COALESCE(p_changes->>'time', v_existing.time);
+
+    SELECT * INTO v_pitch FROM public.pitches WHERE id = v_booking.pitch_id;
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+            'code', 'not_found', 'message', 'Pitch not found'));
+    END IF;
+
+    IF v_booking.pitch_id IS DISTINCT FROM v_existing.pitch_id THEN
+        v_booking.venue_id := v_pitch.venue_id;
+        v_booking.pitch_name := v_pitch.name;
+        v_booking.pitch_location := COALESCE((SELECT v.location FROM public.venues v WHERE v.id = v_pitch.venue_id), '');
+        v_booking.price := v_pitch.price;
+    END IF;
+
+    -- A move is priced again from the new pitch's rules for the new slot
+    IF v_booking.pitch_id IS DISTINCT FROM v_existing.pitch_id
+       OR v_booking.date::DATE IS DISTINCT FROM v_existing.date::DATE
+       OR v_booking.time_slot IS DISTINCT FROM v_existing.time_slot THEN
+        v_price := resolve_slot_price(v_booking.pitch_id, v_booking.date::DATE, v_booking.time_slot);
+        IF v_price IS NULL OR (v_price->>'amount') IS NULL THEN
+            RETURN json_build_object('success', FALSE, 'conflict', json_build_object(
+                'code', 'no_price', 'message', 'This slot doesn''t have a price yet'));
+        END IF;
+
+        v_booking.price_amount := (v_price->>'amount')::NUMERIC;
+        v_booking.price_currency := v_price->>'currency';
+        v_booking.base_price_amount := (v_price->>'base_amount')::NUMERIC;
+        v_booking.pricing_rule_id := (v_price->>'rule_id')::UUID;
+        v_booking.pricing_rule_name := v_price->>'rule_name';
+    END IF;
+
+    -- A confirmed game moved onto an approval-only pitch needs the operator's approval
+    IF v_booking.pitch_id IS DISTINCT FROM v_existing.pitch_id
+       AND v_pitch.requires_approval AND v_existing.status = 'confirmed' THEN
+        v_booking.status := 'pending_approval';
+    END IF;
+
+    PERFORM lock_pitch_date(v_booking.pitch_id, v_booking.date::DATE);
+
+    -- The booking's own reservation never counts as a clash
+    v_conflict := get_booking_slot_conflict(v_booking.date::DATE, v_booking.time_slot, v_booking.pitch_id, p_booking_id);
+    IF v_conflict IS NOT NULL THEN
+        RETURN json_build_object('success', FALSE, 'conflict', v_conflict);
+    END IF;
+
+    UPDATE public.bookings SET
+        date = v_booking.date,
+        booking_date = v_booking.booking_date,
+        time = v_booking.time,
+        time_slot = v_booking.time_slot,
+        pitch_id = v_booking.pitch_id,
+        venue_id = v_booking.venue_id,
+        pitch_name = v_booking.pitch_name,
+        pitch_location = v_booking.pitch_location,
+        price = v_booking.price,
+        price_amount = v_booking.price_amount,
+        base_price_amount = v_booking.base_price_amount,
+        pricing_rule_id = v_booking.pricing_rule_id,
+        pricing_rule_name = v_booking.pricing_rule_name,
+        price_currency = v_booking.price_currency,
+        status = v_booking.status
+    WHERE id = p_booking_id;
+
+    DELETE FROM public.pitch_bookings WHERE source_type = 'booking' AND source_id = p_booking_id;
+
+    IF v_booking.status IN ('confirmed', 'pending_approval') THEN
+        INSERT INTO public.pitch_bookings (booking_date, time_slot, source_type, source_id, pitch_id)
+        VALUES (v_booking.date::DATE, v_booking.time_slot, 'booking', p_booking_id, v_booking.pitch_id);
+    END IF;
+
+    RETURN json_build_object('success', TRUE, 'booking', row_to_json(v_booking));
+END;
+$$;
+
+-- Everything occupying the pitches in a date range: bookings, ranked matches and
+-- blocks. Operators of a pitch also get who booked it and the booking status.
+CREATE OR REPLACE FUNCTION get_booking_conflicts(p_start_date DATE, p_end_date DATE, p_pitch_id UUID DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_conflicts JSON;
+BEGIN
+    SELECT COALESCE(json_agg(row_to_json(c) ORDER BY c.booking_date, c.time_slot), '[]'::JSON)
+    INTO v_conflicts
+    FROM (
+        SELECT
+            pb.pitch_id,
+            pb.booking_date,
+            pb.time_slot,
+            COALESCE(pb.duration_minutes, 60) AS duration_minutes,
+            pb.source_type,
+            pb.source_id,
+            CASE WHEN is_pitch_operator(pb.pitch_id) THEN b.status END AS status,
+            CASE WHEN is_pitch_operator(pb.pitch_id) THEN COALESCE(up.full_name, up.username) END AS booked_by,
+            CASE WHEN is_pitch_operator(pb.pitch_id) THEN (
+                SELECT COUNT(*) FROM public.game_members gm WHERE gm.game_id = b.id AND gm.status = 'joined'
+            ) END AS player_count,
+            CASE WHEN is_pitch_operator(pb.pitch_id) THEN blk.reason END AS block_reason
+        FROM public.pitch_bookings pb
+        LEFT JOIN public.bookings b ON pb.source_type = 'booking' AND b.id = pb.source_id
+        LEFT JOIN public.user_profiles up ON up.id = b.created_by
+        LEFT JOIN public.pitch_blocks blk ON pb.source_type = 'block' AND blk.id = pb.source_id
+        WHERE pb.booking_date BETWEEN p_start_date AND p_end_date
+          AND (p_pitch_id IS NULL OR pb.pitch_id = p_pitch_id)
+    ) c;
+
+    RETURN json_build_object(
+        'start_date', p_start_date,
+        'end_date', p_end_date,
+        'conflicts', v_conflicts
+    );
+END;
+$$;
+
+-- Bookings waiting for an operator's decision
+CREATE OR REPLACE FUNCTION get_pending_approvals(p_venue_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_venue_operator(p_venue_id) THEN
+        RETURN '[]'::JSON;
+    END IF;
+
+    RETURN COALESCE((
+        SELECT json_agg(json_build_object(
+            'id', b.id,
+            'pitch_id', b.pitch_id,
+            'pitch_name', p.name,
+            'date', b.date,
+            'time', b.time,
+            'time_slot', b.time_slot,
+            'price_amount', b.price_amount,
+            'price_currency', b.price_currency,
+            'booked_by', COALESCE(up.full_name, up.username),
+            'created_at', b.created_at
+        ) ORDER BY b.date, b.time_slot)
+        FROM public.bookings b
+        JOIN public.pitches p ON p.id = b.pitch_id
+        LEFT JOIN public.user_profiles up ON up.id = b.created_by
+        WHERE p.venue_id = p_venue_id
+          AND b.status = 'pending_approval'
+          AND b.date::DATE >= CURRENT_DATE
+    ), '[]'::JSON);
+END;
+$$;
+
+-- Money taken per pitch over a date range (by game date), from the payments ledger.
+-- Fees are cancellation fees kept; they're already part of net.
+CREATE OR REPLACE FUNCTION get_venue_revenue(p_venue_id UUID, p_start_date DATE, p_end_date DATE)
+RETURNS TABLE (
+    pitch_id UUID,
+    pitch_name TEXT,
+    currency TEXT,
+    bookings INTEGER,
+    charged NUMERIC,
+    refunded NUMERIC,
+    fees NUMERIC,
+    net NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_venue_operator(p_venue_id) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.name,
+        COALESCE(bp.currency, p.price_currency),
+        COUNT(DISTINCT b.id)::INTEGER,
+        COALESCE(SUM(bp.amount) FILTER (WHERE bp.kind = 'charge'), 0),
+        COALESCE(SUM(bp.amount) FILTER (WHERE bp.kind = 'refund'), 0),
+        COALESCE(SUM(bp.amount) FILTER (WHERE bp.kind = 'fee'), 0),
+        COALESCE(SUM(bp.amount) FILTER (WHERE bp.kind = 'charge'), 0)
+            - COALESCE(SUM(bp.amount) FILTER (WHERE bp.kind = 'refund'), 0)
+    FROM public.pitches p
+    LEFT JOIN public.bookings b
+        ON b.pitch_id = p.id
+       AND b.date::DATE BETWEEN p_start_date AND p_end_date
+       AND b.status NOT IN ('rejected', 'skipped')
+    LEFT JOIN public.booking_payments bp
+        ON bp.booking_id = b.id AND bp.status = 'succeeded'
+    WHERE p.venue_id = p_venue_id
+    GROUP BY p.id, p.name, COALESCE(bp.currency, p.price_currency)
+    ORDER BY p.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_venue_operator(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_pitch_operator(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_booking_operator(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION block_pitch_slot(UUID, DATE, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION unblock_pitch_slot(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_booking(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_booking(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_booking(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_booking_conflicts(DATE, DATE, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_pending_approvals(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_venue_revenue(UUID, DATE, DATE) TO authenticated;
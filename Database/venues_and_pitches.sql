@@ -0,0 +1,90 @@
+-- Venues and Pitches Catalog
+-- Replaces the single hardcoded "Central Football Arena" with a real catalog of
+-- venues, each owning one or more bookable pitches.
+
+-- Venues (a physical location that can host several pitches)
+CREATE TABLE IF NOT EXISTS public.venues (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    location TEXT NOT NULL,
+    address TEXT,
+    description TEXT,
+    photos TEXT[] DEFAULT '{}',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Pitches (the unit that actually gets booked)
+CREATE TABLE IF NOT EXISTS public.pitches (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    surface TEXT NOT NULL DEFAULT 'artificial_grass'
+        CHECK (surface IN ('artificial_grass', 'natural_grass', 'hard_court', 'indoor_turf')),
+    size INTEGER NOT NULL DEFAULT 5 CHECK (size IN (5, 7, 11)),
+    is_indoor BOOLEAN NOT NULL DEFAULT FALSE,
+    photos TEXT[] DEFAULT '{}',
+    price TEXT NOT NULL DEFAULT '$25/hour',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for catalog browsing and filtering
+CREATE INDEX IF NOT EXISTS idx_venues_active ON public.venues(is_active) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_pitches_venue_id ON public.pitches(venue_id);
+CREATE INDEX IF NOT EXISTS idx_pitches_size ON public.pitches(size);
+CREATE INDEX IF NOT EXISTS idx_pitches_active ON public.pitches(is_active) WHERE is_active = TRUE;
+
+-- Link bookings to the venue they were made at (pitch_id already exists)
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_pitch_id ON public.bookings(pitch_id);
+
+COMMENT ON COLUMN public.pitches.size IS 'Team size the pitch is built for: 5, 7 or 11-a-side';
+COMMENT ON COLUMN public.pitches.price IS 'Display price for the pitch, e.g. $25/hour';
+COMMENT ON COLUMN public.bookings.venue_id IS 'Venue that owns the booked pitch';
+
+-- Seed the original league venue so existing bookings and ranked matches keep
+-- pointing at a valid pitch
+INSERT INTO public.venues (id, name, location)
+VALUES ('00000000-0000-0000-0000-000000000100', 'Central Football Arena', 'Downtown District')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.pitches (id, venue_id, name, surface, size, is_indoor, price)
+VALUES (
+    '00000000-0000-0000-0000-000000000001',
+    '00000000-0000-0000-0000-000000000100',
+    'Central Football Arena',
+    'artificial_grass',
+    7,
+    FALSE,
+    '$25/hour'
+)
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE public.bookings
+SET venue_id = '00000000-0000-0000-0000-000000000100'
+WHERE venue_id IS NULL
+  AND pitch_id = '00000000-0000-0000-0000-000000000001';
+
+-- updated_at triggers (reuses update_updated_at_column from notifications_table.sql)
+CREATE TRIGGER update_venues_updated_at
+    BEFORE UPDATE ON public.venues
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_pitches_updated_at
+    BEFORE UPDATE ON public.pitches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security: the catalog is readable by everyone
+ALTER TABLE public.venues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pitches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view venues" ON public.venues
+    FOR SELECT USING (TRUE);
+
+CREATE POLICY "Anyone can view pitches" ON public.pitches
+    FOR SELECT USING (TRUE);
@@ -0,0 +1,157 @@
+// Calendar Feed
+// Renders a user's bookings, ranked matches and tournament fixtures as iCalendar (RFC 5545)
+
+const CALENDAR_NAME = 'Hagz Games';
+const UID_DOMAIN = 'hagz.app';
+const EVENT_KINDS = ['booking', 'match', 'fixture'];
+
+// Stable per row, so a rescheduled or cancelled game replaces the existing event
+const getEventUid = (kind, sourceId) => `${kind}-${sourceId}@${UID_DOMAIN}`;
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// UTC timestamp, e.g. 20250102T183000Z
+const formatUtc = (date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Floating local time: pitch slots are wall-clock times at the venue
+const formatLocal = (date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+
+const escapeText = (value) =>
+  String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line) => {
+  const chunks = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+/**
+ * Start and end lines for an event row from get_calendar_feed_events.
+ * Bookings and ranked matches use a date plus minutes from midnight (slots past
+ * 1440 fall on the next day); tournament fixtures have an exact timestamp.
+ */
+function getEventTimes(event) {
+  const durationMs = (event.duration_minutes || 60) * 60 * 1000;
+
+  if (event.starts_at) {
+    const start = new Date(event.starts_at);
+    return {
+      start: `DTSTART:${formatUtc(start)}`,
+      end: `DTEND:${formatUtc(new Date(start.getTime() + durationMs))}`,
+    };
+  }
+
+  // Work in UTC fields so the server's own timezone never shifts the wall-clock time
+  const [year, month, day] = event.starts_on.split('-').map(Number);
+  const start = new Date(Date.UTC(year, month - 1, day, 0, event.start_minutes || 0));
+  return {
+    start: `DTSTART:${formatLocal(start)}`,
+    end: `DTEND:${formatLocal(new Date(start.getTime() + durationMs))}`,
+  };
+}
+
+/**
+ * Build one VEVENT block
+ * @param {Object} event - Row from get_calendar_feed_events
+ * @param {Date} now - Generation time, used for DTSTAMP
+ * @returns {string[]} - Unfolded content lines
+ */
+function buildEvent(event, now) {
+  const { start, end } = getEventTimes(event);
+  const cancelled = event.status === 'cancelled';
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event.kind, event.source_id)}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    start,
+    end,
+    `SEQUENCE:${event.sequence || 0}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SUMMARY:${escapeText(cancelled ? `Cancelled: ${event.title}` : event.title)}`,
+  ];
+
+  if (event.updated_at) {
+    lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.updated_at))}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build a complete calendar document
+ * @param {Object[]} events - Rows from get_calendar_feed_events
+ * @returns {string} - iCalendar text with CRLF line endings
+ */
+function buildCalendar(events, now = new Date()) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Hagz//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${CALENDAR_NAME}`,
+    // Ask subscribed clients to refresh hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const event of events) {
+    lines.push(...buildEvent(event, now));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Load the events behind a feed token
+ * @param {Object} supabase - Service role client
+ * @param {string} token - Feed token from calendar_feeds
+ * @param {Object} [only] - { kind, id } to load a single event
+ * @returns {Promise<{ events: Object[] | null, error: Error | null }>}
+ */
+async function loadFeedEvents(supabase, token, only = null) {
+  const { data, error } = await supabase.rpc('get_calendar_feed_events', {
+    p_token: token,
+    p_kind: only ? only.kind : null,
+    p_source_id: only ? only.id : null,
+  });
+
+  if (error) {
+    return { events: null, error };
+  }
+  return { events: data || [], error: null };
+}
+
+module.exports = {
+  EVENT_KINDS,
+  getEventUid,
+  buildCalendar,
+  loadFeedEvents
+};
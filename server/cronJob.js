@@ -3,6 +3,11 @@
 
 const cron = require('node-cron');
 const { processMatchReminders } = require('./matchReminderSender');
+const { processWaitlistOffers } = require('./waitlistOfferSender');
+const { processRsvpReminders } = require('./rsvpReminderSender');
+const { processGameResults } = require('./resultFinalizer');
+const { processMatchVotes } = require('./matchVoteSender');
+const { processPendingRefunds } = require('./payments');
 
 console.log('🕒 Starting Match Reminder Cron Job Service...');
 
@@ -26,10 +31,90 @@ const cronJob = cron.schedule(CRON_SCHEDULE, async () => {
   timezone: "UTC" // Use UTC timezone
 });
 
+// Waitlist offers expire on a short window, so check them every minute
+const WAITLIST_SCHEDULE = '* * * * *';
+
+const waitlistJob = cron.schedule(WAITLIST_SCHEDULE, async () => {
+  try {
+    await processWaitlistOffers();
+  } catch (error) {
+    console.error('❌ Waitlist offer check failed:', error);
+  }
+}, {
+  scheduled: false,
+  timezone: "UTC"
+});
+
+// RSVP rounds open at whole hours before kick-off; every 5 minutes is close enough
+const RSVP_SCHEDULE = '*/5 * * * *';
+
+const rsvpJob = cron.schedule(RSVP_SCHEDULE, async () => {
+  try {
+    await processRsvpReminders();
+  } catch (error) {
+    console.error('❌ RSVP reminder check failed:', error);
+  }
+}, {
+  scheduled: false,
+  timezone: "UTC"
+});
+
+// Results stay open for confirmation for a day, so a quarter-hourly sweep is plenty
+const RESULTS_SCHEDULE = '*/15 * * * *';
+
+const resultsJob = cron.schedule(RESULTS_SCHEDULE, async () => {
+  try {
+    await processGameResults();
+  } catch (error) {
+    console.error('❌ Game result check failed:', error);
+  }
+}, {
+  scheduled: false,
+  timezone: "UTC"
+});
+
+// Post-match votes open as results become final and close after a day
+const VOTES_SCHEDULE = '*/15 * * * *';
+
+const votesJob = cron.schedule(VOTES_SCHEDULE, async () => {
+  try {
+    await processMatchVotes();
+  } catch (error) {
+    console.error('❌ Match vote check failed:', error);
+  }
+}, {
+  scheduled: false,
+  timezone: "UTC"
+});
+
+// Refunds are queued by the database as players leave or games are cancelled
+const REFUNDS_SCHEDULE = '*/5 * * * *';
+
+const refundsJob = cron.schedule(REFUNDS_SCHEDULE, async () => {
+  try {
+    await processPendingRefunds();
+  } catch (error) {
+    console.error('❌ Refund sweep failed:', error);
+  }
+}, {
+  scheduled: false,
+  timezone: "UTC"
+});
+
 // Start the cron job
 cronJob.start();
+waitlistJob.start();
+rsvpJob.start();
+resultsJob.start();
+votesJob.start();
+refundsJob.start();
 console.log(`✅ Cron job started - running every 5 minutes (${CRON_SCHEDULE})`);
 console.log('📅 Checking for matches that need 2-hour reminders...');
+console.log(`⏳ Waitlist offers checked every minute (${WAITLIST_SCHEDULE})`);
+console.log(`🙋 RSVP prompts and reminders checked every 5 minutes (${RSVP_SCHEDULE})`);
+console.log(`🏆 Game results finalized every 15 minutes (${RESULTS_SCHEDULE})`);
+console.log(`⭐ MVP votes opened and tallied every 15 minutes (${VOTES_SCHEDULE})`);
+console.log(`💸 Queued refunds sent every 5 minutes (${REFUNDS_SCHEDULE})`);
 
 // Run once immediately on startup
 processMatchReminders().then(() => {
@@ -42,6 +127,11 @@ processMatchReminders().then(() => {
 process.on('SIGINT', () => {
   console.log('\n🛑 Shutting down cron job...');
   cronJob.stop();
+  waitlistJob.stop();
+  rsvpJob.stop();
+  resultsJob.stop();
+  votesJob.stop();
+  refundsJob.stop();
   console.log('✅ Cron job stopped');
   process.exit(0);
 });
@@ -49,6 +139,11 @@ process.on('SIGINT', () => {
 process.on('SIGTERM', () => {
   console.log('\n🛑 Received SIGTERM, shutting down cron job...');
   cronJob.stop();
+  waitlistJob.stop();
+  rsvpJob.stop();
+  resultsJob.stop();
+  votesJob.stop();
+  refundsJob.stop();
   console.log('✅ Cron job stopped');
   process.exit(0);
 });
@@ -67,6 +162,11 @@ if (process.env.NODE_ENV === 'production') {
       status: 'running',
       service: 'match-reminder-cron',
       schedule: CRON_SCHEDULE,
+      waitlistSchedule: WAITLIST_SCHEDULE,
+      rsvpSchedule: RSVP_SCHEDULE,
+      resultsSchedule: RESULTS_SCHEDULE,
+      votesSchedule: VOTES_SCHEDULE,
+      refundsSchedule: REFUNDS_SCHEDULE,
       uptime: process.uptime(),
       timestamp: new Date().toISOString()
     });
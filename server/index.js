@@ -3,6 +3,8 @@ const express = require('express');
 const cors = require('cors');
 const { createClient } = require('@supabase/supabase-js');
 const { sendPushNotifications, sendBroadcastNotification } = require('./pushNotificationSender');
+const { EVENT_KINDS, buildCalendar, loadFeedEvents } = require('./calendarFeed');
+const { payBookingShare } = require('./payments');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -186,6 +188,97 @@ app.post('/send-user-notification', async (req, res) => {
   }
 });
 
+// Pay the signed-in member's outstanding share of a booking
+app.post('/payments/pay-share', async (req, res) => {
+  try {
+    if (!supabaseServiceKey) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured');
+      return res.status(500).json({ error: 'Payments not configured' });
+    }
+
+    // The payer is whoever the session token belongs to, never a user id from the body
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const { data: auth, error: authError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: null, error: null };
+
+    const user = auth && auth.user;
+    if (authError || !user) {
+      return res.status(401).json({ error: 'Please sign in to pay' });
+    }
+
+    const { bookingId } = req.body;
+    if (!bookingId) {
+      return res.status(400).json({ error: 'bookingId is required' });
+    }
+
+    const result = await payBookingShare(bookingId, user.id);
+    res.status(result.success ? 200 : 402).json(result);
+
+  } catch (error) {
+    console.error('❌ Pay share error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Send an iCalendar document, or 404 when the feed token is unknown or was reset
+async function sendCalendar(req, res, only = null) {
+  try {
+    if (!supabaseServiceKey) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured');
+      return res.status(500).send('Calendar feeds not configured');
+    }
+
+    const { token } = req.params;
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError || !feed) {
+      return res.status(404).send('Calendar not found');
+    }
+
+    const { events, error } = await loadFeedEvents(supabase, token, only);
+
+    if (error) {
+      console.error('❌ Error loading calendar events:', error);
+      return res.status(500).send('Failed to load calendar');
+    }
+
+    if (only && events.length === 0) {
+      return res.status(404).send('Event not found');
+    }
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Cache-Control', 'private, max-age=300');
+    if (only) {
+      res.set('Content-Disposition', `attachment; filename="hagz-${only.kind}.ics"`);
+    }
+    res.send(buildCalendar(events));
+
+  } catch (error) {
+    console.error('❌ Calendar feed error:', error);
+    res.status(500).send('Internal server error');
+  }
+}
+
+// Personal calendar feed (subscribe via webcal://)
+app.get('/calendar/:token.ics', (req, res) => sendCalendar(req, res));
+
+// A single booking, ranked match or tournament fixture as an .ics download
+app.get('/calendar/:token/:kind/:id.ics', (req, res) => {
+  const { kind, id } = req.params;
+
+  if (!EVENT_KINDS.includes(kind) || !/^[0-9a-f-]{36}$/i.test(id)) {
+    return res.status(400).send('Unknown event');
+  }
+
+  sendCalendar(req, res, { kind, id });
+});
+
 // Validate environment before starting
 console.log('🔍 Environment check:', {
   port: PORT,
@@ -0,0 +1,100 @@
+// Match Vote Sender
+// Tells players when post-match MVP voting opens, tallies votes whose window
+// has closed and congratulates whoever was voted MVP
+
+const { createClient } = require('@supabase/supabase-js');
+const { sendPushNotifications } = require('./pushNotificationSender');
+
+const supabaseUrl = process.env.SUPABASE_URL || 'https://wlzuzohbuonvfnembyyl.supabase.co';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const NOTIFICATIONS = {
+  prompt: {
+    type: 'mvp_vote_open',
+    title: '⭐ Who was the MVP?',
+    message: 'Voting is open for your last match. Pick the MVP and rate the other players within 24 hours.'
+  },
+  mvp: {
+    type: 'mvp_awarded',
+    title: '🏅 You were voted MVP!',
+    message: 'The other players voted you the MVP of your last match. It\'s been added to your profile.'
+  }
+};
+
+/**
+ * Send every vote prompt and MVP award that is due
+ * @returns {Promise<number>} - Number of players notified
+ */
+async function processMatchVotes() {
+  if (!supabaseServiceKey) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured, skipping match votes');
+    return 0;
+  }
+
+  const { data: events, error } = await supabase.rpc('process_match_votes');
+
+  if (error) {
+    console.error('❌ Error processing match votes:', error);
+    return 0;
+  }
+
+  if (!events || events.length === 0) {
+    return 0;
+  }
+
+  console.log(`⭐ ${events.length} vote prompt(s)/MVP award(s) due`);
+
+  for (const event of events) {
+    const notification = NOTIFICATIONS[event.kind];
+    // Pickup games open on their game screen; notifications only link to bookings
+    const gameId = event.source === 'game' ? event.source_id : null;
+
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert([{
+        user_id: event.user_id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        game_id: gameId,
+        status: 'unread',
+        created_at: new Date().toISOString()
+      }]);
+
+    if (notificationError) {
+      console.error('❌ Error creating vote notification:', notificationError);
+    }
+
+    const { data: user } = await supabase
+      .from('user_profiles')
+      .select('push_token')
+      .eq('id', event.user_id)
+      .single();
+
+    if (user && user.push_token) {
+      await sendPushNotifications([user.push_token], notification.title, notification.message, gameId
+        ? { screen: 'GameDetails', gameId, type: notification.type }
+        : { matchId: event.source_id, type: notification.type });
+    }
+  }
+
+  return events.length;
+}
+
+module.exports = {
+  processMatchVotes
+};
+
+// Run directly for a one-off sweep
+if (require.main === module) {
+  processMatchVotes()
+    .then(count => {
+      console.log(`✅ Sent ${count} vote notification(s)`);
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('❌ Match vote sweep failed:', error);
+      process.exit(1);
+    });
+}
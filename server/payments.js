@@ -0,0 +1,203 @@
+// Payments
+// Charges booking shares and sends queued refunds through the payment provider.
+// This is the only place that writes provider results to the payments ledger:
+// the app asks for a charge, and refunds are queued by the database whenever a
+// re-split leaves someone overpaid.
+
+const { createClient } = require('@supabase/supabase-js');
+
+const supabaseUrl = process.env.SUPABASE_URL || 'https://wlzuzohbuonvfnembyyl.supabase.co';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Refunds sent per sweep
+const REFUND_BATCH_SIZE = 50;
+
+/**
+ * Provider that never talks to a real processor. Charges succeed unless
+ * failCharges is set, which is handy for exercising the failure paths.
+ */
+class FakePaymentProvider {
+  constructor(options = {}) {
+    this.name = 'fake';
+    this.failCharges = options.failCharges || false;
+  }
+
+  async charge(request) {
+    if (this.failCharges) {
+      return { success: false, error: 'Card declined (fake provider)' };
+    }
+    return { success: true, reference: `fake_ch_${request.bookingId.slice(0, 8)}_${Date.now()}` };
+  }
+
+  async refund(request) {
+    return { success: true, reference: `fake_re_${request.bookingId.slice(0, 8)}_${Date.now()}` };
+  }
+}
+
+// Swap in a real processor here; refunds go back through whichever provider
+// took the original charge
+let provider = new FakePaymentProvider();
+
+function setPaymentProvider(nextProvider) {
+  provider = nextProvider;
+}
+
+/**
+ * Charge a member whatever they still owe for a booking and record the result
+ * @param {string} bookingId
+ * @param {string} userId - The member paying, from their verified session
+ * @returns {Promise<{success: boolean, amount?: number, currency?: string, error?: string}>}
+ */
+async function payBookingShare(bookingId, userId) {
+  if (!supabaseServiceKey) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured, cannot take payments');
+    return { success: false, error: 'Payments not configured' };
+  }
+
+  // Records a pending charge for what's still owed, under the booking's lock
+  const { data: started, error } = await supabase.rpc('start_share_charge', {
+    p_booking_id: bookingId,
+    p_user_id: userId,
+    p_provider: provider.name
+  });
+
+  if (error) {
+    console.error('❌ Error starting share charge:', error);
+    return { success: false, error: 'Failed to load your share' };
+  }
+
+  if (!started?.success) {
+    return { success: false, error: started?.message || 'Failed to load your share' };
+  }
+
+  if (!started.payment_id) {
+    return { success: true, amount: 0, currency: started.currency };
+  }
+
+  const amount = { amount: Number(started.amount), currency: started.currency };
+  const result = await provider.charge({ bookingId, userId, amount, description: 'Pitch booking share' });
+
+  const { error: ledgerError } = await supabase
+    .from('booking_payments')
+    .update({
+      status: result.success ? 'succeeded' : 'failed',
+      provider_reference: result.reference || null,
+      reason: result.error || null
+    })
+    .eq('id', started.payment_id)
+    .eq('status', 'pending');
+
+  if (ledgerError) {
+    console.error(`❌ Charge ${result.reference} for booking ${bookingId} could not be recorded:`, ledgerError);
+    return { success: false, error: 'Payment could not be recorded' };
+  }
+
+  if (!result.success) {
+    return { success: false, error: result.error || 'Payment failed' };
+  }
+
+  await supabase.rpc('apply_booking_shares', { p_booking_id: bookingId });
+  console.log(`💳 Charged ${amount.currency} ${amount.amount} for booking ${bookingId}`);
+  return { success: true, amount: amount.amount, currency: amount.currency };
+}
+
+/**
+ * Send queued refunds through the provider and mark them succeeded or failed
+ * @returns {Promise<number>} - Number of refunds sent
+ */
+async function processPendingRefunds() {
+  if (!supabaseServiceKey) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured, skipping refunds');
+    return 0;
+  }
+
+  const { data: refunds, error } = await supabase
+    .from('booking_payments')
+    .select('*')
+    .eq('kind', 'refund')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(REFUND_BATCH_SIZE);
+
+  if (error) {
+    console.error('❌ Error loading pending refunds:', error);
+    return 0;
+  }
+
+  let sent = 0;
+
+  for (const refund of refunds || []) {
+    if (refund.provider !== provider.name) {
+      console.warn(`⚠️ No provider "${refund.provider}" for refund ${refund.id}, leaving it pending`);
+      continue;
+    }
+
+    // Claim the refund first so an overlapping sweep can't send it again
+    const { data: claimed, error: claimError } = await supabase
+      .from('booking_payments')
+      .update({ status: 'sending' })
+      .eq('id', refund.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (claimError) {
+      console.error(`❌ Could not claim refund ${refund.id}:`, claimError);
+      continue;
+    }
+
+    if (!claimed || claimed.length === 0) {
+      continue;
+    }
+
+    const result = await provider.refund({
+      bookingId: refund.booking_id,
+      userId: refund.user_id,
+      amount: { amount: Number(refund.amount), currency: refund.currency },
+      reason: refund.reason
+    });
+
+    const { error: updateError } = await supabase
+      .from('booking_payments')
+      .update({
+        status: result.success ? 'succeeded' : 'failed',
+        provider_reference: result.reference || null
+      })
+      .eq('id', refund.id)
+      .eq('status', 'sending');
+
+    if (updateError) {
+      console.error(`❌ Refund ${refund.id} was sent but could not be marked:`, updateError);
+      continue;
+    }
+
+    if (result.success) {
+      sent++;
+      console.log(`💸 Refunded ${refund.currency} ${refund.amount} for booking ${refund.booking_id}: ${refund.reason}`);
+    } else {
+      console.error(`❌ Refund ${refund.id} failed:`, result.error);
+    }
+  }
+
+  return sent;
+}
+
+module.exports = {
+  FakePaymentProvider,
+  setPaymentProvider,
+  payBookingShare,
+  processPendingRefunds
+};
+
+// Run directly for a one-off refund sweep
+if (require.main === module) {
+  processPendingRefunds()
+    .then(count => {
+      console.log(`✅ Sent ${count} refund(s)`);
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('❌ Refund sweep failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,37 @@
+// Checks for the fake payment provider, run with `npm test`
+
+const test = require('node:test');
+const assert = require('node:assert');
+
+// The Supabase client refuses to start without a key; nothing here reaches it
+process.env.SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || 'test-service-key';
+
+const { FakePaymentProvider } = require('./payments');
+
+const request = {
+  bookingId: '0f8fad5b-d9cb-469f-a165-70867728950e',
+  userId: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+  amount: { amount: 150, currency: 'EGP' }
+};
+
+test('fake provider charges succeed with a reference for the booking', async () => {
+  const result = await new FakePaymentProvider().charge(request);
+
+  assert.strictEqual(result.success, true);
+  assert.match(result.reference, /^fake_ch_0f8fad5b_\d+$/);
+});
+
+test('fake provider declines every charge when failCharges is set', async () => {
+  const result = await new FakePaymentProvider({ failCharges: true }).charge(request);
+
+  assert.strictEqual(result.success, false);
+  assert.strictEqual(result.reference, undefined);
+  assert.ok(result.error);
+});
+
+test('fake provider refunds succeed even when charges are failing', async () => {
+  const result = await new FakePaymentProvider({ failCharges: true }).refund({ ...request, reason: 'Re-split' });
+
+  assert.strictEqual(result.success, true);
+  assert.match(result.reference, /^fake_re_0f8fad5b_\d+$/);
+});
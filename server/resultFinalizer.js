@@ -0,0 +1,88 @@
+// Result Finalizer
+// Makes game results final once their confirmation window closes without a
+// dispute (which updates the players' stats) and lets the players know
+
+const { createClient } = require('@supabase/supabase-js');
+const { sendPushNotifications } = require('./pushNotificationSender');
+
+const supabaseUrl = process.env.SUPABASE_URL || 'https://wlzuzohbuonvfnembyyl.supabase.co';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * Finalise every result that is due and notify its players
+ * @returns {Promise<number>} - Number of players notified
+ */
+async function processGameResults() {
+  if (!supabaseServiceKey) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured, skipping game results');
+    return 0;
+  }
+
+  const { data: players, error } = await supabase.rpc('finalize_due_game_results');
+
+  if (error) {
+    console.error('❌ Error finalizing game results:', error);
+    return 0;
+  }
+
+  if (!players || players.length === 0) {
+    return 0;
+  }
+
+  console.log(`🏆 ${new Set(players.map(player => player.game_id)).size} game result(s) made final`);
+
+  const title = '🏆 Result Is Final';
+  const message = 'Nobody disputed the result of your game, so it\'s final and your stats have been updated.';
+
+  for (const player of players) {
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert([{
+        user_id: player.user_id,
+        type: 'result_final',
+        title,
+        message,
+        game_id: player.game_id,
+        status: 'unread',
+        created_at: new Date().toISOString()
+      }]);
+
+    if (notificationError) {
+      console.error('❌ Error creating result notification:', notificationError);
+    }
+
+    const { data: user } = await supabase
+      .from('user_profiles')
+      .select('push_token')
+      .eq('id', player.user_id)
+      .single();
+
+    if (user && user.push_token) {
+      await sendPushNotifications([user.push_token], title, message, {
+        screen: 'GameDetails',
+        gameId: player.game_id,
+        type: 'result_final'
+      });
+    }
+  }
+
+  return players.length;
+}
+
+module.exports = {
+  processGameResults
+};
+
+// Run directly for a one-off sweep
+if (require.main === module) {
+  processGameResults()
+    .then(count => {
+      console.log(`✅ Notified ${count} player(s) of final results`);
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('❌ Result sweep failed:', error);
+      process.exit(1);
+    });
+}
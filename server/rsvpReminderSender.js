@@ -0,0 +1,166 @@
+// RSVP Reminder Sender
+// Opens the "still coming?" rounds before each game and chases members who
+// haven't answered, escalating to the organizer on the last reminder
+
+const { createClient } = require('@supabase/supabase-js');
+const { sendPushNotifications } = require('./pushNotificationSender');
+
+const supabaseUrl = process.env.SUPABASE_URL || 'https://wlzuzohbuonvfnembyyl.supabase.co';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * Describe how long until kick-off, e.g. "in 3 hours" or "tomorrow at 7:00 PM"
+ * @param {string} startsAt - Kick-off time (ISO)
+ * @returns {string}
+ */
+function describeKickoff(startsAt) {
+  const hours = Math.round((new Date(startsAt).getTime() - Date.now()) / (60 * 60 * 1000));
+  if (hours <= 1) return 'within the hour';
+  if (hours < 12) return `in ${hours} hours`;
+  return `on ${new Date(startsAt).toLocaleString('en-US', { weekday: 'long', hour: 'numeric', minute: '2-digit', timeZone: 'UTC' })} UTC`;
+}
+
+/**
+ * Build the notification for one RSVP event
+ * @param {object} event - Row from process_rsvp_rounds
+ * @param {string} pitchName - The game's pitch
+ * @returns {{ title: string, message: string, type: string }}
+ */
+function buildRsvpNotification(event, pitchName) {
+  const kickoff = describeKickoff(event.starts_at);
+
+  if (event.kind === 'prompt') {
+    return {
+      type: 'rsvp_prompt',
+      title: '⚽ Still coming?',
+      message: `Your game at ${pitchName} kicks off ${kickoff}. Tap to answer yes, no or maybe.`
+    };
+  }
+
+  if (event.level >= 2) {
+    return {
+      type: 'rsvp_reminder',
+      title: '⚠️ Last call: are you playing?',
+      message: `The organizer of your game at ${pitchName} (${kickoff}) still needs your answer. If you can't make it, say no so someone else can play.`
+    };
+  }
+
+  return {
+    type: 'rsvp_reminder',
+    title: '⏰ Are you still coming?',
+    message: `You haven't answered for your game at ${pitchName}, which kicks off ${kickoff}.`
+  };
+}
+
+/**
+ * Save an in-app notification and push it to the user's device
+ */
+async function notifyUser(userId, gameId, notification) {
+  const { error: notificationError } = await supabase
+    .from('notifications')
+    .insert([{
+      user_id: userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      game_id: gameId,
+      status: 'unread',
+      created_at: new Date().toISOString()
+    }]);
+
+  if (notificationError) {
+    console.error('❌ Error creating RSVP notification:', notificationError);
+  }
+
+  const { data: user } = await supabase
+    .from('user_profiles')
+    .select('push_token')
+    .eq('id', userId)
+    .single();
+
+  if (user && user.push_token) {
+    await sendPushNotifications([user.push_token], notification.title, notification.message, {
+      screen: 'GameDetails',
+      gameId,
+      type: notification.type
+    });
+  }
+}
+
+/**
+ * Send every RSVP prompt and reminder that is due
+ * @returns {Promise<number>} - Number of members notified
+ */
+async function processRsvpReminders() {
+  if (!supabaseServiceKey) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured, skipping RSVP reminders');
+    return 0;
+  }
+
+  const { data: events, error } = await supabase.rpc('process_rsvp_rounds');
+
+  if (error) {
+    console.error('❌ Error processing RSVP rounds:', error);
+    return 0;
+  }
+
+  if (!events || events.length === 0) {
+    return 0;
+  }
+
+  console.log(`🙋 ${events.length} RSVP prompt(s)/reminder(s) due`);
+
+  const gameIds = [...new Set(events.map(event => event.game_id))];
+  const { data: games } = await supabase
+    .from('bookings')
+    .select('id, pitch_name')
+    .in('id', gameIds);
+  const pitchNames = Object.fromEntries((games || []).map(game => [game.id, game.pitch_name || 'the pitch']));
+
+  // Members still silent at the last reminder are listed for the organizer, one notification per game
+  const unanswered = {};
+
+  for (const event of events) {
+    const pitchName = pitchNames[event.game_id] || 'the pitch';
+    await notifyUser(event.user_id, event.game_id, buildRsvpNotification(event, pitchName));
+
+    if (event.kind === 'reminder' && event.level >= 2 && event.organizer_id) {
+      unanswered[event.game_id] = unanswered[event.game_id] || { organizerId: event.organizer_id, userIds: [] };
+      unanswered[event.game_id].userIds.push(event.user_id);
+    }
+  }
+
+  for (const [gameId, { organizerId, userIds }] of Object.entries(unanswered)) {
+    const { data: profiles } = await supabase
+      .from('user_profiles')
+      .select('full_name, username')
+      .in('id', userIds);
+    const names = (profiles || []).map(profile => profile.full_name || profile.username).filter(Boolean);
+
+    await notifyUser(organizerId, gameId, {
+      type: 'rsvp_no_response',
+      title: '🙋 Players haven\'t confirmed',
+      message: `${names.length > 0 ? names.join(', ') : `${userIds.length} player(s)`} still haven't said whether they're coming to your game at ${pitchNames[gameId] || 'the pitch'}.`
+    });
+  }
+
+  return events.length;
+}
+
+module.exports = {
+  processRsvpReminders
+};
+
+// Run directly for a one-off sweep
+if (require.main === module) {
+  processRsvpReminders()
+    .then(count => {
+      console.log(`✅ Sent ${count} RSVP prompt(s)/reminder(s)`);
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('❌ RSVP sweep failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,88 @@
+// Waitlist Offer Sender
+// Passes expired waitlist offers on to the next player in line and notifies them
+
+const { createClient } = require('@supabase/supabase-js');
+const { sendPushNotifications } = require('./pushNotificationSender');
+
+const supabaseUrl = process.env.SUPABASE_URL || 'https://wlzuzohbuonvfnembyyl.supabase.co';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * Expire stale offers and notify whoever was offered the spot next
+ * @returns {Promise<number>} - Number of new offers sent
+ */
+async function processWaitlistOffers() {
+  if (!supabaseServiceKey) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured, skipping waitlist offers');
+    return 0;
+  }
+
+  const { data: offers, error } = await supabase.rpc('expire_waitlist_offers');
+
+  if (error) {
+    console.error('❌ Error expiring waitlist offers:', error);
+    return 0;
+  }
+
+  if (!offers || offers.length === 0) {
+    return 0;
+  }
+
+  console.log(`⏳ ${offers.length} waitlist offer(s) passed to the next player`);
+
+  for (const offer of offers) {
+    const deadline = new Date(offer.offer_expires_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    const title = '🎉 A spot opened up!';
+    const message = `A spot is free in a game you're waiting for. Accept it before ${deadline} or it goes to the next player.`;
+
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert([{
+        user_id: offer.user_id,
+        type: 'waitlist_offer',
+        title,
+        message,
+        game_id: offer.game_id,
+        status: 'unread',
+        created_at: new Date().toISOString()
+      }]);
+
+    if (notificationError) {
+      console.error('❌ Error creating waitlist notification:', notificationError);
+    }
+
+    const { data: user } = await supabase
+      .from('user_profiles')
+      .select('push_token')
+      .eq('id', offer.user_id)
+      .single();
+
+    if (user && user.push_token) {
+      await sendPushNotifications([user.push_token], title, message, {
+        screen: 'GameDetails',
+        gameId: offer.game_id,
+        type: 'waitlist_offer'
+      });
+    }
+  }
+
+  return offers.length;
+}
+
+module.exports = {
+  processWaitlistOffers
+};
+
+// Run directly for a one-off sweep
+if (require.main === module) {
+  processWaitlistOffers()
+    .then(count => {
+      console.log(`✅ Sent ${count} waitlist offer(s)`);
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('❌ Waitlist sweep failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import QRCode from 'react-native-qrcode-svg';
+import { db } from '../lib/supabase';
+import { CheckInCode } from '../types/attendance';
+import { buildCheckInUrl } from '../utils/reliability';
+
+interface CheckInQRModalProps {
+  visible: boolean;
+  gameId: string | null;
+  title: string;
+  onClose: () => void;
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// The game's check-in QR for players to scan on arrival. Only the organizer
+// and the venue can load it.
+const CheckInQRModal: React.FC<CheckInQRModalProps> = ({ visible, gameId, title, onClose }) => {
+  const [checkIn, setCheckIn] = useState<CheckInCode | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible || !gameId) return;
+
+    const loadCode = async () => {
+      setLoading(true);
+      setError('');
+      setCheckIn(null);
+      const { data, error: loadError } = await db.getCheckInCode(gameId);
+      if (loadError || !data) {
+        setError(loadError?.message || 'Could not load the check-in code');
+      } else {
+        setCheckIn(data);
+      }
+      setLoading(false);
+    };
+
+    loadCode();
+  }, [visible, gameId]);
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Check-in</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="rgba(255, 255, 255, 0.6)" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.subtitle}>{title}</Text>
+
+          {loading ? (
+            <ActivityIndicator size="large" color="#4CAF50" style={styles.loader} />
+          ) : checkIn ? (
+            <>
+              <View style={styles.qrContainer}>
+                <QRCode value={buildCheckInUrl(checkIn.code)} size={220} backgroundColor="#fff" color="#000" />
+              </View>
+              <Text style={styles.hint}>Players scan this from the game page when they arrive.</Text>
+              <Text style={styles.window}>
+                Open {formatTime(checkIn.opens_at)} – {formatTime(checkIn.closes_at)}
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.error}>{error}</Text>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    width: '100%',
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    borderRadius: 16,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    alignItems: 'center',
+  },
+  header: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  subtitle: {
+    alignSelf: 'flex-start',
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  loader: {
+    marginVertical: 40,
+  },
+  qrContainer: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+  },
+  hint: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  window: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 6,
+  },
+  error: {
+    fontSize: 14,
+    color: '#ff6b6b',
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+});
+
+export default CheckInQRModal;
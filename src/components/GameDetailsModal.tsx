@@ -12,6 +12,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase, db } from '../lib/supabase';
+import { WaitlistSummary } from '../types/waitlist';
 
 const { width, height } = Dimensions.get('window');
 
@@ -61,6 +62,8 @@ const GameDetailsModal: React.FC<GameDetailsModalProps> = ({
   const [joining, setJoining] = useState(false);
   const [showJoinSuccessModal, setShowJoinSuccessModal] = useState(false);
   const [showLeaveSuccessModal, setShowLeaveSuccessModal] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistSummary | null>(null);
+  const [waitlistAction, setWaitlistAction] = useState(false);
 
   useEffect(() => {
     if (visible && game) {
@@ -89,6 +92,14 @@ const GameDetailsModal: React.FC<GameDetailsModalProps> = ({
       
       setIsUserCreator(booking?.created_by === user.id);
 
+      // Show the user's place in the queue for games they're not in
+      if (!userInGame && booking?.created_by !== user.id) {
+        const { data: waitlistData } = await db.getWaitlistSummary(game.id);
+        setWaitlist(waitlistData);
+      } else {
+        setWaitlist(null);
+      }
+
       // Load game members
       const { data: gameMembers } = await db.getGameMembers(game.id);
       if (gameMembers) {
@@ -164,6 +175,35 @@ const GameDetailsModal: React.FC<GameDetailsModalProps> = ({
     );
   };
 
+  const handleWaitlistAction = async (action: 'join' | 'leave' | 'accept') => {
+    if (!game) return;
+
+    setWaitlistAction(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = action === 'join'
+        ? await db.joinWaitlist(game.id)
+        : action === 'accept'
+          ? await db.acceptWaitlistOffer(game.id, user.id)
+          : await db.leaveWaitlist(game.id, user.id);
+
+      if (error) {
+        Alert.alert('Error', error.message || 'Failed to update the waitlist. Please try again.');
+      } else if (action === 'accept') {
+        setShowJoinSuccessModal(true);
+      }
+
+      await loadGameDetails();
+    } catch (error) {
+      console.error('Error updating waitlist:', error);
+      Alert.alert('Error', 'Failed to update the waitlist. Please try again.');
+    } finally {
+      setWaitlistAction(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', { 
@@ -197,6 +237,9 @@ const GameDetailsModal: React.FC<GameDetailsModalProps> = ({
 
   if (!game) return null;
 
+  const isGameFull = members.length + (waitlist?.reserved_spots || 0) >= game.maxPlayers;
+  const hasWaitlistOffer = waitlist?.status === 'offered' && !!waitlist.offer_expires_at;
+
   return (
     <Modal
       visible={visible}
@@ -314,23 +357,61 @@ const GameDetailsModal: React.FC<GameDetailsModalProps> = ({
                 <Ionicons name="person" size={20} color="#4CAF50" />
                 <Text style={styles.creatorButtonText}>Your Game</Text>
               </View>
+            ) : hasWaitlistOffer ? (
+              <View>
+                <Text style={styles.waitlistText}>
+                  A spot opened up! Accept before {new Date(waitlist!.offer_expires_at!).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}.
+                </Text>
+                <TouchableOpacity
+                  style={styles.joinButton}
+                  onPress={() => handleWaitlistAction('accept')}
+                  disabled={waitlistAction}
+                >
+                  {waitlistAction ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Ionicons name="checkmark" size={20} color="#fff" />
+                  )}
+                  <Text style={styles.joinButtonText}>Accept Spot</Text>
+                </TouchableOpacity>
+              </View>
+            ) : waitlist?.status === 'waiting' ? (
+              <View>
+                <Text style={styles.waitlistText}>You're #{waitlist.position} on the waitlist</Text>
+                <TouchableOpacity
+                  style={styles.leaveButton}
+                  onPress={() => handleWaitlistAction('leave')}
+                  disabled={waitlistAction}
+                >
+                  <Ionicons name="exit" size={20} color="#fff" />
+                  <Text style={styles.leaveButtonText}>Leave Waitlist</Text>
+                </TouchableOpacity>
+              </View>
+            ) : isGameFull ? (
+              <TouchableOpacity
+                style={styles.joinButton}
+                onPress={() => handleWaitlistAction('join')}
+                disabled={waitlistAction}
+              >
+                {waitlistAction ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Ionicons name="hourglass-outline" size={20} color="#fff" />
+                )}
+                <Text style={styles.joinButtonText}>Game Full · Join Waitlist</Text>
+              </TouchableOpacity>
             ) : (
               <TouchableOpacity
-                style={[
-                  styles.joinButton,
-                  (members.length >= game.maxPlayers) && styles.joinButtonDisabled
-                ]}
+                style={styles.joinButton}
                 onPress={handleJoinGame}
-                disabled={joining || members.length >= game.maxPlayers}
+                disabled={joining}
               >
                 {joining ? (
                   <ActivityIndicator size="small" color="#fff" />
                 ) : (
                   <Ionicons name="add" size={20} color="#fff" />
                 )}
-                <Text style={styles.joinButtonText}>
-                  {members.length >= game.maxPlayers ? 'Game Full' : 'Join Game'}
-                </Text>
+                <Text style={styles.joinButtonText}>Join Game</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -581,6 +662,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  waitlistText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   leaveButton: {
     backgroundColor: '#F44336',
     flexDirection: 'row',
@@ -0,0 +1,384 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { db } from '../lib/supabase';
+import { Attendance } from '../types/attendance';
+import { PublishedTeams } from '../types/teams';
+import { GameResult, ResultPlayer } from '../types/results';
+import { TEAM_NAMES } from '../utils/teamBalance';
+import { validateResult } from '../utils/results';
+
+export interface ResultMember {
+  user_id: string;
+  attendance?: Attendance | null;
+  user_profiles: {
+    full_name: string;
+    username: string;
+  };
+}
+
+interface GameResultModalProps {
+  visible: boolean;
+  gameId: string;
+  organizerId: string;
+  members: ResultMember[];
+  teams: PublishedTeams | null;
+  result: GameResult | null;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+interface SheetRow extends ResultPlayer {
+  played: boolean;
+}
+
+const TEAM_COUNT_OPTIONS = [2, 3, 4];
+
+const Stepper: React.FC<{ value: number; onChange: (value: number) => void }> = ({ value, onChange }) => (
+  <View style={styles.stepper}>
+    <TouchableOpacity onPress={() => onChange(Math.max(0, value - 1))} disabled={value === 0}>
+      <Ionicons name="remove-circle-outline" size={22} color={value === 0 ? 'rgba(255, 255, 255, 0.2)' : 'rgba(255, 255, 255, 0.7)'} />
+    </TouchableOpacity>
+    <Text style={styles.stepperValue}>{value}</Text>
+    <TouchableOpacity onPress={() => onChange(value + 1)}>
+      <Ionicons name="add-circle-outline" size={22} color="rgba(255, 255, 255, 0.7)" />
+    </TouchableOpacity>
+  </View>
+);
+
+// Lets the organizer enter the final score and who scored and assisted once
+// the game is over. Starts from the published teams, or from the last entry
+// when correcting a disputed result.
+const GameResultModal: React.FC<GameResultModalProps> = ({
+  visible,
+  gameId,
+  organizerId,
+  members,
+  teams,
+  result,
+  onClose,
+  onSubmitted,
+}) => {
+  const [scores, setScores] = useState<number[]>([0, 0]);
+  const [rows, setRows] = useState<SheetRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setError('');
+    setScores(result ? result.scores : Array(teams?.team_count || 2).fill(0));
+    setRows(members.map(member => {
+      const entered = result?.players.find(player => player.user_id === member.user_id);
+      const teamIndex = teams?.players.find(player => player.user_id === member.user_id)?.team_index;
+      return {
+        user_id: member.user_id,
+        team_index: entered ? entered.team_index : teamIndex ?? null,
+        goals: entered?.goals || 0,
+        assists: entered?.assists || 0,
+        played: result ? !!entered : member.attendance !== 'no_show',
+      };
+    }));
+  }, [visible]);
+
+  const updateRow = (userId: string, changes: Partial<SheetRow>) => {
+    setRows(prev => prev.map(row => (row.user_id === userId ? { ...row, ...changes } : row)));
+  };
+
+  const handleTeamCount = (count: number) => {
+    setScores(prev => Array.from({ length: count }, (_, index) => prev[index] || 0));
+    setRows(prev => prev.map(row => (
+      row.team_index !== null && row.team_index >= count ? { ...row, team_index: null } : row
+    )));
+  };
+
+  // Tapping the team badge goes A, B, ..., then no team
+  const cycleTeam = (row: SheetRow) => {
+    const next = row.team_index === null ? 0 : row.team_index + 1;
+    updateRow(row.user_id, { team_index: next < scores.length ? next : null });
+  };
+
+  const getName = (userId: string) => {
+    const profile = members.find(member => member.user_id === userId)?.user_profiles;
+    return profile?.full_name || profile?.username || 'Player';
+  };
+
+  const handleSubmit = async () => {
+    const players: ResultPlayer[] = rows
+      .filter(row => row.played)
+      .map(({ user_id, team_index, goals, assists }) => ({ user_id, team_index, goals, assists }));
+
+    const problem = validateResult(scores, players);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const { error: submitError } = await db.submitGameResult(gameId, organizerId, scores, players);
+    setSaving(false);
+    if (submitError) {
+      setError(submitError.message || 'Could not save the result');
+      return;
+    }
+    onSubmitted();
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{result ? 'Correct Result' : 'Enter Result'}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="rgba(255, 255, 255, 0.6)" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.chipRow}>
+            {TEAM_COUNT_OPTIONS.map(count => (
+              <TouchableOpacity
+                key={count}
+                style={[styles.chip, scores.length === count && styles.chipActive]}
+                onPress={() => handleTeamCount(count)}
+              >
+                <Text style={[styles.chipText, scores.length === count && styles.chipTextActive]}>{count} teams</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.scoreRow}>
+            {scores.map((score, index) => (
+              <View key={index} style={styles.scoreCard}>
+                <Text style={styles.scoreTeam}>{TEAM_NAMES[index]}</Text>
+                <Stepper
+                  value={score}
+                  onChange={value => setScores(prev => prev.map((item, itemIndex) => (itemIndex === index ? value : item)))}
+                />
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.hint}>
+            Untick anyone who didn't play. Tap a team badge to move a player. Everyone ticked is asked to confirm.
+          </Text>
+
+          <View style={styles.columnHeader}>
+            <Text style={[styles.columnLabel, styles.columnName]}>Player</Text>
+            <Text style={styles.columnLabel}>Goals</Text>
+            <Text style={styles.columnLabel}>Assists</Text>
+          </View>
+
+          <ScrollView style={styles.playerList} showsVerticalScrollIndicator={false}>
+            {rows.map(row => (
+              <View key={row.user_id} style={[styles.playerRow, !row.played && styles.playerRowInactive]}>
+                <TouchableOpacity onPress={() => updateRow(row.user_id, { played: !row.played })}>
+                  <Ionicons
+                    name={row.played ? 'checkbox' : 'square-outline'}
+                    size={20}
+                    color={row.played ? '#4CAF50' : 'rgba(255, 255, 255, 0.4)'}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.teamBadge} onPress={() => cycleTeam(row)} disabled={!row.played}>
+                  <Text style={styles.teamBadgeText}>
+                    {row.team_index === null ? '–' : TEAM_NAMES[row.team_index].replace('Team ', '')}
+                  </Text>
+                </TouchableOpacity>
+                <Text style={styles.playerName} numberOfLines={1}>{getName(row.user_id)}</Text>
+                {row.played && (
+                  <>
+                    <Stepper value={row.goals} onChange={goals => updateRow(row.user_id, { goals })} />
+                    <Stepper value={row.assists} onChange={assists => updateRow(row.user_id, { assists })} />
+                  </>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          {!!error && <Text style={styles.error}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, saving && styles.buttonDisabled]}
+            onPress={handleSubmit}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Submit Result</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    maxHeight: '90%',
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  chipActive: {
+    borderColor: '#4CAF50',
+    backgroundColor: 'rgba(76, 175, 80, 0.15)',
+  },
+  chipText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  chipTextActive: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  scoreCard: {
+    flexGrow: 1,
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  scoreTeam: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#fff',
+    marginBottom: 6,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  stepperValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  hint: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 10,
+    marginBottom: 12,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    gap: 24,
+    paddingHorizontal: 8,
+    marginBottom: 4,
+  },
+  columnLabel: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+  columnName: {
+    flex: 1,
+  },
+  playerList: {
+    flexGrow: 0,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    gap: 8,
+  },
+  playerRowInactive: {
+    opacity: 0.5,
+  },
+  teamBadge: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+  },
+  teamBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#4CAF50',
+  },
+  playerName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  error: {
+    fontSize: 14,
+    color: '#ff6b6b',
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#4CAF50',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default GameResultModal;
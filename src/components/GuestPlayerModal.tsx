@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { db } from '../lib/supabase';
+import { isValidGuestEmail } from '../utils/guests';
+
+interface GuestPlayerModalProps {
+  visible: boolean;
+  gameId: string;
+  organizerId: string;
+  onClose: () => void;
+  onAdded: () => void;
+}
+
+// Lets the organizer give a friend without the app a spot in the game
+const GuestPlayerModal: React.FC<GuestPlayerModalProps> = ({ visible, gameId, organizerId, onClose, onAdded }) => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleClose = () => {
+    setName('');
+    setEmail('');
+    setPhone('');
+    setError('');
+    onClose();
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim()) {
+      setError('Enter the guest\'s name');
+      return;
+    }
+
+    if (email.trim() && !isValidGuestEmail(email)) {
+      setError('Enter a valid email or leave it empty');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const { error: addError } = await db.addGameGuests(gameId, organizerId, [{ name, email, phone }]);
+    setSaving(false);
+    if (addError) {
+      setError(addError.message || 'Could not add the guest');
+      return;
+    }
+
+    setName('');
+    setEmail('');
+    setPhone('');
+    onAdded();
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Add Guest</Text>
+            <TouchableOpacity onPress={handleClose}>
+              <Ionicons name="close" size={24} color="rgba(255, 255, 255, 0.6)" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.subtitle}>
+            Guests take a spot without the app. Add an email or phone to send them an invite to claim it.
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Name"
+            placeholderTextColor="rgba(255, 255, 255, 0.5)"
+          />
+          <TextInput
+            style={styles.input}
+            value={email}
+            onChangeText={setEmail}
+            placeholder="Email (optional)"
+            placeholderTextColor="rgba(255, 255, 255, 0.5)"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TextInput
+            style={styles.input}
+            value={phone}
+            onChangeText={setPhone}
+            placeholder="Phone (optional)"
+            placeholderTextColor="rgba(255, 255, 255, 0.5)"
+            keyboardType="phone-pad"
+          />
+
+          {!!error && <Text style={styles.error}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, saving && styles.buttonDisabled]}
+            onPress={handleAdd}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Add Guest</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    width: '100%',
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    borderRadius: 16,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.6)',
+    lineHeight: 20,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#fff',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    marginBottom: 12,
+  },
+  error: {
+    fontSize: 14,
+    color: '#ff6b6b',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#4CAF50',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default GuestPlayerModal;
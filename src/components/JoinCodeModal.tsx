@@ -0,0 +1,318 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { db } from '../lib/supabase';
+import { GameJoinCode } from '../types/invites';
+import {
+  JOIN_CODE_EXPIRY_OPTIONS,
+  JOIN_CODE_USE_OPTIONS,
+  buildJoinUrl,
+  describeJoinCodeLimits,
+  isJoinCodeActive,
+} from '../utils/joinCodes';
+
+interface JoinCodeModalProps {
+  visible: boolean;
+  gameId: string;
+  title: string;
+  onClose: () => void;
+}
+
+// The organizer's invite link for a game: share it, change its limits by
+// regenerating it, or turn it off
+const JoinCodeModal: React.FC<JoinCodeModalProps> = ({ visible, gameId, title, onClose }) => {
+  const [joinCode, setJoinCode] = useState<GameJoinCode | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [expiryHours, setExpiryHours] = useState<number | null>(null);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadCode = async () => {
+      setLoading(true);
+      setError('');
+      const { data, error: loadError } = await db.getGameJoinCode(gameId);
+      if (loadError) {
+        setError(loadError.message || 'Could not load the invite link');
+      }
+      setJoinCode(data);
+      setLoading(false);
+    };
+
+    loadCode();
+  }, [visible, gameId]);
+
+  const handleRegenerate = async () => {
+    setWorking(true);
+    setError('');
+    const { data, error: regenerateError } = await db.regenerateGameJoinCode(gameId, {
+      expiresAt: expiryHours ? new Date(Date.now() + expiryHours * 60 * 60 * 1000).toISOString() : null,
+      maxUses,
+    });
+    if (regenerateError || !data) {
+      setError(regenerateError?.message || 'Could not create an invite link');
+    } else {
+      setJoinCode(data);
+    }
+    setWorking(false);
+  };
+
+  const handleRevoke = async () => {
+    setWorking(true);
+    setError('');
+    const { error: revokeError } = await db.revokeGameJoinCode(gameId);
+    if (revokeError) {
+      setError(revokeError.message || 'Could not turn off the invite link');
+    } else if (joinCode) {
+      setJoinCode({ ...joinCode, revoked: true });
+    }
+    setWorking(false);
+  };
+
+  const handleShare = async () => {
+    if (!joinCode) return;
+    try {
+      await Share.share({
+        message: `Join my game: ${title}\n${buildJoinUrl(joinCode.code)}\nOr enter code ${joinCode.code} in HAGZ`,
+      });
+    } catch (shareError) {
+      console.error('Error sharing invite link:', shareError);
+    }
+  };
+
+  const isActive = !!joinCode && isJoinCodeActive(joinCode);
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Invite Link</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="rgba(255, 255, 255, 0.6)" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.subtitle}>{title}</Text>
+
+          {loading ? (
+            <ActivityIndicator size="large" color="#4CAF50" style={styles.loader} />
+          ) : (
+            <>
+              {joinCode && (
+                <View style={[styles.codeCard, !isActive && styles.codeCardInactive]}>
+                  <Text style={styles.code}>{joinCode.code}</Text>
+                  <Text style={styles.link}>{buildJoinUrl(joinCode.code)}</Text>
+                  <Text style={styles.limits}>{describeJoinCodeLimits(joinCode)}</Text>
+                </View>
+              )}
+
+              <Text style={styles.optionTitle}>Expires after</Text>
+              <View style={styles.chipRow}>
+                {JOIN_CODE_EXPIRY_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.chip, expiryHours === option.hours && styles.chipActive]}
+                    onPress={() => setExpiryHours(option.hours)}
+                  >
+                    <Text style={[styles.chipText, expiryHours === option.hours && styles.chipTextActive]}>{option.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.optionTitle}>Can be used by</Text>
+              <View style={styles.chipRow}>
+                {JOIN_CODE_USE_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.chip, maxUses === option.uses && styles.chipActive]}
+                    onPress={() => setMaxUses(option.uses)}
+                  >
+                    <Text style={[styles.chipText, maxUses === option.uses && styles.chipTextActive]}>{option.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {!!error && <Text style={styles.error}>{error}</Text>}
+
+              <View style={styles.actions}>
+                {isActive && (
+                  <TouchableOpacity style={styles.secondaryButton} onPress={handleRevoke} disabled={working}>
+                    <Text style={styles.revokeText}>Turn Off</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.secondaryButton} onPress={handleRegenerate} disabled={working}>
+                  {working ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.secondaryButtonText}>{joinCode ? 'New Link' : 'Create Link'}</Text>
+                  )}
+                </TouchableOpacity>
+                {isActive && (
+                  <TouchableOpacity style={styles.primaryButton} onPress={handleShare}>
+                    <Ionicons name="share-outline" size={16} color="#fff" />
+                    <Text style={styles.primaryButtonText}>Share</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    width: '100%',
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    borderRadius: 16,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  loader: {
+    marginVertical: 40,
+  },
+  codeCard: {
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    backgroundColor: 'rgba(76, 175, 80, 0.1)',
+    marginBottom: 16,
+  },
+  codeCardInactive: {
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    backgroundColor: 'transparent',
+    opacity: 0.6,
+  },
+  code: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#fff',
+    letterSpacing: 4,
+  },
+  link: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: 6,
+  },
+  limits: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 4,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  chipActive: {
+    borderColor: '#4CAF50',
+    backgroundColor: 'rgba(76, 175, 80, 0.15)',
+  },
+  chipText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  chipTextActive: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  error: {
+    fontSize: 14,
+    color: '#ff6b6b',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  secondaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  revokeText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#4CAF50',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
+
+export default JoinCodeModal;
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { db } from '../lib/supabase';
+import { MatchVote, VoteSource } from '../types/votes';
+import { formatRating, isVotingOpen } from '../utils/votes';
+import MatchVoteModal from './MatchVoteModal';
+
+interface MatchVoteCardProps {
+  source: VoteSource;
+  sourceId: string;
+  userId: string | null;
+  describeSide: (side: string | null) => string;
+  style?: StyleProp<ViewStyle>;
+}
+
+// The post-match vote on a game or match screen: a button to vote while it's
+// open, then the MVP and everyone's rating once it's tallied. Renders nothing
+// before voting opens.
+const MatchVoteCard: React.FC<MatchVoteCardProps> = ({ source, sourceId, userId, describeSide, style }) => {
+  const [vote, setVote] = useState<MatchVote | null>(null);
+  const [showVoteModal, setShowVoteModal] = useState(false);
+
+  const loadVote = async () => {
+    const { data } = await db.getMatchVote(source, sourceId);
+    setVote(data);
+  };
+
+  useEffect(() => {
+    loadVote();
+  }, [source, sourceId]);
+
+  if (!vote) {
+    return null;
+  }
+
+  const getName = (playerId: string) => {
+    const player = vote.participants.find(participant => participant.user_id === playerId);
+    return player?.full_name || player?.username || 'Player';
+  };
+
+  const isParticipant = !!userId && vote.participants.some(participant => participant.user_id === userId);
+  const isOpen = isVotingOpen(vote);
+  const closesAt = new Date(vote.closes_at);
+  const ratedPlayers = vote.results.filter(result => result.avg_rating !== null || result.is_mvp);
+
+  return (
+    <View style={style}>
+      <View style={styles.header}>
+        <Ionicons name="star" size={20} color="#ffa726" />
+        <Text style={styles.title}>MVP Vote</Text>
+      </View>
+
+      {vote.tallied_at ? (
+        <>
+          <Text style={styles.mvpText}>
+            {vote.mvp_ids.length > 0 ? `🏅 MVP: ${vote.mvp_ids.map(getName).join(' & ')}` : 'Nobody got an MVP vote'}
+          </Text>
+          {ratedPlayers.map(result => (
+            <View key={result.player_id} style={styles.resultRow}>
+              <Text style={styles.resultName}>
+                {getName(result.player_id)}
+                {result.is_mvp ? ' ⭐' : ''}
+              </Text>
+              <Text style={styles.resultMeta}>
+                {result.mvp_votes > 0 ? `${result.mvp_votes} MVP vote${result.mvp_votes === 1 ? '' : 's'} · ` : ''}
+                {result.ratings > 0 ? `${formatRating(result.avg_rating)} (${result.ratings})` : 'not rated'}
+              </Text>
+            </View>
+          ))}
+        </>
+      ) : (
+        <Text style={styles.detailText}>
+          {isOpen
+            ? `Voting closes ${closesAt.toLocaleDateString('en-US', { weekday: 'short' })} at ${closesAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}. ${vote.voters} of ${vote.participants.length} players have voted.`
+            : 'Voting has closed. The MVP will be announced shortly.'}
+        </Text>
+      )}
+
+      {isOpen && isParticipant && (
+        <TouchableOpacity style={styles.voteButton} onPress={() => setShowVoteModal(true)}>
+          <Ionicons name={vote.my_vote ? 'create-outline' : 'star-outline'} size={18} color="#fff" />
+          <Text style={styles.voteButtonText}>{vote.my_vote ? 'Change Vote' : 'Vote MVP & Rate Players'}</Text>
+        </TouchableOpacity>
+      )}
+
+      {isParticipant && userId && (
+        <MatchVoteModal
+          visible={showVoteModal}
+          source={source}
+          sourceId={sourceId}
+          userId={userId}
+          vote={vote}
+          describeSide={describeSide}
+          onClose={() => setShowVoteModal(false)}
+          onVoted={() => {
+            setShowVoteModal(false);
+            loadVote();
+          }}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  detailText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    lineHeight: 20,
+  },
+  mvpText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffa726',
+    marginBottom: 8,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  resultName: {
+    fontSize: 14,
+    color: '#fff',
+    flex: 1,
+  },
+  resultMeta: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  voteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#4CAF50',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 12,
+  },
+  voteButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
+
+export default MatchVoteCard;
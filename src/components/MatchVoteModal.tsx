@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { db } from '../lib/supabase';
+import { MatchVote, VoteSource } from '../types/votes';
+import { RATING_OPTIONS, validateVote } from '../utils/votes';
+
+interface MatchVoteModalProps {
+  visible: boolean;
+  source: VoteSource;
+  sourceId: string;
+  userId: string;
+  vote: MatchVote;
+  describeSide: (side: string | null) => string;
+  onClose: () => void;
+  onVoted: () => void;
+}
+
+// Lets a player pick the MVP and rate everyone else who played, starting from
+// their earlier ballot if they already voted
+const MatchVoteModal: React.FC<MatchVoteModalProps> = ({
+  visible,
+  source,
+  sourceId,
+  userId,
+  vote,
+  describeSide,
+  onClose,
+  onVoted,
+}) => {
+  const [mvpId, setMvpId] = useState<string | null>(null);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    setMvpId(vote.my_vote?.mvp_id || null);
+    setRatings(vote.my_vote?.ratings || {});
+    setError('');
+  }, [visible]);
+
+  const mySide = vote.participants.find(participant => participant.user_id === userId)?.side ?? null;
+  const others = vote.participants.filter(participant => participant.user_id !== userId);
+
+  // Tapping the current rating again clears it
+  const handleRate = (playerId: string, rating: number) => {
+    setRatings(prev => {
+      const next = { ...prev };
+      if (next[playerId] === rating) {
+        delete next[playerId];
+      } else {
+        next[playerId] = rating;
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    const problem = validateVote(userId, mvpId, ratings);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const { error: voteError } = await db.submitMatchVote(source, sourceId, mvpId, ratings);
+    setSaving(false);
+    if (voteError) {
+      setError(voteError.message || 'Could not save your vote');
+      return;
+    }
+    onVoted();
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Vote MVP & Rate Players</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="rgba(255, 255, 255, 0.6)" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>Tap the star to pick your MVP, then rate anyone you played with or against.</Text>
+
+          <ScrollView style={styles.playerList} showsVerticalScrollIndicator={false}>
+            {others.map(player => (
+              <View key={player.user_id} style={styles.playerCard}>
+                <View style={styles.playerHeader}>
+                  <View style={styles.playerInfo}>
+                    <Text style={styles.playerName}>{player.full_name || player.username || 'Player'}</Text>
+                    <Text style={styles.playerSide}>
+                      {describeSide(player.side)}
+                      {player.side !== null && mySide !== null ? (player.side === mySide ? ' · teammate' : ' · opponent') : ''}
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => setMvpId(mvpId === player.user_id ? null : player.user_id)}>
+                    <Ionicons
+                      name={mvpId === player.user_id ? 'star' : 'star-outline'}
+                      size={26}
+                      color={mvpId === player.user_id ? '#ffa726' : 'rgba(255, 255, 255, 0.5)'}
+                    />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.ratingRow}>
+                  {RATING_OPTIONS.map(rating => (
+                    <TouchableOpacity
+                      key={rating}
+                      style={[styles.ratingChip, ratings[player.user_id] === rating && styles.ratingChipActive]}
+                      onPress={() => handleRate(player.user_id, rating)}
+                    >
+                      <Text style={[styles.ratingText, ratings[player.user_id] === rating && styles.ratingTextActive]}>
+                        {rating}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          {!!error && <Text style={styles.error}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, saving && styles.buttonDisabled]}
+            onPress={handleSubmit}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>{vote.my_vote ? 'Update Vote' : 'Submit Vote'}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    maxHeight: '90%',
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  hint: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  playerList: {
+    flexGrow: 0,
+  },
+  playerCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  playerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  playerInfo: {
+    flex: 1,
+  },
+  playerName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  playerSide: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 2,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  ratingChip: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  ratingChipActive: {
+    borderColor: '#4CAF50',
+    backgroundColor: 'rgba(76, 175, 80, 0.15)',
+  },
+  ratingText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  ratingTextActive: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  error: {
+    fontSize: 14,
+    color: '#ff6b6b',
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#4CAF50',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default MatchVoteModal;
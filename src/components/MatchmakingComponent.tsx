@@ -12,6 +12,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { db, supabase } from '../lib/supabase';
+import { getSlotLabel } from '../utils/schedule';
 import HourglassLoader from './HourglassLoader';
 
 interface MatchmakingComponentProps {
@@ -79,19 +80,6 @@ const MatchmakingComponent: React.FC<MatchmakingComponentProps> = ({
   const rotateAnim = useRef(new Animated.Value(0)).current;
 
   // Helper functions
-  const getTimeSlots = () => {
-    return [
-      { value: 18, label: '6:00 PM', period: 'Evening' },
-      { value: 19, label: '7:00 PM', period: 'Evening' },
-      { value: 20, label: '8:00 PM', period: 'Evening' },
-      { value: 21, label: '9:00 PM', period: 'Evening' },
-      { value: 22, label: '10:00 PM', period: 'Night' },
-      { value: 23, label: '11:00 PM', period: 'Night' },
-      { value: 24, label: '12:00 AM', period: 'Late Night' },
-      { value: 25, label: '1:00 AM', period: 'Late Night' },
-      { value: 26, label: '2:00 AM', period: 'Late Night' },
-    ];
-  };
 
   const getDateDisplayText = (dateString: string) => {
     const date = new Date(dateString);
@@ -567,7 +555,7 @@ const MatchmakingComponent: React.FC<MatchmakingComponentProps> = ({
             <Text style={styles.matchDivision}>Division {division}</Text>
             {matchmakingStatus.active_match.match_date && matchmakingStatus.active_match.match_time_slot && (
               <Text style={styles.matchDateTime}>
-                {getDateDisplayText(matchmakingStatus.active_match?.match_date)} at {getTimeSlots().find(slot => slot.value === matchmakingStatus.active_match?.match_time_slot)?.label}
+                {getDateDisplayText(matchmakingStatus.active_match?.match_date)} at {getSlotLabel(matchmakingStatus.active_match?.match_time_slot)}
               </Text>
             )}
           </View>
@@ -648,7 +636,7 @@ const MatchmakingComponent: React.FC<MatchmakingComponentProps> = ({
             <Text style={styles.searchingDivision}>Division {division}</Text>
             {matchmakingStatus?.queue_info && (
               <Text style={styles.searchingDateTime}>
-                {getDateDisplayText(matchmakingStatus.queue_info?.preferred_date)} at {getTimeSlots().find(slot => slot.value === matchmakingStatus.queue_info?.preferred_time_slot)?.label}
+                {getDateDisplayText(matchmakingStatus.queue_info?.preferred_date)} at {getSlotLabel(matchmakingStatus.queue_info?.preferred_time_slot)}
               </Text>
             )}
           </View>
@@ -750,7 +738,7 @@ const MatchmakingComponent: React.FC<MatchmakingComponentProps> = ({
             <Text style={styles.successTitle}>Match Found!</Text>
             <Text style={styles.successMessage}>
               {currentMatch?.match_date && currentMatch?.match_time_slot ? (
-                `Your match is scheduled for ${getDateDisplayText(currentMatch.match_date)} at ${getTimeSlots().find(slot => slot.value === currentMatch.match_time_slot)?.label}`
+                `Your match is scheduled for ${getDateDisplayText(currentMatch.match_date)} at ${getSlotLabel(currentMatch.match_time_slot)}`
               ) : (
                 'A match has been found for your team!'
               )}
@@ -0,0 +1,127 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { OpenPositions, PLAYER_POSITIONS, POSITION_LABELS, PlayerPosition } from '../utils/positions';
+
+interface PositionPickerModalProps {
+  visible: boolean;
+  positionsLeft: OpenPositions;
+  preferred?: PlayerPosition | null;
+  canJoinWithoutPosition: boolean;
+  onPick: (position: PlayerPosition | null) => void;
+  onClose: () => void;
+}
+
+// Asks a joining player which of the game's open positions they're taking
+const PositionPickerModal: React.FC<PositionPickerModalProps> = ({
+  visible,
+  positionsLeft,
+  preferred,
+  canJoinWithoutPosition,
+  onPick,
+  onClose,
+}) => {
+  const positions = PLAYER_POSITIONS.filter(position => positionsLeft[position] !== undefined);
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Pick your position</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="rgba(255, 255, 255, 0.6)" />
+            </TouchableOpacity>
+          </View>
+
+          {positions.map(position => {
+            const left = positionsLeft[position] || 0;
+            return (
+              <TouchableOpacity
+                key={position}
+                style={[styles.option, position === preferred && styles.optionPreferred, left === 0 && styles.optionDisabled]}
+                onPress={() => onPick(position)}
+                disabled={left === 0}
+              >
+                <Text style={styles.optionText}>{POSITION_LABELS[position]}</Text>
+                <Text style={styles.optionMeta}>
+                  {left === 0 ? 'Taken' : left === 1 ? '1 spot left' : `${left} spots left`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {canJoinWithoutPosition && (
+            <TouchableOpacity style={styles.option} onPress={() => onPick(null)}>
+              <Text style={styles.optionText}>Any position</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    width: '100%',
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    borderRadius: 16,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginBottom: 8,
+  },
+  optionPreferred: {
+    borderColor: '#4CAF50',
+    backgroundColor: 'rgba(76, 175, 80, 0.15)',
+  },
+  optionDisabled: {
+    opacity: 0.4,
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  optionMeta: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+});
+
+export default PositionPickerModal;
@@ -0,0 +1,375 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { db } from '../lib/supabase';
+import { PublishedTeams } from '../types/teams';
+import { POSITION_SHORT, isPlayerPosition } from '../utils/positions';
+import {
+  BalancePlayer,
+  BalancedTeam,
+  TEAM_NAMES,
+  balanceTeams,
+  getLockGroups,
+  getPlayerRating,
+  getTeamCountOptions,
+  toTeamPlayers,
+} from '../utils/teamBalance';
+
+export interface TeamSplitMember {
+  user_id: string;
+  position?: string | null; // the position claimed for this game
+  user_profiles: {
+    full_name: string;
+    username: string;
+  } & Omit<BalancePlayer, 'user_id'>;
+}
+
+interface TeamSplitModalProps {
+  visible: boolean;
+  gameId: string;
+  organizerId: string;
+  members: TeamSplitMember[];
+  published: PublishedTeams | null;
+  onClose: () => void;
+  onPublished: () => void;
+}
+
+// Lets the organizer generate balanced sides, lock players together, reshuffle
+// and publish the result to everyone in the game
+const TeamSplitModal: React.FC<TeamSplitModalProps> = ({
+  visible,
+  gameId,
+  organizerId,
+  members,
+  published,
+  onClose,
+  onPublished,
+}) => {
+  const [teamCount, setTeamCount] = useState(2);
+  const [lockGroups, setLockGroups] = useState<string[][]>([]);
+  const [teams, setTeams] = useState<BalancedTeam[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState('');
+
+  const players: BalancePlayer[] = members.map(member => ({
+    ...member.user_profiles,
+    user_id: member.user_id,
+    position: member.position || member.user_profiles.position,
+  }));
+  const teamCountOptions = getTeamCountOptions(players.length);
+
+  const generate = (count: number, groups: string[][]) => {
+    setTeams(balanceTeams(players, count, groups));
+    setSelected([]);
+  };
+
+  // Start from the published split's settings so a reshuffle keeps its locks
+  useEffect(() => {
+    if (!visible) return;
+    const count = Math.min(published?.team_count || 2, teamCountOptions[teamCountOptions.length - 1]);
+    const groups = published ? getLockGroups(published.players) : [];
+    setTeamCount(count);
+    setLockGroups(groups);
+    setError('');
+    generate(count, groups);
+  }, [visible]);
+
+  const getMember = (userId: string) => members.find(member => member.user_id === userId);
+  const getLockGroupIndex = (userId: string) => lockGroups.findIndex(group => group.length > 1 && group.includes(userId));
+
+  const toggleSelected = (userId: string) => {
+    setSelected(prev => (prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]));
+  };
+
+  const selectedGroup = selected.length > 0 ? getLockGroupIndex(selected[0]) : -1;
+  const selectionIsLocked = selectedGroup >= 0 && selected.every(id => getLockGroupIndex(id) === selectedGroup);
+
+  // Lock the selected players together, or unlock them if they already are
+  const handleToggleLock = () => {
+    const remaining = lockGroups
+      .map(group => group.filter(id => !selected.includes(id)))
+      .filter(group => group.length > 1);
+    const nextGroups = selectionIsLocked ? remaining : [...remaining, selected];
+    setLockGroups(nextGroups);
+    generate(teamCount, nextGroups);
+  };
+
+  const handleTeamCount = (count: number) => {
+    setTeamCount(count);
+    generate(count, lockGroups);
+  };
+
+  const handlePublish = async () => {
+    setPublishing(true);
+    setError('');
+    const { error: publishError } = await db.publishGameTeams(gameId, organizerId, toTeamPlayers(teams, lockGroups));
+    setPublishing(false);
+    if (publishError) {
+      setError(publishError.message || 'Could not publish the teams');
+      return;
+    }
+    onPublished();
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Generate Teams</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="rgba(255, 255, 255, 0.6)" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.chipRow}>
+            {teamCountOptions.map(count => (
+              <TouchableOpacity
+                key={count}
+                style={[styles.chip, teamCount === count && styles.chipActive]}
+                onPress={() => handleTeamCount(count)}
+              >
+                <Text style={[styles.chipText, teamCount === count && styles.chipTextActive]}>{count} teams</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>Tap players to select them, then lock them onto the same side.</Text>
+
+          <ScrollView style={styles.teamList} showsVerticalScrollIndicator={false}>
+            {teams.map(team => (
+              <View key={team.index} style={styles.teamCard}>
+                <View style={styles.teamHeader}>
+                  <Text style={styles.teamName}>{TEAM_NAMES[team.index]}</Text>
+                  <Text style={styles.teamRating}>
+                    {team.playerIds.length} players · avg {team.playerIds.length ? Math.round(team.rating / team.playerIds.length) : 0}
+                  </Text>
+                </View>
+                {team.playerIds.map(userId => {
+                  const member = getMember(userId);
+                  const profile = member?.user_profiles;
+                  const position = member?.position || profile?.position;
+                  const isSelected = selected.includes(userId);
+                  const lockGroup = getLockGroupIndex(userId);
+                  return (
+                    <TouchableOpacity
+                      key={userId}
+                      style={[styles.playerRow, isSelected && styles.playerRowSelected]}
+                      onPress={() => toggleSelected(userId)}
+                    >
+                      <Text style={styles.playerName}>{profile?.full_name || profile?.username || 'Player'}</Text>
+                      {isPlayerPosition(position) && (
+                        <Text style={styles.playerTag}>{POSITION_SHORT[position]}</Text>
+                      )}
+                      <Text style={styles.playerTag}>{getPlayerRating({ ...profile, user_id: userId, position })}</Text>
+                      {lockGroup >= 0 && (
+                        <View style={styles.lockBadge}>
+                          <Ionicons name="lock-closed" size={12} color="#4CAF50" />
+                          <Text style={styles.lockText}>{lockGroup + 1}</Text>
+                        </View>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ))}
+          </ScrollView>
+
+          {!!error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.secondaryButton, selected.length < 2 && !selectionIsLocked && styles.buttonDisabled]}
+              onPress={handleToggleLock}
+              disabled={selected.length < 2 && !selectionIsLocked}
+            >
+              <Ionicons name={selectionIsLocked ? 'lock-open' : 'lock-closed'} size={16} color="#fff" />
+              <Text style={styles.secondaryButtonText}>{selectionIsLocked ? 'Unlock' : 'Lock'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => generate(teamCount, lockGroups)}>
+              <Ionicons name="shuffle" size={16} color="#fff" />
+              <Text style={styles.secondaryButtonText}>Reshuffle</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, publishing && styles.buttonDisabled]}
+              onPress={handlePublish}
+              disabled={publishing || teams.length === 0}
+            >
+              {publishing ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Publish</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    maxHeight: '90%',
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  chipActive: {
+    borderColor: '#4CAF50',
+    backgroundColor: 'rgba(76, 175, 80, 0.15)',
+  },
+  chipText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  chipTextActive: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 10,
+    marginBottom: 12,
+  },
+  teamList: {
+    flexGrow: 0,
+  },
+  teamCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  teamHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  teamName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  teamRating: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    gap: 8,
+  },
+  playerRowSelected: {
+    backgroundColor: 'rgba(76, 175, 80, 0.2)',
+  },
+  playerName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  playerTag: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  lockBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  lockText: {
+    fontSize: 12,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  error: {
+    fontSize: 14,
+    color: '#ff6b6b',
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  secondaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#4CAF50',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default TeamSplitModal;
@@ -0,0 +1,247 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Pitch, VenueDaySummary } from '../types/venues';
+import { GAME_FORMATS } from '../utils/gameFormats';
+import { getSlotLabel } from '../utils/schedule';
+import { Coordinates, formatDistance, getDistanceKm } from '../utils/location';
+
+interface VenueMapSheetProps {
+  visible: boolean;
+  summaries: VenueDaySummary[];
+  userLocation: Coordinates | null;
+  onClose: () => void;
+  onOpenGame: (gameId: string) => void;
+  onBookPitch: (pitch: Pitch) => void;
+}
+
+// Slot chips shown per pitch before collapsing into "+N more"
+const MAX_SLOT_CHIPS = 4;
+
+// What's on today at the venue (or venues) behind a map pin: open games to
+// join and free slots to book
+const VenueMapSheet: React.FC<VenueMapSheetProps> = ({
+  visible,
+  summaries,
+  userLocation,
+  onClose,
+  onOpenGame,
+  onBookPitch,
+}) => (
+  <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+    <View style={styles.overlay}>
+      <View style={styles.modal}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{summaries.length === 1 ? summaries[0].venue.name : `${summaries.length} venues`}</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={24} color="rgba(255, 255, 255, 0.6)" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView showsVerticalScrollIndicator={false}>
+          {summaries.map(summary => (
+            <View key={summary.venue.id} style={styles.venue}>
+              {summaries.length > 1 && <Text style={styles.venueName}>{summary.venue.name}</Text>}
+              <View style={styles.venueMeta}>
+                <Ionicons name="location-outline" size={14} color="rgba(255, 255, 255, 0.6)" />
+                <Text style={styles.venueMetaText}>
+                  {summary.venue.address || summary.venue.location}
+                  {userLocation ? ` · ${formatDistance(getDistanceKm(userLocation, summary.coordinates))}` : ''}
+                </Text>
+              </View>
+
+              <Text style={styles.sectionLabel}>Open games today</Text>
+              {summary.open_games.length === 0 ? (
+                <Text style={styles.emptyText}>No open games today</Text>
+              ) : (
+                summary.open_games.map(game => (
+                  <TouchableOpacity key={game.id} style={styles.gameRow} onPress={() => onOpenGame(game.id)}>
+                    <View style={styles.gameInfo}>
+                      <Text style={styles.gameTime}>{game.time}</Text>
+                      <Text style={styles.gameMeta}>
+                        {game.pitch_name}
+                        {game.format ? ` · ${GAME_FORMATS[game.format].label}` : ''}
+                        {` · ${game.max_players - game.players} spot${game.max_players - game.players === 1 ? '' : 's'} left`}
+                      </Text>
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color="rgba(255, 255, 255, 0.5)" />
+                  </TouchableOpacity>
+                ))
+              )}
+
+              <Text style={styles.sectionLabel}>Free slots today</Text>
+              {summary.pitches.map(({ pitch, free_slots }) => (
+                <View key={pitch.id} style={styles.pitchRow}>
+                  <View style={styles.pitchInfo}>
+                    <Text style={styles.pitchName}>{pitch.name}</Text>
+                    {free_slots.length === 0 ? (
+                      <Text style={styles.emptyText}>Fully booked today</Text>
+                    ) : (
+                      <View style={styles.slotRow}>
+                        {free_slots.slice(0, MAX_SLOT_CHIPS).map(slot => (
+                          <View key={slot} style={styles.slotChip}>
+                            <Text style={styles.slotChipText}>{getSlotLabel(slot)}</Text>
+                          </View>
+                        ))}
+                        {free_slots.length > MAX_SLOT_CHIPS && (
+                          <Text style={styles.moreSlotsText}>+{free_slots.length - MAX_SLOT_CHIPS} more</Text>
+                        )}
+                      </View>
+                    )}
+                  </View>
+                  {free_slots.length > 0 && (
+                    <TouchableOpacity style={styles.bookButton} onPress={() => onBookPitch(pitch)}>
+                      <Text style={styles.bookButtonText}>Book</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    maxHeight: '80%',
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  venue: {
+    marginBottom: 16,
+  },
+  venueName: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#fff',
+    marginTop: 8,
+  },
+  venueMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  venueMetaText: {
+    flex: 1,
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.5)',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+  gameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  gameInfo: {
+    flex: 1,
+  },
+  gameTime: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  gameMeta: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 2,
+  },
+  pitchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  pitchInfo: {
+    flex: 1,
+  },
+  pitchName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  slotChip: {
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(76, 175, 80, 0.5)',
+  },
+  slotChipText: {
+    fontSize: 12,
+    color: '#4CAF50',
+  },
+  moreSlotsText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+  bookButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginLeft: 12,
+  },
+  bookButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
+
+export default VenueMapSheet;
@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import { db } from '../lib/supabase';
+import { Pitch, VenueDaySummary } from '../types/venues';
+import { Coordinates, getRowCoordinates } from '../utils/location';
+import { MapCluster, MapRegion, clusterPoints, getRegionForPoints } from '../utils/mapClusters';
+import VenueMapSheet from './VenueMapSheet';
+
+interface VenueMapViewProps {
+  userLocation: Coordinates | null;
+  refreshKey: number; // bump to reload today's games and slots
+  onOpenGame: (gameId: string) => void;
+  onBookPitch: (pitch: Pitch) => void;
+}
+
+// How much of the map is shown around the player to start with
+const NEARBY_REGION_DELTA = 0.15;
+
+const countFreeSlots = (summary: VenueDaySummary) =>
+  summary.pitches.reduce((sum, { free_slots }) => sum + free_slots.length, 0);
+
+// Venues on a map with today's open games and free slots on each pin. Nearby
+// venues merge into one pin until the player zooms in.
+const VenueMapView: React.FC<VenueMapViewProps> = ({ userLocation, refreshKey, onOpenGame, onBookPitch }) => {
+  const mapRef = useRef<MapView>(null);
+  const [summaries, setSummaries] = useState<VenueDaySummary[]>([]);
+  const [region, setRegion] = useState<MapRegion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<VenueDaySummary[]>([]);
+
+  const loadSummaries = async () => {
+    setLoading(true);
+    const today = new Date().toISOString().split('T')[0];
+    const now = new Date();
+    const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+    try {
+      const [{ data: pitches }, { data: games }] = await Promise.all([
+        db.getPitches(),
+        db.getOpenVenueGames(today),
+      ]);
+
+      // Per-pitch availability; slots that already started today don't count
+      const placed = pitches.filter(pitch => getRowCoordinates(pitch.venue));
+      const availability = await Promise.all(placed.map(async pitch => {
+        const { data } = await db.getAvailableTimeSlots(today, pitch.id);
+        const slots: number[] = data?.available_slots || [];
+        return { pitch, free_slots: slots.filter(slot => slot > nowMinutes) };
+      }));
+
+      const byVenue = new Map<string, VenueDaySummary>();
+      for (const item of availability) {
+        const venue = item.pitch.venue!;
+        const summary = byVenue.get(venue.id) || {
+          venue,
+          coordinates: getRowCoordinates(venue)!,
+          pitches: [],
+          open_games: games.filter(game => game.venue_id === venue.id),
+        };
+        summary.pitches.push(item);
+        byVenue.set(venue.id, summary);
+      }
+
+      const loaded = Array.from(byVenue.values());
+      setSummaries(loaded);
+      setRegion(prev => prev || (userLocation
+        ? { ...userLocation, latitudeDelta: NEARBY_REGION_DELTA, longitudeDelta: NEARBY_REGION_DELTA }
+        : getRegionForPoints(loaded.map(summary => summary.coordinates))));
+    } catch (error) {
+      console.error('Error loading venue map:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSummaries();
+  }, [refreshKey]);
+
+  const clusters = useMemo(
+    () => (region ? clusterPoints(summaries, summary => summary.coordinates, region) : []),
+    [summaries, region]
+  );
+
+  // Zoom in to split a cluster; once it can't split any further list its
+  // venues together instead
+  const handleClusterPress = (cluster: MapCluster<VenueDaySummary>) => {
+    const target = getRegionForPoints(cluster.items.map(summary => summary.coordinates));
+    if (cluster.items.length === 1 || !target || !region || target.latitudeDelta >= region.latitudeDelta * 0.9) {
+      setSelected(cluster.items);
+      return;
+    }
+    mapRef.current?.animateToRegion(target, 300);
+  };
+
+  if (!region) {
+    return (
+      <View style={styles.placeholder}>
+        {loading ? (
+          <ActivityIndicator size="large" color="#4CAF50" />
+        ) : (
+          <>
+            <Ionicons name="map-outline" size={48} color="rgba(255, 255, 255, 0.3)" />
+            <Text style={styles.placeholderText}>No venues on the map yet</Text>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={region}
+        onRegionChangeComplete={setRegion}
+        showsUserLocation={!!userLocation}
+      >
+        {clusters.map(cluster => {
+          const games = cluster.items.reduce((sum, summary) => sum + summary.open_games.length, 0);
+          const slots = cluster.items.reduce((sum, summary) => sum + countFreeSlots(summary), 0);
+          const color = games > 0 ? '#4CAF50' : slots > 0 ? '#ffa726' : 'rgba(255, 255, 255, 0.4)';
+          return (
+            <Marker
+              key={`${cluster.key}:${games}:${slots}`}
+              coordinate={cluster.coordinates}
+              onPress={() => handleClusterPress(cluster)}
+              tracksViewChanges={false}
+            >
+              <View style={[styles.pin, { borderColor: color }]}>
+                {cluster.items.length > 1 && (
+                  <Text style={styles.pinVenues}>{cluster.items.length} venues</Text>
+                )}
+                <Text style={[styles.pinText, { color }]}>
+                  {games > 0 ? `${games} game${games === 1 ? '' : 's'}` : `${slots} free`}
+                </Text>
+              </View>
+            </Marker>
+          );
+        })}
+      </MapView>
+
+      {loading && (
+        <View style={styles.loadingBadge}>
+          <ActivityIndicator size="small" color="#4CAF50" />
+        </View>
+      )}
+
+      <View style={styles.legend}>
+        <View style={[styles.legendDot, { backgroundColor: '#4CAF50' }]} />
+        <Text style={styles.legendText}>Open games</Text>
+        <View style={[styles.legendDot, { backgroundColor: '#ffa726' }]} />
+        <Text style={styles.legendText}>Free slots only</Text>
+      </View>
+
+      <VenueMapSheet
+        visible={selected.length > 0}
+        summaries={selected}
+        userLocation={userLocation}
+        onClose={() => setSelected([])}
+        onOpenGame={gameId => {
+          setSelected([]);
+          onOpenGame(gameId);
+        }}
+        onBookPitch={pitch => {
+          setSelected([]);
+          onBookPitch(pitch);
+        }}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    height: 420,
+    borderRadius: 12,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  map: {
+    flex: 1,
+  },
+  placeholder: {
+    height: 420,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 12,
+  },
+  pin: {
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    borderRadius: 14,
+    borderWidth: 2,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  pinVenues: {
+    fontSize: 10,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  pinText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  loadingBadge: {
+    position: 'absolute',
+    top: 10,
+    right: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    borderRadius: 16,
+    padding: 6,
+  },
+  legend: {
+    position: 'absolute',
+    bottom: 10,
+    left: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginRight: 6,
+  },
+});
+
+export default VenueMapView;
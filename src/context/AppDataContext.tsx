@@ -1,6 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { db, auth, supabase } from '../lib/supabase';
 import { PerformanceMonitor } from '../utils/performance';
+import { formatMoney, getRowPrice } from '../utils/money';
+import { GameFormat, getGameCapacity } from '../utils/gameFormats';
+import { getTakenSpots } from '../utils/guests';
+import { OpenPositions, PlayerPosition, getPositionsLeft } from '../utils/positions';
+import { Coordinates, getBoundingBox, getDistanceKm, getRowCoordinates } from '../utils/location';
+import { locationService } from '../services/locationService';
 
 // Types for our global app data
 interface UserProfile {
@@ -9,6 +15,7 @@ interface UserProfile {
   level: number;
   division: number;
   avatar_url?: string;
+  position?: string | null;
   stats: {
     matches_played: number;
     wins: number;
@@ -27,12 +34,45 @@ interface PublicGame {
   time: string;
   players: number;
   maxPlayers: number;
+  format: GameFormat | null;
+  substitutes: number;
+  matchMinutes: number | null;
+  positionsLeft: OpenPositions;
   createdBy: string;
   status: 'open' | 'full';
   price: string;
+  priceAmount: number | null;
   location: string;
+  coordinates: Coordinates | null;
+  distanceKm: number | null; // null without a location fix or venue coordinates
 }
 
+export type PublicGameSort = 'date' | 'distance' | 'price' | 'spots';
+
+export interface PublicGameFilters {
+  format?: GameFormat;
+  position?: PlayerPosition; // only games that still need this position
+  sortBy?: PublicGameSort; // defaults to soonest first
+  radiusKm?: number; // needs Location Services
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string; // YYYY-MM-DD, inclusive
+  minPrice?: number;
+  maxPrice?: number;
+  minOpenSpots?: number;
+}
+
+const PUBLIC_GAME_LIMIT = 20;
+// Upcoming games looked at when filtering or sorting has to happen on the device
+const PUBLIC_GAME_CANDIDATES = 100;
+
+// Smaller first; games with no value go last and ties keep date order
+const compareKnownFirst = (a: number | null, b: number | null) => {
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  return a - b;
+};
+
 interface Team {
   id: string;
   name: string;
@@ -82,6 +122,8 @@ interface AppDataContextType {
   
   // Play screen data
   publicGames: PublicGame[];
+  publicGameFilters: PublicGameFilters;
+  userLocation: Coordinates | null;
   userJoinedGames: Set<string>;
   userCreatedGames: Set<string>;
   
@@ -97,7 +139,7 @@ interface AppDataContextType {
   
   // Refresh functions
   refreshUserData: () => Promise<void>;
-  refreshPublicGames: () => Promise<void>;
+  refreshPublicGames: (filters?: PublicGameFilters) => Promise<void>;
   refreshTeamData: () => Promise<void>;
   refreshHighlights: () => Promise<void>;
   refreshLeaderboards: () => Promise<void>;
@@ -123,6 +165,8 @@ export const AppDataProvider: React.FC<AppDataProviderProps> = ({ children }) =>
   
   // Play screen data
   const [publicGames, setPublicGames] = useState<PublicGame[]>([]);
+  const [publicGameFilters, setPublicGameFilters] = useState<PublicGameFilters>({});
+  const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
   const [userJoinedGames, setUserJoinedGames] = useState<Set<string>>(new Set());
   const [userCreatedGames, setUserCreatedGames] = useState<Set<string>>(new Set());
   
@@ -230,6 +274,7 @@ export const AppDataProvider: React.FC<AppDataProviderProps> = ({ children }) =>
           level: profile.level || 1,
           division: profile.division || 5,
           avatar_url: profile.avatar_url || profile.profile_picture,
+          position: profile.position,
           stats: {
             matches_played: profile.matches_played || 0,
             wins: profile.wins || 0,
@@ -260,41 +305,125 @@ export const AppDataProvider: React.FC<AppDataProviderProps> = ({ children }) =>
     }
   };
 
-  const refreshPublicGames = async () => {
+  // Filters stick until they're changed, so a plain refresh keeps them
+  const refreshPublicGames = async (filters: PublicGameFilters = publicGameFilters) => {
     try {
       PerformanceMonitor.startTimer('refreshPublicGames');
+      setPublicGameFilters(filters);
       
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // Distance only works with Location Services on; without a position
+      // the radius is ignored and distance sorting falls back to date.
+      // locationService remembers the setting and reuses a fix for a few
+      // minutes, so refreshing doesn't wait on the GPS every time.
+      const origin = await locationService.getCurrentPosition();
+      setUserLocation(origin);
+      const radiusKm = origin ? filters.radiusKm : undefined;
+      const sortBy = filters.sortBy === 'distance' && !origin ? 'date' : filters.sortBy || 'date';
+      const hasPriceRange = filters.minPrice !== undefined || filters.maxPrice !== undefined;
+
       // Load public games
-      const { data: bookings } = await supabase
+      const today = new Date().toISOString().split('T')[0];
+      let query = supabase
         .from('bookings')
-        .select('*')
+        .select(`*, venue:${radiusKm ? 'venues!inner' : 'venues'}(latitude, longitude)`)
         .eq('is_public', true)
-        .gte('date', new Date().toISOString().split('T')[0])
+        .not('status', 'in', '(skipped,cancelled,rejected,pending_approval)')
+        .gte('date', filters.dateFrom && filters.dateFrom > today ? filters.dateFrom : today);
+
+      if (filters.dateTo) {
+        query = query.lte('date', filters.dateTo);
+      }
+
+      if (filters.format) {
+        query = query.eq('game_format', filters.format);
+      }
+
+      if (filters.position) {
+        query = query.contains('positions_needed', [filters.position]);
+      }
+
+      if (origin && radiusKm) {
+        const box = getBoundingBox(origin, radiusKm);
+        query = query
+          .gte('venue.latitude', box.minLatitude)
+          .lte('venue.latitude', box.maxLatitude)
+          .gte('venue.longitude', box.minLongitude)
+          .lte('venue.longitude', box.maxLongitude);
+      }
+
+      // Exact distance, price (legacy rows only have a price string), open
+      // spots and the other sorts are worked out here, so fetch a wider window
+      const filtersOnDevice = !!radiusKm || hasPriceRange || !!filters.minOpenSpots || sortBy !== 'date';
+
+      const { data: bookings } = await query
         .order('date', { ascending: true })
         .order('time', { ascending: true })
-        .limit(20);
+        .limit(filtersOnDevice ? PUBLIC_GAME_CANDIDATES : PUBLIC_GAME_LIMIT);
 
       if (bookings) {
         const games: PublicGame[] = [];
         const joinedGameIds = new Set<string>();
         const createdGameIds = new Set<string>();
 
-        for (const booking of bookings) {
-          // Get member count
-          const { data: members } = await supabase
-            .from('game_members')
-            .select('user_id')
-            .eq('game_id', booking.id)
-            .eq('status', 'joined');
+        const candidates = bookings
+          .map((booking: any) => {
+            const coordinates = getRowCoordinates(Array.isArray(booking.venue) ? booking.venue[0] : booking.venue);
+            return {
+              booking,
+              coordinates,
+              distanceKm: origin && coordinates ? getDistanceKm(origin, coordinates) : null,
+              priceAmount: getRowPrice(booking)?.amount ?? null,
+            };
+          })
+          .filter(({ distanceKm, priceAmount }) =>
+            (!radiusKm || (distanceKm !== null && distanceKm <= radiusKm)) &&
+            (!hasPriceRange || (
+              priceAmount !== null &&
+              (filters.minPrice === undefined || priceAmount >= filters.minPrice) &&
+              (filters.maxPrice === undefined || priceAmount <= filters.maxPrice)
+            ))
+          );
+
+        if (sortBy === 'distance') {
+          candidates.sort((a, b) => compareKnownFirst(a.distanceKm, b.distanceKm));
+        } else if (sortBy === 'price') {
+          candidates.sort((a, b) => compareKnownFirst(a.priceAmount, b.priceAmount));
+        }
+
+        // Members and creator names for every candidate in one query each
+        const gameIds = candidates.map(({ booking }) => booking.id);
+        const creatorIds = Array.from(new Set(candidates.map(({ booking }) => booking.created_by).filter(Boolean)));
+
+        const [{ data: memberRows }, { data: creatorRows }] = await Promise.all([
+          gameIds.length > 0
+            ? supabase.from('game_members').select('game_id, user_id, position').in('game_id', gameIds).eq('status', 'joined')
+            : Promise.resolve({ data: [] as any[] }),
+          creatorIds.length > 0
+            ? supabase.from('user_profiles').select('id, full_name, username').in('id', creatorIds)
+            : Promise.resolve({ data: [] as any[] }),
+        ]);
+
+        const membersByGame = new Map<string, any[]>();
+        for (const member of memberRows || []) {
+          membersByGame.set(member.game_id, [...(membersByGame.get(member.game_id) || []), member]);
+        }
+        const creatorsById = new Map<string, any>((creatorRows || []).map((profile: any) => [profile.id, profile]));
 
-          let memberCount = members?.length || 0;
+        for (const { booking, coordinates, distanceKm, priceAmount } of candidates) {
+          // Already in order unless sorting by spots, which needs every count
+          if (sortBy !== 'spots' && games.length >= PUBLIC_GAME_LIMIT) {
+            break;
+          }
+
+          const members = membersByGame.get(booking.id) || [];
+          let memberCount = members.length;
           
           // Check if creator is in members
           if (booking.created_by) {
-            const creatorInMembers = members?.some((member: any) => member.user_id === booking.created_by);
+            const creatorInMembers = members.some((member: any) => member.user_id === booking.created_by);
             if (!creatorInMembers) {
               memberCount += 1;
             }
@@ -305,25 +434,23 @@ export const AppDataProvider: React.FC<AppDataProviderProps> = ({ children }) =>
             }
           }
 
+          // Guests without the app hold spots too
+          memberCount = getTakenSpots(memberCount, booking);
+
           // Check if user joined this game
-          const userInGame = members?.some((member: any) => member.user_id === user.id);
+          const userInGame = members.some((member: any) => member.user_id === user.id);
           if (userInGame) {
             joinedGameIds.add(booking.id);
           }
 
-          // Get creator's name
-          let creatorName = 'Unknown';
-          if (booking.created_by) {
-            const { data: profile } = await supabase
-              .from('user_profiles')
-              .select('full_name, username')
-              .eq('id', booking.created_by)
-              .single();
-            
-            creatorName = profile?.username || profile?.full_name || 'Unknown';
+          const maxPlayers = getGameCapacity(booking);
+          if (filters.minOpenSpots && maxPlayers - memberCount < filters.minOpenSpots) {
+            continue;
           }
 
-          const maxPlayers = booking.max_players || 8;
+          const creator = creatorsById.get(booking.created_by);
+          const creatorName = creator?.username || creator?.full_name || 'Unknown';
+
           games.push({
             id: booking.id,
             pitch: booking.pitch_name,
@@ -331,14 +458,25 @@ export const AppDataProvider: React.FC<AppDataProviderProps> = ({ children }) =>
             time: booking.time,
             players: memberCount,
             maxPlayers: maxPlayers,
+            format: booking.game_format || null,
+            substitutes: booking.substitutes || 0,
+            matchMinutes: booking.match_minutes || null,
+            positionsLeft: getPositionsLeft(booking.open_positions, members),
             createdBy: creatorName,
             status: (memberCount >= maxPlayers ? 'full' : 'open') as 'open' | 'full',
-            price: booking.price,
+            price: formatMoney(getRowPrice(booking)),
+            priceAmount,
             location: booking.pitch_location,
+            coordinates,
+            distanceKm,
           });
         }
 
-        setPublicGames(games);
+        if (sortBy === 'spots') {
+          games.sort((a, b) => (b.maxPlayers - b.players) - (a.maxPlayers - a.players));
+        }
+
+        setPublicGames(games.slice(0, PUBLIC_GAME_LIMIT));
         setUserJoinedGames(joinedGameIds);
         setUserCreatedGames(createdGameIds);
       }
@@ -541,6 +679,8 @@ export const AppDataProvider: React.FC<AppDataProviderProps> = ({ children }) =>
     
     // Play screen data
     publicGames,
+    publicGameFilters,
+    userLocation,
     userJoinedGames,
     userCreatedGames,
     
@@ -1,6 +1,26 @@
 import { createClient } from '@supabase/supabase-js';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ENV, validateEnv } from '../config/env';
+import { Pitch, PitchFilters, Venue, VenueGame } from '../types/venues';
+import { BookingPayment, BookingResult, MemberPaymentSummary, RescheduleChanges, SlotHoldResult } from '../types/bookings';
+import { WaitlistOffer, WaitlistSummary } from '../types/waitlist';
+import { BlockSlotResult, BookingConflictsRange, OperatorVenue, PendingApproval, PitchRevenue } from '../types/operators';
+import { CreditBalance, CreditResult, PromoCodeCheck, RefundDestination } from '../types/promotions';
+import { BookingAddon, SlotAddon } from '../types/addons';
+import { Attendance, CheckInCode, CheckInResult, GameRsvp, RsvpResponse } from '../types/attendance';
+import { PublishedTeams, TeamPlayer } from '../types/teams';
+import { GameJoinCode, JoinCodeGame } from '../types/invites';
+import { GameGuest, NewGameGuest } from '../types/guests';
+import { GameResult, ResultPlayer, ResultResponse } from '../types/results';
+import { MatchVote, VoteSource } from '../types/votes';
+import { DEFAULT_CURRENCY, Money, getRowPrice } from '../utils/money';
+import { DEFAULT_PITCH_SCHEDULE, PitchSchedule, formatSlotLabel, generateTimeSlots } from '../utils/schedule';
+import { OccurrenceCheck, SeriesRule } from '../utils/recurrence';
+import { PricingRule } from '../utils/pricing';
+import { getGameCapacity } from '../utils/gameFormats';
+import { getTakenSpots } from '../utils/guests';
+import { PlayerPosition } from '../utils/positions';
+import { CancellationPolicy, CancellationTerms, DEFAULT_CANCELLATION_POLICY, getCancellationTerms, getMatchStart } from '../utils/cancellation';
 
 // Validate environment variables
 validateEnv();
@@ -20,6 +40,31 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   }
 });
 
+// Pitch used for ranked league matches and bookings made before the venue catalog existed
+export const LEAGUE_PITCH_ID = '00000000-0000-0000-0000-000000000001';
+
+// Catalog returned when Supabase is disabled
+const MOCK_VENUE: Venue = {
+  id: '00000000-0000-0000-0000-000000000100',
+  name: 'Central Football Arena',
+  location: 'Downtown District',
+  photos: [],
+};
+
+const MOCK_PITCHES: Pitch[] = [
+  {
+    id: LEAGUE_PITCH_ID,
+    venue_id: MOCK_VENUE.id,
+    name: 'Central Football Arena',
+    surface: 'artificial_grass',
+    size: 7,
+    is_indoor: false,
+    photos: [],
+    price: { amount: 25, currency: 'USD' },
+    venue: MOCK_VENUE,
+  },
+];
+
 // Auth helper functions
 export const auth = {
   signUp: async (email: string, password: string, fullName: string) => {
@@ -272,8 +317,9 @@ export const db = {
     }
   },
 
-  // Fetch top players from user_profiles with points and key stats
-  getTopPlayers: async (limit: number, search?: string) => {
+  // Fetch top players from user_profiles with points and key stats, ranked by
+  // wins (the default), MVP awards or rolling match rating
+  getTopPlayers: async (limit: number, search?: string, sortBy: 'wins' | 'mvps' | 'rating' = 'wins') => {
     if (!ENV.ENABLE_SUPABASE) {
       return { data: [], error: null } as { data: any[]; error: Error | null };
     }
@@ -281,10 +327,22 @@ export const db = {
     try {
       let query = supabase
         .from('user_profiles')
-        .select('id, full_name, username, pts, matches_played, wins, draws, losses, mvps, avatar_url')
-        .order('wins', { ascending: false })
-        .order('pts', { ascending: false }) // Secondary sort by points for tie-breaking
-        .limit(limit);
+        .select('id, full_name, username, pts, matches_played, wins, draws, losses, mvps, avg_rating, rated_matches, avatar_url');
+
+      if (sortBy === 'rating') {
+        query = query
+          .not('avg_rating', 'is', null)
+          .order('avg_rating', { ascending: false })
+          .order('rated_matches', { ascending: false });
+      } else if (sortBy === 'mvps') {
+        query = query.order('mvps', { ascending: false }).order('wins', { ascending: false });
+      } else {
+        query = query
+          .order('wins', { ascending: false })
+          .order('pts', { ascending: false }); // Secondary sort by points for tie-breaking
+      }
+
+      query = query.limit(limit);
 
       if (search && search.trim().length > 0) {
         const s = search.trim();
@@ -556,7 +614,8 @@ export const db = {
             pitch_location: 'Downtown District',
             date: '2024-01-15',
             time: '14:00',
-            price: '$25/hour',
+            price_amount: 25,
+            price_currency: 'USD',
             status: 'confirmed'
           }
         ], 
@@ -567,7 +626,7 @@ export const db = {
     try {
       const { data, error } = await supabase
         .from('bookings')
-        .select('id, pitch_name, pitch_location, date, time, price, status')
+        .select('id, pitch_name, pitch_location, date, time, price, price_amount, price_currency, status')
         .eq('created_by', userId)
         .gte('date', new Date().toISOString().split('T')[0]) // Only future dates
         .order('date', { ascending: true })
@@ -585,87 +644,64 @@ export const db = {
     }
   },
 
-  // Join a game (booking)
-  joinGame: async (gameId: string, userId: string, role: string = 'player') => {
+  // Join a game (booking), optionally claiming one of its open positions.
+  // The spot checks run server-side under the booking row lock.
+  joinGame: async (gameId: string, position: PlayerPosition | null = null) => {
     if (!ENV.ENABLE_SUPABASE) {
       return { data: null, error: new Error('Supabase is disabled') };
     }
 
     try {
-      // First check if the booking exists and has space
-      const { data: booking, error: bookingError } = await supabase
-        .from('bookings')
-        .select('id, max_players')
-        .eq('id', gameId)
-        .single();
-
-      if (bookingError || !booking) {
-        return { data: null, error: new Error('Game not found') };
-      }
-
-      // Check current member count
-      const { data: currentMembers, error: membersError } = await supabase
-        .from('game_members')
-        .select('id')
-        .eq('game_id', gameId)
-        .eq('status', 'joined');
-
-      if (membersError) {
-        console.error('Error checking current members:', membersError);
-      }
-
-      const currentMemberCount = currentMembers?.length || 0;
-      
-      // Check if there's space
-      if (currentMemberCount >= (booking.max_players || 8)) {
-        return { data: null, error: new Error('Game is full') };
-      }
-
-      // Add user to the game
-      const { data, error } = await supabase
-        .from('game_members')
-        .upsert({
-          game_id: gameId,
-          user_id: userId,
-          role: role,
-          status: 'joined'
-        }, {
-          onConflict: 'game_id,user_id'
-        })
-        .select()
-        .single();
+      const { data, error } = await supabase.rpc('join_game', {
+        p_game_id: gameId,
+        p_position: position
+      });
 
       if (error) {
         console.error('Join game error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not join the game') };
+      }
+
+      const { paymentService } = await import('../services/paymentService');
+      await paymentService.syncShares(gameId);
+
+      return { data: { gameId }, error: null };
     } catch (error) {
       console.error('Join game exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  // Leave a game
-  leaveGame: async (gameId: string, userId: string) => {
+  // Leave a game. The late-leave fee is kept and the rest of what the player
+  // paid is refunded in the same transaction.
+  leaveGame: async (gameId: string, userId: string, options: { reason?: string } = {}) => {
     if (!ENV.ENABLE_SUPABASE) {
       return { data: null, error: new Error('Supabase is disabled') };
     }
 
     try {
-      const { error } = await supabase
-        .from('game_members')
-        .delete()
-        .eq('game_id', gameId)
-        .eq('user_id', userId);
+      const { data, error } = await supabase.rpc('leave_game', {
+        p_game_id: gameId,
+        p_reason: options.reason || null
+      });
 
       if (error) {
         console.error('Leave game error:', error);
         return { data: null, error };
       }
 
-      return { data: { success: true }, error: null };
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not leave the game') };
+      }
+
+      // The freed spot was offered to the next player on the waitlist
+      await db.notifyWaitlistOffers(gameId, userId, data.offers || []);
+
+      return { data: { success: true, fee: { amount: Number(data.fee), currency: data.currency || DEFAULT_CURRENCY } }, error: null };
     } catch (error) {
       console.error('Leave game exception:', error);
       return { data: null, error: error as Error };
@@ -693,6 +729,12 @@ export const db = {
           user_id,
           role,
           joined_at,
+          amount_due,
+          payment_status,
+          reconfirm_status,
+          attendance,
+          checked_in_at,
+          position,
           status
         `)
         .eq('game_id', gameId)
@@ -712,7 +754,7 @@ export const db = {
       const userIds = gameMembers.map((member: any) => member.user_id);
       const { data: userProfiles, error: profilesError } = await supabase
         .from('user_profiles')
-        .select('id, full_name, username, avatar_url')
+        .select('id, full_name, username, avatar_url, games_attended, no_shows, reliability_score, skill_level, position, preferred_foot, matches_played, wins, mvps')
         .in('id', userIds);
 
       if (profilesError) {
@@ -764,570 +806,2636 @@ export const db = {
     }
   },
 
-  // Matchmaking functions
-  findMatch: async (teamId: string, division: number, preferredDate: string, preferredTimeSlot: number) => {
+  // Waitlist functions
+
+  // Queue the current user for a full game
+  joinWaitlist: async (gameId: string) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { success: false, error: 'Supabase is disabled' }, error: null };
+      return { data: { success: true }, error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('find_match_for_team', {
-        p_team_id: teamId,
-        p_division: division,
-        p_preferred_date: preferredDate,
-        p_preferred_time_slot: preferredTimeSlot
+      const { data, error } = await supabase.rpc('join_waitlist', {
+        p_game_id: gameId
       });
 
       if (error) {
-        console.error('Find match error:', error);
+        console.error('Join waitlist error:', error);
         return { data: null, error };
       }
 
-      // If a match was found, send push notifications to both teams
-      if (data?.success && data?.match_found && data?.opponent_team_name) {
-        try {
-          
-          // Format the time slot
-          const timeSlots = [
-            { value: 18, label: '6:00 PM' }, { value: 19, label: '7:00 PM' },
-            { value: 20, label: '8:00 PM' }, { value: 21, label: '9:00 PM' },
-            { value: 22, label: '10:00 PM' }, { value: 23, label: '11:00 PM' },
-            { value: 24, label: '12:00 AM' }, { value: 25, label: '1:00 AM' },
-            { value: 26, label: '2:00 AM' }
-          ];
-          const timeLabel = timeSlots.find(slot => slot.value === preferredTimeSlot)?.label || 'Unknown';
-          
-          // Format the date
-          const date = new Date(preferredDate);
-          const dateString = date.toLocaleDateString('en-US', { 
-            weekday: 'short', 
-            month: 'short', 
-            day: 'numeric' 
-          });
-
-          // Team notifications have been removed from the app
-        } catch (pushError) {
-          console.log('Match found push notifications skipped - this is expected in Expo Go');
-          // Don't fail the match creation if push notifications fail
-        }
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Failed to join the waitlist') };
       }
 
       return { data, error: null };
     } catch (error) {
-      console.error('Find match exception:', error);
+      console.error('Join waitlist exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  cancelMatchmaking: async (teamId: string) => {
+  // Leave the queue (or decline an open offer), passing any held spot on
+  leaveWaitlist: async (gameId: string, userId: string) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { success: false, error: 'Supabase is disabled' }, error: null };
+      return { data: { success: true }, error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('cancel_matchmaking', {
-        p_team_id: teamId
+      const { data, error } = await supabase.rpc('leave_waitlist', {
+        p_game_id: gameId
       });
 
       if (error) {
-        console.error('Cancel matchmaking error:', error);
+        console.error('Leave waitlist error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      await db.notifyWaitlistOffers(gameId, userId, data?.offers || []);
+
+      return { data: { success: true }, error: null };
     } catch (error) {
-      console.error('Cancel matchmaking exception:', error);
+      console.error('Leave waitlist exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  getMatchmakingStatus: async (teamId: string) => {
+  // Take the spot offered from the waitlist
+  acceptWaitlistOffer: async (gameId: string, userId: string) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { in_queue: false, active_match: null }, error: null };
+      return { data: { success: true }, error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('get_matchmaking_status', {
-        p_team_id: teamId
+      const { data, error } = await supabase.rpc('accept_waitlist_offer', {
+        p_game_id: gameId
       });
 
       if (error) {
-        console.error('Get matchmaking status error:', error);
+        console.error('Accept waitlist offer error:', error);
         return { data: null, error };
       }
 
+      // A missed offer is passed on even though accepting it failed
+      await db.notifyWaitlistOffers(gameId, userId, data?.offers || []);
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Failed to accept the offer') };
+      }
+
+      const { paymentService } = await import('../services/paymentService');
+      await paymentService.syncShares(gameId);
+
       return { data, error: null };
     } catch (error) {
-      console.error('Get matchmaking status exception:', error);
+      console.error('Accept waitlist offer exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  startMatch: async (matchId: string) => {
+  // Get the current user's place in a game's waitlist
+  getWaitlistSummary: async (gameId: string) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { success: false, error: 'Supabase is disabled' }, error: null };
+      const summary: WaitlistSummary = { status: null, position: null, offer_expires_at: null, waiting_count: 0, reserved_spots: 0 };
+      return { data: summary, error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('start_match', {
-        p_match_id: matchId
+      const { data, error } = await supabase.rpc('get_waitlist_summary', {
+        p_game_id: gameId
       });
 
       if (error) {
-        console.error('Start match error:', error);
+        console.error('Get waitlist summary error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      return { data: data as WaitlistSummary, error: null };
     } catch (error) {
-      console.error('Start match exception:', error);
+      console.error('Get waitlist summary exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  finishMatch: async (matchId: string, winnerTeamId: string) => {
-    if (!ENV.ENABLE_SUPABASE) {
-      return { data: { success: false, error: 'Supabase is disabled' }, error: null };
+  // Tell players they were just offered a spot from the waitlist
+  notifyWaitlistOffers: async (gameId: string, actorUserId: string, offers: WaitlistOffer[]) => {
+    if (offers.length === 0) {
+      return;
     }
 
     try {
-      const { data, error } = await supabase.rpc('finish_match', {
-        p_match_id: matchId,
-        p_winner_team_id: winnerTeamId
-      });
-
-      if (error) {
-        console.error('Finish match error:', error);
-        return { data: null, error };
+      const { gameNotificationService } = await import('../services/gameNotificationService');
+      for (const offer of offers) {
+        const deadline = new Date(offer.offer_expires_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+        await gameNotificationService.notifyUser(offer.user_id, actorUserId, {
+          type: 'waitlist_offer',
+          title: '🎉 A spot opened up!',
+          message: `A spot is free in a game you're waiting for. Accept it before ${deadline} or it goes to the next player.`,
+          gameId,
+        });
       }
-
-      return { data, error: null };
     } catch (error) {
-      console.error('Finish match exception:', error);
-      return { data: null, error: error as Error };
+      console.error('Notify waitlist offers exception:', error);
     }
   },
 
-    // Get match details
-    getMatchDetails: async (matchId: string) => {
-      if (!ENV.ENABLE_SUPABASE) {
-        return { data: null, error: new Error('Supabase is disabled') };
-      }
-
-      try {
-        const { data, error } = await supabase
-          .from('matches')
-          .select(`
-            *,
-            team1:teams!matches_team1_id_fkey(id, name, division, wins, losses, draws),
-            team2:teams!matches_team2_id_fkey(id, name, division, wins, losses, draws)
-          `)
-          .eq('id', matchId)
-          .single();
-
-        if (error) {
-          console.error('Get match details error:', error);
-          return { data: null, error };
-        }
-
-        return { data, error: null };
-      } catch (error) {
-        console.error('Get match details exception:', error);
-        return { data: null, error: error as Error };
-      }
-    },
-
-    // Cancel match
-    cancelMatch: async (matchId: string, teamId: string) => {
-      if (!ENV.ENABLE_SUPABASE) {
-        return { data: { success: false, error: 'Supabase is disabled' }, error: null };
-      }
-
-      try {
-        const { data, error } = await supabase.rpc('cancel_match', {
-          p_match_id: matchId,
-          p_team_id: teamId
-        });
-
-        if (error) {
-          console.error('Cancel match error:', error);
-          return { data: null, error };
-        }
-
-        return { data, error: null };
-      } catch (error) {
-        console.error('Cancel match exception:', error);
-        return { data: null, error: error as Error };
-      }
-    },
+  // Attendance functions
 
-  // Get team details by ID
-  getTeamDetails: async (teamId: string) => {
+  // The secret behind a game's check-in QR (organizer or venue only)
+  getCheckInCode: async (gameId: string) => {
     if (!ENV.ENABLE_SUPABASE) {
       return { data: null, error: new Error('Supabase is disabled') };
     }
 
     try {
-      const { data, error } = await supabase
-        .from('teams')
-        .select(`
-          id,
-          name,
-          division,
-          wins,
-          losses,
-          draws,
-          created_at
-        `)
-        .eq('id', teamId)
-        .single();
+      const { data, error } = await supabase.rpc('get_check_in_code', {
+        p_game_id: gameId
+      });
 
       if (error) {
-        console.error('Get team details error:', error);
+        console.error('Get check-in code error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not load the check-in code') };
+      }
+
+      return { data: { code: data.code, opens_at: data.opens_at, closes_at: data.closes_at } as CheckInCode, error: null };
     } catch (error) {
-      console.error('Get team details exception:', error);
+      console.error('Get check-in code exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  // Pitch Booking System Functions
-  
-  // Check if a time slot is available
-  checkPitchAvailability: async (bookingDate: string, timeSlot: number, pitchId?: string) => {
+  // Check the current user in with a code scanned from the QR
+  checkInToGame: async (code: string) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { available: true, message: 'Mock: Time slot available' }, error: null };
+      return { data: { success: false, message: 'Check-in is unavailable offline' } as CheckInResult, error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('check_pitch_availability', {
-        p_booking_date: bookingDate,
-        p_time_slot: timeSlot,
-        p_pitch_id: pitchId || null
+      const { data, error } = await supabase.rpc('check_in_to_game', {
+        p_code: code
       });
 
       if (error) {
-        console.error('Check pitch availability error:', error);
+        console.error('Check in to game error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      return { data: data as CheckInResult, error: null };
     } catch (error) {
-      console.error('Check pitch availability exception:', error);
+      console.error('Check in to game exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  // Get available time slots for a specific date
-  getAvailableTimeSlots: async (bookingDate: string, pitchId?: string) => {
+  // Record whether a member turned up (null clears it); updates their reliability score
+  markAttendance: async (gameId: string, userId: string, attendance: Attendance | null) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { 
-        data: { 
-          date: bookingDate, 
-          available_slots: [18, 19, 20, 21, 22, 23, 24, 25, 26], 
-          total_slots: 9 
-        }, 
-        error: null 
-      };
+      return { data: { success: true }, error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('get_available_time_slots', {
-        p_booking_date: bookingDate,
-        p_pitch_id: pitchId || null
+      const { data, error } = await supabase.rpc('mark_attendance', {
+        p_game_id: gameId,
+        p_user_id: userId,
+        p_attendance: attendance
       });
 
       if (error) {
-        console.error('Get available time slots error:', error);
+        console.error('Mark attendance error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not record attendance') };
+      }
+
+      return { data: { success: true }, error: null };
     } catch (error) {
-      console.error('Get available time slots exception:', error);
+      console.error('Mark attendance exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  // Get booking conflicts for a date range
-  getBookingConflicts: async (startDate: string, endDate: string, pitchId?: string) => {
+  // Team functions
+
+  // The team split the organizer published, or null before there is one
+  getGameTeams: async (gameId: string) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { start_date: startDate, end_date: endDate, conflicts: [] }, error: null };
+      return { data: null as PublishedTeams | null, error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('get_booking_conflicts', {
-        p_start_date: startDate,
-        p_end_date: endDate,
-        p_pitch_id: pitchId || null
-      });
+      const { data: teams, error } = await supabase
+        .from('game_teams')
+        .select('team_count, published_at')
+        .eq('game_id', gameId)
+        .maybeSingle();
 
       if (error) {
-        console.error('Get booking conflicts error:', error);
+        console.error('Get game teams error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      if (!teams) {
+        return { data: null, error: null };
+      }
+
+      const { data: players, error: playersError } = await supabase
+        .from('game_team_players')
+        .select('user_id, team_index, lock_group')
+        .eq('game_id', gameId);
+
+      if (playersError) {
+        console.error('Get game team players error:', playersError);
+        return { data: null, error: playersError };
+      }
+
+      return { data: { ...teams, players: (players || []) as TeamPlayer[] } as PublishedTeams, error: null };
     } catch (error) {
-      console.error('Get booking conflicts exception:', error);
+      console.error('Get game teams exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  // Add a pitch booking manually (for testing or manual management)
-  addPitchBooking: async (bookingDate: string, timeSlot: number, sourceType: 'match' | 'booking', sourceId: string, pitchId?: string) => {
+  // Publish a team split (replacing any earlier one) and let the players know
+  publishGameTeams: async (gameId: string, userId: string, players: TeamPlayer[]) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { success: true, message: 'Mock: Pitch booking added' }, error: null };
+      return { data: { success: true }, error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('add_pitch_booking', {
-        p_booking_date: bookingDate,
-        p_time_slot: timeSlot,
-        p_source_type: sourceType,
-        p_source_id: sourceId,
-        p_pitch_id: pitchId || null
+      const { data, error } = await supabase.rpc('publish_game_teams', {
+        p_game_id: gameId,
+        p_players: players
       });
 
       if (error) {
-        console.error('Add pitch booking error:', error);
+        console.error('Publish game teams error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
-    } catch (error) {
-      console.error('Add pitch booking exception:', error);
-      return { data: null, error: error as Error };
-    }
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not publish the teams') };
+      }
+
+      const { gameNotificationService } = await import('../services/gameNotificationService');
+      await gameNotificationService.notifyGameMembers(gameId, userId, {
+        type: 'teams_published',
+        title: '👕 Teams Are Out',
+        message: 'The organizer has picked the teams. Check which side you\'re on.',
+      });
+
+      return { data: { success: true }, error: null };
+    } catch (error) {
+      console.error('Publish game teams exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Join code functions
+
+  // The game's shareable code for its organizer (null when it has none yet)
+  getGameJoinCode: async (gameId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null as GameJoinCode | null, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_game_join_code', {
+        p_game_id: gameId
+      });
+
+      if (error) {
+        console.error('Get game join code error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not load the join code') };
+      }
+
+      return { data: data.code ? (data as GameJoinCode) : null, error: null };
+    } catch (error) {
+      console.error('Get game join code exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Create a new code for the game; any earlier code stops working
+  regenerateGameJoinCode: async (gameId: string, options: { expiresAt?: string | null; maxUses?: number | null } = {}) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('regenerate_game_join_code', {
+        p_game_id: gameId,
+        p_expires_at: options.expiresAt || null,
+        p_max_uses: options.maxUses || null
+      });
+
+      if (error) {
+        console.error('Regenerate game join code error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not create a join code') };
+      }
+
+      return { data: data as GameJoinCode, error: null };
+    } catch (error) {
+      console.error('Regenerate game join code exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  revokeGameJoinCode: async (gameId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('revoke_game_join_code', {
+        p_game_id: gameId
+      });
+
+      if (error) {
+        console.error('Revoke game join code error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not turn off the join code') };
+      }
+
+      return { data: { success: true }, error: null };
+    } catch (error) {
+      console.error('Revoke game join code exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Look up the game behind a join code before joining it
+  getJoinCodeGame: async (code: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_join_code_game', {
+        p_code: code
+      });
+
+      if (error) {
+        console.error('Get join code game error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'That join code doesn\'t match any game') };
+      }
+
+      return { data: data as JoinCodeGame, error: null };
+    } catch (error) {
+      console.error('Get join code game exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Join the game behind a code; returns the game's id
+  joinGameWithCode: async (code: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('join_game_with_code', {
+        p_code: code
+      });
+
+      if (error) {
+        console.error('Join game with code error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not join the game') };
+      }
+
+      const { paymentService } = await import('../services/paymentService');
+      await paymentService.syncShares(data.game_id);
+
+      return { data: { gameId: data.game_id as string }, error: null };
+    } catch (error) {
+      console.error('Join game with code exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Guest functions
+
+  // Guests holding a spot in the game (contact details only for the organizer)
+  getGameGuests: async (gameId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [] as GameGuest[], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_game_guests', {
+        p_game_id: gameId
+      });
+
+      if (error) {
+        console.error('Get game guests error:', error);
+        return { data: [] as GameGuest[], error };
+      }
+
+      return { data: (data || []) as GameGuest[], error: null };
+    } catch (error) {
+      console.error('Get game guests exception:', error);
+      return { data: [] as GameGuest[], error: error as Error };
+    }
+  },
+
+  // Give friends without the app a spot; each guest needs a free spot
+  addGameGuests: async (gameId: string, userId: string, guests: NewGameGuest[]) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('game_guests')
+        .insert(guests.map(guest => ({
+          game_id: gameId,
+          name: guest.name.trim(),
+          email: guest.email?.trim() || null,
+          phone: guest.phone?.trim() || null,
+          added_by: userId
+        })))
+        .select('id, name, email, phone, claim_token, created_at');
+
+      if (error) {
+        console.error('Add game guests error:', error);
+        return { data: null, error };
+      }
+
+      return { data: data as GameGuest[], error: null };
+    } catch (error) {
+      console.error('Add game guests exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  removeGameGuest: async (guestId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('game_guests')
+        .delete()
+        .eq('id', guestId);
+
+      if (error) {
+        console.error('Remove game guest error:', error);
+        return { data: null, error };
+      }
+
+      return { data: { success: true }, error: null };
+    } catch (error) {
+      console.error('Remove game guest exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Claim a guest invite with the current account; the invite's spot and every
+  // guest spot under the account's verified email or phone become memberships.
+  // Returns the invite's game.
+  claimGuestInvite: async (token: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('claim_guest_invite', {
+        p_token: token
+      });
+
+      if (error) {
+        console.error('Claim guest invite error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not claim the guest invite') };
+      }
+
+      const { paymentService } = await import('../services/paymentService');
+      await paymentService.syncShares(data.game_id);
+
+      return { data: { gameId: data.game_id as string, merged: data.merged as number }, error: null };
+    } catch (error) {
+      console.error('Claim guest invite exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // RSVP functions
+
+  // Everyone's answer to the "still coming?" prompts, with names so players
+  // who dropped out still show on the board
+  getGameRsvps: async (gameId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [] as GameRsvp[], error: null };
+    }
+
+    try {
+      const { data: rsvps, error } = await supabase
+        .from('game_rsvps')
+        .select('user_id, response, round, prompted_at, reminders_sent, responded_at')
+        .eq('game_id', gameId);
+
+      if (error) {
+        console.error('Get game RSVPs error:', error);
+        return { data: [] as GameRsvp[], error };
+      }
+
+      if (!rsvps || rsvps.length === 0) {
+        return { data: [] as GameRsvp[], error: null };
+      }
+
+      const { data: profiles } = await supabase
+        .from('user_profiles')
+        .select('id, full_name, username')
+        .in('id', rsvps.map((rsvp: any) => rsvp.user_id));
+
+      return {
+        data: rsvps.map((rsvp: any) => ({
+          ...rsvp,
+          user_profiles: profiles?.find((profile: any) => profile.id === rsvp.user_id) || null
+        })) as GameRsvp[],
+        error: null
+      };
+    } catch (error) {
+      console.error('Get game RSVPs exception:', error);
+      return { data: [] as GameRsvp[], error: error as Error };
+    }
+  },
+
+  // Answer the prompt. A "no" also takes the player out of the game, with the
+  // usual late-leave fee, refunds and waitlist offers.
+  respondToGameRsvp: async (gameId: string, userId: string, response: Exclude<RsvpResponse, 'pending'>) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('respond_game_rsvp', {
+        p_game_id: gameId,
+        p_response: response
+      });
+
+      if (error) {
+        console.error('Respond to RSVP error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not save your answer') };
+      }
+
+      // Saying no left the game, which may have offered the spot to the waitlist
+      await db.notifyWaitlistOffers(gameId, userId, data.offers || []);
+
+      return { data: { success: true }, error: null };
+    } catch (error) {
+      console.error('Respond to RSVP exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // When members are asked to confirm, in hours before kick-off
+  updateRsvpSchedule: async (gameId: string, hours: number[]) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('bookings')
+        .update({ rsvp_hours_before: [...hours].sort((a, b) => b - a) })
+        .eq('id', gameId);
+
+      if (error) {
+        console.error('Update RSVP schedule error:', error);
+        return { data: null, error };
+      }
+
+      return { data: { success: true }, error: null };
+    } catch (error) {
+      console.error('Update RSVP schedule exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Live updates for the attendance board; returns an unsubscribe function
+  subscribeGameRsvps: (gameId: string, onChange: () => void) => {
+    const channel = supabase
+      .channel(`game_rsvps_${gameId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'game_rsvps', filter: `game_id=eq.${gameId}` }, () => onChange())
+      .subscribe();
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+
+  // Result functions
+
+  // The result entered for a game with its sheet and confirmations, or null
+  // before the organizer has entered one
+  getGameResult: async (gameId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null as GameResult | null, error: null };
+    }
+
+    try {
+      const { data: result, error } = await supabase
+        .from('game_results')
+        .select('scores, status, submitted_at, confirm_by, finalized_at')
+        .eq('game_id', gameId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Get game result error:', error);
+        return { data: null, error };
+      }
+
+      if (!result) {
+        return { data: null, error: null };
+      }
+
+      const [{ data: players, error: playersError }, { data: responses }] = await Promise.all([
+        supabase
+          .from('game_result_players')
+          .select('user_id, team_index, goals, assists')
+          .eq('game_id', gameId),
+        supabase
+          .from('game_result_responses')
+          .select('user_id, response, reason, responded_at')
+          .eq('game_id', gameId)
+      ]);
+
+      if (playersError) {
+        console.error('Get game result players error:', playersError);
+        return { data: null, error: playersError };
+      }
+
+      // Names for players who have since left the game
+      const { data: profiles } = await supabase
+        .from('user_profiles')
+        .select('id, full_name, username')
+        .in('id', (players || []).map((player: any) => player.user_id));
+
+      return {
+        data: {
+          ...result,
+          players: (players || []).map((player: any) => ({
+            ...player,
+            user_profiles: profiles?.find((profile: any) => profile.id === player.user_id) || null
+          })),
+          responses: responses || []
+        } as GameResult,
+        error: null
+      };
+    } catch (error) {
+      console.error('Get game result exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Enter or correct the final score and ask the players to confirm it
+  submitGameResult: async (gameId: string, userId: string, scores: number[], players: ResultPlayer[]) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('submit_game_result', {
+        p_game_id: gameId,
+        p_scores: scores,
+        p_players: players.map(({ user_id, team_index, goals, assists }) => ({ user_id, team_index, goals, assists }))
+      });
+
+      if (error) {
+        console.error('Submit game result error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not save the result') };
+      }
+
+      const { gameNotificationService } = await import('../services/gameNotificationService');
+      await gameNotificationService.notifyUsers(
+        players.map(player => player.user_id).filter(id => id !== userId),
+        userId,
+        {
+          type: 'result_submitted',
+          title: '📋 Confirm the Result',
+          message: 'The organizer has entered the final score. Check it and confirm or dispute it within 24 hours.',
+          gameId,
+        }
+      );
+
+      return { data: { status: data.status as GameResult['status'] }, error: null };
+    } catch (error) {
+      console.error('Submit game result exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Confirm or dispute a result you played in; a dispute goes back to the organizer
+  respondToGameResult: async (gameId: string, userId: string, response: ResultResponse, reason?: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('respond_game_result', {
+        p_game_id: gameId,
+        p_response: response,
+        p_reason: reason || null
+      });
+
+      if (error) {
+        console.error('Respond to game result error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not save your answer') };
+      }
+
+      if (response === 'disputed') {
+        const { data: booking } = await supabase
+          .from('bookings')
+          .select('created_by')
+          .eq('id', gameId)
+          .single();
+
+        if (booking?.created_by && booking.created_by !== userId) {
+          const { gameNotificationService } = await import('../services/gameNotificationService');
+          await gameNotificationService.notifyUser(booking.created_by, userId, {
+            type: 'result_disputed',
+            title: '⚠️ Result Disputed',
+            message: reason
+              ? `A player disputed the result: "${reason}". Check it and correct it if needed.`
+              : 'A player disputed the result. Check it and correct it if needed.',
+            gameId,
+          });
+        }
+      }
+
+      return { data: { status: data.status as GameResult['status'] }, error: null };
+    } catch (error) {
+      console.error('Respond to game result exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Vote functions
+
+  // The MVP vote for a pickup game or ranked match, or null before it opens
+  getMatchVote: async (source: VoteSource, sourceId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null as MatchVote | null, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_match_vote', {
+        p_source: source,
+        p_source_id: sourceId
+      });
+
+      if (error) {
+        console.error('Get match vote error:', error);
+        return { data: null, error };
+      }
+
+      return { data: (data || null) as MatchVote | null, error: null };
+    } catch (error) {
+      console.error('Get match vote exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Cast or change your MVP pick and ratings (player id -> 1-10)
+  submitMatchVote: async (source: VoteSource, sourceId: string, mvpId: string | null, ratings: Record<string, number>) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('submit_match_vote', {
+        p_source: source,
+        p_source_id: sourceId,
+        p_mvp_id: mvpId,
+        p_ratings: Object.entries(ratings).map(([player_id, rating]) => ({ player_id, rating }))
+      });
+
+      if (error) {
+        console.error('Submit match vote error:', error);
+        return { data: null, error };
+      }
+
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not save your vote') };
+      }
+
+      return { data: { tallied: !!data.tallied }, error: null };
+    } catch (error) {
+      console.error('Submit match vote exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Matchmaking functions
+  findMatch: async (teamId: string, division: number, preferredDate: string, preferredTimeSlot: number) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: false, error: 'Supabase is disabled' }, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('find_match_for_team', {
+        p_team_id: teamId,
+        p_division: division,
+        p_preferred_date: preferredDate,
+        p_preferred_time_slot: preferredTimeSlot
+      });
+
+      if (error) {
+        console.error('Find match error:', error);
+        return { data: null, error };
+      }
+
+      // If a match was found, send push notifications to both teams
+      if (data?.success && data?.match_found && data?.opponent_team_name) {
+        try {
+          
+          // Format the time slot
+          const timeLabel = formatSlotLabel(preferredTimeSlot);
+          
+          // Format the date
+          const date = new Date(preferredDate);
+          const dateString = date.toLocaleDateString('en-US', { 
+            weekday: 'short', 
+            month: 'short', 
+            day: 'numeric' 
+          });
+
+          // Team notifications have been removed from the app
+        } catch (pushError) {
+          console.log('Match found push notifications skipped - this is expected in Expo Go');
+          // Don't fail the match creation if push notifications fail
+        }
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Find match exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  cancelMatchmaking: async (teamId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: false, error: 'Supabase is disabled' }, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('cancel_matchmaking', {
+        p_team_id: teamId
+      });
+
+      if (error) {
+        console.error('Cancel matchmaking error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Cancel matchmaking exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  getMatchmakingStatus: async (teamId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { in_queue: false, active_match: null }, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_matchmaking_status', {
+        p_team_id: teamId
+      });
+
+      if (error) {
+        console.error('Get matchmaking status error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Get matchmaking status exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  startMatch: async (matchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: false, error: 'Supabase is disabled' }, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('start_match', {
+        p_match_id: matchId
+      });
+
+      if (error) {
+        console.error('Start match error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Start match exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  finishMatch: async (matchId: string, winnerTeamId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: false, error: 'Supabase is disabled' }, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('finish_match', {
+        p_match_id: matchId,
+        p_winner_team_id: winnerTeamId
+      });
+
+      if (error) {
+        console.error('Finish match error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Finish match exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+    // Get match details
+    getMatchDetails: async (matchId: string) => {
+      if (!ENV.ENABLE_SUPABASE) {
+        return { data: null, error: new Error('Supabase is disabled') };
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('matches')
+          .select(`
+            *,
+            team1:teams!matches_team1_id_fkey(id, name, division, wins, losses, draws),
+            team2:teams!matches_team2_id_fkey(id, name, division, wins, losses, draws)
+          `)
+          .eq('id', matchId)
+          .single();
+
+        if (error) {
+          console.error('Get match details error:', error);
+          return { data: null, error };
+        }
+
+        return { data, error: null };
+      } catch (error) {
+        console.error('Get match details exception:', error);
+        return { data: null, error: error as Error };
+      }
+    },
+
+    // Cancel match
+    cancelMatch: async (matchId: string, teamId: string) => {
+      if (!ENV.ENABLE_SUPABASE) {
+        return { data: { success: false, error: 'Supabase is disabled' }, error: null };
+      }
+
+      try {
+        const { data, error } = await supabase.rpc('cancel_match', {
+          p_match_id: matchId,
+          p_team_id: teamId
+        });
+
+        if (error) {
+          console.error('Cancel match error:', error);
+          return { data: null, error };
+        }
+
+        return { data, error: null };
+      } catch (error) {
+        console.error('Cancel match exception:', error);
+        return { data: null, error: error as Error };
+      }
+    },
+
+  // Get team details by ID
+  getTeamDetails: async (teamId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .select(`
+          id,
+          name,
+          division,
+          wins,
+          losses,
+          draws,
+          created_at
+        `)
+        .eq('id', teamId)
+        .single();
+
+      if (error) {
+        console.error('Get team details error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Get team details exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Venue & Pitch Catalog Functions
+
+  // Get all active venues
+  getVenues: async () => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [MOCK_VENUE], error: null } as { data: Venue[]; error: Error | null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('venues')
+        .select('id, name, location, address, description, photos, latitude, longitude')
+        .eq('is_active', true)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Get venues error:', error);
+        return { data: [], error } as { data: Venue[]; error: Error | null };
+      }
+
+      return { data: (data || []) as Venue[], error: null };
+    } catch (error) {
+      console.error('Get venues exception:', error);
+      return { data: [], error: error as Error } as { data: Venue[]; error: Error | null };
+    }
+  },
+
+  // Get active pitches (with their venue), optionally filtered
+  getPitches: async (filters: PitchFilters = {}) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      const filtered = MOCK_PITCHES.filter(pitch =>
+        (!filters.venueId || pitch.venue_id === filters.venueId) &&
+        (!filters.size || pitch.size === filters.size) &&
+        (!filters.surface || pitch.surface === filters.surface) &&
+        (filters.isIndoor === undefined || pitch.is_indoor === filters.isIndoor)
+      );
+      return { data: filtered, error: null } as { data: Pitch[]; error: Error | null };
+    }
+
+    try {
+      let query = supabase
+        .from('pitches')
+        .select(`
+          id,
+          venue_id,
+          name,
+          surface,
+          size,
+          is_indoor,
+          photos,
+          price,
+          price_amount,
+          price_currency,
+          venue:venues!inner(id, name, location, address, description, photos, latitude, longitude, is_active)
+        `)
+        .eq('is_active', true)
+        .eq('venue.is_active', true)
+        .order('name', { ascending: true });
+
+      if (filters.venueId) {
+        query = query.eq('venue_id', filters.venueId);
+      }
+      if (filters.size) {
+        query = query.eq('size', filters.size);
+      }
+      if (filters.surface) {
+        query = query.eq('surface', filters.surface);
+      }
+      if (filters.isIndoor !== undefined) {
+        query = query.eq('is_indoor', filters.isIndoor);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Get pitches error:', error);
+        return { data: [], error } as { data: Pitch[]; error: Error | null };
+      }
+
+      let pitches = (data || []).map((row: any) => ({
+        ...row,
+        photos: row.photos || [],
+        price: getRowPrice(row) || { amount: 0, currency: DEFAULT_CURRENCY },
+        venue: Array.isArray(row.venue) ? row.venue[0] : row.venue,
+      })) as Pitch[];
+
+      // Search matches either the pitch or the venue name/location
+      if (filters.search && filters.search.trim().length > 0) {
+        const s = filters.search.trim().toLowerCase();
+        pitches = pitches.filter(pitch =>
+          pitch.name.toLowerCase().includes(s) ||
+          pitch.venue?.name.toLowerCase().includes(s) ||
+          pitch.venue?.location.toLowerCase().includes(s)
+        );
+      }
+
+      return { data: pitches, error: null };
+    } catch (error) {
+      console.error('Get pitches exception:', error);
+      return { data: [], error: error as Error } as { data: Pitch[]; error: Error | null };
+    }
+  },
+
+  // Get a single pitch with its venue
+  getPitch: async (pitchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      const pitch = MOCK_PITCHES.find(p => p.id === pitchId) || null;
+      return { data: pitch, error: pitch ? null : new Error('Pitch not found') };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('pitches')
+        .select(`
+          id,
+          venue_id,
+          name,
+          surface,
+          size,
+          is_indoor,
+          photos,
+          price,
+          price_amount,
+          price_currency,
+          venue:venues(id, name, location, address, description, photos, latitude, longitude)
+        `)
+        .eq('id', pitchId)
+        .single();
+
+      if (error) {
+        console.error('Get pitch error:', error);
+        return { data: null, error };
+      }
+
+      const row = data as any;
+      const pitch: Pitch = {
+        ...row,
+        photos: row.photos || [],
+        price: getRowPrice(row) || { amount: 0, currency: DEFAULT_CURRENCY },
+        venue: Array.isArray(row.venue) ? row.venue[0] : row.venue,
+      };
+
+      return { data: pitch, error: null };
+    } catch (error) {
+      console.error('Get pitch exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Get public games at a venue on a date that still have spots, for the map
+  getOpenVenueGames: async (date: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [], error: null } as { data: VenueGame[]; error: Error | null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select('id, venue_id, pitch_id, pitch_name, time, created_by, game_format, substitutes, max_players, guest_count, members:game_members(user_id)')
+        .eq('is_public', true)
+        .eq('date', date)
+        .eq('members.status', 'joined')
+        .not('venue_id', 'is', null)
+        .not('status', 'in', '(skipped,cancelled,rejected,pending_approval)')
+        .order('time', { ascending: true });
+
+      if (error) {
+        console.error('Get open venue games error:', error);
+        return { data: [], error } as { data: VenueGame[]; error: Error | null };
+      }
+
+      const games: VenueGame[] = (data || []).map((row: any) => {
+        const members = row.members || [];
+        // The organizer holds a spot even when they aren't a member row
+        const creatorMissing = row.created_by && !members.some((member: any) => member.user_id === row.created_by);
+        return {
+          id: row.id,
+          venue_id: row.venue_id,
+          pitch_id: row.pitch_id,
+          pitch_name: row.pitch_name,
+          time: row.time,
+          format: row.game_format || null,
+          players: getTakenSpots(members.length + (creatorMissing ? 1 : 0), row),
+          max_players: getGameCapacity(row),
+        };
+      });
+
+      return { data: games.filter(game => game.players < game.max_players), error: null };
+    } catch (error) {
+      console.error('Get open venue games exception:', error);
+      return { data: [], error: error as Error } as { data: VenueGame[]; error: Error | null };
+    }
+  },
+
+  // Get a pitch's opening hours, slot length and upcoming closures
+  getPitchSchedule: async (pitchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { pitch_id: pitchId, ...DEFAULT_PITCH_SCHEDULE } as PitchSchedule, error: null };
+    }
+
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const [pitchResult, hoursResult, closuresResult] = await Promise.all([
+        supabase
+          .from('pitches')
+          .select('id, slot_duration_minutes, buffer_minutes')
+          .eq('id', pitchId)
+          .single(),
+        supabase
+          .from('pitch_opening_hours')
+          .select('weekday, opens_at, closes_at')
+          .eq('pitch_id', pitchId)
+          .order('weekday', { ascending: true })
+          .order('opens_at', { ascending: true }),
+        supabase
+          .from('pitch_closures')
+          .select('closure_date, reason')
+          .eq('pitch_id', pitchId)
+          .gte('closure_date', today),
+      ]);
+
+      const error = pitchResult.error || hoursResult.error || closuresResult.error;
+      if (error) {
+        console.error('Get pitch schedule error:', error);
+        return { data: null, error };
+      }
+
+      const schedule: PitchSchedule = {
+        pitch_id: pitchId,
+        slot_duration_minutes: pitchResult.data?.slot_duration_minutes || DEFAULT_PITCH_SCHEDULE.slot_duration_minutes,
+        buffer_minutes: pitchResult.data?.buffer_minutes || 0,
+        opening_hours: hoursResult.data || [],
+        closures: (closuresResult.data || []).map((c: any) => ({ date: c.closure_date, reason: c.reason })),
+      };
+
+      return { data: schedule, error: null };
+    } catch (error) {
+      console.error('Get pitch schedule exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Active pricing rules for a pitch (no rules = the base price everywhere)
+  getPitchPricingRules: async (pitchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [] as PricingRule[], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('pitch_pricing_rules')
+        .select('*')
+        .eq('pitch_id', pitchId)
+        .eq('is_active', true)
+        .order('priority', { ascending: false });
+
+      if (error) {
+        console.error('Get pitch pricing rules error:', error);
+        return { data: null, error };
+      }
+
+      const rules = (data || []).map((rule: any) => ({
+        ...rule,
+        adjustment_value: Number(rule.adjustment_value),
+        min_lead_hours: rule.min_lead_hours === null ? null : Number(rule.min_lead_hours),
+        max_lead_hours: rule.max_lead_hours === null ? null : Number(rule.max_lead_hours),
+      })) as PricingRule[];
+
+      return { data: rules, error: null };
+    } catch (error) {
+      console.error('Get pitch pricing rules exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Add-ons offered on a pitch and how many of each are still free for a slot
+  getSlotAddons: async (pitchId: string, bookingDate: string, timeSlot: number) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [] as SlotAddon[], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_slot_addons', {
+        p_pitch_id: pitchId,
+        p_booking_date: bookingDate,
+        p_time_slot: timeSlot
+      });
+
+      if (error) {
+        console.error('Get slot add-ons error:', error);
+        return { data: null, error };
+      }
+
+      const addons = (data || []).map((addon: any) => ({
+        id: addon.id,
+        name: addon.name,
+        description: addon.description,
+        icon: addon.icon,
+        price: { amount: Number(addon.price_amount), currency: addon.price_currency },
+        max_per_booking: addon.max_per_booking,
+        available: addon.available,
+      })) as SlotAddon[];
+
+      return { data: addons, error: null };
+    } catch (error) {
+      console.error('Get slot add-ons exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Get a pitch's cancellation rules
+  getCancellationPolicy: async (pitchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: DEFAULT_CANCELLATION_POLICY, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('pitches')
+        .select('free_cancellation_hours, late_cancel_fee_percent, no_refund_hours')
+        .eq('id', pitchId)
+        .single();
+
+      if (error) {
+        console.error('Get cancellation policy error:', error);
+        return { data: null, error };
+      }
+
+      const policy: CancellationPolicy = {
+        free_cancellation_hours: data?.free_cancellation_hours ?? DEFAULT_CANCELLATION_POLICY.free_cancellation_hours,
+        late_cancel_fee_percent: Number(data?.late_cancel_fee_percent ?? DEFAULT_CANCELLATION_POLICY.late_cancel_fee_percent),
+        no_refund_hours: data?.no_refund_hours ?? DEFAULT_CANCELLATION_POLICY.no_refund_hours,
+      };
+
+      return { data: policy, error: null };
+    } catch (error) {
+      console.error('Get cancellation policy exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Work out what cancelling (or leaving) a booking right now would cost
+  getBookingCancellationTerms: async (bookingId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return {
+        data: {
+          policy: DEFAULT_CANCELLATION_POLICY,
+          terms: { tier: 'free', hours_until_start: 48, fee_percent: 0 } as CancellationTerms,
+        },
+        error: null
+      };
+    }
+
+    try {
+      const { data: booking, error } = await supabase
+        .from('bookings')
+        .select('id, pitch_id, date, time_slot')
+        .eq('id', bookingId)
+        .single();
+
+      if (error || !booking) {
+        console.error('Get booking cancellation terms error:', error);
+        return { data: null, error: error || new Error('Booking not found') };
+      }
+
+      const { data: policy, error: policyError } = await db.getCancellationPolicy(booking.pitch_id || LEAGUE_PITCH_ID);
+      if (policyError || !policy) {
+        return { data: null, error: policyError || new Error('Cancellation policy not found') };
+      }
+
+      const terms = getCancellationTerms(policy, getMatchStart(booking.date, booking.time_slot || 0));
+      return { data: { policy, terms }, error: null };
+    } catch (error) {
+      console.error('Get booking cancellation terms exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Cancel a booking as its organizer: the record is kept with a reason, the slot
+  // is released and payments are settled under the pitch's policy in one
+  // transaction, then members are told
+  cancelBooking: async (bookingId: string, userId: string, reason: string, options: { refundTo?: RefundDestination } = {}) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: true, message: 'Mock: Booking cancelled' }, error: null };
+    }
+
+    try {
+      const { data: result, error } = await supabase.rpc('cancel_booking', {
+        p_booking_id: bookingId,
+        p_reason: reason,
+        p_refund_to: options.refundTo || 'original'
+      });
+
+      if (error) {
+        console.error('Cancel booking error:', error);
+        return { data: null, error };
+      }
+
+      if (!result?.success) {
+        return { data: null, error: new Error(result?.message || 'Could not cancel this game') };
+      }
+
+      const terms = result.terms as CancellationTerms;
+      const fee: Money = { amount: Number(result.fee), currency: result.currency || DEFAULT_CURRENCY };
+
+      if (result.message) {
+        return { data: { success: true, message: result.message, terms, fee }, error: null };
+      }
+
+      const { data: booking } = await supabase
+        .from('bookings')
+        .select('pitch_name, date, time')
+        .eq('id', bookingId)
+        .single();
+
+      const { gameNotificationService } = await import('../services/gameNotificationService');
+      await gameNotificationService.notifyGameMembers(bookingId, userId, {
+        type: 'game_cancelled',
+        title: '❌ Game Cancelled',
+        message: `${booking?.pitch_name || 'Your game'} on ${booking?.date} at ${booking?.time} was cancelled: ${reason}`,
+      });
+
+      return { data: { success: true, terms, fee }, error: null };
+    } catch (error) {
+      console.error('Cancel booking exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Pitch Booking System Functions
+  
+  // Check if a time slot is available on a pitch
+  checkPitchAvailability: async (bookingDate: string, timeSlot: number, pitchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { available: true, message: 'Mock: Time slot available' }, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('check_pitch_availability', {
+        p_booking_date: bookingDate,
+        p_time_slot: timeSlot,
+        p_pitch_id: pitchId
+      });
+
+      if (error) {
+        console.error('Check pitch availability error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Check pitch availability exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Get available time slots for a specific date on a pitch
+  getAvailableTimeSlots: async (bookingDate: string, pitchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      const slots = generateTimeSlots(DEFAULT_PITCH_SCHEDULE, bookingDate).map(slot => slot.value);
+      return { 
+        data: { 
+          date: bookingDate, 
+          available_slots: slots, 
+          total_slots: slots.length 
+        }, 
+        error: null 
+      };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_available_time_slots', {
+        p_booking_date: bookingDate,
+        p_pitch_id: pitchId
+      });
+
+      if (error) {
+        console.error('Get available time slots error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Get available time slots exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Get booking conflicts for a date range (all pitches when pitchId is omitted)
+  getBookingConflicts: async (startDate: string, endDate: string, pitchId?: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { start_date: startDate, end_date: endDate, conflicts: [] } as BookingConflictsRange, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_booking_conflicts', {
+        p_start_date: startDate,
+        p_end_date: endDate,
+        p_pitch_id: pitchId || null
+      });
+
+      if (error) {
+        console.error('Get booking conflicts error:', error);
+        return { data: null, error };
+      }
+
+      return { data: data as BookingConflictsRange, error: null };
+    } catch (error) {
+      console.error('Get booking conflicts exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Add a pitch booking manually (for testing or manual management)
+  addPitchBooking: async (bookingDate: string, timeSlot: number, sourceType: 'match' | 'booking', sourceId: string, pitchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: true, message: 'Mock: Pitch booking added' }, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('add_pitch_booking', {
+        p_booking_date: bookingDate,
+        p_time_slot: timeSlot,
+        p_source_type: sourceType,
+        p_source_id: sourceId,
+        p_pitch_id: pitchId
+      });
+
+      if (error) {
+        console.error('Add pitch booking error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Add pitch booking exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Remove a pitch booking manually
+  removePitchBooking: async (sourceType: 'match' | 'booking', sourceId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: true, message: 'Mock: Pitch booking removed' }, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('remove_pitch_booking', {
+        p_source_type: sourceType,
+        p_source_id: sourceId
+      });
+
+      if (error) {
+        console.error('Remove pitch booking error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Remove pitch booking exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Enhanced validation functions for frontend
+  
+  // Validate booking time before creating
+  validateBookingTime: async (bookingDate: string, timeSlot: number, pitchId: string, excludeSourceType?: string, excludeSourceId?: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { 
+        data: { 
+          valid: true, 
+          message: 'Mock: Time slot is available',
+          conflict: null 
+        }, 
+        error: null 
+      };
+    }
+
+    try {
+      // First check if the time slot is available
+      const { data: availabilityData, error: availabilityError } = await supabase.rpc('check_pitch_availability', {
+        p_booking_date: bookingDate,
+        p_time_slot: timeSlot,
+        p_pitch_id: pitchId
+      });
+
+      if (availabilityError) {
+        console.error('Check pitch availability error:', availabilityError);
+        return { data: null, error: availabilityError };
+      }
+
+      const isAvailable = availabilityData?.available;
+      
+      // If available, return success
+      if (isAvailable) {
+        return { 
+          data: { 
+            valid: true, 
+            message: 'Time slot is available',
+            conflict: null 
+          }, 
+          error: null 
+        };
+      }
+
+      // If not available, check if it's the same source being updated
+      if (excludeSourceType && excludeSourceId) {
+        const conflict = availabilityData?.conflicting_booking;
+        if (conflict && 
+            conflict.source_type === excludeSourceType && 
+            conflict.source_id === excludeSourceId) {
+          // This is the same booking being updated, so it's valid
+          return { 
+            data: { 
+              valid: true, 
+              message: 'Time slot is available (updating existing booking)',
+              conflict: null 
+            }, 
+            error: null 
+          };
+        }
+      }
+
+      // Time slot is not available
+      return { 
+        data: { 
+          valid: false, 
+          message: availabilityData?.message || 'This pitch is already booked for the selected date and time. Please choose another time or date.',
+          conflict: availabilityData?.conflicting_booking || null
+        }, 
+        error: null 
+      };
+
+    } catch (error) {
+      console.error('Validate booking time exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Get available time slots with validation
+  getAvailableTimeSlotsWithValidation: async (bookingDate: string, pitchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      const slots = generateTimeSlots(DEFAULT_PITCH_SCHEDULE, bookingDate).map(slot => slot.value);
+      return { 
+        data: { 
+          date: bookingDate, 
+          available_slots: slots, 
+          booked_slots: [],
+          held_slots: [],
+          total_slots: slots.length,
+          available_count: slots.length
+        }, 
+        error: null 
+      };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_available_time_slots', {
+        p_booking_date: bookingDate,
+        p_pitch_id: pitchId
+      });
+
+      if (error) {
+        console.error('Get available time slots error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Get available time slots exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Hold a slot for the current user while they finish checkout (replaces any other hold they have)
+  holdSlot: async (pitchId: string, bookingDate: string, timeSlot: number) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      const result: SlotHoldResult = {
+        success: true,
+        hold: {
+          id: `mock-hold-${Date.now()}`,
+          pitch_id: pitchId,
+          booking_date: bookingDate,
+          time_slot: timeSlot,
+          expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+        },
+      };
+      return { data: result, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('place_slot_hold', {
+        p_pitch_id: pitchId,
+        p_booking_date: bookingDate,
+        p_time_slot: timeSlot
+      });
+
+      if (error) {
+        console.error('Hold slot error:', error);
+        return { data: null, error };
+      }
+
+      return { data: data as SlotHoldResult, error: null };
+    } catch (error) {
+      console.error('Hold slot exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Release a slot hold before it expires
+  releaseSlotHold: async (holdId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: true }, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('release_slot_hold', {
+        p_hold_id: holdId
+      });
+
+      if (error) {
+        console.error('Release slot hold error:', error);
+        return { data: null, error };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Release slot hold exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Create a booking atomically: reserves the slot, inserts the booking and adds the
+  // creator as organizer in one transaction. Conflicts come back as data, not errors.
+  createBookingWithValidation: async (bookingData: any) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      const result: BookingResult = { success: true, booking: { id: `mock-booking-${Date.now()}`, ...bookingData } };
+      return { data: result, error: null };
+    }
+
+    if (!bookingData.pitch_id) {
+      return { data: null, error: new Error('A pitch must be selected for the booking') };
+    }
+
+    if (typeof bookingData.time_slot !== 'number') {
+      return { data: null, error: new Error('A time slot must be selected for the booking') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('create_booking', {
+        p_booking: bookingData
+      });
+
+      if (error) {
+        console.error('Create booking error:', error);
+        return { data: null, error };
+      }
+
+      return { data: data as BookingResult, error: null };
+    } catch (error) {
+      console.error('Create booking with validation exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Update a booking atomically, moving its pitch reservation with it
+  updateBookingWithValidation: async (bookingId: string, bookingData: any) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      const result: BookingResult = { success: true, booking: { id: bookingId, ...bookingData } };
+      return { data: result, error: null };
+    }
+
+    if (!bookingData.pitch_id) {
+      return { data: null, error: new Error('A pitch must be selected for the booking') };
+    }
+
+    if (typeof bookingData.time_slot !== 'number') {
+      return { data: null, error: new Error('A time slot must be selected for the booking') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('update_booking', {
+        p_booking_id: bookingId,
+        p_changes: bookingData
+      });
+
+      if (error) {
+        console.error('Update booking error:', error);
+        return { data: null, error };
+      }
+
+      return { data: data as BookingResult, error: null };
+    } catch (error) {
+      console.error('Update booking with validation exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Move a game to a new date, time or pitch. The slot is re-validated (ignoring the
+  // booking's own reservation) and moved atomically, then every member is asked to re-confirm
+  rescheduleBooking: async (bookingId: string, userId: string, changes: RescheduleChanges) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return db.updateBookingWithValidation(bookingId, changes);
+    }
+
+    try {
+      const { data: previous, error: previousError } = await supabase
+        .from('bookings')
+        .select('id, pitch_id, pitch_name, date, time, time_slot')
+        .eq('id', bookingId)
+        .single();
+
+      if (previousError || !previous) {
+        console.error('Reschedule booking lookup error:', previousError);
+        return { data: null, error: previousError || new Error('Booking not found') };
+      }
+
+      const { data: result, error } = await db.updateBookingWithValidation(bookingId, changes);
+      if (error || !result || !result.success) {
+        return { data: result, error };
+      }
+
+      const moved = previous.date !== changes.date || previous.time_slot !== changes.time_slot || previous.pitch_id !== changes.pitch_id;
+      if (!moved) {
+        return { data: result, error: null };
+      }
+
+      const { error: confirmError } = await supabase.rpc('request_reschedule_confirmations', {
+        p_booking_id: bookingId,
+        p_from_date: previous.date,
+        p_from_time_slot: previous.time_slot,
+        p_from_pitch_id: previous.pitch_id
+      });
+
+      if (confirmError) {
+        console.error('Request reschedule confirmations error:', confirmError);
+      }
+
+      // A different pitch can mean a different price
+      const { paymentService } = await import('../services/paymentService');
+      await paymentService.syncShares(bookingId);
+
+      const { gameNotificationService } = await import('../services/gameNotificationService');
+      await gameNotificationService.notifyGameMembers(bookingId, userId, {
+        type: 'game_rescheduled',
+        title: '📅 Game Rescheduled',
+        message: `${previous.pitch_name || 'Your game'} moved from ${previous.date} at ${previous.time} to ${result.booking.pitch_name || previous.pitch_name}, ${changes.date} at ${changes.time}. Please confirm you can still make it.`,
+      });
+
+      return { data: result, error: null };
+    } catch (error) {
+      console.error('Reschedule booking exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // A member answers a reschedule: confirm the new time or drop out of the game
+  respondToReschedule: async (gameId: string, userId: string, attending: boolean) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: true }, error: null };
+    }
+
+    try {
+      if (!attending) {
+        // Members still asked to re-confirm leave without a late-leave fee
+        return db.leaveGame(gameId, userId, { reason: 'Cannot make the new time' });
+      }
+
+      const { error } = await supabase.rpc('confirm_rescheduled_booking', {
+        p_game_id: gameId
+      });
+
+      if (error) {
+        console.error('Confirm rescheduled booking error:', error);
+        return { data: null, error };
+      }
+
+      return { data: { success: true }, error: null };
+    } catch (error) {
+      console.error('Respond to reschedule exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Booking series (recurring bookings)
+
+  // Pre-validate every occurrence of a series and report which dates clash
+  previewBookingSeries: async (dates: string[], timeSlot: number, pitchId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      const occurrences: OccurrenceCheck[] = dates.map(date => ({ date, valid: true, message: 'Mock: Time slot is available' }));
+      return { data: occurrences, error: null };
+    }
+
+    if (dates.length === 0) {
+      return { data: [] as OccurrenceCheck[], error: null };
+    }
+
+    try {
+      // One range query flags most clashes without a round trip per date
+      const { data: conflictData, error: conflictError } = await db.getBookingConflicts(
+        dates[0],
+        dates[dates.length - 1],
+        pitchId
+      );
+
+      if (conflictError) {
+        return { data: null, error: conflictError };
+      }
+
+      const conflicts: any[] = conflictData?.conflicts || [];
+      const occurrences: OccurrenceCheck[] = [];
+
+      for (const date of dates) {
+        const clash = conflicts.find(conflict =>
+          conflict.booking_date === date &&
+          conflict.time_slot < timeSlot + (conflict.duration_minutes || 60) &&
+          conflict.time_slot + (conflict.duration_minutes || 60) > timeSlot
+        );
+
+        if (clash) {
+          occurrences.push({ date, valid: false, message: 'Already booked at this time', conflict: clash });
+          continue;
+        }
+
+        // Still validate individually to catch closures and opening hours
+        const { data: validationData, error: validationError } = await db.validateBookingTime(date, timeSlot, pitchId);
+        if (validationError) {
+          return { data: null, error: validationError };
+        }
+
+        occurrences.push({
+          date,
+          valid: !!validationData?.valid,
+          message: validationData?.message || '',
+          conflict: validationData?.conflict || null,
+        });
+      }
+
+      return { data: occurrences, error: null };
+    } catch (error) {
+      console.error('Preview booking series exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Create a series and book each date; dates that fail are reported instead of aborting the series
+  createBookingSeries: async (rule: SeriesRule, bookingData: any, dates: string[]) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return {
+        data: {
+          series: { id: 'mock-series', ...rule },
+          created: dates.map((date, index) => ({ date, booking_id: `mock-booking-${index}` })),
+          failed: [] as Array<{ date: string; message: string }>,
+        },
+        error: null,
+      };
+    }
+
+    try {
+      const { data: series, error: seriesError } = await supabase
+        .from('booking_series')
+        .insert({
+          created_by: bookingData.created_by,
+          pitch_id: bookingData.pitch_id,
+          venue_id: bookingData.venue_id,
+          frequency: rule.frequency,
+          start_date: rule.start_date,
+          end_date: rule.end_date || null,
+          occurrence_count: rule.occurrence_count || null,
+          time_slot: bookingData.time_slot,
+          is_public: bookingData.is_public,
+        })
+        .select()
+        .single();
+
+      if (seriesError) {
+        console.error('Create booking series error:', seriesError);
+        return { data: null, error: seriesError };
+      }
+
+      const created: Array<{ date: string; booking_id: string }> = [];
+      const failed: Array<{ date: string; message: string }> = [];
+
+      for (const date of dates) {
+        const { data: result, error: bookingError } = await db.createBookingWithValidation({
+          ...bookingData,
+          date,
+          series_id: series.id,
+        });
+
+        if (bookingError || !result) {
+          failed.push({ date, message: bookingError?.message || 'Failed to create booking' });
+          continue;
+        }
+
+        if (!result.success) {
+          failed.push({ date, message: result.conflict.message });
+          continue;
+        }
+
+        created.push({ date, booking_id: result.booking.id });
+      }
+
+      return { data: { series, created, failed }, error: null };
+    } catch (error) {
+      console.error('Create booking series exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Get a series with all of its occurrences
+  getBookingSeries: async (seriesId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: null };
+    }
+
+    try {
+      const [seriesResult, occurrencesResult] = await Promise.all([
+        supabase
+          .from('booking_series')
+          .select('*')
+          .eq('id', seriesId)
+          .single(),
+        supabase
+          .from('bookings')
+          .select('id, date, time, time_slot, status, pitch_id')
+          .eq('series_id', seriesId)
+          .order('date', { ascending: true }),
+      ]);
+
+      const error = seriesResult.error || occurrencesResult.error;
+      if (error) {
+        console.error('Get booking series error:', error);
+        return { data: null, error };
+      }
+
+      return { data: { ...seriesResult.data, occurrences: occurrencesResult.data || [] }, error: null };
+    } catch (error) {
+      console.error('Get booking series exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Skip a single occurrence; it's cancelled through cancel_booking, so its fee and refunds apply
+  skipSeriesOccurrence: async (bookingId: string, userId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: true, message: 'Mock: Occurrence skipped' }, error: null };
+    }
+
+    try {
+      const { data: result, error } = await supabase.rpc('skip_series_occurrence', {
+        p_booking_id: bookingId
+      });
+
+      if (error) {
+        console.error('Skip series occurrence error:', error);
+        return { data: null, error };
+      }
+
+      if (!result?.success) {
+        return { data: null, error: new Error(result?.message || 'Could not skip this date') };
+      }
+
+      if (!result.message) {
+        const { data: booking } = await supabase
+          .from('bookings')
+          .select('pitch_name, date, time')
+          .eq('id', bookingId)
+          .single();
+
+        const { gameNotificationService } = await import('../services/gameNotificationService');
+        await gameNotificationService.notifyGameMembers(bookingId, userId, {
+          type: 'game_cancelled',
+          title: '❌ Game Cancelled',
+          message: `${booking?.pitch_name || 'Your game'} on ${booking?.date} at ${booking?.time} was skipped this week`,
+        });
+      }
+
+      return { data: { success: true, message: 'Occurrence skipped' }, error: null };
+    } catch (error) {
+      console.error('Skip series occurrence exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Cancel every occurrence on or after fromDate and stop the series there, in one transaction
+  cancelBookingSeries: async (seriesId: string, userId: string, fromDate: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { cancelled: 0 }, error: null };
+    }
+
+    try {
+      const { data: result, error } = await supabase.rpc('cancel_booking_series', {
+        p_series_id: seriesId,
+        p_from_date: fromDate
+      });
+
+      if (error) {
+        console.error('Cancel booking series error:', error);
+        return { data: null, error };
+      }
+
+      if (!result?.success) {
+        return { data: null, error: new Error(result?.message || 'Could not cancel the series') };
+      }
+
+      const cancelled: Array<{ id: string; pitch_name: string | null; date: string; time: string }> = result.cancelled || [];
+
+      const { gameNotificationService } = await import('../services/gameNotificationService');
+      for (const occurrence of cancelled) {
+        await gameNotificationService.notifyGameMembers(occurrence.id, userId, {
+          type: 'game_cancelled',
+          title: '❌ Game Cancelled',
+          message: `${occurrence.pitch_name || 'Your game'} on ${occurrence.date} at ${occurrence.time} was cancelled with the rest of its series`,
+        });
+      }
+
+      return { data: { cancelled: cancelled.length }, error: null };
+    } catch (error) {
+      console.error('Cancel booking series exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Payments ledger
+
+  // Get every charge and refund recorded for a booking
+  getBookingPayments: async (bookingId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [] as BookingPayment[], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('booking_payments')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Get booking payments error:', error);
+        return { data: null, error };
+      }
+
+      return { data: (data || []) as BookingPayment[], error: null };
+    } catch (error) {
+      console.error('Get booking payments exception:', error);
+      return { data: null, error: error as Error };
+    }
   },
 
-  // Remove a pitch booking manually
-  removePitchBooking: async (sourceType: 'match' | 'booking', sourceId: string) => {
+  // Add-ons rented with a booking
+  getBookingAddons: async (bookingId: string) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { success: true, message: 'Mock: Pitch booking removed' }, error: null };
+      return { data: [] as BookingAddon[], error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('remove_pitch_booking', {
-        p_source_type: sourceType,
-        p_source_id: sourceId
-      });
+      const { data, error } = await supabase
+        .from('booking_addons')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: true });
 
       if (error) {
-        console.error('Remove pitch booking error:', error);
+        console.error('Get booking add-ons error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      const addons = (data || []).map((addon: any) => ({
+        id: addon.id,
+        booking_id: addon.booking_id,
+        addon_id: addon.addon_id,
+        name: addon.name,
+        quantity: addon.quantity,
+        unit_price: { amount: Number(addon.unit_price), currency: addon.currency },
+      })) as BookingAddon[];
+
+      return { data: addons, error: null };
     } catch (error) {
-      console.error('Remove pitch booking exception:', error);
+      console.error('Get booking add-ons exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  // Enhanced validation functions for frontend
-  
-  // Validate booking time before creating
-  validateBookingTime: async (bookingDate: string, timeSlot: number, pitchId?: string, excludeSourceType?: string, excludeSourceId?: string) => {
+  // Recompute member shares and payment status for a booking
+  syncBookingShares: async (bookingId: string) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { 
-        data: { 
-          valid: true, 
-          message: 'Mock: Time slot is available',
-          conflict: null 
-        }, 
-        error: null 
-      };
+      return { data: [] as MemberPaymentSummary[], error: null };
     }
 
     try {
-      // First check if the time slot is available
-      const { data: availabilityData, error: availabilityError } = await supabase.rpc('check_pitch_availability', {
-        p_booking_date: bookingDate,
-        p_time_slot: timeSlot,
-        p_pitch_id: pitchId || null
+      const { data, error } = await supabase.rpc('sync_booking_shares', {
+        p_booking_id: bookingId
       });
 
-      if (availabilityError) {
-        console.error('Check pitch availability error:', availabilityError);
-        return { data: null, error: availabilityError };
+      if (error) {
+        console.error('Sync booking shares error:', error);
+        return { data: null, error };
       }
 
-      const isAvailable = availabilityData?.available;
-      
-      // If available, return success
-      if (isAvailable) {
-        return { 
-          data: { 
-            valid: true, 
-            message: 'Time slot is available',
-            conflict: null 
-          }, 
-          error: null 
-        };
+      const summaries = (data || []).map((row: any) => ({
+        user_id: row.user_id,
+        amount_due: Number(row.amount_due),
+        amount_paid: Number(row.amount_paid),
+        payment_status: row.payment_status,
+        currency: row.currency,
+      })) as MemberPaymentSummary[];
+
+      return { data: summaries, error: null };
+    } catch (error) {
+      console.error('Sync booking shares exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Promo codes and booking credits
+
+  // Check a promo code against a slot's price before booking
+  validatePromoCode: async (code: string, pitchId: string, price: Money) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { valid: false, message: 'Promo codes are unavailable offline' } as PromoCodeCheck, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('validate_promo_code', {
+        p_code: code,
+        p_pitch_id: pitchId,
+        p_amount: price.amount,
+        p_currency: price.currency
+      });
+
+      if (error) {
+        console.error('Validate promo code error:', error);
+        return { data: null, error };
       }
 
-      // If not available, check if it's the same source being updated
-      if (excludeSourceType && excludeSourceId) {
-        const conflict = availabilityData?.conflicting_booking;
-        if (conflict && 
-            conflict.source_type === excludeSourceType && 
-            conflict.source_id === excludeSourceId) {
-          // This is the same booking being updated, so it's valid
-          return { 
-            data: { 
-              valid: true, 
-              message: 'Time slot is available (updating existing booking)',
-              conflict: null 
-            }, 
-            error: null 
-          };
-        }
+      const check: PromoCodeCheck = data?.valid
+        ? {
+            valid: true,
+            promo_code_id: data.promo_code_id,
+            code: data.code,
+            description: data.description,
+            discount: { amount: Number(data.discount_amount), currency: data.currency || price.currency },
+          }
+        : { valid: false, message: data?.message || 'This promo code can\'t be used' };
+
+      return { data: check, error: null };
+    } catch (error) {
+      console.error('Validate promo code exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // The current user's credit balance in each currency they hold credit in
+  getCreditBalances: async () => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [] as CreditBalance[], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_credit_balances');
+
+      if (error) {
+        console.error('Get credit balances error:', error);
+        return { data: null, error };
       }
 
-      // Time slot is not available
-      return { 
-        data: { 
-          valid: false, 
-          message: availabilityData?.message || 'This pitch is already booked for the selected date and time. Please choose another time or date.',
-          conflict: availabilityData?.conflicting_booking || null
-        }, 
-        error: null 
-      };
+      const balances: CreditBalance[] = (data || []).map((row: any) => ({
+        currency: row.currency,
+        balance: Number(row.balance),
+      }));
 
+      return { data: balances, error: null };
     } catch (error) {
-      console.error('Validate booking time exception:', error);
+      console.error('Get credit balances exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  // Get available time slots with validation
-  getAvailableTimeSlotsWithValidation: async (bookingDate: string, pitchId?: string) => {
+  // Pay up to amount of the current user's outstanding share from their credit
+  spendBookingCredit: async (bookingId: string, amount: number) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { 
-        data: { 
-          date: bookingDate, 
-          available_slots: [18, 19, 20, 21, 22, 23, 24, 25, 26], 
-          booked_slots: [],
-          total_slots: 9,
-          available_count: 9
-        }, 
-        error: null 
-      };
+      return { data: { success: false, message: 'Credit is unavailable offline' } as CreditResult, error: null };
     }
 
     try {
-      const { data, error } = await supabase.rpc('get_available_time_slots', {
-        p_booking_date: bookingDate,
-        p_pitch_id: pitchId || null
+      const { data, error } = await supabase.rpc('spend_booking_credit', {
+        p_booking_id: bookingId,
+        p_amount: amount
       });
 
       if (error) {
-        console.error('Get available time slots error:', error);
+        console.error('Spend booking credit error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      const result: CreditResult = data?.success
+        ? { success: true, amount: Number(data.amount), currency: data.currency }
+        : { success: false, message: data?.message || 'Could not use credit' };
+
+      return { data: result, error: null };
     } catch (error) {
-      console.error('Get available time slots exception:', error);
+      console.error('Spend booking credit exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  // Create booking with validation
-  createBookingWithValidation: async (bookingData: any) => {
+  // Calendar feed functions
+  // The current user's secret feed token (created on first use)
+  getCalendarFeedToken: async () => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { success: true, message: 'Mock: Booking created' }, error: null };
+      return { data: null, error: new Error('Supabase is disabled') };
     }
 
     try {
-      // First validate the booking time
-      const timeSlot = parseInt(bookingData.time.split(':')[0]); // Extract hour from time string
-      
-      const { data: validationData, error: validationError } = await db.validateBookingTime(
-        bookingData.date,
-        timeSlot,
-        bookingData.pitch_id
-      );
+      const { data, error } = await supabase.rpc('get_calendar_feed_token');
 
-      if (validationError) {
-        return { data: null, error: validationError };
+      if (error) {
+        console.error('Get calendar feed token error:', error);
+        return { data: null, error };
       }
 
-      if (!validationData?.valid) {
-        return { 
-          data: null, 
-          error: new Error(validationData?.message || 'Booking time is not available') 
-        };
+      return { data: data as string, error: null };
+    } catch (error) {
+      console.error('Get calendar feed token exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Replace the feed token so the old link stops working
+  resetCalendarFeedToken: async () => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: null, error: new Error('Supabase is disabled') };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('reset_calendar_feed_token');
+
+      if (error) {
+        console.error('Reset calendar feed token error:', error);
+        return { data: null, error };
       }
 
-      // If validation passes, create the booking
+      return { data: data as string, error: null };
+    } catch (error) {
+      console.error('Reset calendar feed token exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Venue operator functions
+  // Venues the current user can manage from the operator portal
+  getOperatorVenues: async (userId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [] as OperatorVenue[], error: null };
+    }
+
+    try {
       const { data, error } = await supabase
-        .from('bookings')
-        .insert(bookingData)
-        .select()
-        .single();
+        .from('venue_operators')
+        .select('venue_id, role, venue:venues(name)')
+        .eq('user_id', userId);
 
       if (error) {
-        console.error('Create booking error:', error);
+        console.error('Get operator venues error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      const venues: OperatorVenue[] = (data || []).map((row: any) => ({
+        venue_id: row.venue_id,
+        venue_name: row.venue?.name || 'Venue',
+        role: row.role,
+      }));
+
+      return { data: venues, error: null };
     } catch (error) {
-      console.error('Create booking with validation exception:', error);
+      console.error('Get operator venues exception:', error);
       return { data: null, error: error as Error };
     }
   },
 
-  // Update booking with validation
-  updateBookingWithValidation: async (bookingId: string, bookingData: any) => {
+  // Take a slot out of sale (maintenance, private use...)
+  blockPitchSlot: async (pitchId: string, blockDate: string, timeSlot: number, reason?: string) => {
     if (!ENV.ENABLE_SUPABASE) {
-      return { data: { success: true, message: 'Mock: Booking updated' }, error: null };
+      return { data: { success: true, block_id: 'mock-block' } as BlockSlotResult, error: null };
     }
 
     try {
-      // First validate the booking time (excluding the current booking)
-      const timeSlot = parseInt(bookingData.time.split(':')[0]); // Extract hour from time string
-      
-      const { data: validationData, error: validationError } = await db.validateBookingTime(
-        bookingData.date,
-        timeSlot,
-        bookingData.pitch_id,
-        'booking',
-        bookingId
-      );
+      const { data, error } = await supabase.rpc('block_pitch_slot', {
+        p_pitch_id: pitchId,
+        p_block_date: blockDate,
+        p_time_slot: timeSlot,
+        p_reason: reason || null
+      });
 
-      if (validationError) {
-        return { data: null, error: validationError };
+      if (error) {
+        console.error('Block pitch slot error:', error);
+        return { data: null, error };
       }
 
-      if (!validationData?.valid) {
-        return { 
-          data: null, 
-          error: new Error(validationData?.message || 'Booking time is not available') 
-        };
+      return { data: data as BlockSlotResult, error: null };
+    } catch (error) {
+      console.error('Block pitch slot exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Put a blocked slot back on sale
+  unblockPitchSlot: async (blockId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: true, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('unblock_pitch_slot', {
+        p_block_id: blockId
+      });
+
+      if (error) {
+        console.error('Unblock pitch slot error:', error);
+        return { data: null, error };
       }
 
-      // If validation passes, update the booking
-      const { data, error } = await supabase
+      return { data: data === true, error: null };
+    } catch (error) {
+      console.error('Unblock pitch slot exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Bookings on the venue's approval-only pitches that are waiting for a decision
+  getPendingApprovals: async (venueId: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [] as PendingApproval[], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_pending_approvals', {
+        p_venue_id: venueId
+      });
+
+      if (error) {
+        console.error('Get pending approvals error:', error);
+        return { data: null, error };
+      }
+
+      const approvals: PendingApproval[] = (data || []).map((row: any) => ({
+        ...row,
+        price: getRowPrice(row),
+      }));
+
+      return { data: approvals, error: null };
+    } catch (error) {
+      console.error('Get pending approvals exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Approve or reject a pending booking. Rejected bookings are refunded and the
+  // players are told either way.
+  reviewBooking: async (bookingId: string, operatorId: string, approve: boolean, note?: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: { success: true }, error: null };
+    }
+
+    try {
+      const { data: booking, error: bookingError } = await supabase
         .from('bookings')
-        .update(bookingData)
+        .select('id, pitch_name, date, time')
         .eq('id', bookingId)
-        .select()
         .single();
 
+      if (bookingError || !booking) {
+        console.error('Review booking lookup error:', bookingError);
+        return { data: null, error: bookingError || new Error('Booking not found') };
+      }
+
+      const { data, error } = await supabase.rpc('review_booking', {
+        p_booking_id: bookingId,
+        p_approve: approve,
+        p_note: note || null
+      });
+
       if (error) {
-        console.error('Update booking error:', error);
+        console.error('Review booking error:', error);
         return { data: null, error };
       }
 
-      return { data, error: null };
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Could not review this booking') };
+      }
+
+      const gameLabel = `${booking.pitch_name || 'Your game'} on ${booking.date} at ${booking.time}`;
+      const { gameNotificationService } = await import('../services/gameNotificationService');
+      await gameNotificationService.notifyGameMembers(bookingId, operatorId, approve
+        ? {
+            type: 'booking_approved',
+            title: '✅ Booking Approved',
+            message: `${gameLabel} was approved by the venue`,
+          }
+        : {
+            type: 'booking_rejected',
+            title: '❌ Booking Rejected',
+            message: `${gameLabel} was rejected by the venue${note ? `: ${note}` : ''}`,
+          });
+
+      return { data: { success: true }, error: null };
     } catch (error) {
-      console.error('Update booking with validation exception:', error);
+      console.error('Review booking exception:', error);
+      return { data: null, error: error as Error };
+    }
+  },
+
+  // Money taken per pitch for games played between two dates
+  getVenueRevenue: async (venueId: string, startDate: string, endDate: string) => {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { data: [] as PitchRevenue[], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_venue_revenue', {
+        p_venue_id: venueId,
+        p_start_date: startDate,
+        p_end_date: endDate
+      });
+
+      if (error) {
+        console.error('Get venue revenue error:', error);
+        return { data: null, error };
+      }
+
+      const revenue: PitchRevenue[] = (data || []).map((row: any) => ({
+        pitch_id: row.pitch_id,
+        pitch_name: row.pitch_name,
+        currency: row.currency || DEFAULT_CURRENCY,
+        bookings: Number(row.bookings),
+        charged: Number(row.charged),
+        refunded: Number(row.refunded),
+        fees: Number(row.fees),
+        net: Number(row.net),
+      }));
+
+      return { data: revenue, error: null };
+    } catch (error) {
+      console.error('Get venue revenue exception:', error);
       return { data: null, error: error as Error };
     }
   },
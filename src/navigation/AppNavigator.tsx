@@ -24,6 +24,7 @@ import SplashScreen from '../components/SplashScreen';
 import AppLoader from '../components/AppLoader';
 import { supabase, db } from '../lib/supabase';
 import { AppDataProvider } from '../context/AppDataContext';
+import { calendarService } from '../services/calendarService';
 
 // More screen subscreens
 import ProfileScreen from '../screens/ProfileScreen';
@@ -40,6 +41,12 @@ import TeamSettingsScreen from '../screens/TeamSettingsScreen';
 import CreateTeamScreen from '../screens/CreateTeamScreen';
 import TeamChatScreen from '../screens/TeamChatScreen';
 import AdminPanelScreen from '../screens/AdminPanelScreen';
+import CheckInScannerScreen from '../screens/CheckInScannerScreen';
+
+// Venue operator portal
+import OperatorScheduleScreen from '../screens/OperatorScheduleScreen';
+import OperatorApprovalsScreen from '../screens/OperatorApprovalsScreen';
+import OperatorRevenueScreen from '../screens/OperatorRevenueScreen';
 
 export type RootStackParamList = {
   Landing: undefined;
@@ -49,7 +56,7 @@ export type RootStackParamList = {
   SignUp: undefined;
   Onboarding: undefined;
   MainTabs: undefined;
-  GameDetails: { gameId: string };
+  GameDetails: { gameId?: string; joinCode?: string; guestToken?: string };
   BookingDetails: { booking: any };
   Chat: { booking: any };
   Profile: { userId?: string };
@@ -66,6 +73,8 @@ export type RootStackParamList = {
   CreateTeam: undefined;
   TeamChat: { teamId: string; teamName: string };
   AdminPanel: undefined;
+  OperatorPortal: { venueId: string; venueName: string };
+  CheckInScanner: undefined;
 };
 
 export type TabParamList = {
@@ -76,8 +85,17 @@ export type TabParamList = {
   More: undefined;
 };
 
+type OperatorVenueParams = { venueId: string; venueName: string };
+
+export type OperatorTabParamList = {
+  OperatorSchedule: OperatorVenueParams;
+  OperatorApprovals: OperatorVenueParams;
+  OperatorRevenue: OperatorVenueParams;
+};
+
 const Stack = createStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<TabParamList>();
+const OperatorTab = createBottomTabNavigator<OperatorTabParamList>();
 
 // Optimized screen options for better performance
 const optimizedScreenOptions = {
@@ -303,6 +321,67 @@ const TabNavigator: React.FC = () => {
   );
 };
 
+// Tabs for pitch owners and staff, opened from More for one venue at a time
+const OperatorNavigator: React.FC<{ route: { params: OperatorVenueParams } }> = ({ route }) => {
+  const venueParams = route.params;
+
+  // backBehavior "none" makes back from any tab leave the portal
+  return (
+    <OperatorTab.Navigator
+      backBehavior="none"
+      screenOptions={({ route: tabRoute }: { route: any }) => ({
+        tabBarIcon: ({ focused, color, size }: { focused: boolean; color: string; size: number }) => {
+          let iconName: keyof typeof Ionicons.glyphMap;
+
+          if (tabRoute.name === 'OperatorSchedule') {
+            iconName = focused ? 'calendar' : 'calendar-outline';
+          } else if (tabRoute.name === 'OperatorApprovals') {
+            iconName = focused ? 'checkmark-circle' : 'checkmark-circle-outline';
+          } else {
+            iconName = focused ? 'cash' : 'cash-outline';
+          }
+
+          return <Ionicons name={iconName} size={size} color={color} />;
+        },
+        tabBarActiveTintColor: '#fff',
+        tabBarInactiveTintColor: 'rgba(255, 255, 255, 0.6)',
+        tabBarStyle: {
+          backgroundColor: 'rgba(0, 0, 0, 0.9)',
+          borderTopColor: 'rgba(255, 255, 255, 0.1)',
+          borderTopWidth: 1,
+          height: 60,
+          paddingBottom: 8,
+          paddingTop: 8,
+        },
+        tabBarLabelStyle: {
+          fontSize: 12,
+          fontWeight: '500',
+        },
+        headerShown: false,
+      })}
+    >
+      <OperatorTab.Screen
+        name="OperatorSchedule"
+        component={OperatorScheduleScreen}
+        initialParams={venueParams}
+        options={{ tabBarLabel: 'Schedule' }}
+      />
+      <OperatorTab.Screen
+        name="OperatorApprovals"
+        component={OperatorApprovalsScreen}
+        initialParams={venueParams}
+        options={{ tabBarLabel: 'Approvals' }}
+      />
+      <OperatorTab.Screen
+        name="OperatorRevenue"
+        component={OperatorRevenueScreen}
+        initialParams={venueParams}
+        options={{ tabBarLabel: 'Revenue' }}
+      />
+    </OperatorTab.Navigator>
+  );
+};
+
 const AppNavigator: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [user, setUser] = useState<any>(null);
@@ -353,6 +432,7 @@ const AppNavigator: React.FC = () => {
         setHasCompletedOnboarding(false);
         // Clear cache on logout for better performance and privacy
         db.clearCache();
+        calendarService.clear();
       }
     });
 
@@ -669,6 +749,22 @@ const AppNavigator: React.FC = () => {
             ...smoothTransitionOptions,
           }}
         />
+        <Stack.Screen 
+          name="OperatorPortal" 
+          component={OperatorNavigator}
+          options={{
+            headerShown: false,
+            ...smoothTransitionOptions,
+          }}
+        />
+        <Stack.Screen 
+          name="CheckInScanner" 
+          component={CheckInScannerScreen}
+          options={{
+            headerShown: false,
+            ...smoothTransitionOptions,
+          }}
+        />
       </Stack.Navigator>
     );
   };
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -6,11 +6,19 @@ import {
   ScrollView,
   TouchableOpacity,
   ImageBackground,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
+import { supabase, db } from '../lib/supabase';
+import { Pitch } from '../types/venues';
+import { BookingAddon } from '../types/addons';
+import { PAYMENT_MODE_LABELS, PaymentMode } from '../utils/payments';
+import { formatMoney, fromMinorUnits, toMinorUnits } from '../utils/money';
+import { getSlotLabel } from '../utils/schedule';
+import { addDays } from '../utils/recurrence';
 
 interface UpcomingBooking {
   id: string;
@@ -28,10 +36,149 @@ interface BookingDetailsRouteParams {
   booking: UpcomingBooking;
 }
 
+// The parts of the booking row needed to move it
+interface BookingSlot {
+  pitch_id: string;
+  date: string;
+  time_slot: number;
+  created_by: string;
+  status: string;
+  price_amount: number | null;
+  price_currency: string;
+  payment_mode: PaymentMode;
+}
+
+const RESCHEDULE_DAYS_AHEAD = 14;
+
 const BookingDetailsScreen: React.FC = () => {
   const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const route = useRoute();
-  const { booking } = route.params as BookingDetailsRouteParams;
+  const { booking: initialBooking } = route.params as BookingDetailsRouteParams;
+
+  const [booking, setBooking] = useState<UpcomingBooking>(initialBooking);
+  const [slot, setSlot] = useState<BookingSlot | null>(null);
+  const [isOrganizer, setIsOrganizer] = useState(false);
+  const [showReschedule, setShowReschedule] = useState(false);
+  const [pitches, setPitches] = useState<Pitch[]>([]);
+  const [newPitchId, setNewPitchId] = useState<string | null>(null);
+  const [newDate, setNewDate] = useState<string | null>(null);
+  const [newTimeSlot, setNewTimeSlot] = useState<number | null>(null);
+  const [availableSlots, setAvailableSlots] = useState<number[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [rescheduling, setRescheduling] = useState(false);
+  const [rescheduleMessage, setRescheduleMessage] = useState('');
+  const [rescheduleError, setRescheduleError] = useState('');
+  const [addons, setAddons] = useState<BookingAddon[]>([]);
+
+  useEffect(() => {
+    loadBookingSlot();
+  }, [initialBooking.id]);
+
+  useEffect(() => {
+    if (showReschedule && newPitchId && newDate) {
+      loadSlots(newPitchId, newDate);
+    }
+  }, [showReschedule, newPitchId, newDate]);
+
+  const loadBookingSlot = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data } = await supabase
+        .from('bookings')
+        .select('pitch_id, date, time_slot, created_by, status, price_amount, price_currency, payment_mode')
+        .eq('id', initialBooking.id)
+        .single();
+
+      if (data) {
+        setSlot({ ...data, price_amount: data.price_amount === null ? null : Number(data.price_amount) });
+        setIsOrganizer(!!user && data.created_by === user.id);
+      }
+
+      const { data: bookingAddons } = await db.getBookingAddons(initialBooking.id);
+      setAddons(bookingAddons || []);
+    } catch (error) {
+      console.error('Error loading booking slot:', error);
+    }
+  };
+
+  const handleOpenReschedule = async () => {
+    if (!slot) return;
+
+    setShowReschedule(true);
+    setRescheduleError('');
+    setRescheduleMessage('');
+    setNewPitchId(slot.pitch_id);
+    setNewDate(slot.date);
+    setNewTimeSlot(null);
+
+    const { data } = await db.getPitches();
+    setPitches(data || []);
+  };
+
+  const loadSlots = async (pitchId: string, date: string) => {
+    setLoadingSlots(true);
+    setNewTimeSlot(null);
+    try {
+      const { data } = await db.getAvailableTimeSlots(date, pitchId);
+      const free = data?.available_slots || [];
+      // The game's current slot is free as far as the move is concerned
+      const includesCurrent = slot && slot.pitch_id === pitchId && slot.date === date && !free.includes(slot.time_slot);
+      setAvailableSlots(includesCurrent ? [...free, slot!.time_slot].sort((a, b) => a - b) : free);
+    } catch (error) {
+      console.error('Error loading slots for reschedule:', error);
+      setAvailableSlots([]);
+    } finally {
+      setLoadingSlots(false);
+    }
+  };
+
+  const handleConfirmReschedule = async () => {
+    const pitch = pitches.find(p => p.id === newPitchId);
+    if (!pitch || !newDate || newTimeSlot === null) {
+      setRescheduleError('Please choose a pitch, date and time');
+      return;
+    }
+
+    setRescheduling(true);
+    setRescheduleError('');
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const time = getSlotLabel(newTimeSlot);
+      const { data: result, error } = await db.rescheduleBooking(booking.id, user.id, {
+        pitch_id: pitch.id,
+        date: newDate,
+        time,
+        time_slot: newTimeSlot,
+      });
+
+      if (error || !result) {
+        setRescheduleError('Failed to move the game. Please try again.');
+        return;
+      }
+
+      if (!result.success) {
+        setRescheduleError(result.conflict.message);
+        return;
+      }
+
+      setBooking({ ...booking, pitch_name: pitch.name, pitch_location: pitch.venue?.location || '', date: newDate, time });
+      setSlot(slot ? { ...slot, pitch_id: pitch.id, date: newDate, time_slot: newTimeSlot } : slot);
+      setShowReschedule(false);
+      setRescheduleMessage('Game moved. Players have been asked to confirm the new time.');
+    } catch (error) {
+      console.error('Error rescheduling booking:', error);
+      setRescheduleError('Failed to move the game. Please try again.');
+    } finally {
+      setRescheduling(false);
+    }
+  };
+
+  const addonsMinor = addons.reduce((sum, addon) => sum + toMinorUnits(addon.unit_price.amount) * addon.quantity, 0);
+
+  const today = new Date().toISOString().split('T')[0];
+  const rescheduleDates = Array.from({ length: RESCHEDULE_DAYS_AHEAD }, (_, index) => addDays(today, index));
 
   return (
     <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
@@ -126,6 +273,36 @@ const BookingDetailsScreen: React.FC = () => {
               </View>
             </View>
 
+            {addons.length > 0 && (
+              <View style={styles.detailCard}>
+                <View style={styles.detailHeader}>
+                  <Ionicons name="basket" size={24} color="#4CAF50" />
+                  <Text style={styles.detailTitle}>Add-ons</Text>
+                </View>
+                <View style={styles.detailContent}>
+                  {addons.map(addon => (
+                    <View key={addon.id} style={styles.infoRow}>
+                      <Text style={styles.infoLabel}>{addon.quantity} × {addon.name}</Text>
+                      <Text style={styles.infoValue}>
+                        {formatMoney({ amount: fromMinorUnits(toMinorUnits(addon.unit_price.amount) * addon.quantity), currency: addon.unit_price.currency })}
+                      </Text>
+                    </View>
+                  ))}
+                  {slot && slot.price_amount !== null && (
+                    <>
+                      <View style={[styles.infoRow, styles.addonTotalRow]}>
+                        <Text style={styles.infoLabel}>Booking total</Text>
+                        <Text style={styles.infoValue}>{formatMoney({ amount: slot.price_amount, currency: slot.price_currency })}</Text>
+                      </View>
+                      <Text style={styles.priceLabel}>
+                        Includes {formatMoney({ amount: fromMinorUnits(addonsMinor), currency: slot.price_currency })} of add-ons · {PAYMENT_MODE_LABELS[slot.payment_mode]}
+                      </Text>
+                    </>
+                  )}
+                </View>
+              </View>
+            )}
+
             <View style={styles.detailCard}>
               <View style={styles.detailHeader}>
                 <Ionicons name="information-circle" size={24} color="#4CAF50" />
@@ -144,6 +321,80 @@ const BookingDetailsScreen: React.FC = () => {
             </View>
           </View>
 
+          {/* Reschedule */}
+          {isOrganizer && showReschedule && (
+            <View style={styles.detailCard}>
+              <View style={styles.detailHeader}>
+                <Ionicons name="swap-horizontal" size={24} color="#4CAF50" />
+                <Text style={styles.detailTitle}>Move Game</Text>
+              </View>
+
+              <Text style={styles.rescheduleLabel}>Pitch</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                {pitches.map(pitch => (
+                  <TouchableOpacity
+                    key={pitch.id}
+                    style={[styles.chip, newPitchId === pitch.id && styles.chipActive]}
+                    onPress={() => setNewPitchId(pitch.id)}
+                  >
+                    <Text style={[styles.chipText, newPitchId === pitch.id && styles.chipTextActive]}>{pitch.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <Text style={styles.rescheduleLabel}>Date</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                {rescheduleDates.map(date => (
+                  <TouchableOpacity
+                    key={date}
+                    style={[styles.chip, newDate === date && styles.chipActive]}
+                    onPress={() => setNewDate(date)}
+                  >
+                    <Text style={[styles.chipText, newDate === date && styles.chipTextActive]}>
+                      {new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <Text style={styles.rescheduleLabel}>Time</Text>
+              {loadingSlots ? (
+                <ActivityIndicator size="small" color="#4CAF50" />
+              ) : availableSlots.length === 0 ? (
+                <Text style={styles.priceLabel}>No free slots on this day</Text>
+              ) : (
+                <View style={styles.slotGrid}>
+                  {availableSlots.map(value => (
+                    <TouchableOpacity
+                      key={value}
+                      style={[styles.chip, newTimeSlot === value && styles.chipActive]}
+                      onPress={() => setNewTimeSlot(value)}
+                    >
+                      <Text style={[styles.chipText, newTimeSlot === value && styles.chipTextActive]}>{getSlotLabel(value)}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {!!rescheduleError && <Text style={styles.errorText}>{rescheduleError}</Text>}
+
+              <TouchableOpacity
+                style={[styles.primaryButton, styles.rescheduleButton]}
+                onPress={handleConfirmReschedule}
+                disabled={rescheduling}
+              >
+                {rescheduling ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Ionicons name="checkmark" size={20} color="#fff" />
+                )}
+                <Text style={styles.primaryButtonText}>Move Game</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {!!rescheduleMessage && <Text style={styles.successText}>{rescheduleMessage}</Text>}
+
           {/* Action Buttons */}
           <View style={styles.actionsSection}>
             <TouchableOpacity 
@@ -154,6 +405,13 @@ const BookingDetailsScreen: React.FC = () => {
               <Text style={styles.primaryButtonText}>Chat with Players</Text>
             </TouchableOpacity>
             
+            {isOrganizer && slot?.status === 'confirmed' && !showReschedule && (
+              <TouchableOpacity style={[styles.secondaryButton, styles.rescheduleButton]} onPress={handleOpenReschedule}>
+                <Ionicons name="calendar" size={20} color="#4CAF50" />
+                <Text style={styles.secondaryButtonText}>Reschedule</Text>
+              </TouchableOpacity>
+            )}
+
             <TouchableOpacity style={styles.secondaryButton}>
               <Ionicons name="share" size={20} color="#4CAF50" />
               <Text style={styles.secondaryButtonText}>Share Match</Text>
@@ -360,6 +618,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  addonTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+    paddingTop: 8,
+  },
   actionsSection: {
     paddingBottom: 40,
   },
@@ -394,6 +657,53 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  rescheduleButton: {
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  rescheduleLabel: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexGrow: 0,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: '#4CAF50',
+  },
+  chipText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 13,
+    marginTop: 12,
+  },
+  successText: {
+    color: '#4CAF50',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
 });
 
 export default BookingDetailsScreen;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ImageBackground,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { useNavigation } from '@react-navigation/native';
+import { db } from '../lib/supabase';
+import { CheckInResult } from '../types/attendance';
+import { parseCheckInCode } from '../utils/reliability';
+
+const CheckInScannerScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [result, setResult] = useState<CheckInResult | null>(null);
+
+  const handleScanned = async ({ data }: { data: string }) => {
+    if (checkingIn || result) return;
+
+    const code = parseCheckInCode(data);
+    if (!code) {
+      setResult({ success: false, message: 'That QR code isn\'t a HAGZ check-in code' });
+      return;
+    }
+
+    setCheckingIn(true);
+    try {
+      const { data: checkIn, error } = await db.checkInToGame(code);
+      setResult(error || !checkIn ? { success: false, message: 'Check-in failed. Please try again.' } : checkIn);
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  const renderCamera = () => {
+    if (!permission) {
+      return <ActivityIndicator size="large" color="#4CAF50" style={styles.loader} />;
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.messageCard}>
+          <Ionicons name="camera-outline" size={40} color="rgba(255, 255, 255, 0.6)" />
+          <Text style={styles.messageText}>Camera access is needed to scan the check-in code.</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={requestPermission}>
+            <Text style={styles.primaryButtonText}>Allow Camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.cameraFrame}>
+        <CameraView
+          style={styles.camera}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+          onBarcodeScanned={checkingIn || result ? undefined : handleScanned}
+        />
+        {checkingIn && (
+          <View style={styles.cameraOverlay}>
+            <ActivityIndicator size="large" color="#fff" />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
+      <View style={styles.backgroundOverlay}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Ionicons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Check In</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <View style={styles.content}>
+          {result ? (
+            <View style={styles.messageCard}>
+              <Ionicons
+                name={result.success ? 'checkmark-circle' : 'alert-circle'}
+                size={56}
+                color={result.success ? '#4CAF50' : '#ff6b6b'}
+              />
+              <Text style={styles.messageText}>{result.message}</Text>
+              {result.success ? (
+                <TouchableOpacity style={styles.primaryButton} onPress={() => navigation.goBack()}>
+                  <Text style={styles.primaryButtonText}>Done</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.primaryButton} onPress={() => setResult(null)}>
+                  <Text style={styles.primaryButtonText}>Scan Again</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : (
+            <>
+              {renderCamera()}
+              <Text style={styles.hint}>Point your camera at the QR code the organizer or venue is showing.</Text>
+            </>
+          )}
+        </View>
+      </View>
+    </ImageBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backgroundOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+    justifyContent: 'center',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  cameraFrame: {
+    aspectRatio: 1,
+    borderRadius: 16,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: '#4CAF50',
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  hint: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  messageCard: {
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  messageText: {
+    fontSize: 16,
+    color: '#fff',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default CheckInScannerScreen;
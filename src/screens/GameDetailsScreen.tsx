@@ -10,13 +10,43 @@ import {
   Dimensions,
   Modal,
   TextInput,
+  Linking,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { supabase, db } from '../lib/supabase';
+import { useAppData } from '../context/AppDataContext';
 import { gameInvitationService } from '../services/gameInvitationService';
+import { getSlotLabel } from '../utils/schedule';
+import { SERIES_FREQUENCY_LABELS, SeriesFrequency } from '../utils/recurrence';
+import { formatMoney, getRowPrice } from '../utils/money';
+import { MemberPaymentStatus, PAYMENT_MODE_LABELS, PaymentMode } from '../utils/payments';
+import { paymentService } from '../services/paymentService';
+import { calendarService } from '../services/calendarService';
+import { describeCancellationPolicy, describeCancellationTerms, getMatchStart } from '../utils/cancellation';
+import { WaitlistSummary } from '../types/waitlist';
+import { ReconfirmStatus } from '../types/bookings';
+import { Attendance, GameRsvp, RsvpResponse } from '../types/attendance';
+import { PlayerReliability, describeReliability } from '../utils/reliability';
+import { GameFormat, describeGameFormat, getGameCapacity } from '../utils/gameFormats';
+import CheckInQRModal from '../components/CheckInQRModal';
+import TeamSplitModal from '../components/TeamSplitModal';
+import PositionPickerModal from '../components/PositionPickerModal';
+import JoinCodeModal from '../components/JoinCodeModal';
+import GuestPlayerModal from '../components/GuestPlayerModal';
+import GameResultModal from '../components/GameResultModal';
+import MatchVoteCard from '../components/MatchVoteCard';
+import { PublishedTeams } from '../types/teams';
+import { JoinCodeGame } from '../types/invites';
+import { GameGuest } from '../types/guests';
+import { GameResult, ResultResponse } from '../types/results';
+import { buildGuestInviteLink } from '../utils/guests';
+import { RESULT_STATUS_LABELS, describeScore, getMatchEnd, getMatchOutcome } from '../utils/results';
+import { DEFAULT_RSVP_HOURS, RSVP_COLORS, RSVP_HOUR_OPTIONS, RSVP_LABELS, describeRsvpHours, getRsvpBoard, getRsvpOpensAt } from '../utils/rsvp';
+import { BalancePlayer, TEAM_NAMES } from '../utils/teamBalance';
+import { OpenPositions, POSITION_LABELS, PlayerPosition, countOpenPositions, describeOpenPositions, getPositionsLeft, isPlayerPosition } from '../utils/positions';
 
 const { width, height } = Dimensions.get('window');
 
@@ -29,8 +59,38 @@ interface Game {
   time: string;
   location: string;
   maxPlayers: number;
+  format?: GameFormat | null;
+  substitutes?: number;
+  matchMinutes?: number | null;
+  openPositions?: OpenPositions;
   price?: string;
+  currency: string;
+  paymentMode: PaymentMode;
   is_public?: boolean;
+  status?: string;
+  cancellation_reason?: string | null;
+  pitch_id?: string;
+  series_id?: string | null;
+  time_slot?: number;
+  rsvpHours: number[];
+}
+
+interface SeriesOccurrence {
+  id: string;
+  date: string;
+  time: string;
+  time_slot: number;
+  status: string;
+  pitch_id: string;
+}
+
+interface BookingSeries {
+  id: string;
+  frequency: SeriesFrequency;
+  start_date: string;
+  end_date?: string | null;
+  status: string;
+  occurrences: SeriesOccurrence[];
 }
 
 interface GameMember {
@@ -39,11 +99,16 @@ interface GameMember {
   role: string;
   joined_at: string;
   status: string;
+  amount_due?: number;
+  payment_status?: MemberPaymentStatus;
+  reconfirm_status?: ReconfirmStatus | null;
+  attendance?: Attendance | null;
+  position?: PlayerPosition | null;
   user_profiles: {
     full_name: string;
     username: string;
     avatar_url?: string;
-  };
+  } & Partial<PlayerReliability> & Omit<BalancePlayer, 'user_id'>;
 }
 
 type GameDetailsScreenRouteProp = RouteProp<RootStackParamList, 'GameDetails'>;
@@ -52,7 +117,9 @@ type GameDetailsScreenNavigationProp = StackNavigationProp<RootStackParamList, '
 const GameDetailsScreen: React.FC = () => {
   const navigation = useNavigation<GameDetailsScreenNavigationProp>();
   const route = useRoute<GameDetailsScreenRouteProp>();
-  const { gameId } = route.params;
+  const { joinCode, guestToken } = route.params;
+  const [gameId, setGameId] = useState(route.params.gameId);
+  const { userProfile, refreshUserData } = useAppData();
 
   const [game, setGame] = useState<Game | null>(null);
   const [members, setMembers] = useState<GameMember[]>([]);
@@ -67,6 +134,49 @@ const GameDetailsScreen: React.FC = () => {
   const [inviteError, setInviteError] = useState<string>('');
   const [searchResults, setSearchResults] = useState<Array<{id: string, username: string, full_name: string, email: string}>>([]);
   const [searching, setSearching] = useState(false);
+  const [series, setSeries] = useState<BookingSeries | null>(null);
+  const [seriesAction, setSeriesAction] = useState<string | null>(null);
+  const [seriesError, setSeriesError] = useState('');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [paying, setPaying] = useState(false);
+  const [paymentError, setPaymentError] = useState('');
+  const [showLeaveModal, setShowLeaveModal] = useState(false);
+  const [leaveTerms, setLeaveTerms] = useState<string | null>(null);
+  const [leaveError, setLeaveError] = useState('');
+  const [leaving, setLeaving] = useState(false);
+  const [reconfirming, setReconfirming] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistSummary | null>(null);
+  const [waitlistAction, setWaitlistAction] = useState(false);
+  const [waitlistError, setWaitlistError] = useState('');
+  const [editingOccurrence, setEditingOccurrence] = useState<SeriesOccurrence | null>(null);
+  const [editSlots, setEditSlots] = useState<number[]>([]);
+  const [loadingEditSlots, setLoadingEditSlots] = useState(false);
+  const [cancelFromOccurrence, setCancelFromOccurrence] = useState<SeriesOccurrence | null>(null);
+  const [joinError, setJoinError] = useState('');
+  const [showCheckInQR, setShowCheckInQR] = useState(false);
+  const [attendanceAction, setAttendanceAction] = useState<string | null>(null);
+  const [attendanceError, setAttendanceError] = useState('');
+  const [teams, setTeams] = useState<PublishedTeams | null>(null);
+  const [showTeamSplit, setShowTeamSplit] = useState(false);
+  const [showPositionPicker, setShowPositionPicker] = useState(false);
+  const [showJoinCode, setShowJoinCode] = useState(false);
+  const [codeGame, setCodeGame] = useState<JoinCodeGame | null>(null);
+  const [codeError, setCodeError] = useState('');
+  const [joiningWithCode, setJoiningWithCode] = useState(false);
+  const [guests, setGuests] = useState<GameGuest[]>([]);
+  const [showGuestModal, setShowGuestModal] = useState(false);
+  const [guestAction, setGuestAction] = useState<string | null>(null);
+  const [guestError, setGuestError] = useState('');
+  const [rsvps, setRsvps] = useState<GameRsvp[]>([]);
+  const [rsvpAction, setRsvpAction] = useState<string | null>(null);
+  const [rsvpError, setRsvpError] = useState('');
+  const [decliningRsvp, setDecliningRsvp] = useState(false);
+  const [result, setResult] = useState<GameResult | null>(null);
+  const [showResultModal, setShowResultModal] = useState(false);
+  const [resultAction, setResultAction] = useState<ResultResponse | null>(null);
+  const [resultError, setResultError] = useState('');
+  const [showDisputeModal, setShowDisputeModal] = useState(false);
+  const [disputeReason, setDisputeReason] = useState('');
 
   useEffect(() => {
     if (gameId) {
@@ -74,11 +184,73 @@ const GameDetailsScreen: React.FC = () => {
     }
   }, [gameId]);
 
+  // Opened from an invite link: members go straight to the game, everyone
+  // else gets a preview to join from
+  useEffect(() => {
+    if (!joinCode || gameId) return;
+
+    const loadCodeGame = async () => {
+      setLoading(true);
+      setCodeError('');
+      const { data, error } = await db.getJoinCodeGame(joinCode);
+      if (error || !data) {
+        setCodeError(error?.message || 'That join code doesn\'t match any game');
+        setLoading(false);
+        return;
+      }
+      if (data.is_member) {
+        setGameId(data.game_id);
+        return;
+      }
+      setCodeGame(data);
+      setLoading(false);
+    };
+
+    loadCodeGame();
+  }, [joinCode]);
+
+  // Opened from a guest invite: claim the spots for this account, then show the game
+  useEffect(() => {
+    if (!guestToken || gameId) return;
+
+    const claimGuestSpots = async () => {
+      setLoading(true);
+      setCodeError('');
+      const { data, error } = await db.claimGuestInvite(guestToken);
+      if (error || !data) {
+        setCodeError(error?.message || 'Could not claim the guest invite');
+        setLoading(false);
+        return;
+      }
+      setGameId(data.gameId);
+    };
+
+    claimGuestSpots();
+  }, [guestToken]);
+
+  // Keep the attendance board current as players answer
+  useEffect(() => {
+    if (!gameId) return;
+    return db.subscribeGameRsvps(gameId, loadRsvps);
+  }, [gameId]);
+
+  // Pick up check-ins made from the scanner
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      if (gameId) {
+        loadGameDetails();
+      }
+    });
+    return unsubscribe;
+  }, [navigation, gameId]);
+
   const loadGameDetails = async () => {
+    if (!gameId) return;
     setLoading(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setCurrentUserId(user.id);
 
       // Load game details
       const { data: booking } = await supabase
@@ -96,9 +268,21 @@ const GameDetailsScreen: React.FC = () => {
           date: booking.date,
           time: booking.time,
           location: booking.pitch_location || 'Unknown Location',
-          maxPlayers: booking.max_players || 8,
-          price: booking.price,
+          maxPlayers: getGameCapacity(booking),
+          format: booking.game_format,
+          substitutes: booking.substitutes || 0,
+          matchMinutes: booking.match_minutes,
+          openPositions: booking.open_positions || {},
+          price: getRowPrice(booking) ? formatMoney(getRowPrice(booking)) : undefined,
+          currency: getRowPrice(booking)?.currency || 'USD',
+          paymentMode: booking.payment_mode || 'organizer_pays',
           is_public: booking.is_public,
+          status: booking.status,
+          cancellation_reason: booking.cancellation_reason,
+          pitch_id: booking.pitch_id,
+          series_id: booking.series_id,
+          time_slot: booking.time_slot,
+          rsvpHours: booking.rsvp_hours_before || DEFAULT_RSVP_HOURS,
         };
         setGame(gameData);
 
@@ -106,10 +290,26 @@ const GameDetailsScreen: React.FC = () => {
         const isCreator = booking.created_by === user.id;
         setIsUserCreator(isCreator);
 
+        // Organizers manage the rest of a recurring series from here
+        if (isCreator && booking.series_id) {
+          const { data: seriesData } = await db.getBookingSeries(booking.series_id);
+          setSeries(seriesData);
+        } else {
+          setSeries(null);
+        }
+
         // Check if user is already in the game
         const { data: userInGame } = await db.isUserInGame(gameId, user.id);
         setIsUserInGame(userInGame);
 
+        // Players outside the game may be queued for it
+        if (!userInGame && !isCreator) {
+          const { data: waitlistData } = await db.getWaitlistSummary(gameId);
+          setWaitlist(waitlistData);
+        } else {
+          setWaitlist(null);
+        }
+
         // Load game members
         const { data: gameMembers } = await db.getGameMembers(gameId);
         if (gameMembers) {
@@ -121,6 +321,17 @@ const GameDetailsScreen: React.FC = () => {
           }));
           setMembers(transformedMembers);
         }
+
+        const { data: guestData } = await db.getGameGuests(gameId);
+        setGuests(guestData);
+
+        await loadRsvps();
+
+        const { data: resultData } = await db.getGameResult(gameId);
+        setResult(resultData);
+
+        const { data: teamsData } = await db.getGameTeams(gameId);
+        setTeams(teamsData);
       }
     } catch (error) {
       console.error('Error loading game details:', error);
@@ -129,18 +340,50 @@ const GameDetailsScreen: React.FC = () => {
     }
   };
 
-  const handleJoinGame = async () => {
+  const loadRsvps = async () => {
+    if (!gameId) return;
+    const { data } = await db.getGameRsvps(gameId);
+    setRsvps(data);
+  };
+
+  const handleJoinWithCode = async () => {
+    if (!joinCode) return;
+
+    setJoiningWithCode(true);
+    setCodeError('');
+    const { data, error } = await db.joinGameWithCode(joinCode);
+    setJoiningWithCode(false);
+    if (error || !data) {
+      setCodeError(error?.message || 'Failed to join the game. Please try again.');
+      return;
+    }
+    setCodeGame(null);
+    setGameId(data.gameId);
+  };
+
+  const handleJoinPress = () => {
+    if (countOpenPositions(positionsLeft) > 0) {
+      setShowPositionPicker(true);
+      return;
+    }
+    handleJoinGame(null);
+  };
+
+  const handleJoinGame = async (position: PlayerPosition | null) => {
     if (!game) return;
 
+    setShowPositionPicker(false);
     setJoining(true);
+    setJoinError('');
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data, error } = await db.joinGame(game.id, user.id, 'player');
+      const { data, error } = await db.joinGame(game.id, position);
       
       if (error) {
         console.error('Error joining game:', error);
+        setJoinError(error.message || 'Failed to join the game. Please try again.');
         return;
       }
 
@@ -156,15 +399,290 @@ const GameDetailsScreen: React.FC = () => {
   const handleLeaveGame = async () => {
     if (!game) return;
 
+    setLeaveTerms(null);
+    setLeaveError('');
+    setShowLeaveModal(true);
+
+    // Leaving late costs the same as cancelling late
+    const { data } = await db.getBookingCancellationTerms(game.id);
+    if (data) {
+      setLeaveTerms(`${describeCancellationTerms(data.terms)} ${describeCancellationPolicy(data.policy)}.`);
+    }
+  };
+
+  const handleConfirmLeaveGame = async () => {
+    if (!game) return;
+
+    setLeaving(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      await db.leaveGame(game.id, user.id);
+      // Saying no to the RSVP leaves the game too, and only counts once the leave goes through
+      const { error } = decliningRsvp
+        ? await db.respondToGameRsvp(game.id, user.id, 'no')
+        : await db.leaveGame(game.id, user.id);
+      if (error) {
+        setLeaveError(error.message || 'Could not leave the game. Please try again.');
+        return;
+      }
+
       setIsUserInGame(false);
+      handleCloseLeaveModal();
       await loadGameDetails();
     } catch (error) {
       console.error('Error leaving game:', error);
+    } finally {
+      setLeaving(false);
+    }
+  };
+
+  const handleCloseLeaveModal = () => {
+    setShowLeaveModal(false);
+    setDecliningRsvp(false);
+    setLeaveError('');
+  };
+
+  const handleRespondToRsvp = async (response: Exclude<RsvpResponse, 'pending'>) => {
+    if (!game || !currentUserId) return;
+
+    // Dropping out runs through the usual leave flow so the fee terms are shown first
+    if (response === 'no') {
+      setDecliningRsvp(true);
+      handleLeaveGame();
+      return;
+    }
+
+    setRsvpAction(response);
+    setRsvpError('');
+    const { error } = await db.respondToGameRsvp(game.id, currentUserId, response);
+    setRsvpAction(null);
+    if (error) {
+      setRsvpError(error.message || 'Could not save your answer');
+      return;
+    }
+    await loadRsvps();
+  };
+
+  const handleToggleRsvpHour = async (hour: number) => {
+    if (!game) return;
+
+    const hours = game.rsvpHours.includes(hour)
+      ? game.rsvpHours.filter(item => item !== hour)
+      : [...game.rsvpHours, hour];
+
+    setRsvpAction(`hours_${hour}`);
+    setRsvpError('');
+    const { error } = await db.updateRsvpSchedule(game.id, hours);
+    setRsvpAction(null);
+    if (error) {
+      setRsvpError(error.message || 'Could not update the RSVP schedule');
+      return;
+    }
+    setGame({ ...game, rsvpHours: hours });
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!game) return;
+
+    setWaitlistAction(true);
+    setWaitlistError('');
+    try {
+      const { error } = await db.joinWaitlist(game.id);
+      if (error) {
+        setWaitlistError(error.message || 'Failed to join the waitlist. Please try again.');
+        return;
+      }
+      await loadGameDetails();
+    } finally {
+      setWaitlistAction(false);
+    }
+  };
+
+  const handleLeaveWaitlist = async () => {
+    if (!game || !currentUserId) return;
+
+    setWaitlistAction(true);
+    setWaitlistError('');
+    try {
+      const { error } = await db.leaveWaitlist(game.id, currentUserId);
+      if (error) {
+        setWaitlistError('Failed to update the waitlist. Please try again.');
+        return;
+      }
+      await loadGameDetails();
+    } finally {
+      setWaitlistAction(false);
+    }
+  };
+
+  const handleAcceptWaitlistOffer = async () => {
+    if (!game || !currentUserId) return;
+
+    setWaitlistAction(true);
+    setWaitlistError('');
+    try {
+      const { error } = await db.acceptWaitlistOffer(game.id, currentUserId);
+      if (error) {
+        setWaitlistError(error.message || 'Failed to accept the spot. Please try again.');
+        await loadGameDetails();
+        return;
+      }
+      setIsUserInGame(true);
+      await loadGameDetails();
+    } finally {
+      setWaitlistAction(false);
+    }
+  };
+
+  const handleRespondToReschedule = async (attending: boolean) => {
+    if (!game || !currentUserId) return;
+
+    setReconfirming(true);
+    try {
+      const { error } = await db.respondToReschedule(game.id, currentUserId, attending);
+      if (error) {
+        console.error('Error responding to reschedule:', error);
+        return;
+      }
+      if (!attending) {
+        setIsUserInGame(false);
+      }
+      await loadGameDetails();
+    } finally {
+      setReconfirming(false);
+    }
+  };
+
+  const handleReschedule = () => {
+    if (!game) return;
+    navigation.navigate('BookingDetails', {
+      booking: {
+        id: game.id,
+        pitch_name: game.title,
+        pitch_location: game.location,
+        date: game.date,
+        time: game.time,
+        price: game.price || '',
+        status: game.status || 'confirmed',
+        max_players: game.maxPlayers,
+        current_players: members.length + guests.length,
+      }
+    });
+  };
+
+  const handleAddToCalendar = async () => {
+    if (!game) return;
+    const result = await calendarService.addToCalendar('booking', game.id);
+    if (!result.success) {
+      console.error('Error adding game to calendar:', result.error);
+    }
+  };
+
+  const handlePayShare = async () => {
+    if (!game || !currentUserId) return;
+
+    setPaying(true);
+    setPaymentError('');
+    try {
+      const result = await paymentService.payShare(game.id);
+      if (!result.success) {
+        setPaymentError(result.error || 'Payment failed. Please try again.');
+        return;
+      }
+      await loadGameDetails();
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const handleMarkAttendance = async (member: GameMember, attendance: Attendance) => {
+    if (!game) return;
+
+    setAttendanceAction(member.user_id);
+    setAttendanceError('');
+    try {
+      // Tapping the current mark again clears it
+      const { error } = await db.markAttendance(game.id, member.user_id, member.attendance === attendance ? null : attendance);
+      if (error) {
+        setAttendanceError(error.message || 'Failed to record attendance. Please try again.');
+        return;
+      }
+      await loadGameDetails();
+    } finally {
+      setAttendanceAction(null);
+    }
+  };
+
+  const handleRespondToResult = async (response: ResultResponse, reason?: string) => {
+    if (!game || !currentUserId) return;
+
+    setResultAction(response);
+    setResultError('');
+    try {
+      const { data, error } = await db.respondToGameResult(game.id, currentUserId, response, reason);
+      if (error) {
+        setResultError(error.message || 'Could not save your answer. Please try again.');
+        return;
+      }
+      setShowDisputeModal(false);
+      setDisputeReason('');
+      // The last confirmation makes the result final and updates everyone's stats
+      if (data?.status === 'final') {
+        refreshUserData();
+      }
+      await loadGameDetails();
+    } finally {
+      setResultAction(null);
+    }
+  };
+
+  const handleRemoveGuest = async (guest: GameGuest) => {
+    setGuestAction(guest.id);
+    setGuestError('');
+    try {
+      const { error } = await db.removeGameGuest(guest.id);
+      if (error) {
+        setGuestError(error.message || 'Failed to remove the guest. Please try again.');
+        return;
+      }
+      await loadGameDetails();
+    } finally {
+      setGuestAction(null);
+    }
+  };
+
+  // Opens the mail or messages app with the guest's invitation filled in
+  const handleInviteGuest = async (guest: GameGuest, channel: 'email' | 'sms') => {
+    if (!game) return;
+
+    setGuestError('');
+    const organizer = members.find(member => member.user_id === currentUserId);
+    const url = buildGuestInviteLink(channel, guest, {
+      gameTitle: game.title,
+      gameDate: formatDate(game.date),
+      gameTime: formatTime(game.time),
+      organizerName: organizer?.user_profiles.full_name || userProfile?.username || 'Your friend',
+    });
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      console.error('Error opening guest invite:', error);
+      setGuestError(`Couldn't open your ${channel === 'email' ? 'mail' : 'messages'} app`);
+    }
+  };
+
+  const getPaymentStatusText = (member: GameMember) => {
+    const due = formatMoney({ amount: Number(member.amount_due || 0), currency: game?.currency || 'USD' });
+    switch (member.payment_status) {
+      case 'paid':
+        return `Paid ${due}`;
+      case 'pending':
+        return `Owes ${due}`;
+      case 'refunded':
+        return 'Refunded';
+      default:
+        return null;
     }
   };
 
@@ -290,6 +808,94 @@ const GameDetailsScreen: React.FC = () => {
     }
   };
 
+  const handleSkipOccurrence = async (occurrence: SeriesOccurrence) => {
+    if (!currentUserId) return;
+
+    setSeriesAction(occurrence.id);
+    setSeriesError('');
+    try {
+      const { error } = await db.skipSeriesOccurrence(occurrence.id, currentUserId);
+      if (error) {
+        setSeriesError('Failed to skip this date. Please try again.');
+        return;
+      }
+      await loadGameDetails();
+    } catch (error) {
+      console.error('Error skipping occurrence:', error);
+      setSeriesError('Failed to skip this date. Please try again.');
+    } finally {
+      setSeriesAction(null);
+    }
+  };
+
+  const handleEditOccurrence = async (occurrence: SeriesOccurrence) => {
+    setEditingOccurrence(occurrence);
+    setEditSlots([]);
+    setSeriesError('');
+    setLoadingEditSlots(true);
+    try {
+      const { data } = await db.getAvailableTimeSlots(occurrence.date, occurrence.pitch_id);
+      setEditSlots(data?.available_slots || []);
+    } catch (error) {
+      console.error('Error loading slots for occurrence:', error);
+    } finally {
+      setLoadingEditSlots(false);
+    }
+  };
+
+  const handleMoveOccurrence = async (timeSlot: number) => {
+    if (!editingOccurrence) return;
+
+    setSeriesAction(editingOccurrence.id);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Only this occurrence moves; the pitch reservation moves with it and its players re-confirm
+      const { data: result, error } = await db.rescheduleBooking(editingOccurrence.id, user.id, {
+        pitch_id: editingOccurrence.pitch_id,
+        date: editingOccurrence.date,
+        time_slot: timeSlot,
+        time: getSlotLabel(timeSlot),
+      });
+      if (error || !result) {
+        setSeriesError('Failed to move this date. Please try again.');
+        return;
+      }
+      if (!result.success) {
+        setSeriesError(result.conflict.message);
+        return;
+      }
+      setEditingOccurrence(null);
+      await loadGameDetails();
+    } catch (error) {
+      console.error('Error moving occurrence:', error);
+      setSeriesError('Failed to move this date. Please try again.');
+    } finally {
+      setSeriesAction(null);
+    }
+  };
+
+  const handleConfirmCancelSeries = async () => {
+    if (!series || !cancelFromOccurrence || !currentUserId) return;
+
+    setSeriesAction(cancelFromOccurrence.id);
+    try {
+      const { error } = await db.cancelBookingSeries(series.id, currentUserId, cancelFromOccurrence.date);
+      if (error) {
+        setSeriesError('Failed to cancel the series. Please try again.');
+        return;
+      }
+      setCancelFromOccurrence(null);
+      await loadGameDetails();
+    } catch (error) {
+      console.error('Error cancelling series:', error);
+      setSeriesError('Failed to cancel the series. Please try again.');
+    } finally {
+      setSeriesAction(null);
+    }
+  };
+
   const handleCancelInvite = () => {
     setShowInviteModal(false);
     setInviteUsername('');
@@ -337,6 +943,81 @@ const GameDetailsScreen: React.FC = () => {
     );
   }
 
+  if (!game && codeGame) {
+    return (
+      <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
+        <View style={styles.backgroundOverlay}>
+          <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+            <View style={styles.header}>
+              <TouchableOpacity 
+                style={styles.backButton}
+                onPress={() => navigation.goBack()}
+              >
+                <Ionicons name="arrow-back" size={24} color="#fff" />
+              </TouchableOpacity>
+              <Text style={styles.headerTitle}>You're Invited</Text>
+              <View style={styles.headerSpacer} />
+            </View>
+
+            <View style={styles.gameCard}>
+              <View style={styles.gameHeader}>
+                <Text style={styles.gameTitle}>{codeGame.pitch_name || 'Football Match'}</Text>
+              </View>
+              <View style={styles.gameDetails}>
+                <View style={styles.detailRow}>
+                  <View style={styles.detailIcon}>
+                    <Ionicons name="calendar" size={20} color="rgba(255, 255, 255, 0.7)" />
+                  </View>
+                  <Text style={styles.detailText}>{formatDate(codeGame.date)}</Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <View style={styles.detailIcon}>
+                    <Ionicons name="time" size={20} color="rgba(255, 255, 255, 0.7)" />
+                  </View>
+                  <Text style={styles.detailText}>{formatTime(codeGame.time)}</Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <View style={styles.detailIcon}>
+                    <Ionicons name="location" size={20} color="rgba(255, 255, 255, 0.7)" />
+                  </View>
+                  <Text style={styles.detailText}>{codeGame.pitch_location || 'Unknown Location'}</Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <View style={styles.detailIcon}>
+                    <Ionicons name="people" size={20} color="rgba(255, 255, 255, 0.7)" />
+                  </View>
+                  <Text style={styles.detailText}>
+                    {codeGame.players}/{codeGame.max_players || 8} players
+                  </Text>
+                </View>
+              </View>
+            </View>
+
+            <View style={styles.actionSection}>
+              <TouchableOpacity
+                style={[styles.joinButton, (!!codeGame.problem || joiningWithCode) && styles.joinButtonDisabled]}
+                onPress={handleJoinWithCode}
+                disabled={!!codeGame.problem || joiningWithCode}
+              >
+                {joiningWithCode ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <>
+                    <Ionicons name="add-circle" size={20} color="#fff" />
+                    <Text style={styles.joinButtonText}>Join Game</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+              {!!(codeGame.problem || codeError) && (
+                <Text style={styles.inviteErrorText}>{codeGame.problem || codeError}</Text>
+              )}
+            </View>
+          </ScrollView>
+        </View>
+      </ImageBackground>
+    );
+  }
+
   if (!game) {
     return (
       <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
@@ -344,7 +1025,7 @@ const GameDetailsScreen: React.FC = () => {
           <View style={styles.errorContainer}>
             <Ionicons name="alert-circle" size={48} color="#ff6b6b" />
             <Text style={styles.errorTitle}>Game Not Found</Text>
-            <Text style={styles.errorMessage}>The game you're looking for doesn't exist or has been removed.</Text>
+            <Text style={styles.errorMessage}>{codeError || 'The game you\'re looking for doesn\'t exist or has been removed.'}</Text>
             <TouchableOpacity 
               style={styles.backButton}
               onPress={() => navigation.goBack()}
@@ -369,11 +1050,46 @@ const GameDetailsScreen: React.FC = () => {
         price: game.price || '',
         status: 'scheduled',
         max_players: game.maxPlayers,
-        current_players: members.length,
+        current_players: members.length + guests.length,
       }
     } as any);
   };
 
+  const myMembership = members.find(member => member.user_id === currentUserId);
+
+  // Check-in runs from an hour before kick-off to three hours after (as on the server)
+  const matchStart = game.time_slot !== undefined ? getMatchStart(game.date, game.time_slot) : null;
+  const now = Date.now();
+  const isCheckInOpen = !!matchStart &&
+    now >= matchStart.getTime() - 60 * 60 * 1000 &&
+    now <= matchStart.getTime() + 3 * 60 * 60 * 1000;
+  const hasKickedOff = !!matchStart && now >= matchStart.getTime();
+  const spotsTaken = members.length + guests.length;
+  const isGameFull = spotsTaken + (waitlist?.reserved_spots || 0) >= game.maxPlayers;
+  const positionsLeft = getPositionsLeft(game.openPositions, members);
+  const hasWaitlistOffer = waitlist?.status === 'offered' && !!waitlist.offer_expires_at;
+  const hasEnded = !!matchStart && now >= getMatchEnd(matchStart, game.matchMinutes).getTime();
+  const myResultLine = result?.players.find(player => player.user_id === currentUserId);
+  const myResultResponse = result?.responses.find(response => response.user_id === currentUserId);
+  const canRespondToResult = !!myResultLine && !!result && result.status !== 'final' &&
+    now < new Date(result.confirm_by).getTime();
+  const myOutcome = result && myResultLine ? getMatchOutcome(result.scores, myResultLine.team_index) : null;
+  const getResultName = (userId: string) =>
+    result?.players.find(player => player.user_id === userId)?.user_profiles?.full_name ||
+    members.find(member => member.user_id === userId)?.user_profiles.full_name ||
+    'Unknown';
+  const myRsvp = rsvps.find(rsvp => rsvp.user_id === currentUserId);
+  const rsvpOpensAt = matchStart ? getRsvpOpensAt(matchStart, game.rsvpHours) : null;
+  const isRsvpOpen = !!myRsvp || (!!rsvpOpensAt && now >= rsvpOpensAt.getTime());
+  const rsvpBoard = getRsvpBoard(members.filter(member => member.user_id !== currentUserId), rsvps);
+  const getRsvpName = (userId: string) =>
+    members.find(member => member.user_id === userId)?.user_profiles.full_name ||
+    rsvps.find(rsvp => rsvp.user_id === userId)?.user_profiles?.full_name ||
+    'Unknown';
+  const unansweredReminders = rsvps.filter(rsvp =>
+    rsvp.response === 'pending' && rsvp.reminders_sent > 0 && rsvpBoard.pending.includes(rsvp.user_id)
+  );
+
   return (
     <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
       <View style={styles.backgroundOverlay}>
@@ -388,12 +1104,20 @@ const GameDetailsScreen: React.FC = () => {
             </TouchableOpacity>
             <Text style={styles.headerTitle}>Game Details</Text>
             {isUserInGame ? (
-              <TouchableOpacity 
-                style={styles.chatButton}
-                onPress={handleOpenChat}
-              >
-                <Ionicons name="chatbubbles-outline" size={22} color="#fff" />
-              </TouchableOpacity>
+              <View style={styles.headerActions}>
+                <TouchableOpacity
+                  style={styles.chatButton}
+                  onPress={handleAddToCalendar}
+                >
+                  <Ionicons name="calendar-outline" size={22} color="#fff" />
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  style={styles.chatButton}
+                  onPress={handleOpenChat}
+                >
+                  <Ionicons name="chatbubbles-outline" size={22} color="#fff" />
+                </TouchableOpacity>
+              </View>
             ) : (
               <View style={styles.headerSpacer} />
             )}
@@ -412,6 +1136,15 @@ const GameDetailsScreen: React.FC = () => {
               <Text style={styles.gameDescription}>{game.description}</Text>
             )}
 
+            {game.status === 'cancelled' && (
+              <View style={styles.cancelledBanner}>
+                <Ionicons name="close-circle" size={18} color="#ff6b6b" />
+                <Text style={styles.cancelledBannerText}>
+                  Cancelled{game.cancellation_reason ? `: ${game.cancellation_reason}` : ''}
+                </Text>
+              </View>
+            )}
+
             <View style={styles.gameDetails}>
               <View style={styles.detailRow}>
                 <View style={styles.detailIcon}>
@@ -439,10 +1172,34 @@ const GameDetailsScreen: React.FC = () => {
                   <Ionicons name="people" size={20} color="rgba(255, 255, 255, 0.7)" />
                 </View>
                 <Text style={styles.detailText}>
-                  {members.length} / {game.maxPlayers} players
+                  {spotsTaken} / {game.maxPlayers} players
                 </Text>
               </View>
 
+              {game.format && (
+                <View style={styles.detailRow}>
+                  <View style={styles.detailIcon}>
+                    <Ionicons name="football" size={20} color="rgba(255, 255, 255, 0.7)" />
+                  </View>
+                  <Text style={styles.detailText}>
+                    {describeGameFormat(game.format, game.substitutes || 0, game.matchMinutes)}
+                  </Text>
+                </View>
+              )}
+
+              {countOpenPositions(game.openPositions) > 0 && (
+                <View style={styles.detailRow}>
+                  <View style={styles.detailIcon}>
+                    <Ionicons name="hand-right-outline" size={20} color="rgba(255, 255, 255, 0.7)" />
+                  </View>
+                  <Text style={styles.detailText}>
+                    {countOpenPositions(positionsLeft) > 0
+                      ? `Still needs ${describeOpenPositions(positionsLeft)}`
+                      : `All positions taken (${describeOpenPositions(game.openPositions)})`}
+                  </Text>
+                </View>
+              )}
+
               {game.price && (
                 <View style={styles.detailRow}>
                   <View style={styles.detailIcon}>
@@ -458,10 +1215,17 @@ const GameDetailsScreen: React.FC = () => {
           <View style={styles.playersCard}>
             <View style={styles.sectionHeader}>
               <Ionicons name="people" size={20} color="rgba(255, 255, 255, 0.8)" />
-              <Text style={styles.sectionTitle}>Players ({members.length})</Text>
+              <Text style={styles.sectionTitle}>Players ({spotsTaken})</Text>
             </View>
 
-            {members.length > 0 ? (
+            {!!attendanceError && (
+              <Text style={styles.inviteErrorText}>{attendanceError}</Text>
+            )}
+            {!!guestError && (
+              <Text style={styles.inviteErrorText}>{guestError}</Text>
+            )}
+
+            {spotsTaken > 0 ? (
               <View style={styles.playersList}>
                 {members.map((member, index) => (
                   <View key={member.id} style={styles.playerItem}>
@@ -472,8 +1236,47 @@ const GameDetailsScreen: React.FC = () => {
                     </View>
                     <View style={styles.playerInfo}>
                       <Text style={styles.playerName}>{member.user_profiles.full_name}</Text>
-                      <Text style={styles.playerRole}>{member.role}</Text>
+                      <Text style={styles.playerRole}>
+                        {member.position ? `${member.role} · ${POSITION_LABELS[member.position]}` : member.role}
+                        {member.reconfirm_status === 'pending' ? ' · awaiting confirmation' : ''}
+                      </Text>
+                      {isUserCreator && member.role !== 'organizer' && (
+                        <Text style={styles.reliabilityText}>
+                          {describeReliability(member.user_profiles.reliability_score !== undefined ? member.user_profiles as PlayerReliability : null)}
+                        </Text>
+                      )}
                     </View>
+                    {isUserCreator && isCheckInOpen ? (
+                      attendanceAction === member.user_id ? (
+                        <ActivityIndicator size="small" color="#4CAF50" style={styles.attendanceActions} />
+                      ) : (
+                        <View style={styles.attendanceActions}>
+                          <TouchableOpacity onPress={() => handleMarkAttendance(member, 'present')}>
+                            <Ionicons
+                              name={member.attendance === 'present' ? 'checkmark-circle' : 'checkmark-circle-outline'}
+                              size={24}
+                              color={member.attendance === 'present' ? '#4CAF50' : 'rgba(255, 255, 255, 0.4)'}
+                            />
+                          </TouchableOpacity>
+                          {hasKickedOff && (
+                            <TouchableOpacity onPress={() => handleMarkAttendance(member, 'no_show')}>
+                              <Ionicons
+                                name={member.attendance === 'no_show' ? 'close-circle' : 'close-circle-outline'}
+                                size={24}
+                                color={member.attendance === 'no_show' ? '#ff6b6b' : 'rgba(255, 255, 255, 0.4)'}
+                              />
+                            </TouchableOpacity>
+                          )}
+                        </View>
+                      )
+                    ) : member.attendance === 'present' ? (
+                      <Text style={[styles.paymentBadge, styles.paymentBadgePaid]}>Checked in</Text>
+                    ) : null}
+                    {getPaymentStatusText(member) && (
+                      <Text style={[styles.paymentBadge, member.payment_status === 'paid' && styles.paymentBadgePaid]}>
+                        {getPaymentStatusText(member)}
+                      </Text>
+                    )}
                     {member.role === 'organizer' && (
                       <View style={styles.organizerBadge}>
                         <Ionicons name="star" size={16} color="#FFD700" />
@@ -481,6 +1284,38 @@ const GameDetailsScreen: React.FC = () => {
                     )}
                   </View>
                 ))}
+                {guests.map(guest => (
+                  <View key={guest.id} style={styles.playerItem}>
+                    <View style={styles.playerAvatar}>
+                      <Text style={styles.playerInitial}>{guest.name.charAt(0).toUpperCase()}</Text>
+                    </View>
+                    <View style={styles.playerInfo}>
+                      <Text style={styles.playerName}>{guest.name}</Text>
+                      <Text style={styles.playerRole}>guest</Text>
+                    </View>
+                    {isUserCreator && (
+                      guestAction === guest.id ? (
+                        <ActivityIndicator size="small" color="#4CAF50" style={styles.attendanceActions} />
+                      ) : (
+                        <View style={styles.attendanceActions}>
+                          {!!guest.email && (
+                            <TouchableOpacity onPress={() => handleInviteGuest(guest, 'email')}>
+                              <Ionicons name="mail-outline" size={22} color="rgba(255, 255, 255, 0.6)" />
+                            </TouchableOpacity>
+                          )}
+                          {!!guest.phone && (
+                            <TouchableOpacity onPress={() => handleInviteGuest(guest, 'sms')}>
+                              <Ionicons name="chatbubble-outline" size={22} color="rgba(255, 255, 255, 0.6)" />
+                            </TouchableOpacity>
+                          )}
+                          <TouchableOpacity onPress={() => handleRemoveGuest(guest)}>
+                            <Ionicons name="close-circle-outline" size={22} color="#ff6b6b" />
+                          </TouchableOpacity>
+                        </View>
+                      )
+                    )}
+                  </View>
+                ))}
               </View>
             ) : (
               <View style={styles.noPlayers}>
@@ -488,35 +1323,467 @@ const GameDetailsScreen: React.FC = () => {
                 <Text style={styles.noPlayersText}>No players yet</Text>
                 <Text style={styles.noPlayersSubtext}>Be the first to join this game!</Text>
               </View>
-            )}
-          </View>
+            )}
+          </View>
+
+          {/* Teams Section */}
+          {teams && (
+            <View style={styles.playersCard}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="shirt" size={20} color="rgba(255, 255, 255, 0.8)" />
+                <Text style={styles.sectionTitle}>Teams</Text>
+              </View>
+
+              {Array.from({ length: teams.team_count }, (_, index) => {
+                const teamMembers = members.filter(member =>
+                  teams.players.some(player => player.user_id === member.user_id && player.team_index === index)
+                );
+                return (
+                  <View key={index} style={styles.teamItem}>
+                    <Text style={styles.teamName}>{TEAM_NAMES[index]}</Text>
+                    <Text style={styles.playerRole}>
+                      {teamMembers.map(member => member.user_profiles.full_name).join(', ') || 'No players'}
+                    </Text>
+                  </View>
+                );
+              })}
+
+              {members.some(member => !teams.players.some(player => player.user_id === member.user_id)) && (
+                <Text style={styles.reliabilityText}>
+                  Not in a team yet: {members
+                    .filter(member => !teams.players.some(player => player.user_id === member.user_id))
+                    .map(member => member.user_profiles.full_name)
+                    .join(', ')}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {/* Result Section */}
+          {result && (
+            <View style={styles.playersCard}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="trophy" size={20} color="rgba(255, 255, 255, 0.8)" />
+                <Text style={styles.sectionTitle}>Result</Text>
+              </View>
+
+              <Text style={styles.resultScore}>
+                {result.scores.map((score, index) => `${TEAM_NAMES[index]} ${score}`).join('  ·  ')}
+              </Text>
+              <Text style={[styles.reliabilityText, result.status === 'disputed' && styles.resultDisputed]}>
+                {RESULT_STATUS_LABELS[result.status]}
+                {result.status !== 'final'
+                  ? ` · closes ${formatDate(result.confirm_by)} at ${new Date(result.confirm_by).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+                  : ''}
+              </Text>
+
+              {myOutcome && (
+                <Text style={styles.detailText}>
+                  You {myOutcome === 'win' ? 'won' : myOutcome === 'draw' ? 'drew' : 'lost'} {describeScore(result.scores)}
+                </Text>
+              )}
+
+              {result.players
+                .filter(player => player.goals > 0 || player.assists > 0)
+                .map(player => (
+                  <View key={player.user_id} style={styles.teamItem}>
+                    <Text style={styles.teamName}>
+                      {getResultName(player.user_id)}
+                      {player.team_index !== null ? ` (${TEAM_NAMES[player.team_index]})` : ''}
+                    </Text>
+                    <Text style={styles.playerRole}>
+                      {[
+                        player.goals > 0 ? `${player.goals} goal${player.goals === 1 ? '' : 's'}` : null,
+                        player.assists > 0 ? `${player.assists} assist${player.assists === 1 ? '' : 's'}` : null,
+                      ].filter(Boolean).join(', ')}
+                    </Text>
+                  </View>
+                ))}
+
+              {/* Organizers see who pushed back and why */}
+              {isUserCreator && result.responses
+                .filter(response => response.response === 'disputed')
+                .map(response => (
+                  <Text key={response.user_id} style={[styles.reliabilityText, styles.resultDisputed]}>
+                    {getResultName(response.user_id)} disputed{response.reason ? `: "${response.reason}"` : ''}
+                  </Text>
+                ))}
+
+              {result.status !== 'final' && (
+                <Text style={styles.reliabilityText}>
+                  Confirmed by {result.responses.filter(response => response.response === 'confirmed').length} of {result.players.length}
+                </Text>
+              )}
+
+              {!!resultError && (
+                <Text style={styles.inviteErrorText}>{resultError}</Text>
+              )}
+
+              {canRespondToResult && (
+                <View style={[styles.seriesModalButtons, styles.reconfirmButtons]}>
+                  <TouchableOpacity
+                    style={[styles.inviteCancelButton, myResultResponse?.response === 'disputed' && styles.rsvpSelected]}
+                    onPress={() => setShowDisputeModal(true)}
+                    disabled={!!resultAction}
+                  >
+                    <Text style={styles.inviteCancelButtonText}>Dispute</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.inviteSendButton, myResultResponse?.response === 'confirmed' && styles.rsvpSelected]}
+                    onPress={() => handleRespondToResult('confirmed')}
+                    disabled={!!resultAction}
+                  >
+                    {resultAction === 'confirmed' ? (
+                      <ActivityIndicator size="small" color="#fff" />
+                    ) : (
+                      <Text style={styles.inviteSendButtonText}>Confirm</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {isUserCreator && result.status !== 'final' && (
+                <TouchableOpacity
+                  style={[styles.inviteButton, styles.reconfirmButtons]}
+                  onPress={() => setShowResultModal(true)}
+                >
+                  <Ionicons name="create-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
+                  <Text style={styles.inviteButtonText}>Correct Result</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {/* MVP Vote (opens once the result is final) */}
+          {result?.status === 'final' && (
+            <MatchVoteCard
+              source="game"
+              sourceId={game.id}
+              userId={currentUserId}
+              describeSide={side => (side === null ? 'No team' : TEAM_NAMES[Number(side)])}
+              style={styles.playersCard}
+            />
+          )}
+
+          {/* Reschedule Confirmation */}
+          {myMembership?.reconfirm_status === 'pending' && (
+            <View style={styles.playersCard}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="calendar" size={20} color="#FF9800" />
+                <Text style={styles.sectionTitle}>This game was rescheduled</Text>
+              </View>
+              <Text style={styles.detailText}>
+                It's now on {formatDate(game.date)} at {formatTime(game.time)}, {game.location}. Can you still make it?
+              </Text>
+              <View style={[styles.seriesModalButtons, styles.reconfirmButtons]}>
+                <TouchableOpacity
+                  style={styles.inviteCancelButton}
+                  onPress={() => handleRespondToReschedule(false)}
+                  disabled={reconfirming}
+                >
+                  <Text style={styles.inviteCancelButtonText}>Can't make it</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.inviteSendButton}
+                  onPress={() => handleRespondToReschedule(true)}
+                  disabled={reconfirming}
+                >
+                  {reconfirming ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.inviteSendButtonText}>I'm in</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {/* RSVP */}
+          {isUserInGame && !isUserCreator && game.status !== 'cancelled' && !hasKickedOff && isRsvpOpen && (
+            <View style={styles.playersCard}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="hand-left" size={20} color="rgba(255, 255, 255, 0.8)" />
+                <Text style={styles.sectionTitle}>Still coming?</Text>
+              </View>
+              <Text style={styles.detailText}>
+                {myRsvp && myRsvp.response !== 'pending'
+                  ? `You answered: ${RSVP_LABELS[myRsvp.response]}. You can change it until kick-off.`
+                  : 'Let the organizer know if you\'re playing. Saying no frees your spot for the waitlist.'}
+              </Text>
+              {!!rsvpError && (
+                <Text style={styles.inviteErrorText}>{rsvpError}</Text>
+              )}
+              <View style={[styles.seriesModalButtons, styles.reconfirmButtons]}>
+                <TouchableOpacity
+                  style={styles.seriesCancelButton}
+                  onPress={() => handleRespondToRsvp('no')}
+                  disabled={!!rsvpAction}
+                >
+                  <Text style={styles.inviteSendButtonText}>No</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.inviteCancelButton, myRsvp?.response === 'maybe' && styles.rsvpSelected]}
+                  onPress={() => handleRespondToRsvp('maybe')}
+                  disabled={!!rsvpAction}
+                >
+                  {rsvpAction === 'maybe' ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.inviteCancelButtonText}>Maybe</Text>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.inviteSendButton, myRsvp?.response === 'yes' && styles.rsvpSelected]}
+                  onPress={() => handleRespondToRsvp('yes')}
+                  disabled={!!rsvpAction}
+                >
+                  {rsvpAction === 'yes' ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.inviteSendButtonText}>Yes</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {/* Attendance Board */}
+          {isUserCreator && game.status !== 'cancelled' && (
+            <View style={styles.playersCard}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="clipboard" size={20} color="rgba(255, 255, 255, 0.8)" />
+                <Text style={styles.sectionTitle}>Attendance</Text>
+              </View>
+
+              {(['yes', 'maybe', 'pending', 'no'] as RsvpResponse[]).map(response => (
+                <View key={response} style={styles.teamItem}>
+                  <Text style={[styles.teamName, { color: RSVP_COLORS[response] }]}>
+                    {RSVP_LABELS[response]} ({rsvpBoard[response].length})
+                  </Text>
+                  <Text style={styles.playerRole}>
+                    {rsvpBoard[response].map(getRsvpName).join(', ') || 'Nobody'}
+                  </Text>
+                </View>
+              ))}
+
+              {unansweredReminders.length > 0 && (
+                <Text style={styles.reliabilityText}>
+                  Reminded: {unansweredReminders
+                    .map(rsvp => `${getRsvpName(rsvp.user_id)} (${rsvp.reminders_sent}x)`)
+                    .join(', ')}
+                </Text>
+              )}
+
+              {!hasKickedOff && (
+                <>
+                  <Text style={[styles.detailText, styles.rsvpScheduleLabel]}>
+                    Ask players: {describeRsvpHours(game.rsvpHours)}
+                  </Text>
+                  <View style={styles.slotGrid}>
+                    {RSVP_HOUR_OPTIONS.map(hour => {
+                      const selected = game.rsvpHours.includes(hour);
+                      return (
+                        <TouchableOpacity
+                          key={hour}
+                          style={[styles.slotChip, selected && styles.slotChipSelected]}
+                          onPress={() => handleToggleRsvpHour(hour)}
+                          disabled={!!rsvpAction}
+                        >
+                          <Text style={[styles.slotChipText, selected && styles.slotChipTextSelected]}>{hour}h</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              {!!rsvpError && (
+                <Text style={styles.inviteErrorText}>{rsvpError}</Text>
+              )}
+            </View>
+          )}
+
+          {/* Payment Section */}
+          {myMembership && myMembership.payment_status && myMembership.payment_status !== 'not_required' && (
+            <View style={styles.playersCard}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="card" size={20} color="rgba(255, 255, 255, 0.8)" />
+                <Text style={styles.sectionTitle}>{PAYMENT_MODE_LABELS[game.paymentMode]}</Text>
+              </View>
+
+              <Text style={styles.detailText}>
+                Your share: {formatMoney({ amount: Number(myMembership.amount_due || 0), currency: game.currency })}
+              </Text>
+
+              {!!paymentError && (
+                <Text style={styles.inviteErrorText}>{paymentError}</Text>
+              )}
+
+              {myMembership.payment_status === 'pending' && (
+                <TouchableOpacity
+                  style={[styles.joinButton, styles.payButton]}
+                  onPress={handlePayShare}
+                  disabled={paying}
+                >
+                  {paying ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Ionicons name="card-outline" size={20} color="#fff" />
+                  )}
+                  <Text style={styles.joinButtonText}>Pay now</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {/* Recurring Series Section */}
+          {series && (
+            <View style={styles.playersCard}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="repeat" size={20} color="rgba(255, 255, 255, 0.8)" />
+                <Text style={styles.sectionTitle}>
+                  {SERIES_FREQUENCY_LABELS[series.frequency]}
+                </Text>
+              </View>
+
+              {!!seriesError && (
+                <Text style={styles.inviteErrorText}>{seriesError}</Text>
+              )}
+
+              <View style={styles.playersList}>
+                {series.occurrences
+                  .filter(occurrence => occurrence.date >= new Date().toISOString().split('T')[0])
+                  .map(occurrence => {
+                    const isActive = occurrence.status === 'confirmed';
+                    return (
+                      <View key={occurrence.id} style={styles.occurrenceItem}>
+                        <View style={styles.playerInfo}>
+                          <Text style={[styles.playerName, !isActive && styles.occurrenceInactive]}>
+                            {formatDate(occurrence.date)}
+                          </Text>
+                          <Text style={styles.playerRole}>
+                            {isActive ? getSlotLabel(occurrence.time_slot) : occurrence.status}
+                          </Text>
+                        </View>
+                        {seriesAction === occurrence.id ? (
+                          <ActivityIndicator size="small" color="#4CAF50" />
+                        ) : isActive && (
+                          <View style={styles.occurrenceActions}>
+                            <TouchableOpacity onPress={() => handleEditOccurrence(occurrence)}>
+                              <Ionicons name="create-outline" size={20} color="#4CAF50" />
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => handleSkipOccurrence(occurrence)}>
+                              <Ionicons name="play-skip-forward-outline" size={20} color="#FF9800" />
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => setCancelFromOccurrence(occurrence)}>
+                              <Ionicons name="close-circle-outline" size={20} color="#ff6b6b" />
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                      </View>
+                    );
+                  })}
+              </View>
+            </View>
+          )}
 
           {/* Action Button */}
-          <View style={styles.actionSection}>
-            {isUserCreator ? (
-              <View style={styles.creatorActions}>
-                <TouchableOpacity
-                  style={styles.inviteButton}
-                  onPress={handleInviteUser}
-                >
-                  <Ionicons name="person-add-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
-                  <Text style={styles.inviteButtonText}>Invite Players</Text>
-                </TouchableOpacity>
-                <View style={styles.creatorButton}>
-                  <Ionicons name="person" size={20} color="#4CAF50" />
-                  <Text style={styles.creatorButtonText}>Your Game</Text>
-                </View>
-              </View>
-            ) : isUserInGame ? (
-              game?.is_public ? (
+          {game.status !== 'cancelled' && (
+            <View style={styles.actionSection}>
+              {isUserCreator ? (
                 <View style={styles.creatorActions}>
                   <TouchableOpacity
                     style={styles.inviteButton}
                     onPress={handleInviteUser}
                   >
-                    <Ionicons name="person-add" size={20} color="#fff" />
+                    <Ionicons name="person-add-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
                     <Text style={styles.inviteButtonText}>Invite Players</Text>
                   </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.inviteButton}
+                    onPress={() => setShowJoinCode(true)}
+                  >
+                    <Ionicons name="link-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
+                    <Text style={styles.inviteButtonText}>Invite Link</Text>
+                  </TouchableOpacity>
+                  {!isGameFull && (
+                    <TouchableOpacity
+                      style={styles.inviteButton}
+                      onPress={() => setShowGuestModal(true)}
+                    >
+                      <Ionicons name="person-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
+                      <Text style={styles.inviteButtonText}>Add Guest</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={styles.inviteButton}
+                    onPress={() => setShowCheckInQR(true)}
+                  >
+                    <Ionicons name="qr-code-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
+                    <Text style={styles.inviteButtonText}>Check-in QR</Text>
+                  </TouchableOpacity>
+                  {hasEnded && !result && (
+                    <TouchableOpacity
+                      style={styles.inviteButton}
+                      onPress={() => setShowResultModal(true)}
+                    >
+                      <Ionicons name="trophy-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
+                      <Text style={styles.inviteButtonText}>Enter Result</Text>
+                    </TouchableOpacity>
+                  )}
+                  {members.length >= 2 && (
+                    <TouchableOpacity
+                      style={styles.inviteButton}
+                      onPress={() => setShowTeamSplit(true)}
+                    >
+                      <Ionicons name="shuffle" size={20} color="rgba(255, 255, 255, 0.8)" />
+                      <Text style={styles.inviteButtonText}>{teams ? 'Redo Teams' : 'Generate Teams'}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {!game.series_id && (
+                    <TouchableOpacity
+                      style={styles.inviteButton}
+                      onPress={handleReschedule}
+                    >
+                      <Ionicons name="calendar-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
+                      <Text style={styles.inviteButtonText}>Reschedule</Text>
+                    </TouchableOpacity>
+                  )}
+                  <View style={styles.creatorButton}>
+                    <Ionicons name="person" size={20} color="#4CAF50" />
+                    <Text style={styles.creatorButtonText}>Your Game</Text>
+                  </View>
+                </View>
+              ) : isUserInGame ? (
+                <View style={styles.creatorActions}>
+                  {isCheckInOpen && myMembership?.attendance !== 'present' && (
+                    <TouchableOpacity
+                      style={styles.joinButton}
+                      onPress={() => navigation.navigate('CheckInScanner')}
+                    >
+                      <Ionicons name="qr-code-outline" size={20} color="#fff" />
+                      <Text style={styles.joinButtonText}>Check In</Text>
+                    </TouchableOpacity>
+                  )}
+                  {game?.is_public ? (
+                    <View style={styles.creatorActions}>
+                      <TouchableOpacity
+                        style={styles.inviteButton}
+                        onPress={handleInviteUser}
+                      >
+                        <Ionicons name="person-add" size={20} color="#fff" />
+                        <Text style={styles.inviteButtonText}>Invite Players</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.leaveButton}
+                        onPress={handleLeaveGame}
+                        disabled={joining}
+                      >
+                        <Ionicons name="exit-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
+                        <Text style={styles.leaveButtonText}>Leave Game</Text>
+                      </TouchableOpacity>
+                  </View>
+                ) : (
                   <TouchableOpacity
                     style={styles.leaveButton}
                     onPress={handleLeaveGame}
@@ -525,39 +1792,215 @@ const GameDetailsScreen: React.FC = () => {
                     <Ionicons name="exit-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
                     <Text style={styles.leaveButtonText}>Leave Game</Text>
                   </TouchableOpacity>
+                )}
                 </View>
               ) : (
-                <TouchableOpacity
-                  style={styles.leaveButton}
-                  onPress={handleLeaveGame}
-                  disabled={joining}
-                >
-                  <Ionicons name="exit-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
-                  <Text style={styles.leaveButtonText}>Leave Game</Text>
-                </TouchableOpacity>
-              )
-            ) : (
+                <View>
+                  {!!waitlistError && (
+                    <Text style={[styles.inviteErrorText, styles.waitlistError]}>{waitlistError}</Text>
+                  )}
+                  {!!joinError && (
+                    <Text style={[styles.inviteErrorText, styles.waitlistError]}>{joinError}</Text>
+                  )}
+                  {hasWaitlistOffer ? (
+                    <View style={styles.waitlistCard}>
+                      <Text style={styles.waitlistTitle}>A spot opened up for you!</Text>
+                      <Text style={styles.waitlistText}>
+                        Accept before {new Date(waitlist!.offer_expires_at!).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })} or it goes to the next player.
+                      </Text>
+                      <View style={styles.creatorActions}>
+                        <TouchableOpacity
+                          style={styles.leaveButton}
+                          onPress={handleLeaveWaitlist}
+                          disabled={waitlistAction}
+                        >
+                          <Text style={styles.leaveButtonText}>Decline</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.joinButton}
+                          onPress={handleAcceptWaitlistOffer}
+                          disabled={waitlistAction}
+                        >
+                          {waitlistAction ? (
+                            <ActivityIndicator size="small" color="#fff" />
+                          ) : (
+                            <Ionicons name="checkmark" size={20} color="#fff" />
+                          )}
+                          <Text style={styles.joinButtonText}>Accept Spot</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  ) : waitlist?.status === 'waiting' ? (
+                    <View style={styles.waitlistCard}>
+                      <Text style={styles.waitlistTitle}>You're #{waitlist.position} on the waitlist</Text>
+                      <Text style={styles.waitlistText}>We'll notify you as soon as a spot opens up.</Text>
+                      <TouchableOpacity
+                        style={styles.leaveButton}
+                        onPress={handleLeaveWaitlist}
+                        disabled={waitlistAction}
+                      >
+                        {waitlistAction ? (
+                          <ActivityIndicator size="small" color="#fff" />
+                        ) : (
+                          <Ionicons name="exit-outline" size={20} color="rgba(255, 255, 255, 0.8)" />
+                        )}
+                        <Text style={styles.leaveButtonText}>Leave Waitlist</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : isGameFull ? (
+                    <TouchableOpacity
+                      style={styles.joinButton}
+                      onPress={handleJoinWaitlist}
+                      disabled={waitlistAction || !game.is_public}
+                    >
+                      {waitlistAction ? (
+                        <ActivityIndicator size="small" color="#fff" />
+                      ) : (
+                        <Ionicons name="hourglass-outline" size={20} color="#fff" />
+                      )}
+                      <Text style={styles.joinButtonText}>
+                        {game.is_public
+                          ? `Game Full · Join Waitlist${waitlist?.waiting_count ? ` (${waitlist.waiting_count} waiting)` : ''}`
+                          : 'Game Full'}
+                      </Text>
+                    </TouchableOpacity>
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.joinButton}
+                      onPress={handleJoinPress}
+                      disabled={joining}
+                    >
+                      {joining ? (
+                        <ActivityIndicator size="small" color="#fff" />
+                      ) : (
+                        <Ionicons name="add" size={20} color="#fff" />
+                      )}
+                      <Text style={styles.joinButtonText}>Join Game</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+
+      <CheckInQRModal
+        visible={showCheckInQR}
+        gameId={game.id}
+        title={`${game.title} · ${formatTime(game.time)}`}
+        onClose={() => setShowCheckInQR(false)}
+      />
+
+      <JoinCodeModal
+        visible={showJoinCode}
+        gameId={game.id}
+        title={`${game.title} · ${formatDate(game.date)}`}
+        onClose={() => setShowJoinCode(false)}
+      />
+
+      <PositionPickerModal
+        visible={showPositionPicker}
+        positionsLeft={positionsLeft}
+        preferred={isPlayerPosition(userProfile?.position) ? userProfile?.position as PlayerPosition : null}
+        canJoinWithoutPosition={spotsTaken + (waitlist?.reserved_spots || 0) + countOpenPositions(positionsLeft) < game.maxPlayers}
+        onPick={handleJoinGame}
+        onClose={() => setShowPositionPicker(false)}
+      />
+
+      {currentUserId && (
+        <GuestPlayerModal
+          visible={showGuestModal}
+          gameId={game.id}
+          organizerId={currentUserId}
+          onClose={() => setShowGuestModal(false)}
+          onAdded={() => {
+            setShowGuestModal(false);
+            loadGameDetails();
+          }}
+        />
+      )}
+
+      {currentUserId && (
+        <TeamSplitModal
+          visible={showTeamSplit}
+          gameId={game.id}
+          organizerId={currentUserId}
+          members={members}
+          published={teams}
+          onClose={() => setShowTeamSplit(false)}
+          onPublished={() => {
+            setShowTeamSplit(false);
+            loadGameDetails();
+          }}
+        />
+      )}
+
+      {currentUserId && (
+        <GameResultModal
+          visible={showResultModal}
+          gameId={game.id}
+          organizerId={currentUserId}
+          members={members}
+          teams={teams}
+          result={result}
+          onClose={() => setShowResultModal(false)}
+          onSubmitted={() => {
+            setShowResultModal(false);
+            refreshUserData();
+            loadGameDetails();
+          }}
+        />
+      )}
+
+      {/* Dispute Result Modal */}
+      <Modal
+        visible={showDisputeModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowDisputeModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.inviteModal}>
+            <Text style={styles.inviteModalTitle}>Dispute Result</Text>
+            <Text style={styles.inviteModalMessage}>
+              Tell the organizer what's wrong. Your stats won't change until they correct it.
+            </Text>
+            <View style={styles.inviteInputContainer}>
+              <TextInput
+                style={styles.inviteInput}
+                placeholder="e.g. It finished 4-3, and I scored twice"
+                placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                value={disputeReason}
+                onChangeText={setDisputeReason}
+                multiline
+              />
+            </View>
+            {!!resultError && (
+              <Text style={styles.inviteErrorText}>{resultError}</Text>
+            )}
+            <View style={styles.seriesModalButtons}>
+              <TouchableOpacity
+                style={styles.inviteCancelButton}
+                onPress={() => setShowDisputeModal(false)}
+              >
+                <Text style={styles.inviteCancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
               <TouchableOpacity
-                style={[
-                  styles.joinButton,
-                  (members.length >= game.maxPlayers) && styles.joinButtonDisabled
-                ]}
-                onPress={handleJoinGame}
-                disabled={joining || members.length >= game.maxPlayers}
+                style={styles.seriesCancelButton}
+                onPress={() => handleRespondToResult('disputed', disputeReason)}
+                disabled={!!resultAction}
               >
-                {joining ? (
+                {resultAction === 'disputed' ? (
                   <ActivityIndicator size="small" color="#fff" />
                 ) : (
-                  <Ionicons name="add" size={20} color="#fff" />
+                  <Text style={styles.inviteSendButtonText}>Dispute</Text>
                 )}
-                <Text style={styles.joinButtonText}>
-                  {members.length >= game.maxPlayers ? 'Game Full' : 'Join Game'}
-                </Text>
               </TouchableOpacity>
-            )}
+            </View>
           </View>
-        </ScrollView>
-      </View>
+        </View>
+      </Modal>
 
       {/* Invite User Modal */}
       <Modal
@@ -634,6 +2077,125 @@ const GameDetailsScreen: React.FC = () => {
         </View>
       </Modal>
 
+      {/* Edit Occurrence Modal */}
+      <Modal
+        visible={!!editingOccurrence}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setEditingOccurrence(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.inviteModal}>
+            <View style={styles.inviteModalHeader}>
+              <Text style={styles.inviteModalTitle}>Change Time</Text>
+              <TouchableOpacity onPress={() => setEditingOccurrence(null)}>
+                <Ionicons name="close" size={24} color="rgba(255, 255, 255, 0.6)" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.inviteModalMessage}>
+              {editingOccurrence ? `Pick a new time for ${formatDate(editingOccurrence.date)}. Only this date changes.` : ''}
+            </Text>
+
+            {loadingEditSlots ? (
+              <ActivityIndicator size="small" color="#4CAF50" />
+            ) : editSlots.length > 0 ? (
+              <View style={styles.slotGrid}>
+                {editSlots.map(slot => (
+                  <TouchableOpacity
+                    key={slot}
+                    style={styles.slotChip}
+                    onPress={() => handleMoveOccurrence(slot)}
+                    disabled={!!seriesAction}
+                  >
+                    <Text style={styles.slotChipText}>{getSlotLabel(slot)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.noPlayersSubtext}>No other times are free on this date.</Text>
+            )}
+
+            {!!seriesError && (
+              <Text style={styles.inviteErrorText}>{seriesError}</Text>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Cancel Series Confirmation Modal */}
+      <Modal
+        visible={!!cancelFromOccurrence}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setCancelFromOccurrence(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.inviteModal}>
+            <Text style={styles.inviteModalTitle}>Cancel Remaining Matches?</Text>
+            <Text style={styles.inviteModalMessage}>
+              {cancelFromOccurrence ? `Every match in this series from ${formatDate(cancelFromOccurrence.date)} onwards will be cancelled and the pitch released.` : ''}
+            </Text>
+            <View style={styles.seriesModalButtons}>
+              <TouchableOpacity
+                style={styles.inviteCancelButton}
+                onPress={() => setCancelFromOccurrence(null)}
+              >
+                <Text style={styles.inviteCancelButtonText}>Keep</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.seriesCancelButton}
+                onPress={handleConfirmCancelSeries}
+                disabled={!!seriesAction}
+              >
+                <Text style={styles.inviteSendButtonText}>Cancel Series</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Leave Game Modal */}
+      <Modal
+        visible={showLeaveModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={handleCloseLeaveModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.inviteModal}>
+            <Text style={styles.inviteModalTitle}>{decliningRsvp ? 'Can\'t make it?' : 'Leave Game?'}</Text>
+            {leaveTerms ? (
+              <Text style={styles.inviteModalMessage}>{leaveTerms}</Text>
+            ) : (
+              <ActivityIndicator size="small" color="#4CAF50" />
+            )}
+            {!!leaveError && (
+              <Text style={styles.inviteErrorText}>{leaveError}</Text>
+            )}
+            <View style={styles.seriesModalButtons}>
+              <TouchableOpacity
+                style={styles.inviteCancelButton}
+                onPress={handleCloseLeaveModal}
+              >
+                <Text style={styles.inviteCancelButtonText}>Stay</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.seriesCancelButton}
+                onPress={handleConfirmLeaveGame}
+                disabled={leaving}
+              >
+                {leaving ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.inviteSendButtonText}>Leave</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Invite Success Modal */}
       <Modal
         visible={showInviteSuccessModal}
@@ -734,6 +2296,10 @@ const styles = StyleSheet.create({
   headerSpacer: {
     width: 40,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   chatButton: {
     width: 40,
     height: 40,
@@ -1071,6 +2637,138 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  waitlistCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  waitlistTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  waitlistText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  waitlistError: {
+    marginBottom: 8,
+  },
+  cancelledBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'rgba(255, 107, 107, 0.15)',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  cancelledBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#ff6b6b',
+  },
+  paymentBadge: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginRight: 8,
+  },
+  paymentBadgePaid: {
+    color: '#4CAF50',
+  },
+  reliabilityText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 2,
+  },
+  attendanceActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginRight: 8,
+  },
+  teamItem: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  teamName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 2,
+  },
+  payButton: {
+    marginTop: 12,
+  },
+  occurrenceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  occurrenceInactive: {
+    textDecorationLine: 'line-through',
+    color: 'rgba(255, 255, 255, 0.4)',
+  },
+  occurrenceActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  slotChip: {
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  slotChipText: {
+    color: '#4CAF50',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  slotChipSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  slotChipTextSelected: {
+    color: '#fff',
+  },
+  resultScore: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  resultDisputed: {
+    color: '#ff6b6b',
+  },
+  rsvpSelected: {
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  rsvpScheduleLabel: {
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  seriesModalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  reconfirmButtons: {
+    marginTop: 12,
+  },
+  seriesCancelButton: {
+    flex: 1,
+    backgroundColor: '#ff6b6b',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
   // Success modal styles
   successModal: {
     backgroundColor: '#1a1a1a',
@@ -15,9 +15,18 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { db } from '../lib/supabase';
+import { formatRating } from '../utils/votes';
 
 type LeaderboardsNavigationProp = StackNavigationProp<RootStackParamList>;
 
+type PlayerSort = 'wins' | 'mvps' | 'rating';
+
+const PLAYER_SORT_LABELS: Record<PlayerSort, string> = {
+  wins: 'Wins',
+  mvps: 'MVPs',
+  rating: 'Rating',
+};
+
 const LeaderboardsScreen: React.FC = () => {
   const navigation = useNavigation<LeaderboardsNavigationProp>();
   
@@ -26,6 +35,7 @@ const LeaderboardsScreen: React.FC = () => {
   const [division, setDivision] = useState<'All' | 'D1' | 'D2' | 'D3' | 'D4' | 'D5'>('All');
   const [range, setRange] = useState<'All-time' | 'Season' | 'Month' | 'Week'>('All-time');
   const [showFilters, setShowFilters] = useState(false);
+  const [sortBy, setSortBy] = useState<PlayerSort>('wins');
 
   const [players, setPlayers] = useState<any[]>([]);
   const [teams, setTeams] = useState<any[]>([]);
@@ -41,7 +51,7 @@ const LeaderboardsScreen: React.FC = () => {
       setLoading(true);
       try {
         const [{ data: pData }, { data: tData }] = await Promise.all([
-          db.getTopPlayers(100, query),
+          db.getTopPlayers(100, query, sortBy),
           db.getTopTeams(100, query),
         ]);
         setPlayers(pData || []);
@@ -53,12 +63,18 @@ const LeaderboardsScreen: React.FC = () => {
       }
     };
     load();
-  }, [query]);
+  }, [query, sortBy]);
   const filteredPlayers = useMemo(() => {
     const normQ = query.trim().toLowerCase();
     return (players || [])
       .filter(p => !normQ || (p.full_name || '').toLowerCase().includes(normQ) || (p.username || '').toLowerCase().includes(normQ))
       .sort((a, b) => {
+        if (sortBy === 'rating') {
+          return Number(b.avg_rating || 0) - Number(a.avg_rating || 0);
+        }
+        if (sortBy === 'mvps' && Number(a.mvps || 0) !== Number(b.mvps || 0)) {
+          return Number(b.mvps || 0) - Number(a.mvps || 0);
+        }
         // Primary sort by wins (descending)
         const winsA = Number(a.wins || 0);
         const winsB = Number(b.wins || 0);
@@ -68,7 +84,7 @@ const LeaderboardsScreen: React.FC = () => {
         // Secondary sort by points for tie-breaking
         return Number(b.pts || 0) - Number(a.pts || 0);
       });
-  }, [players, query]);
+  }, [players, query, sortBy]);
 
   const filteredTeams = useMemo(() => {
     const normQ = query.trim().toLowerCase();
@@ -136,6 +152,22 @@ const LeaderboardsScreen: React.FC = () => {
 
             {showFilters && (
               <View style={styles.dropdown}>
+                {mode === 'players' && (
+                  <>
+                    <Text style={styles.dropdownLabel}>Rank By</Text>
+                    <View style={[styles.chipsRow, { marginBottom: 10 }]}>
+                      {(Object.keys(PLAYER_SORT_LABELS) as PlayerSort[]).map(option => (
+                        <TouchableOpacity
+                          key={option}
+                          onPress={() => setSortBy(option)}
+                          style={[styles.chip, sortBy === option && styles.chipActive]}
+                        >
+                          <Text style={[styles.chipText, sortBy === option && styles.chipTextActive]}>{PLAYER_SORT_LABELS[option]}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </>
+                )}
                 <Text style={styles.dropdownLabel}>Division</Text>
                 <View style={styles.chipsRow}>
                   {(['All','D1','D2','D3','D4','D5'] as const).map(d => (
@@ -202,11 +234,20 @@ const LeaderboardsScreen: React.FC = () => {
                           <Text style={styles.expandedLine}>Matches {player.matches_played ?? 0}</Text>
                           <Text style={styles.expandedLine}>Draws {player.draws ?? 0} • Losses {player.losses ?? 0}</Text>
                           <Text style={styles.expandedLine}>MVPs {player.mvps ?? 0} • Points {Number(player.pts || 0)}</Text>
+                          <Text style={styles.expandedLine}>
+                            Rating {formatRating(player.avg_rating)}{player.rated_matches ? ` over ${player.rated_matches} rated match${player.rated_matches === 1 ? '' : 'es'}` : ''}
+                          </Text>
                         </View>
                       )}
                     </View>
                     <View style={styles.playerStats}>
-                      <Text style={styles.pointsText}>{player.wins ?? 0} wins</Text>
+                      {sortBy === 'rating' ? (
+                        <Text style={styles.pointsText}>{formatRating(player.avg_rating)} avg</Text>
+                      ) : sortBy === 'mvps' ? (
+                        <Text style={styles.pointsText}>{player.mvps ?? 0} MVPs</Text>
+                      ) : (
+                        <Text style={styles.pointsText}>{player.wins ?? 0} wins</Text>
+                      )}
                       <Text style={styles.statsText}>{Number(player.pts || 0)} pts</Text>
                     </View>
                   </TouchableOpacity>
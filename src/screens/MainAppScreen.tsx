@@ -20,6 +20,10 @@ import { CompositeNavigationProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { TabParamList, RootStackParamList } from '../navigation/AppNavigator';
 import { auth, db, supabase } from '../lib/supabase';
+import { formatSlotLabel } from '../utils/schedule';
+import { formatMoney, getRowPrice } from '../utils/money';
+import { getGameCapacity } from '../utils/gameFormats';
+import { getTakenSpots } from '../utils/guests';
 import { useAppData } from '../context/AppDataContext';
 import VideoPlayer from '../components/VideoPlayer';
 import GlareHover from './GlareHover';
@@ -75,7 +79,7 @@ interface Match {
   id: string;
   match_type?: 'friendly' | 'ranked';
   match_date: string;
-  time_slot: string;
+  time_slot: number; // minutes after midnight
   status: 'scheduled' | 'live' | 'completed' | 'cancelled';
   team1?: {
     id: string;
@@ -250,9 +254,9 @@ const MainAppScreen: React.FC = React.memo(() => {
           pitch_location: booking.pitch_location,
           date: booking.date,
           time: booking.time,
-          price: booking.price,
+          price: formatMoney(getRowPrice(booking)),
           status: booking.status,
-          max_players: booking.max_players || 8,
+          max_players: getGameCapacity(booking),
           current_players: booking.member_count || 0,
         }));
         setUpcomingBookings(futureBookings);
@@ -285,8 +289,9 @@ const MainAppScreen: React.FC = React.memo(() => {
       const gameIds = userGameMemberships.map((membership: any) => membership.game_id);
       const { data: bookingsData, error: bookingsDataError } = await supabase
         .from('bookings')
-        .select('id, pitch_name, pitch_location, date, time, price, status, max_players, created_at')
+        .select('id, pitch_name, pitch_location, date, time, price, price_amount, price_currency, status, max_players, guest_count, created_at')
         .in('id', gameIds)
+        .not('status', 'in', '(skipped,cancelled,rejected)')
         .gte('date', new Date().toISOString().split('T')[0]) // Only future dates
         .order('date', { ascending: true })
         .order('time', { ascending: true });
@@ -319,10 +324,10 @@ const MainAppScreen: React.FC = React.memo(() => {
         pitch_location: booking.pitch_location,
         date: booking.date,
         time: booking.time,
-        price: booking.price,
+        price: formatMoney(getRowPrice(booking)),
         status: booking.status,
-        max_players: booking.max_players || 12,
-        current_players: memberCounts[index]?.count || 0,
+        max_players: getGameCapacity(booking),
+        current_players: getTakenSpots(memberCounts[index]?.count || 0, booking),
       }));
 
       setUpcomingBookings(futureBookings);
@@ -559,8 +564,8 @@ const MainAppScreen: React.FC = React.memo(() => {
       ...upcomingMatches.map(match => ({ ...match, type: 'match' as const })),
       ...upcomingBookings.map(booking => ({ ...booking, type: 'booking' as const }))
     ].sort((a, b) => {
-      const aTime = a.type === 'match' ? new Date(`${a.match_date} ${a.time_slot}`).getTime() : new Date(`${a.date} ${a.time}`).getTime();
-      const bTime = b.type === 'match' ? new Date(`${b.match_date} ${b.time_slot}`).getTime() : new Date(`${b.date} ${b.time}`).getTime();
+      const aTime = a.type === 'match' ? new Date(`${a.match_date}T00:00:00`).getTime() + a.time_slot * 60 * 1000 : new Date(`${a.date} ${a.time}`).getTime();
+      const bTime = b.type === 'match' ? new Date(`${b.match_date}T00:00:00`).getTime() + b.time_slot * 60 * 1000 : new Date(`${b.date} ${b.time}`).getTime();
       return aTime - bTime;
     });
 
@@ -590,7 +595,7 @@ const MainAppScreen: React.FC = React.memo(() => {
                   ? `Division ${item.division || 'N/A'}`
                   : item.pitch_location || 'Location TBD',
                 time: item.type === 'match' 
-                  ? (item.time_slot ? `${item.time_slot}:00` : 'TBD')
+                  ? (item.time_slot ? formatSlotLabel(item.time_slot) : 'TBD')
                   : item.time || 'TBD',
                 date: item.type === 'match'
                   ? new Date(item.match_date).toLocaleDateString('en-US', {
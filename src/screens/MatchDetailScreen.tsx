@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,8 +7,14 @@ import {
   TouchableOpacity,
   ImageBackground,
   StatusBar,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { formatSlotLabel } from '../utils/schedule';
+import { calendarService } from '../services/calendarService';
+import { supabase } from '../lib/supabase';
+import { TEAM_NAMES } from '../utils/teamBalance';
+import MatchVoteCard from '../components/MatchVoteCard';
 
 interface MatchDetailScreenProps {
   route: {
@@ -21,6 +27,28 @@ interface MatchDetailScreenProps {
 
 const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({ route, navigation }) => {
   const { match } = route.params;
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id || null));
+  }, []);
+
+  // Ranked matches vote by club, pickup games by the sides the organizer picked
+  const describeSide = (side: string | null) => {
+    if (match?.type === 'match') {
+      if (side === match?.team1?.id) return match.team1.name;
+      if (side === match?.team2?.id) return match.team2.name;
+      return 'Squad';
+    }
+    return side === null ? 'No team' : TEAM_NAMES[Number(side)];
+  };
+
+  const handleAddToCalendar = async () => {
+    const result = await calendarService.addToCalendar(match?.type === 'match' ? 'match' : 'booking', match.id);
+    if (!result.success) {
+      Alert.alert('Calendar', result.error || 'Could not add this match to your calendar');
+    }
+  };
 
   const renderMatchDetails = () => {
     if (match?.type === 'match') {
@@ -77,7 +105,7 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({ route, navigation
             <View style={styles.infoRow}>
               <Text style={styles.infoLabel}>Time:</Text>
               <Text style={styles.infoValue}>
-                {match?.time_slot ? `${match.time_slot}:00` : 'N/A'}
+                {match?.time_slot ? formatSlotLabel(match.time_slot) : 'N/A'}
               </Text>
             </View>
           </View>
@@ -198,12 +226,27 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({ route, navigation
         <Text style={styles.headerTitle}>
           {match?.type === 'match' ? 'Match Details' : 'Booking Details'}
         </Text>
-        <View style={styles.headerSpacer} />
+        {match?.id ? (
+          <TouchableOpacity style={styles.backButton} onPress={handleAddToCalendar}>
+            <Ionicons name="calendar-outline" size={22} color="#fff" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
       </View>
 
       {/* Content */}
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {renderMatchDetails()}
+        {match?.id && (
+          <MatchVoteCard
+            source={match?.type === 'match' ? 'match' : 'game'}
+            sourceId={match.id}
+            userId={currentUserId}
+            describeSide={describeSide}
+            style={styles.section}
+          />
+        )}
       </ScrollView>
     </ImageBackground>
   );
@@ -10,7 +10,8 @@ import {
   SafeAreaView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { db } from '../lib/supabase';
+import { db, LEAGUE_PITCH_ID } from '../lib/supabase';
+import { DEFAULT_PITCH_SCHEDULE, PitchSchedule, SlotPeriod, SLOT_PERIODS, generateTimeSlots, getSlotLabel } from '../utils/schedule';
 
 interface MatchmakingScreenProps {
   navigation: any;
@@ -29,28 +30,46 @@ const MatchmakingScreen: React.FC<MatchmakingScreenProps> = ({ navigation, route
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [selectedTimeSlot, setSelectedTimeSlot] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [availableSlots, setAvailableSlots] = useState<number[]>([18, 19, 20, 21, 22, 23, 24, 25, 26]);
+  const [pitchSchedule, setPitchSchedule] = useState<PitchSchedule>({ pitch_id: LEAGUE_PITCH_ID, ...DEFAULT_PITCH_SCHEDULE });
+  const [availableSlots, setAvailableSlots] = useState<number[]>([]);
   const [loadingSlots, setLoadingSlots] = useState(false);
   const [showQueuedModal, setShowQueuedModal] = useState(false);
   const [showFoundModal, setShowFoundModal] = useState(false);
   const [queuedText, setQueuedText] = useState('');
   const [foundText, setFoundText] = useState('');
 
+  // Ranked matches are played on the league pitch, so its schedule drives the slot picker
+  useEffect(() => {
+    const loadPitchSchedule = async () => {
+      const { data, error } = await db.getPitchSchedule(LEAGUE_PITCH_ID);
+      if (error) {
+        console.error('Error loading league pitch schedule:', error);
+        return;
+      }
+      if (data) {
+        setPitchSchedule(data);
+      }
+    };
+
+    loadPitchSchedule();
+  }, []);
+
   // Load available time slots for selected date
   const loadAvailableSlots = async (date: string) => {
     setLoadingSlots(true);
+    const scheduledSlots = generateTimeSlots(pitchSchedule, date).map(slot => slot.value);
     try {
-      const { data, error } = await db.getAvailableTimeSlots(date);
+      const { data, error } = await db.getAvailableTimeSlots(date, LEAGUE_PITCH_ID);
       if (error) {
         console.error('Error loading available slots:', error);
-        // Fallback to all slots if error
-        setAvailableSlots([18, 19, 20, 21, 22, 23, 24, 25, 26]);
+        // Fallback to the pitch schedule if error
+        setAvailableSlots(scheduledSlots);
       } else {
-        setAvailableSlots(data?.available_slots || [18, 19, 20, 21, 22, 23, 24, 25, 26]);
+        setAvailableSlots(data?.available_slots || scheduledSlots);
       }
     } catch (error) {
       console.error('Exception loading available slots:', error);
-      setAvailableSlots([18, 19, 20, 21, 22, 23, 24, 25, 26]);
+      setAvailableSlots(scheduledSlots);
     } finally {
       setLoadingSlots(false);
     }
@@ -93,17 +112,15 @@ const MatchmakingScreen: React.FC<MatchmakingScreenProps> = ({ navigation, route
   };
 
   const getTimeSlots = () => {
-    return [
-      { value: 18, label: '6:00 PM', period: 'Evening' },
-      { value: 19, label: '7:00 PM', period: 'Evening' },
-      { value: 20, label: '8:00 PM', period: 'Evening' },
-      { value: 21, label: '9:00 PM', period: 'Evening' },
-      { value: 22, label: '10:00 PM', period: 'Night' },
-      { value: 23, label: '11:00 PM', period: 'Night' },
-      { value: 24, label: '12:00 AM', period: 'Late Night' },
-      { value: 25, label: '1:00 AM', period: 'Late Night' },
-      { value: 26, label: '2:00 AM', period: 'Late Night' },
-    ];
+    return generateTimeSlots(pitchSchedule, selectedDate || undefined);
+  };
+
+  const periodIcons: Record<SlotPeriod, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
+    'Morning': { name: 'partly-sunny', color: '#FFC107' },
+    'Afternoon': { name: 'sunny', color: '#FF9800' },
+    'Evening': { name: 'cloudy-night', color: '#FF7043' },
+    'Night': { name: 'moon', color: '#4A90E2' },
+    'Late Night': { name: 'star', color: '#9B59B6' },
   };
 
   const getDateDisplayText = (dateString: string) => {
@@ -139,7 +156,8 @@ const MatchmakingScreen: React.FC<MatchmakingScreenProps> = ({ navigation, route
       // First, check if the pitch is available
       const { data: availabilityData, error: availabilityError } = await db.checkPitchAvailability(
         selectedDate, 
-        selectedTimeSlot
+        selectedTimeSlot,
+        LEAGUE_PITCH_ID
       );
 
       if (availabilityError) {
@@ -177,11 +195,11 @@ const MatchmakingScreen: React.FC<MatchmakingScreenProps> = ({ navigation, route
       if (data?.success) {
         if (data.match_found) {
           // Match found immediately - styled modal
-          setFoundText(`Great! A match has been found for ${getDateDisplayText(selectedDate)} at ${getTimeSlots().find(slot => slot.value === selectedTimeSlot)?.label}.`);
+          setFoundText(`Great! A match has been found for ${getDateDisplayText(selectedDate)} at ${getSlotLabel(selectedTimeSlot)}.`);
           setShowFoundModal(true);
         } else {
           // Added to queue - styled modal
-          setQueuedText(`Your team has been added to the matchmaking queue for ${getDateDisplayText(selectedDate)} at ${getTimeSlots().find(slot => slot.value === selectedTimeSlot)?.label}. You will be notified when a match is found.`);
+          setQueuedText(`Your team has been added to the matchmaking queue for ${getDateDisplayText(selectedDate)} at ${getSlotLabel(selectedTimeSlot)}. You will be notified when a match is found.`);
           setShowQueuedModal(true);
         }
       } else {
@@ -281,119 +299,49 @@ const MatchmakingScreen: React.FC<MatchmakingScreenProps> = ({ navigation, route
           )}
           
           <View style={styles.timeSlotsContainer}>
-            {/* Evening Slots */}
-            <View style={styles.timePeriodSection}>
-              <View style={styles.timePeriodHeader}>
-                <Ionicons name="sunny" size={16} color="#FF9800" />
-                <Text style={styles.timePeriodTitle}>Evening</Text>
-              </View>
-              <View style={styles.timeGrid}>
-                {getTimeSlots().filter(slot => slot.period === 'Evening').map((slot) => {
-                  const isAvailable = availableSlots.includes(slot.value);
-                  const isSelected = selectedTimeSlot === slot.value;
-                  
-                  return (
-                    <TouchableOpacity
-                      key={slot.value}
-                      style={[
-                        styles.timeOption,
-                        isSelected && styles.selectedOption,
-                        !isAvailable && styles.unavailableOption
-                      ]}
-                      onPress={() => isAvailable && setSelectedTimeSlot(slot.value)}
-                      disabled={!isAvailable}
-                    >
-                      <Text style={[
-                        styles.optionText,
-                        isSelected && styles.selectedOptionText,
-                        !isAvailable && styles.unavailableOptionText
-                      ]}>
-                        {slot.label}
-                      </Text>
-                      {!isAvailable && (
-                        <Ionicons name="close-circle" size={16} color="#f44336" />
-                      )}
-                    </TouchableOpacity>
-                  );
-                })}
-              </View>
-            </View>
+            {SLOT_PERIODS.map((period) => {
+              const periodSlots = getTimeSlots().filter(slot => slot.period === period);
+              if (periodSlots.length === 0) return null;
 
-            {/* Night Slots */}
-            <View style={styles.timePeriodSection}>
-              <View style={styles.timePeriodHeader}>
-                <Ionicons name="moon" size={16} color="#4A90E2" />
-                <Text style={styles.timePeriodTitle}>Night</Text>
-              </View>
-              <View style={styles.timeGrid}>
-                {getTimeSlots().filter(slot => slot.period === 'Night').map((slot) => {
-                  const isAvailable = availableSlots.includes(slot.value);
-                  const isSelected = selectedTimeSlot === slot.value;
-                  
-                  return (
-                    <TouchableOpacity
-                      key={slot.value}
-                      style={[
-                        styles.timeOption,
-                        isSelected && styles.selectedOption,
-                        !isAvailable && styles.unavailableOption
-                      ]}
-                      onPress={() => isAvailable && setSelectedTimeSlot(slot.value)}
-                      disabled={!isAvailable}
-                    >
-                      <Text style={[
-                        styles.optionText,
-                        isSelected && styles.selectedOptionText,
-                        !isAvailable && styles.unavailableOptionText
-                      ]}>
-                        {slot.label}
-                      </Text>
-                      {!isAvailable && (
-                        <Ionicons name="close-circle" size={16} color="#f44336" />
-                      )}
-                    </TouchableOpacity>
-                  );
-                })}
-              </View>
-            </View>
-
-            {/* Late Night Slots */}
-            <View style={styles.timePeriodSection}>
-              <View style={styles.timePeriodHeader}>
-                <Ionicons name="star" size={16} color="#9B59B6" />
-                <Text style={styles.timePeriodTitle}>Late Night</Text>
-              </View>
-              <View style={styles.timeGrid}>
-                {getTimeSlots().filter(slot => slot.period === 'Late Night').map((slot) => {
-                  const isAvailable = availableSlots.includes(slot.value);
-                  const isSelected = selectedTimeSlot === slot.value;
-                  
-                  return (
-                    <TouchableOpacity
-                      key={slot.value}
-                      style={[
-                        styles.timeOption,
-                        isSelected && styles.selectedOption,
-                        !isAvailable && styles.unavailableOption
-                      ]}
-                      onPress={() => isAvailable && setSelectedTimeSlot(slot.value)}
-                      disabled={!isAvailable}
-                    >
-                      <Text style={[
-                        styles.optionText,
-                        isSelected && styles.selectedOptionText,
-                        !isAvailable && styles.unavailableOptionText
-                      ]}>
-                        {slot.label}
-                      </Text>
-                      {!isAvailable && (
-                        <Ionicons name="close-circle" size={16} color="#f44336" />
-                      )}
-                    </TouchableOpacity>
-                  );
-                })}
-              </View>
-            </View>
+              return (
+                <View key={period} style={styles.timePeriodSection}>
+                  <View style={styles.timePeriodHeader}>
+                    <Ionicons name={periodIcons[period].name} size={16} color={periodIcons[period].color} />
+                    <Text style={styles.timePeriodTitle}>{period}</Text>
+                  </View>
+                  <View style={styles.timeGrid}>
+                    {periodSlots.map((slot) => {
+                      const isAvailable = availableSlots.includes(slot.value);
+                      const isSelected = selectedTimeSlot === slot.value;
+                      
+                      return (
+                        <TouchableOpacity
+                          key={slot.value}
+                          style={[
+                            styles.timeOption,
+                            isSelected && styles.selectedOption,
+                            !isAvailable && styles.unavailableOption
+                          ]}
+                          onPress={() => isAvailable && setSelectedTimeSlot(slot.value)}
+                          disabled={!isAvailable}
+                        >
+                          <Text style={[
+                            styles.optionText,
+                            isSelected && styles.selectedOptionText,
+                            !isAvailable && styles.unavailableOptionText
+                          ]}>
+                            {slot.label}
+                          </Text>
+                          {!isAvailable && (
+                            <Ionicons name="close-circle" size={16} color="#f44336" />
+                          )}
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              );
+            })}
           </View>
         </View>
 
@@ -402,7 +350,7 @@ const MatchmakingScreen: React.FC<MatchmakingScreenProps> = ({ navigation, route
           <View style={styles.selectedInfo}>
             <Text style={styles.selectedInfoTitle}>Selected Match Time</Text>
             <Text style={styles.selectedInfoText}>
-              {getDateDisplayText(selectedDate)} at {getTimeSlots().find(slot => slot.value === selectedTimeSlot)?.label}
+              {getDateDisplayText(selectedDate)} at {getSlotLabel(selectedTimeSlot)}
             </Text>
           </View>
         )}
@@ -16,7 +16,8 @@ import { CompositeNavigationProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { RootStackParamList, TabParamList } from '../navigation/AppNavigator';
-import { supabase } from '../lib/supabase';
+import { supabase, db } from '../lib/supabase';
+import { OperatorVenue } from '../types/operators';
 // Push Notification Tester removed
 import { gameInvitationService } from '../services/gameInvitationService';
 import { sendBroadcastNotification } from '../services/notifications';
@@ -31,6 +32,7 @@ const MoreScreen: React.FC = () => {
   const [showSignOutModal, setShowSignOutModal] = React.useState(false);
   // Push tester removed
   const [isAdmin, setIsAdmin] = useState(false);
+  const [operatorVenues, setOperatorVenues] = useState<OperatorVenue[]>([]);
   const [notifications, setNotifications] = useState<any[]>([]);
   const [loadingNotifications, setLoadingNotifications] = useState(false);
   const [broadcastTitle, setBroadcastTitle] = useState('');
@@ -39,6 +41,7 @@ const MoreScreen: React.FC = () => {
 
   useEffect(() => {
     checkAdminStatus();
+    loadOperatorVenues();
     loadNotifications();
   }, []);
 
@@ -61,6 +64,18 @@ const MoreScreen: React.FC = () => {
     }
   };
 
+  const loadOperatorVenues = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data } = await db.getOperatorVenues(user.id);
+      setOperatorVenues(data || []);
+    } catch (error) {
+      console.error('Error loading operator venues:', error);
+    }
+  };
+
   const loadNotifications = async () => {
     setLoadingNotifications(true);
     try {
@@ -342,6 +357,30 @@ const MoreScreen: React.FC = () => {
             )}
           </View>
 
+          {/* Venue operator portal */}
+          {operatorVenues.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>My Venues</Text>
+
+              {operatorVenues.map((venue) => (
+                <TouchableOpacity
+                  key={venue.venue_id}
+                  style={styles.menuItem}
+                  onPress={() => navigation.navigate('OperatorPortal', { venueId: venue.venue_id, venueName: venue.venue_name })}
+                >
+                  <View style={styles.menuIcon}>
+                    <Ionicons name="business" size={24} color="#fff" />
+                  </View>
+                  <View style={styles.menuContent}>
+                    <Text style={styles.menuTitle}>{venue.venue_name}</Text>
+                    <Text style={styles.menuSubtitle}>Schedule, approvals and revenue</Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color="rgba(255, 255, 255, 0.5)" />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
           {/* Admin/Developer Section */}
           {isAdmin && (
             <View style={styles.section}>
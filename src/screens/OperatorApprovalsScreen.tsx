@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ImageBackground,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { OperatorTabParamList } from '../navigation/AppNavigator';
+import { supabase, db } from '../lib/supabase';
+import { PendingApproval } from '../types/operators';
+import { formatMoney } from '../utils/money';
+
+const OperatorApprovalsScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<OperatorTabParamList, 'OperatorApprovals'>>();
+  const { venueId, venueName } = route.params;
+
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadApprovals = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await db.getPendingApprovals(venueId);
+    if (error) {
+      console.error('Error loading pending approvals:', error);
+    }
+    setApprovals(data || []);
+    setIsLoading(false);
+  }, [venueId]);
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadApprovals();
+    });
+    loadApprovals();
+    return unsubscribe;
+  }, [navigation, loadApprovals]);
+
+  const review = async (approval: PendingApproval, approve: boolean) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setReviewingId(approval.id);
+    const { error } = await db.reviewBooking(approval.id, user.id, approve);
+    setReviewingId(null);
+
+    if (error) {
+      Alert.alert('Error', error.message || 'Could not update this booking.');
+      return;
+    }
+
+    setApprovals(current => current.filter(item => item.id !== approval.id));
+  };
+
+  const confirmReject = (approval: PendingApproval) => {
+    Alert.alert(
+      'Reject Booking',
+      `Reject ${approval.booked_by || 'this player'}'s booking on ${approval.date} at ${approval.time}? The slot is freed and anything paid is refunded.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reject', style: 'destructive', onPress: () => review(approval, false) },
+      ]
+    );
+  };
+
+  return (
+    <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
+      <View style={styles.backgroundOverlay}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Ionicons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Approvals</Text>
+            <Text style={styles.headerSubtitle}>{venueName}</Text>
+          </View>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#4CAF50" style={styles.loader} />
+          ) : approvals.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-done-outline" size={40} color="rgba(255, 255, 255, 0.3)" />
+              <Text style={styles.emptyText}>No bookings waiting for approval</Text>
+            </View>
+          ) : (
+            approvals.map(approval => (
+              <View key={approval.id} style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.pitchName}>{approval.pitch_name}</Text>
+                  <Text style={styles.price}>{formatMoney(approval.price)}</Text>
+                </View>
+                <Text style={styles.detail}>{approval.date} at {approval.time}</Text>
+                <Text style={styles.detail}>Booked by {approval.booked_by || 'Unknown'}</Text>
+
+                {reviewingId === approval.id ? (
+                  <ActivityIndicator color="#4CAF50" style={styles.actions} />
+                ) : (
+                  <View style={styles.actions}>
+                    <TouchableOpacity style={styles.approveButton} onPress={() => review(approval, true)}>
+                      <Ionicons name="checkmark" size={16} color="#fff" />
+                      <Text style={styles.buttonText}>Approve</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.rejectButton} onPress={() => confirmReject(approval)}>
+                      <Ionicons name="close" size={16} color="#fff" />
+                      <Text style={styles.buttonText}>Reject</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </View>
+    </ImageBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backgroundOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerText: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 60,
+  },
+  emptyText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    marginTop: 12,
+  },
+  card: {
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 193, 7, 0.3)',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  pitchName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  price: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#4CAF50',
+  },
+  detail: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginBottom: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  approveButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4CAF50',
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  rejectButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ef4444',
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
+
+export default OperatorApprovalsScreen;
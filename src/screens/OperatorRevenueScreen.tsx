@@ -0,0 +1,282 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ImageBackground,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { OperatorTabParamList } from '../navigation/AppNavigator';
+import { db } from '../lib/supabase';
+import { PitchRevenue } from '../types/operators';
+import { formatMoney, fromMinorUnits, toMinorUnits } from '../utils/money';
+import { addDays } from '../utils/recurrence';
+
+const PERIODS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+];
+
+interface CurrencyTotal {
+  currency: string;
+  bookings: number;
+  charged: number;
+  refunded: number;
+  net: number;
+}
+
+// Pitches can be priced in different currencies, so totals are kept per currency
+const getTotals = (rows: PitchRevenue[]): CurrencyTotal[] => {
+  const totals = new Map<string, CurrencyTotal>();
+  for (const row of rows) {
+    const total = totals.get(row.currency) || { currency: row.currency, bookings: 0, charged: 0, refunded: 0, net: 0 };
+    total.bookings += row.bookings;
+    total.charged = fromMinorUnits(toMinorUnits(total.charged) + toMinorUnits(row.charged));
+    total.refunded = fromMinorUnits(toMinorUnits(total.refunded) + toMinorUnits(row.refunded));
+    total.net = fromMinorUnits(toMinorUnits(total.net) + toMinorUnits(row.net));
+    totals.set(row.currency, total);
+  }
+  return Array.from(totals.values());
+};
+
+const OperatorRevenueScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<OperatorTabParamList, 'OperatorRevenue'>>();
+  const { venueId, venueName } = route.params;
+
+  const [periodDays, setPeriodDays] = useState(PERIODS[0].days);
+  const [revenue, setRevenue] = useState<PitchRevenue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const today = new Date().toISOString().split('T')[0];
+  const startDate = addDays(today, -(periodDays - 1));
+
+  const loadRevenue = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await db.getVenueRevenue(venueId, startDate, today);
+    if (error) {
+      console.error('Error loading venue revenue:', error);
+    }
+    setRevenue(data || []);
+    setIsLoading(false);
+  }, [venueId, startDate, today]);
+
+  useEffect(() => {
+    loadRevenue();
+  }, [loadRevenue]);
+
+  const totals = getTotals(revenue);
+
+  return (
+    <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
+      <View style={styles.backgroundOverlay}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Ionicons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Revenue</Text>
+            <Text style={styles.headerSubtitle}>{venueName}</Text>
+          </View>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.periodRow}>
+            {PERIODS.map(period => (
+              <TouchableOpacity
+                key={period.days}
+                style={[styles.periodButton, periodDays === period.days && styles.periodButtonSelected]}
+                onPress={() => setPeriodDays(period.days)}
+              >
+                <Text style={styles.periodText}>{period.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.rangeText}>Games played {startDate} – {today}</Text>
+
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#4CAF50" style={styles.loader} />
+          ) : (
+            <>
+              {totals.map(total => (
+                <View key={total.currency} style={styles.totalCard}>
+                  <Text style={styles.totalLabel}>Net revenue</Text>
+                  <Text style={styles.totalValue}>{formatMoney({ amount: total.net, currency: total.currency })}</Text>
+                  <View style={styles.totalBreakdown}>
+                    <Text style={styles.breakdownText}>{total.bookings} bookings</Text>
+                    <Text style={styles.breakdownText}>Charged {formatMoney({ amount: total.charged, currency: total.currency })}</Text>
+                    <Text style={styles.breakdownText}>Refunded {formatMoney({ amount: total.refunded, currency: total.currency })}</Text>
+                  </View>
+                </View>
+              ))}
+
+              <Text style={styles.sectionTitle}>By pitch</Text>
+              {revenue.length === 0 ? (
+                <Text style={styles.emptyText}>No pitches at this venue yet.</Text>
+              ) : (
+                revenue.map(row => (
+                  <View key={`${row.pitch_id}-${row.currency}`} style={styles.pitchRow}>
+                    <View style={styles.pitchInfo}>
+                      <Text style={styles.pitchName}>{row.pitch_name}</Text>
+                      <Text style={styles.pitchDetail}>
+                        {row.bookings} bookings
+                        {row.fees > 0 ? ` · ${formatMoney({ amount: row.fees, currency: row.currency })} in fees` : ''}
+                      </Text>
+                    </View>
+                    <Text style={styles.pitchNet}>{formatMoney({ amount: row.net, currency: row.currency })}</Text>
+                  </View>
+                ))
+              )}
+            </>
+          )}
+        </ScrollView>
+      </View>
+    </ImageBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backgroundOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerText: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  periodButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  periodButtonSelected: {
+    backgroundColor: 'rgba(76, 175, 80, 0.3)',
+    borderColor: '#4CAF50',
+  },
+  periodText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rangeText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    marginBottom: 16,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  totalCard: {
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(76, 175, 80, 0.3)',
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  totalValue: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#4CAF50',
+    marginVertical: 6,
+  },
+  totalBreakdown: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  breakdownText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+  },
+  pitchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  pitchInfo: {
+    flex: 1,
+  },
+  pitchName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  pitchDetail: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+  pitchNet: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#fff',
+  },
+});
+
+export default OperatorRevenueScreen;
@@ -0,0 +1,482 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ImageBackground,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { OperatorTabParamList } from '../navigation/AppNavigator';
+import { db } from '../lib/supabase';
+import { Pitch } from '../types/venues';
+import { ScheduleEntry } from '../types/operators';
+import { PitchSchedule, TimeSlot, formatSlotLabel, generateTimeSlots } from '../utils/schedule';
+import { addDays } from '../utils/recurrence';
+import CheckInQRModal from '../components/CheckInQRModal';
+
+type ViewMode = 'day' | 'week';
+
+const BLOCK_REASONS = ['Maintenance', 'Private use'];
+
+const getWeekdayLabel = (dateString: string) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(undefined, { weekday: 'short', timeZone: 'UTC' });
+};
+
+// The booking, match or block covering a slot, if any
+const findEntry = (entries: ScheduleEntry[], date: string, slot: TimeSlot) =>
+  entries.find(entry =>
+    entry.booking_date === date &&
+    entry.time_slot < slot.end &&
+    entry.time_slot + entry.duration_minutes > slot.value
+  ) || null;
+
+const OperatorScheduleScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<OperatorTabParamList, 'OperatorSchedule'>>();
+  const { venueId, venueName } = route.params;
+
+  const today = new Date().toISOString().split('T')[0];
+  const [pitches, setPitches] = useState<Pitch[]>([]);
+  const [selectedPitchId, setSelectedPitchId] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<PitchSchedule | null>(null);
+  const [entries, setEntries] = useState<ScheduleEntry[]>([]);
+  const [mode, setMode] = useState<ViewMode>('day');
+  const [startDate, setStartDate] = useState(today);
+  const [isLoading, setIsLoading] = useState(true);
+  const [checkInGame, setCheckInGame] = useState<{ id: string; title: string } | null>(null);
+
+  const days = mode === 'day' ? [startDate] : Array.from({ length: 7 }, (_, index) => addDays(startDate, index));
+
+  useEffect(() => {
+    const loadPitches = async () => {
+      const { data, error } = await db.getPitches({ venueId });
+      if (error || !data) {
+        console.error('Error loading venue pitches:', error);
+        setIsLoading(false);
+        return;
+      }
+      setPitches(data);
+      setSelectedPitchId(data[0]?.id || null);
+      if (data.length === 0) setIsLoading(false);
+    };
+
+    loadPitches();
+  }, [venueId]);
+
+  const loadSchedule = useCallback(async () => {
+    if (!selectedPitchId) return;
+
+    setIsLoading(true);
+    const endDate = addDays(startDate, days.length - 1);
+    const [scheduleResult, conflictsResult] = await Promise.all([
+      db.getPitchSchedule(selectedPitchId),
+      db.getBookingConflicts(startDate, endDate, selectedPitchId),
+    ]);
+
+    if (scheduleResult.error || conflictsResult.error) {
+      console.error('Error loading operator schedule:', scheduleResult.error || conflictsResult.error);
+    }
+
+    setSchedule(scheduleResult.data);
+    setEntries(conflictsResult.data?.conflicts || []);
+    setIsLoading(false);
+  }, [selectedPitchId, startDate, days.length]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  // Refresh when coming back from the approvals tab
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadSchedule();
+    });
+    return unsubscribe;
+  }, [navigation, loadSchedule]);
+
+  const slotsByDay: Record<string, TimeSlot[]> = {};
+  for (const day of days) {
+    slotsByDay[day] = schedule ? generateTimeSlots(schedule, day) : [];
+  }
+
+  // Rows are every slot start that exists on at least one of the visible days
+  const rows = Array.from(new Set(days.flatMap(day => slotsByDay[day].map(slot => slot.value))))
+    .sort((a, b) => a - b);
+
+  const blockSlot = async (date: string, slot: TimeSlot, reason: string) => {
+    if (!selectedPitchId) return;
+
+    const { data, error } = await db.blockPitchSlot(selectedPitchId, date, slot.value, reason);
+    if (error || !data) {
+      Alert.alert('Error', 'Could not block this slot. Please try again.');
+      return;
+    }
+    if (!data.success) {
+      Alert.alert('Slot Unavailable', data.conflict.message);
+    }
+    loadSchedule();
+  };
+
+  const unblockSlot = async (blockId: string) => {
+    const { data, error } = await db.unblockPitchSlot(blockId);
+    if (error || !data) {
+      Alert.alert('Error', 'Could not unblock this slot. Please try again.');
+      return;
+    }
+    loadSchedule();
+  };
+
+  const handleCellPress = (date: string, slot: TimeSlot, entry: ScheduleEntry | null) => {
+    const when = `${getWeekdayLabel(date)} ${date} at ${slot.label}`;
+
+    if (!entry) {
+      Alert.alert('Block Slot', `Take ${when} out of sale?`, [
+        { text: 'Cancel', style: 'cancel' },
+        ...BLOCK_REASONS.map(reason => ({ text: reason, onPress: () => blockSlot(date, slot, reason) })),
+      ]);
+      return;
+    }
+
+    if (entry.source_type === 'block') {
+      Alert.alert('Blocked', `${when}${entry.block_reason ? `\n${entry.block_reason}` : ''}`, [
+        { text: 'Close', style: 'cancel' },
+        { text: 'Unblock', style: 'destructive', onPress: () => unblockSlot(entry.source_id) },
+      ]);
+      return;
+    }
+
+    if (entry.source_type === 'match') {
+      Alert.alert('League Match', `${when} is reserved for a ranked match.`);
+      return;
+    }
+
+    Alert.alert(
+      entry.status === 'pending_approval' ? 'Waiting for Approval' : 'Booking',
+      `${when}\nBooked by ${entry.booked_by || 'Unknown'}\n${entry.player_count ?? 0} player(s) joined`,
+      entry.status === 'pending_approval'
+        ? undefined
+        : [
+            { text: 'Close', style: 'cancel' },
+            { text: 'Check-in QR', onPress: () => setCheckInGame({ id: entry.source_id, title: when }) },
+          ]
+    );
+  };
+
+  const renderCell = (date: string, slotValue: number) => {
+    const slot = slotsByDay[date].find(candidate => candidate.value === slotValue);
+    if (!slot) {
+      return <View key={date} style={[styles.cell, styles.cellClosed]} />;
+    }
+
+    const entry = findEntry(entries, date, slot);
+    const cellStyle = !entry
+      ? styles.cellFree
+      : entry.source_type === 'block'
+        ? styles.cellBlocked
+        : entry.status === 'pending_approval'
+          ? styles.cellPending
+          : styles.cellBooked;
+
+    let label = '';
+    if (mode === 'day') {
+      label = !entry
+        ? 'Free'
+        : entry.source_type === 'block'
+          ? entry.block_reason || 'Blocked'
+          : entry.source_type === 'match'
+            ? 'League match'
+            : `${entry.booked_by || 'Booked'} · ${entry.player_count ?? 0} players`;
+    }
+
+    return (
+      <TouchableOpacity
+        key={date}
+        style={[styles.cell, cellStyle]}
+        onPress={() => handleCellPress(date, slot, entry)}
+      >
+        {label ? <Text style={styles.cellText} numberOfLines={1}>{label}</Text> : null}
+      </TouchableOpacity>
+    );
+  };
+
+  const rangeLabel = mode === 'day'
+    ? `${getWeekdayLabel(startDate)} ${startDate}`
+    : `${startDate} – ${addDays(startDate, 6)}`;
+
+  return (
+    <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
+      <View style={styles.backgroundOverlay}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Ionicons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Schedule</Text>
+            <Text style={styles.headerSubtitle}>{venueName}</Text>
+          </View>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pitchRow}>
+            {pitches.map(pitch => (
+              <TouchableOpacity
+                key={pitch.id}
+                style={[styles.chip, selectedPitchId === pitch.id && styles.chipSelected]}
+                onPress={() => setSelectedPitchId(pitch.id)}
+              >
+                <Text style={styles.chipText}>{pitch.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <View style={styles.toolbar}>
+            <View style={styles.modeToggle}>
+              {(['day', 'week'] as ViewMode[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.modeButton, mode === option && styles.modeButtonSelected]}
+                  onPress={() => setMode(option)}
+                >
+                  <Text style={styles.modeButtonText}>{option === 'day' ? 'Day' : 'Week'}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.dateNav}>
+              <TouchableOpacity onPress={() => setStartDate(addDays(startDate, -days.length))}>
+                <Ionicons name="chevron-back" size={22} color="#fff" />
+              </TouchableOpacity>
+              <Text style={styles.dateLabel}>{rangeLabel}</Text>
+              <TouchableOpacity onPress={() => setStartDate(addDays(startDate, days.length))}>
+                <Ionicons name="chevron-forward" size={22} color="#fff" />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.legend}>
+            <View style={[styles.legendSwatch, styles.cellFree]} /><Text style={styles.legendText}>Free</Text>
+            <View style={[styles.legendSwatch, styles.cellBooked]} /><Text style={styles.legendText}>Booked</Text>
+            <View style={[styles.legendSwatch, styles.cellPending]} /><Text style={styles.legendText}>Pending</Text>
+            <View style={[styles.legendSwatch, styles.cellBlocked]} /><Text style={styles.legendText}>Blocked</Text>
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#4CAF50" style={styles.loader} />
+          ) : !selectedPitchId ? (
+            <Text style={styles.emptyText}>This venue has no pitches yet.</Text>
+          ) : rows.length === 0 ? (
+            <Text style={styles.emptyText}>The pitch is closed for this period.</Text>
+          ) : (
+            <View style={styles.grid}>
+              {mode === 'week' && (
+                <View style={styles.gridRow}>
+                  <View style={styles.timeColumn} />
+                  {days.map(day => (
+                    <Text key={day} style={styles.dayHeader}>{getWeekdayLabel(day)}</Text>
+                  ))}
+                </View>
+              )}
+              {rows.map(slotValue => (
+                <View key={slotValue} style={styles.gridRow}>
+                  <Text style={styles.timeColumn}>{formatSlotLabel(slotValue)}</Text>
+                  {days.map(day => renderCell(day, slotValue))}
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+
+      <CheckInQRModal
+        visible={!!checkInGame}
+        gameId={checkInGame?.id || null}
+        title={checkInGame?.title || ''}
+        onClose={() => setCheckInGame(null)}
+      />
+    </ImageBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backgroundOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerText: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 2,
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  pitchRow: {
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(76, 175, 80, 0.3)',
+    borderColor: '#4CAF50',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 8,
+  },
+  modeButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  modeButtonSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  modeButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  dateNav: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dateLabel: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginHorizontal: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    marginRight: 4,
+  },
+  legendText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12,
+    marginRight: 12,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  grid: {
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    borderRadius: 12,
+    padding: 8,
+    marginBottom: 30,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  gridRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timeColumn: {
+    width: 64,
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 11,
+  },
+  dayHeader: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  cell: {
+    flex: 1,
+    height: 32,
+    margin: 2,
+    borderRadius: 4,
+    justifyContent: 'center',
+    paddingHorizontal: 6,
+  },
+  cellText: {
+    color: '#fff',
+    fontSize: 12,
+  },
+  cellClosed: {
+    backgroundColor: 'rgba(255, 255, 255, 0.03)',
+  },
+  cellFree: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  cellBooked: {
+    backgroundColor: 'rgba(76, 175, 80, 0.6)',
+  },
+  cellPending: {
+    backgroundColor: 'rgba(255, 193, 7, 0.6)',
+  },
+  cellBlocked: {
+    backgroundColor: 'rgba(239, 68, 68, 0.6)',
+  },
+});
+
+export default OperatorScheduleScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -14,25 +14,37 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { ImageBackground } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { CompositeNavigationProp } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList, TabParamList } from '../navigation/AppNavigator';
 import { supabase, auth, db } from '../lib/supabase';
-import { useAppData } from '../context/AppDataContext';
-
-interface Pitch {
-  id: string;
-  name: string;
-  location: string;
-  price: string;
-}
+import { PublicGameFilters, useAppData } from '../context/AppDataContext';
+import { Pitch, PitchFilters, PitchSize, PitchSurface, PITCH_SURFACE_LABELS } from '../types/venues';
+import { SlotHold } from '../types/bookings';
+import { PitchSchedule, SlotPeriod, SLOT_PERIODS, generateTimeSlots, getClosure, getSlotLabel } from '../utils/schedule';
+import { DEFAULT_CURRENCY, Money, formatMoney, fromMinorUnits, getRowPrice, toMinorUnits } from '../utils/money';
+import { formatDistance } from '../utils/location';
+import { PAYMENT_MODE_LABELS, PaymentMode, calculateShares } from '../utils/payments';
+import { paymentService } from '../services/paymentService';
+import { CreditBalance, PromoCodeCheck, RefundDestination } from '../types/promotions';
+import { AddonSelection, SlotAddon } from '../types/addons';
+import { describeCancellationPolicy, describeCancellationTerms } from '../utils/cancellation';
+import { OpenPositions, PLAYER_POSITIONS, POSITION_LABELS, PlayerPosition, countOpenPositions, describeOpenPositions, isPlayerPosition } from '../utils/positions';
+import { parseJoinCode } from '../utils/joinCodes';
+import { getTakenSpots, isValidGuestEmail } from '../utils/guests';
+import PositionPickerModal from '../components/PositionPickerModal';
+import VenueMapView from '../components/VenueMapView';
+import { GAME_FORMATS, GAME_FORMAT_OPTIONS, GameFormat, MAX_SUBSTITUTES, describeGameFormat, getFormatCapacity, getFormatForPitchSize, getGameCapacity } from '../utils/gameFormats';
+import { PricingRule, SlotPrice, describePriceChange, resolveSlotPrice } from '../utils/pricing';
+import { MAX_SERIES_OCCURRENCES, OccurrenceCheck, SERIES_FREQUENCY_LABELS, SeriesFrequency, SeriesRule, generateSeriesDates, isValidDateString } from '../utils/recurrence';
 
+// A friend without the app, saved on the booking as a guest
 interface BookingMember {
   id: string;
   name: string;
-  email: string;
+  email?: string;
   phone?: string;
 }
 
@@ -43,12 +55,68 @@ interface PublicGame {
   time: string;
   players: number;
   maxPlayers: number;
+  format: GameFormat | null;
+  substitutes: number;
+  matchMinutes: number | null;
+  positionsLeft: OpenPositions;
   createdBy: string;
   status: 'open' | 'full';
   price: string;
   location: string;
+  distanceKm: number | null;
+}
+
+// A chip in the public games filter panel; it's selected when every value it
+// sets matches the current filters
+interface GameFilterOption {
+  label: string;
+  filters: Partial<PublicGameFilters>;
 }
 
+const offsetDate = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const formatPriceOption = (amount: number) => formatMoney({ amount, currency: DEFAULT_CURRENCY });
+
+const SORT_OPTIONS: GameFilterOption[] = [
+  { label: 'Soonest', filters: { sortBy: undefined } },
+  { label: 'Nearest', filters: { sortBy: 'distance' } },
+  { label: 'Cheapest', filters: { sortBy: 'price' } },
+  { label: 'Most spots', filters: { sortBy: 'spots' } },
+];
+
+const RADIUS_OPTIONS: GameFilterOption[] = [
+  { label: 'Any distance', filters: { radiusKm: undefined } },
+  ...[2, 5, 10, 25].map(radiusKm => ({ label: `Within ${radiusKm} km`, filters: { radiusKm } })),
+];
+
+const PRICE_OPTIONS: GameFilterOption[] = [
+  { label: 'Any price', filters: { minPrice: undefined, maxPrice: undefined } },
+  { label: 'Free', filters: { minPrice: undefined, maxPrice: 0 } },
+  { label: `Up to ${formatPriceOption(10)}`, filters: { minPrice: undefined, maxPrice: 10 } },
+  { label: `Up to ${formatPriceOption(25)}`, filters: { minPrice: undefined, maxPrice: 25 } },
+  { label: `${formatPriceOption(25)}+`, filters: { minPrice: 25, maxPrice: undefined } },
+];
+
+const OPEN_SPOT_OPTIONS: GameFilterOption[] = [
+  { label: 'Any spots', filters: { minOpenSpots: undefined } },
+  ...[1, 2, 4].map(minOpenSpots => ({
+    label: `${minOpenSpots}+ spot${minOpenSpots === 1 ? '' : 's'}`,
+    filters: { minOpenSpots },
+  })),
+];
+
+// Built on each render so "Today" stays today
+const getDateOptions = (): GameFilterOption[] => [
+  { label: 'Any day', filters: { dateFrom: undefined, dateTo: undefined } },
+  { label: 'Today', filters: { dateFrom: offsetDate(0), dateTo: offsetDate(0) } },
+  { label: 'Tomorrow', filters: { dateFrom: offsetDate(1), dateTo: offsetDate(1) } },
+  { label: 'Next 7 days', filters: { dateFrom: offsetDate(0), dateTo: offsetDate(6) } },
+];
+
 type PlayScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<TabParamList, 'Play'>,
   StackNavigationProp<RootStackParamList>
@@ -59,30 +127,49 @@ const PlayScreen: React.FC = () => {
   
   // Use global app data for public games
   const { 
+    userProfile,
     publicGames, 
+    publicGameFilters,
+    userLocation,
     userJoinedGames, 
     userCreatedGames,
     refreshPublicGames 
   } = useAppData();
   
-  const [currentStep, setCurrentStep] = useState<'main' | 'details' | 'summary'>('main');
-  const [selectedPitch] = useState<Pitch>({
-    id: '00000000-0000-0000-0000-000000000001',
-    name: 'Central Football Arena',
-    location: 'Downtown District',
-    price: '$25/hour'
-  });
+  const [currentStep, setCurrentStep] = useState<'main' | 'pitch' | 'details' | 'summary'>('main');
+  const [selectedPitch, setSelectedPitch] = useState<Pitch | null>(null);
+  const [pitches, setPitches] = useState<Pitch[]>([]);
+  const [loadingPitches, setLoadingPitches] = useState(false);
+  const [pitchFilters, setPitchFilters] = useState<PitchFilters>({});
+  const [pitchSchedule, setPitchSchedule] = useState<PitchSchedule | null>(null);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [selectedTimeSlot, setSelectedTimeSlot] = useState<number | null>(null);
   const [availableSlots, setAvailableSlots] = useState<number[]>([]);
+  const [heldSlots, setHeldSlots] = useState<number[]>([]);
+  const [slotHold, setSlotHold] = useState<SlotHold | null>(null);
+  const [holdSecondsLeft, setHoldSecondsLeft] = useState(0);
+  const [holdingSlot, setHoldingSlot] = useState<number | null>(null);
+  const slotHoldRef = useRef<SlotHold | null>(null);
   const [loadingSlots, setLoadingSlots] = useState(false);
   const [showMemberModal, setShowMemberModal] = useState(false);
   const [members, setMembers] = useState<BookingMember[]>([]);
   const [newMemberName, setNewMemberName] = useState('');
   const [newMemberEmail, setNewMemberEmail] = useState('');
   const [newMemberPhone, setNewMemberPhone] = useState('');
+  const [guestError, setGuestError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isPublic, setIsPublic] = useState(true);
+  const [gameFormat, setGameFormat] = useState<GameFormat>('5_a_side');
+  const [substitutes, setSubstitutes] = useState(GAME_FORMATS['5_a_side'].substitutes);
+  const [openPositions, setOpenPositions] = useState<OpenPositions>({});
+  const [positionPickerGame, setPositionPickerGame] = useState<PublicGame | null>(null);
+  const [showJoinCodeModal, setShowJoinCodeModal] = useState(false);
+  const [showGameFilters, setShowGameFilters] = useState(false);
+  const [publicGamesView, setPublicGamesView] = useState<'list' | 'map'>('list');
+  const [mapRefreshKey, setMapRefreshKey] = useState(0);
+  const [joinCodeInput, setJoinCodeInput] = useState('');
+  const [joinCodeError, setJoinCodeError] = useState('');
   const [joiningGame, setJoiningGame] = useState<string | null>(null);
   const [showErrorModal, setShowErrorModal] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
@@ -92,12 +179,31 @@ const PlayScreen: React.FC = () => {
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [gameToCancel, setGameToCancel] = useState<string | null>(null);
   const [cancelingGame, setCancelingGame] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelTerms, setCancelTerms] = useState<string | null>(null);
   // Invite-by-username states
   const [inviteUsername, setInviteUsername] = useState('');
   const [inviteSearchResults, setInviteSearchResults] = useState<Array<{ id: string; username: string; full_name: string }>>([]);
   const [inviteSearching, setInviteSearching] = useState(false);
   const [inviteError, setInviteError] = useState('');
   const [invitedUsers, setInvitedUsers] = useState<Array<{ id: string; username: string; full_name: string }>>([]);
+  const [repeatFrequency, setRepeatFrequency] = useState<SeriesFrequency | null>(null);
+  const [repeatEndMode, setRepeatEndMode] = useState<'count' | 'date'>('count');
+  const [repeatCount, setRepeatCount] = useState(4);
+  const [repeatEndDate, setRepeatEndDate] = useState('');
+  const [seriesPreview, setSeriesPreview] = useState<OccurrenceCheck[] | null>(null);
+  const [checkingSeries, setCheckingSeries] = useState(false);
+  const [paymentMode, setPaymentMode] = useState<PaymentMode>('organizer_pays');
+  const [perPlayerFee, setPerPlayerFee] = useState('');
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<Extract<PromoCodeCheck, { valid: true }> | null>(null);
+  const [promoError, setPromoError] = useState('');
+  const [checkingPromo, setCheckingPromo] = useState(false);
+  const [creditBalances, setCreditBalances] = useState<CreditBalance[]>([]);
+  const [useCredit, setUseCredit] = useState(false);
+  const [cancelRefundTo, setCancelRefundTo] = useState<RefundDestination>('original');
+  const [slotAddons, setSlotAddons] = useState<SlotAddon[]>([]);
+  const [addonQuantities, setAddonQuantities] = useState<Record<string, number>>({});
 
   const showError = (message: string) => {
     setErrorMessage(message);
@@ -117,11 +223,24 @@ const PlayScreen: React.FC = () => {
     setShowBookingSuccessModal(false);
     setBookingDetails('');
     setCurrentStep('main');
+    setSelectedPitch(null);
     setSelectedDate('');
     setSelectedTimeSlot(null);
     setMembers([]);
     setAvailableSlots([]);
+    setHeldSlots([]);
     setInvitedUsers([]);
+    setRepeatFrequency(null);
+    setRepeatEndMode('count');
+    setRepeatCount(4);
+    setRepeatEndDate('');
+    setSeriesPreview(null);
+    setPaymentMode('organizer_pays');
+    setPerPlayerFee('');
+    setPromoInput('');
+    setAppliedPromo(null);
+    setUseCredit(false);
+    setAddonQuantities({});
     
     try {
       // Refresh public games to show the new match and update user's created/joined status
@@ -132,9 +251,18 @@ const PlayScreen: React.FC = () => {
     }
   };
 
-  const handleCancelGame = (gameId: string) => {
+  const handleCancelGame = async (gameId: string) => {
     setGameToCancel(gameId);
+    setCancelReason('');
+    setCancelTerms(null);
+    setCancelRefundTo('original');
     setShowCancelModal(true);
+
+    // Show what cancelling now will cost before the organizer confirms
+    const { data } = await db.getBookingCancellationTerms(gameId);
+    if (data) {
+      setCancelTerms(`${describeCancellationTerms(data.terms)} ${describeCancellationPolicy(data.policy)}.`);
+    }
   };
 
   const handleConfirmCancelGame = async () => {
@@ -148,26 +276,12 @@ const PlayScreen: React.FC = () => {
         return;
       }
 
-      // Delete the game and all its members
-      const { error: deleteMembersError } = await supabase
-        .from('game_members')
-        .delete()
-        .eq('game_id', gameToCancel);
-
-      if (deleteMembersError) {
-        console.error('Error deleting game members:', deleteMembersError);
-        showError('Failed to cancel the game. Please try again.');
-        return;
-      }
-
-      const { error: deleteGameError } = await supabase
-        .from('bookings')
-        .delete()
-        .eq('id', gameToCancel)
-        .eq('created_by', user.id); // Ensure only the creator can delete
-
-      if (deleteGameError) {
-        console.error('Error deleting game:', deleteGameError);
+      // Keeps the booking as cancelled, frees the slot, settles payments and notifies players
+      const { error } = await db.cancelBooking(gameToCancel, user.id, cancelReason.trim() || 'Cancelled by the organizer', {
+        refundTo: cancelRefundTo,
+      });
+      if (error) {
+        console.error('Error cancelling game:', error);
         showError('Failed to cancel the game. Please try again.');
         return;
       }
@@ -224,18 +338,20 @@ const PlayScreen: React.FC = () => {
     return dates;
   };
 
-  const getTimeSlots = () => {
-    return [
-      { value: 18, label: '6:00 PM', period: 'Evening' },
-      { value: 19, label: '7:00 PM', period: 'Evening' },
-      { value: 20, label: '8:00 PM', period: 'Evening' },
-      { value: 21, label: '9:00 PM', period: 'Night' },
-      { value: 22, label: '10:00 PM', period: 'Night' },
-      { value: 23, label: '11:00 PM', period: 'Night' },
-      { value: 24, label: '12:00 AM', period: 'Late Night' },
-      { value: 25, label: '1:00 AM', period: 'Late Night' },
-      { value: 26, label: '2:00 AM', period: 'Late Night' },
-    ];
+  // Slots offered by the selected pitch on the selected date
+  const getTimeSlots = (date: string = selectedDate) => {
+    if (!pitchSchedule) return [];
+    return generateTimeSlots(pitchSchedule, date || undefined);
+  };
+
+  const getScheduledSlotValues = (date: string) => getTimeSlots(date).map(slot => slot.value);
+
+  const periodIcons: Record<SlotPeriod, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
+    'Morning': { name: 'partly-sunny', color: '#FFC107' },
+    'Afternoon': { name: 'sunny', color: '#FF9800' },
+    'Evening': { name: 'cloudy-night', color: '#FF7043' },
+    'Night': { name: 'moon', color: '#4A90E2' },
+    'Late Night': { name: 'star', color: '#9B59B6' },
   };
 
   const getDateDisplayText = (dateString: string) => {
@@ -247,30 +363,211 @@ const PlayScreen: React.FC = () => {
     });
   };
 
-  // Load available time slots for selected date
+  const getPitchSummary = (pitch: Pitch) => {
+    const setting = pitch.is_indoor ? 'Indoor' : 'Outdoor';
+    return `${pitch.size}-a-side · ${PITCH_SURFACE_LABELS[pitch.surface]} · ${setting}`;
+  };
+
+  // Load the pitch catalog for the current filters
+  const loadPitches = async (filters: PitchFilters) => {
+    setLoadingPitches(true);
+    try {
+      const { data, error } = await db.getPitches(filters);
+      if (error) {
+        console.error('Error loading pitches:', error);
+      }
+      setPitches(data);
+    } catch (error) {
+      console.error('Exception loading pitches:', error);
+      setPitches([]);
+    } finally {
+      setLoadingPitches(false);
+    }
+  };
+
+  // Picking a format resets the substitutes to what it usually plays with
+  const selectGameFormat = (format: GameFormat) => {
+    setGameFormat(format);
+    setSubstitutes(GAME_FORMATS[format].substitutes);
+    setOpenPositions({});
+  };
+
+  // Open positions can take every spot except the organizer's
+  const changeOpenPosition = (position: PlayerPosition, delta: number) => {
+    const current = openPositions[position] || 0;
+    const spare = getFormatCapacity(gameFormat, substitutes) - 1 - countOpenPositions(openPositions);
+    const next = Math.max(0, current + Math.min(delta, spare));
+    setOpenPositions({ ...openPositions, [position]: next });
+  };
+
+  const updatePitchFilters = (updates: Partial<PitchFilters>) => {
+    const nextFilters = { ...pitchFilters, ...updates };
+    setPitchFilters(nextFilters);
+    loadPitches(nextFilters);
+  };
+
+  // The map sheet's Book button starts the booking flow on today's slots
+  const handleBookFromMap = (pitch: Pitch) => {
+    handleSelectPitch(pitch);
+    setSelectedDate(new Date().toISOString().split('T')[0]);
+  };
+
+  const handleSelectPitch = async (pitch: Pitch) => {
+    releaseSlotHold();
+    setSelectedPitch(pitch);
+    selectGameFormat(getFormatForPitchSize(pitch.size));
+    setSelectedDate('');
+    setSelectedTimeSlot(null);
+    setAvailableSlots([]);
+    setPitchSchedule(null);
+    setPricingRules([]);
+    setCurrentStep('details');
+
+    setLoadingSlots(true);
+    try {
+      const [scheduleResult, pricingResult] = await Promise.all([
+        db.getPitchSchedule(pitch.id),
+        db.getPitchPricingRules(pitch.id),
+      ]);
+      if (scheduleResult.error) {
+        console.error('Error loading pitch schedule:', scheduleResult.error);
+        showError('Failed to load the opening hours for this pitch. Please try again.');
+        return;
+      }
+      setPitchSchedule(scheduleResult.data);
+      if (pricingResult.error) {
+        // Fall back to the base price; the server still applies the rules when booking
+        console.error('Error loading pricing rules:', pricingResult.error);
+      }
+      setPricingRules(pricingResult.data || []);
+    } catch (error) {
+      console.error('Exception loading pitch schedule:', error);
+    } finally {
+      setLoadingSlots(false);
+    }
+  };
+
+  // Load available time slots for selected date on the selected pitch
   const loadAvailableSlots = async (date: string) => {
+    if (!selectedPitch) return;
+
     setLoadingSlots(true);
     try {
-      console.log('Loading available slots for date:', date);
-      const { data, error } = await db.getAvailableTimeSlots(date);
+      console.log('Loading available slots for date:', date, 'pitch:', selectedPitch.id);
+      const { data, error } = await db.getAvailableTimeSlotsWithValidation(date, selectedPitch.id);
       if (error) {
         console.error('Error loading available slots:', error);
-        // Fallback to all slots if error
-        setAvailableSlots([18, 19, 20, 21, 22, 23, 24, 25, 26]);
+        // Fallback to the pitch schedule if error
+        setAvailableSlots(getScheduledSlotValues(date));
+        setHeldSlots([]);
       } else {
         console.log('Available slots data:', data);
-        const slots = data?.available_slots || [18, 19, 20, 21, 22, 23, 24, 25, 26];
+        const slots = data?.available_slots || getScheduledSlotValues(date);
         console.log('Setting available slots:', slots);
         setAvailableSlots(slots);
+        setHeldSlots(data?.held_slots || []);
       }
     } catch (error) {
       console.error('Exception loading available slots:', error);
-      setAvailableSlots([18, 19, 20, 21, 22, 23, 24, 25, 26]);
+      setAvailableSlots(getScheduledSlotValues(date));
+      setHeldSlots([]);
     } finally {
       setLoadingSlots(false);
     }
   };
 
+  // Slot holds: picking a time reserves it for a few minutes while the user checks out
+  const releaseSlotHold = async () => {
+    const hold = slotHoldRef.current;
+    slotHoldRef.current = null;
+    setSlotHold(null);
+    if (hold) {
+      const { error } = await db.releaseSlotHold(hold.id);
+      if (error) {
+        console.error('Error releasing slot hold:', error);
+      }
+    }
+  };
+
+  const handleSelectTimeSlot = async (timeSlot: number) => {
+    if (!selectedPitch || !selectedDate) return;
+
+    setHoldingSlot(timeSlot);
+    try {
+      const { data: result, error } = await db.holdSlot(selectedPitch.id, selectedDate, timeSlot);
+      if (error || !result) {
+        console.error('Error holding slot:', error);
+        showError('Failed to reserve this time slot. Please try again.');
+        return;
+      }
+
+      if (!result.success) {
+        showError(result.conflict.message);
+        loadAvailableSlots(selectedDate);
+        return;
+      }
+
+      // The server drops any previous hold of ours when placing a new one
+      slotHoldRef.current = result.hold;
+      setSlotHold(result.hold);
+      setSelectedTimeSlot(timeSlot);
+    } catch (error) {
+      console.error('Exception holding slot:', error);
+      showError('Failed to reserve this time slot. Please try again.');
+    } finally {
+      setHoldingSlot(null);
+    }
+  };
+
+  const handleHoldExpired = () => {
+    slotHoldRef.current = null;
+    setSlotHold(null);
+    setSelectedTimeSlot(null);
+    setCurrentStep(step => (step === 'summary' ? 'details' : step));
+    showError('Your hold on this time slot has expired. Please pick a time again.');
+    if (selectedDate) {
+      loadAvailableSlots(selectedDate);
+    }
+  };
+
+  const formatCountdown = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+  };
+
+  // Tick the hold countdown and drop the selection when it runs out
+  useEffect(() => {
+    if (!slotHold) {
+      setHoldSecondsLeft(0);
+      return;
+    }
+
+    const tick = () => {
+      const seconds = Math.max(0, Math.round((new Date(slotHold.expires_at).getTime() - Date.now()) / 1000));
+      setHoldSecondsLeft(seconds);
+      if (seconds === 0) {
+        clearInterval(interval);
+        handleHoldExpired();
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(interval);
+  }, [slotHold]);
+
+  // Leaving the screen gives the slot back
+  useFocusEffect(
+    useCallback(() => {
+      return () => {
+        if (slotHoldRef.current) {
+          releaseSlotHold();
+          setSelectedTimeSlot(null);
+        }
+      };
+    }, [])
+  );
+
   // Public games loading state (data comes from global context)
   const [loadingPublicGames, setLoadingPublicGames] = useState(false);
 
@@ -281,22 +578,43 @@ const PlayScreen: React.FC = () => {
   }, [publicGames]);
 
 
+  // A promo discount was worked out for one slot's price, and add-on stock is per slot
+  useEffect(() => {
+    setAppliedPromo(null);
+    setPromoError('');
+    setAddonQuantities({});
+  }, [selectedPitch?.id, selectedDate, selectedTimeSlot]);
+
+  useEffect(() => {
+    if (currentStep === 'summary') {
+      loadSlotAddons();
+    }
+  }, [currentStep, selectedPitch?.id, selectedDate, selectedTimeSlot]);
+
+  // Credit can pay towards the booking from the summary step
+  useEffect(() => {
+    if (currentStep !== 'summary') return;
+    db.getCreditBalances().then(({ data }) => setCreditBalances(data || []));
+  }, [currentStep]);
+
   // Load available slots when date changes
   useEffect(() => {
     if (selectedDate) {
       loadAvailableSlots(selectedDate);
     } else {
-      // Initialize with all slots available if no date selected
-      setAvailableSlots([18, 19, 20, 21, 22, 23, 24, 25, 26]);
+      // Nothing can be booked until a date is picked
+      setAvailableSlots([]);
     }
   }, [selectedDate]);
 
   const handleCreateMatch = () => {
-    setCurrentStep('details');
+    setCurrentStep('pitch');
+    setSelectedPitch(null);
     setSelectedDate('');
     setSelectedTimeSlot(null);
-    // Initialize with all slots available when creating a match
-    setAvailableSlots([18, 19, 20, 21, 22, 23, 24, 25, 26]);
+    loadPitches(pitchFilters);
+    setPitchSchedule(null);
+    setAvailableSlots([]);
   };
 
   // Load public games from database
@@ -315,11 +633,17 @@ const PlayScreen: React.FC = () => {
           date,
           time,
           price,
+          price_amount,
+          price_currency,
           created_by,
           max_players,
+          game_format,
+          substitutes,
+          match_minutes,
           is_public
         `)
         .eq('is_public', true)
+        .not('status', 'in', '(skipped,cancelled,rejected,pending_approval)')
         .gte('date', new Date().toISOString().split('T')[0]) // Only future dates
         .order('date', { ascending: true })
         .order('time', { ascending: true });
@@ -364,7 +688,9 @@ const PlayScreen: React.FC = () => {
               }
             }
           }
-          const maxPlayers = booking.max_players || 8;
+          // Guests without the app hold spots too
+          memberCount = getTakenSpots(memberCount, booking);
+          const maxPlayers = getGameCapacity(booking);
 
           // Get creator's name
           let creatorName = 'Unknown';
@@ -389,9 +715,13 @@ const PlayScreen: React.FC = () => {
             time: booking.time,
             players: memberCount,
             maxPlayers: maxPlayers,
+            format: booking.game_format || null,
+            substitutes: booking.substitutes || 0,
+            matchMinutes: booking.match_minutes || null,
+            positionsLeft: {},
             createdBy: creatorName,
             status: (memberCount >= maxPlayers ? 'full' : 'open') as 'open' | 'full',
-            price: booking.price,
+            price: formatMoney(getRowPrice(booking)),
             location: booking.pitch_location,
           };
         })
@@ -408,10 +738,20 @@ const PlayScreen: React.FC = () => {
 
 
   const handleConfirmBooking = () => {
+    setSeriesPreview(null);
     setCurrentStep('summary');
   };
 
-  const handleJoinGame = async (gameId: string) => {
+  // Games with open positions ask the player which one they're taking
+  const handleJoinPress = (game: PublicGame) => {
+    if (countOpenPositions(game.positionsLeft) > 0) {
+      setPositionPickerGame(game);
+      return;
+    }
+    handleJoinGame(game.id);
+  };
+
+  const handleJoinGame = async (gameId: string, position: PlayerPosition | null = null) => {
     setJoiningGame(gameId);
     
     try {
@@ -422,7 +762,7 @@ const PlayScreen: React.FC = () => {
       }
 
       // Join the game using the database
-      const { data, error } = await db.joinGame(gameId, user.id, 'player');
+      const { data, error } = await db.joinGame(gameId, position);
       
       if (error) {
         showError(error.message || 'Failed to join the game. Please try again.');
@@ -467,13 +807,66 @@ const PlayScreen: React.FC = () => {
     return 'Open';
   };
 
+  const isGameFilterSelected = (option: GameFilterOption) =>
+    (Object.keys(option.filters) as Array<keyof PublicGameFilters>).every(key => publicGameFilters[key] === option.filters[key]);
+
+  // Sort, distance, date, price and spot filters currently narrowing the list
+  const activeGameFilterCount = [SORT_OPTIONS, RADIUS_OPTIONS, getDateOptions(), PRICE_OPTIONS, OPEN_SPOT_OPTIONS]
+    .filter(options => !isGameFilterSelected(options[0]))
+    .length;
+
+  const renderGameFilterRow = (label: string, options: GameFilterOption[]) => (
+    <View style={styles.gameFilterGroup}>
+      <Text style={styles.gameFilterLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.filterChip, isGameFilterSelected(option) && styles.filterChipActive]}
+            onPress={() => refreshPublicGames({ ...publicGameFilters, ...option.filters })}
+          >
+            <Text style={[styles.filterChipText, isGameFilterSelected(option) && styles.filterChipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
   const getGameStatusColor = (game: PublicGame) => {
     if (game.status === 'full') return '#ff6b6b';
     if (game.players >= game.maxPlayers - 2) return '#ffa726';
     return '#4CAF50';
   };
 
+  // Full games take a waitlist instead of a direct join
+  const canJoinWaitlist = (game: PublicGame) =>
+    (game.status === 'full' || game.players >= game.maxPlayers) && !userJoinedGames.has(game.id) && !userCreatedGames.has(game.id);
+
+  const handleJoinWaitlist = async (gameId: string) => {
+    setJoiningGame(gameId);
+    try {
+      const { error } = await db.joinWaitlist(gameId);
+      if (error) {
+        showError(error.message || 'Failed to join the waitlist. Please try again.');
+        return;
+      }
+
+      // The details screen shows the user's place in the queue
+      navigation.navigate('GameDetails', { gameId });
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      showError('Failed to join the waitlist. Please try again.');
+    } finally {
+      setJoiningGame(null);
+    }
+  };
+
   const getJoinButtonText = (game: PublicGame) => {
+    if (canJoinWaitlist(game)) {
+      return 'Join Waitlist';
+    }
     if (game.status === 'full' || game.players >= game.maxPlayers) {
       return 'Game Full';
     }
@@ -486,151 +879,406 @@ const PlayScreen: React.FC = () => {
     return 'Join Game';
   };
 
-  const handleFinalConfirm = async () => {
-    if (!selectedDate || selectedTimeSlot === null) {
-      showError('Please complete all booking details');
-      return;
+  // Build the recurrence rule from the repeat options, or null for a one-off booking
+  const getSeriesRule = (): SeriesRule | null => {
+    if (!repeatFrequency || !selectedDate) return null;
+    return {
+      frequency: repeatFrequency,
+      start_date: selectedDate,
+      end_date: repeatEndMode === 'date' ? repeatEndDate : null,
+      occurrence_count: repeatEndMode === 'count' ? repeatCount : null,
+    };
+  };
+
+  const updateRepeatOptions = (updates: () => void) => {
+    updates();
+    setSeriesPreview(null);
+  };
+
+  // Validate every date of the series up front so clashes are visible before booking
+  const checkSeriesDates = async (): Promise<OccurrenceCheck[] | null> => {
+    const rule = getSeriesRule();
+    if (!rule || !selectedPitch || selectedTimeSlot === null) return null;
+
+    if (rule.end_date !== null && (!isValidDateString(repeatEndDate) || repeatEndDate < selectedDate)) {
+      showError('Please enter an end date (YYYY-MM-DD) after the first match');
+      return null;
     }
 
-    setIsLoading(true);
+    setCheckingSeries(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        showError('Please log in to create a booking');
-        return;
+      const { data, error } = await db.previewBookingSeries(generateSeriesDates(rule), selectedTimeSlot, selectedPitch.id);
+      if (error || !data) {
+        console.error('Error checking series dates:', error);
+        showError('Failed to check the repeat dates. Please try again.');
+        return null;
       }
+      setSeriesPreview(data);
+      return data;
+    } catch (error) {
+      console.error('Exception checking series dates:', error);
+      showError('Failed to check the repeat dates. Please try again.');
+      return null;
+    } finally {
+      setCheckingSeries(false);
+    }
+  };
 
-      // Get the time label for display
-      const selectedTimeLabel = getTimeSlots().find(slot => slot.value === selectedTimeSlot)?.label || 'Unknown';
+  const parsedPerPlayerFee = perPlayerFee ? Number(perPlayerFee) : null;
 
-      // First, check if the time slot is already booked
-      const { data: availabilityData, error: availabilityError } = await db.checkPitchAvailability(selectedDate, selectedTimeSlot);
-      
-      if (availabilityError) {
-        console.error('Error checking availability:', availabilityError);
-        showError('Failed to check pitch availability. Please try again.');
+  // Price of a slot on the selected date after the pitch's pricing rules
+  const getSlotPrice = (timeSlot: number, date: string = selectedDate): SlotPrice | null => {
+    if (!selectedPitch) return null;
+    return resolveSlotPrice(selectedPitch.price, pricingRules, date, timeSlot);
+  };
+
+  const selectedSlotPrice = selectedTimeSlot !== null ? getSlotPrice(selectedTimeSlot) : null;
+
+  const loadSlotAddons = async () => {
+    if (!selectedPitch || !selectedDate || selectedTimeSlot === null) {
+      setSlotAddons([]);
+      return;
+    }
+    const { data, error } = await db.getSlotAddons(selectedPitch.id, selectedDate, selectedTimeSlot);
+    if (error) {
+      console.error('Error loading add-ons:', error);
+    }
+    const addons = data || [];
+    setSlotAddons(addons);
+    // Someone else may have taken what was picked
+    setAddonQuantities(current => {
+      const next: Record<string, number> = {};
+      for (const addon of addons) {
+        if (current[addon.id]) next[addon.id] = Math.min(current[addon.id], getAddonLimit(addon));
+      }
+      return next;
+    });
+  };
+
+  // Most you can pick of an add-on: its per-booking limit, or whatever stock is left
+  const getAddonLimit = (addon: SlotAddon) =>
+    addon.available === null ? addon.max_per_booking : Math.min(addon.max_per_booking, addon.available);
+
+  const changeAddonQuantity = (addon: SlotAddon, change: number) => {
+    setAddonQuantities(current => {
+      const quantity = Math.max(0, Math.min((current[addon.id] || 0) + change, getAddonLimit(addon)));
+      return { ...current, [addon.id]: quantity };
+    });
+  };
+
+  const getAddonSelections = (): AddonSelection[] =>
+    slotAddons
+      .filter(addon => (addonQuantities[addon.id] || 0) > 0)
+      .map(addon => ({ addon_id: addon.id, quantity: addonQuantities[addon.id] }));
+
+  const addonsMinor = slotAddons.reduce(
+    (sum, addon) => sum + toMinorUnits(addon.price.amount) * (addonQuantities[addon.id] || 0),
+    0
+  );
+
+  // Promo codes and credit only apply to single bookings
+  const canUseDiscounts = !repeatFrequency;
+
+  // What the booking costs after the promo discount and with add-ons.
+  // The discount only comes off the slot itself, like on the server.
+  const getBookingTotal = (): Money | null => {
+    if (!selectedPitch) return null;
+    const price = selectedSlotPrice?.price || selectedPitch.price;
+    const discountMinor = appliedPromo && canUseDiscounts ? toMinorUnits(appliedPromo.discount.amount) : 0;
+    const minor = Math.max(toMinorUnits(price.amount) - discountMinor, 0) + addonsMinor;
+    return { amount: fromMinorUnits(minor), currency: price.currency };
+  };
+
+  const bookingTotal = getBookingTotal();
+  const availableCredit = bookingTotal
+    ? creditBalances.find(balance => balance.currency === bookingTotal.currency)?.balance || 0
+    : 0;
+
+  // The organizer's first share: the whole price, or the fee when players pay per head
+  const getCreditToApply = () => {
+    if (!useCredit || !canUseDiscounts || !bookingTotal) return 0;
+    const share = paymentMode === 'per_player' ? parsedPerPlayerFee || 0 : bookingTotal.amount;
+    return Math.min(availableCredit, share);
+  };
+
+  const creditToApply = getCreditToApply();
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim().toUpperCase();
+    if (!code || !selectedPitch) return;
+
+    setCheckingPromo(true);
+    setPromoError('');
+    try {
+      const { data, error } = await db.validatePromoCode(code, selectedPitch.id, selectedSlotPrice?.price || selectedPitch.price);
+      if (error || !data) {
+        setPromoError('Could not check this code. Please try again.');
         return;
       }
+      if (!data.valid) {
+        setAppliedPromo(null);
+        setPromoError(data.message);
+        return;
+      }
+      setAppliedPromo(data);
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setAppliedPromo(null);
+    setPromoInput('');
+    setPromoError('');
+  };
+
+  // Show what each player can expect to pay once the game fills up
+  const getPaymentPreview = () => {
+    if (!selectedPitch || !bookingTotal) return '';
+    const price = bookingTotal;
+    if (paymentMode === 'organizer_pays') {
+      return `You pay ${formatMoney(price)}, players join for free`;
+    }
+    if (paymentMode === 'per_player') {
+      return parsedPerPlayerFee
+        ? `Every player pays ${formatMoney({ amount: parsedPerPlayerFee, currency: price.currency })}`
+        : 'Enter the fee each player pays';
+    }
+    const fullGame = Array.from({ length: getFormatCapacity(gameFormat, substitutes) }, (_, index) => (index === 0 ? 'organizer' : `player-${index}`));
+    const share = calculateShares('split_equally', price, fullGame, 'organizer').find(item => item.user_id !== 'organizer');
+    return `${formatMoney(price)} split between players, ${formatMoney({ amount: share?.amount || 0, currency: price.currency })} each with a full game`;
+  };
+
+  const validatePaymentOptions = () => {
+    if (paymentMode === 'per_player' && (!parsedPerPlayerFee || isNaN(parsedPerPlayerFee))) {
+      showError('Please enter the fee each player pays');
+      return false;
+    }
+    return true;
+  };
 
-      if (!availabilityData?.available) {
-        showError('This time slot is already booked. Please select another time or date.');
+  const handleCreateSeries = async () => {
+    const rule = getSeriesRule();
+    if (!rule || !selectedPitch || selectedTimeSlot === null) return;
+
+    const occurrences = seriesPreview || await checkSeriesDates();
+    if (!occurrences) return;
+
+    const bookableDates = occurrences.filter(occurrence => occurrence.valid).map(occurrence => occurrence.date);
+    if (bookableDates.length === 0) {
+      showError('None of the repeat dates are available. Please pick another time.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        showError('Please log in to create a booking');
         return;
       }
 
-      // Create booking data
+      const selectedTimeLabel = getSlotLabel(selectedTimeSlot);
       const bookingData = {
         pitch_id: selectedPitch.id,
-        pitch_name: selectedPitch.name,
-        pitch_location: selectedPitch.location,
-        date: selectedDate,
+        venue_id: selectedPitch.venue_id,
         time: selectedTimeLabel,
-        booking_date: selectedDate, // For pitch booking system
-        time_slot: selectedTimeSlot, // For pitch booking system
-        price: selectedPitch.price,
+        time_slot: selectedTimeSlot,
+        payment_mode: paymentMode,
+        per_player_fee: paymentMode === 'per_player' ? parsedPerPlayerFee : null,
+        addons: getAddonSelections(),
         created_by: user.id,
-        max_players: 8, // Default max players
+        game_format: gameFormat,
+        substitutes,
+        match_minutes: GAME_FORMATS[gameFormat].matchMinutes,
+        open_positions: openPositions,
+        max_players: getFormatCapacity(gameFormat, substitutes),
         is_public: isPublic,
-        status: 'confirmed',
-        created_at: new Date().toISOString(),
       };
 
-      console.log('Creating booking with data:', bookingData);
-
-      const { data: newBooking, error } = await supabase
-        .from('bookings')
-        .insert([bookingData])
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error creating booking:', error);
-        showError('Failed to create booking. Please try again.');
+      const { data, error } = await db.createBookingSeries(rule, bookingData, bookableDates);
+      if (error || !data) {
+        console.error('Error creating booking series:', error);
+        showError('Failed to create the recurring booking. Please try again.');
         return;
       }
 
-      if (!newBooking) {
-        showError('Failed to create booking. Please try again.');
+      if (data.created.length === 0) {
+        showError('None of the repeat dates could be booked. Please try again.');
         return;
       }
 
-      console.log('Booking created successfully:', newBooking.id);
-
-      // Add to centralized pitch booking system
-      if (newBooking) {
-        const { error: pitchBookingError } = await db.addPitchBooking(
-          selectedDate,
-          selectedTimeSlot,
-          'booking',
-          newBooking.id,
-          selectedPitch.id
-        );
-
-        if (pitchBookingError) {
-          console.error('Error adding pitch booking:', pitchBookingError);
-          console.error('Booking ID that failed:', newBooking.id);
-          // Clean up the booking if pitch booking fails
-          const { error: cleanupError } = await supabase.from('bookings').delete().eq('id', newBooking.id);
-          if (cleanupError) {
-            console.error('Error cleaning up failed booking:', cleanupError);
-          }
-          showError('Failed to reserve the pitch. Please try again.');
-          return;
-        } else {
-          console.log('Pitch booking added successfully');
+      slotHoldRef.current = null;
+      setSlotHold(null);
+
+      for (const created of data.created) {
+        await paymentService.syncShares(created.booking_id);
+      }
+
+      // Guests are saved on the first match, like invitations
+      if (members.length > 0) {
+        const { error: guestsError } = await db.addGameGuests(data.created[0].booking_id, user.id, members);
+        if (guestsError) {
+          console.error('Error adding guests:', guestsError);
         }
       }
 
-      // Add the creator as the first member
-      if (newBooking) {
-        const { error: memberError } = await supabase
-          .from('game_members')
-          .insert({
-            game_id: newBooking.id,
-            user_id: user.id,
-            role: 'organizer',
-            status: 'joined'
+      // Invitations go out for the first match of the series
+      if (invitedUsers.length > 0) {
+        const { gameInvitationService } = await import('../services/gameInvitationService');
+        const first = data.created[0];
+        for (const target of invitedUsers) {
+          const result = await gameInvitationService.sendGameInvitation(target.id, user.id, {
+            gameTitle: selectedPitch.name || 'Football Match',
+            gameDate: first.date,
+            gameTime: selectedTimeLabel,
+            pitchName: selectedPitch.name || 'Football Match',
+            pitchLocation: selectedPitch.venue?.location || '',
+            inviterName: user.user_metadata?.full_name || user.email || 'Someone',
+            gameId: first.booking_id
           });
-
-        if (memberError) {
-          console.error('Error adding creator to game:', memberError);
-          console.error('Booking ID that failed member creation:', newBooking.id);
-          // Clean up both booking and pitch booking if member creation fails
-          const { error: pitchCleanupError } = await db.removePitchBooking('booking', newBooking.id);
-          if (pitchCleanupError) {
-            console.error('Error cleaning up pitch booking:', pitchCleanupError);
+          if (!result.success) {
+            console.error('Error sending invite to', target.username, result.error);
           }
-          const { error: bookingCleanupError } = await supabase.from('bookings').delete().eq('id', newBooking.id);
-          if (bookingCleanupError) {
-            console.error('Error cleaning up booking:', bookingCleanupError);
-          }
-          showError('Failed to create booking. Please try again.');
-          return;
-        } else {
-          console.log('Creator added to game successfully');
         }
       }
 
-      // The newly created game will be reflected when we refresh the public games
-      console.log('Booking created with ID:', newBooking.id);
+      const clashes = occurrences.filter(occurrence => !occurrence.valid).map(occurrence => occurrence.date);
+      const failed = [...clashes, ...data.failed.map(item => item.date)];
+      const skippedText = failed.length > 0
+        ? ` Not booked: ${failed.map(date => getDateDisplayText(date)).join(', ')}.`
+        : '';
 
-      // Send invitations to selected users (if any)
-      if (newBooking && invitedUsers.length > 0) {
-        const gameTitle = selectedPitch.name || 'Football Match';
-        const gameDate = selectedDate;
-        const gameTime = selectedTimeLabel;
-        const senderName = user.user_metadata?.full_name || user.email || 'Someone';
+      setBookingDetails(`${data.created.length} ${SERIES_FREQUENCY_LABELS[rule.frequency].toLowerCase()} matches at ${selectedPitch.name} starting ${getDateDisplayText(selectedDate)} at ${selectedTimeLabel} have been booked.${skippedText}`);
+      setShowBookingSuccessModal(true);
+    } catch (error) {
+      console.error('Error creating booking series:', error);
+      showError('Failed to create the recurring booking. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-        // Import game invitation service
-        const { gameInvitationService } = await import('../services/gameInvitationService');
+  const handleFinalConfirm = async () => {
+    if (!selectedPitch || !selectedDate || selectedTimeSlot === null) {
+      showError('Please complete all booking details');
+      return;
+    }
 
-        for (const target of invitedUsers) {
-          try {
-            const invitationDetails = {
-              gameTitle: gameTitle,
-              gameDate: gameDate,
-              gameTime: gameTime,
+    if (!validatePaymentOptions()) {
+      return;
+    }
+
+    if (repeatFrequency) {
+      await handleCreateSeries();
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        showError('Please log in to create a booking');
+        return;
+      }
+
+      // Get the time label for display
+      const selectedTimeLabel = getSlotLabel(selectedTimeSlot);
+
+      // Create booking data
+      // Only the organizer's choices; the server sets the owner, status and price
+      const bookingData = {
+        pitch_id: selectedPitch.id,
+        date: selectedDate,
+        time: selectedTimeLabel,
+        time_slot: selectedTimeSlot,
+        payment_mode: paymentMode,
+        per_player_fee: paymentMode === 'per_player' ? parsedPerPlayerFee : null,
+        promo_code: appliedPromo?.code || null, // the discount is applied on the server
+        addons: getAddonSelections(), // priced and stock-checked on the server
+        game_format: gameFormat,
+        substitutes,
+        match_minutes: GAME_FORMATS[gameFormat].matchMinutes,
+        open_positions: openPositions,
+        max_players: getFormatCapacity(gameFormat, substitutes), // the server derives this from the format too
+        is_public: isPublic,
+      };
+
+      console.log('Creating booking with data:', bookingData);
+
+      // Reserves the slot, creates the booking and adds us as organizer in one transaction
+      const { data: result, error } = await db.createBookingWithValidation(bookingData);
+
+      if (error || !result) {
+        console.error('Error creating booking:', error);
+        showError('Failed to create booking. Please try again.');
+        return;
+      }
+
+      if (!result.success) {
+        if (result.conflict.code === 'slot_taken') {
+          showError('This time slot is already booked. Please select another time or date.');
+        } else if (result.conflict.code === 'promo_invalid') {
+          setAppliedPromo(null);
+          setPromoError(result.conflict.message);
+          showError(result.conflict.message);
+        } else if (result.conflict.code === 'addon_unavailable') {
+          loadSlotAddons();
+          showError(result.conflict.message);
+        } else {
+          showError(result.conflict.message);
+        }
+        return;
+      }
+
+      const newBooking = result.booking;
+
+      // The booking consumed our hold on the server
+      slotHoldRef.current = null;
+      setSlotHold(null);
+
+      // The newly created game will be reflected when we refresh the public games
+      console.log('Booking created with ID:', newBooking.id);
+
+      // Work out what the organizer owes under the chosen payment mode
+      const shares = await paymentService.syncShares(newBooking.id);
+      if (!shares.success) {
+        console.error('Error setting up payment shares:', shares.error);
+      }
+
+      if (creditToApply > 0) {
+        const credit = await paymentService.payWithCredit(newBooking.id, user.id, creditToApply);
+        if (!credit.success) {
+          console.error('Error paying with credit:', credit.error);
+        }
+      }
+
+      // Guests take their spots straight away; they're invited from the game page
+      if (members.length > 0) {
+        const { error: guestsError } = await db.addGameGuests(newBooking.id, user.id, members);
+        if (guestsError) {
+          console.error('Error adding guests:', guestsError);
+        }
+      }
+
+      // Send invitations to selected users (if any)
+      if (newBooking && invitedUsers.length > 0) {
+        const gameTitle = selectedPitch.name || 'Football Match';
+        const gameDate = selectedDate;
+        const gameTime = selectedTimeLabel;
+        const senderName = user.user_metadata?.full_name || user.email || 'Someone';
+
+        // Import game invitation service
+        const { gameInvitationService } = await import('../services/gameInvitationService');
+
+        for (const target of invitedUsers) {
+          try {
+            const invitationDetails = {
+              gameTitle: gameTitle,
+              gameDate: gameDate,
+              gameTime: gameTime,
               pitchName: selectedPitch.name || 'Football Match',
-              pitchLocation: selectedPitch.location || '',
+              pitchLocation: selectedPitch.venue?.location || '',
               inviterName: senderName,
               gameId: newBooking.id
             };
@@ -653,7 +1301,10 @@ const PlayScreen: React.FC = () => {
       }
 
       // Set success message and show modal
-      setBookingDetails(`Your ${isPublic ? 'public' : 'private'} match at ${selectedPitch.name} on ${getDateDisplayText(selectedDate)} at ${selectedTimeLabel} has been booked successfully.`);
+      // Approval-only pitches hold the slot until the venue confirms it
+      setBookingDetails(newBooking.status === 'pending_approval'
+        ? `Your ${isPublic ? 'public' : 'private'} match at ${selectedPitch.name} on ${getDateDisplayText(selectedDate)} at ${selectedTimeLabel} is reserved and waiting for the venue to approve it.`
+        : `Your ${isPublic ? 'public' : 'private'} match at ${selectedPitch.name} on ${getDateDisplayText(selectedDate)} at ${selectedTimeLabel} has been booked successfully.`);
       
       console.log('Booking process completed successfully');
       setShowBookingSuccessModal(true);
@@ -666,15 +1317,26 @@ const PlayScreen: React.FC = () => {
   };
 
   const addMember = () => {
-    if (!newMemberName.trim() || !newMemberEmail.trim()) {
-      showError('Name and email are required');
+    if (!newMemberName.trim()) {
+      setGuestError('Enter the guest\'s name');
+      return;
+    }
+
+    if (newMemberEmail.trim() && !isValidGuestEmail(newMemberEmail)) {
+      setGuestError('Enter a valid email or leave it empty');
+      return;
+    }
+
+    // The organizer takes one spot, guests share the rest with players who join
+    if (members.length + 1 >= getFormatCapacity(gameFormat, substitutes)) {
+      setGuestError('There are no spots left for another guest');
       return;
     }
 
     const newMember: BookingMember = {
       id: Date.now().toString(),
       name: newMemberName.trim(),
-      email: newMemberEmail.trim(),
+      email: newMemberEmail.trim() || undefined,
       phone: newMemberPhone.trim() || undefined,
     };
 
@@ -682,7 +1344,7 @@ const PlayScreen: React.FC = () => {
     setNewMemberName('');
     setNewMemberEmail('');
     setNewMemberPhone('');
-    setShowMemberModal(false);
+    setGuestError('');
   };
 
   const removeMember = (memberId: string) => {
@@ -699,6 +1361,19 @@ const PlayScreen: React.FC = () => {
   };
 
   // Username search for invite
+  // Accepts a typed code or a pasted hagz://game/<code> link
+  const handleOpenJoinCode = () => {
+    const code = parseJoinCode(joinCodeInput);
+    if (!code) {
+      setJoinCodeError('Enter the code or link the organizer shared');
+      return;
+    }
+    setShowJoinCodeModal(false);
+    setJoinCodeInput('');
+    setJoinCodeError('');
+    navigation.navigate('GameDetails', { joinCode: code });
+  };
+
   const searchInviteUsers = async (query: string) => {
     setInviteUsername(query);
     setInviteError('');
@@ -747,7 +1422,7 @@ const PlayScreen: React.FC = () => {
           refreshControl={
             <RefreshControl
               refreshing={loadingPublicGames}
-              onRefresh={refreshPublicGames}
+              onRefresh={() => refreshPublicGames()}
               tintColor="#4CAF50"
               colors={["#4CAF50"]}
             />
@@ -765,9 +1440,14 @@ const PlayScreen: React.FC = () => {
                 <Ionicons name="add-circle" size={32} color="#4CAF50" />
                 <View style={styles.createButtonText}>
                   <Text style={styles.buttonText}>Create Match</Text>
-                  <Text style={styles.buttonSubtext}>Select pitch, time & date</Text>
+                  <Text style={styles.buttonSubtext}>Select venue, pitch, time & date</Text>
                 </View>
               </TouchableOpacity>
+
+              <TouchableOpacity style={styles.joinCodeButton} onPress={() => setShowJoinCodeModal(true)}>
+                <Ionicons name="key-outline" size={18} color="rgba(255, 255, 255, 0.8)" />
+                <Text style={styles.joinCodeButtonText}>Have a join code?</Text>
+              </TouchableOpacity>
             </View>
 
 
@@ -778,18 +1458,90 @@ const PlayScreen: React.FC = () => {
                     <Text style={styles.sectionTitle}>Public Games</Text>
                     <Text style={styles.sectionSubtitle}>Join other players' matches</Text>
                   </View>
-                  <TouchableOpacity 
-                    style={styles.refreshButton}
-                    onPress={refreshPublicGames}
-                    disabled={loadingPublicGames}
+                  <View style={styles.sectionHeaderActions}>
+                    <TouchableOpacity
+                      style={styles.refreshButton}
+                      onPress={() => setPublicGamesView(publicGamesView === 'list' ? 'map' : 'list')}
+                    >
+                      <Ionicons name={publicGamesView === 'list' ? 'map-outline' : 'list-outline'} size={20} color="#fff" />
+                    </TouchableOpacity>
+                    <TouchableOpacity 
+                      style={styles.refreshButton}
+                      onPress={() => publicGamesView === 'map' ? setMapRefreshKey(mapRefreshKey + 1) : refreshPublicGames()}
+                      disabled={loadingPublicGames}
+                    >
+                      <Ionicons 
+                        name="refresh" 
+                        size={20} 
+                        color={loadingPublicGames ? "rgba(255, 255, 255, 0.3)" : "#fff"} 
+                      />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+
+                {publicGamesView === 'map' ? (
+                  <VenueMapView
+                    userLocation={userLocation}
+                    refreshKey={mapRefreshKey}
+                    onOpenGame={gameId => navigation.navigate('GameDetails', { gameId })}
+                    onBookPitch={handleBookFromMap}
+                  />
+                ) : (
+                <>
+
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={[styles.filterRow, styles.publicFilterRow]}>
+                  {[undefined, ...GAME_FORMAT_OPTIONS].map(format => (
+                    <TouchableOpacity
+                      key={format || 'all'}
+                      style={[styles.filterChip, publicGameFilters.format === format && styles.filterChipActive]}
+                      onPress={() => refreshPublicGames({ ...publicGameFilters, format })}
+                    >
+                      <Text style={[styles.filterChipText, publicGameFilters.format === format && styles.filterChipTextActive]}>
+                        {format ? GAME_FORMATS[format].label : 'All formats'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                  {isPlayerPosition(userProfile?.position) && (
+                    <TouchableOpacity
+                      style={[styles.filterChip, !!publicGameFilters.position && styles.filterChipActive]}
+                      onPress={() => refreshPublicGames({
+                        ...publicGameFilters,
+                        position: publicGameFilters.position ? undefined : userProfile?.position as PlayerPosition,
+                      })}
+                    >
+                      <Text style={[styles.filterChipText, !!publicGameFilters.position && styles.filterChipTextActive]}>
+                        Needs a {POSITION_LABELS[userProfile?.position as PlayerPosition].toLowerCase()}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.filterChip, styles.filterToggleChip, (showGameFilters || activeGameFilterCount > 0) && styles.filterChipActive]}
+                    onPress={() => setShowGameFilters(!showGameFilters)}
                   >
-                    <Ionicons 
-                      name="refresh" 
-                      size={20} 
-                      color={loadingPublicGames ? "rgba(255, 255, 255, 0.3)" : "#fff"} 
-                    />
+                    <Ionicons name="options-outline" size={14} color={activeGameFilterCount > 0 ? '#4CAF50' : 'rgba(255, 255, 255, 0.7)'} />
+                    <Text style={[styles.filterChipText, activeGameFilterCount > 0 && styles.filterChipTextActive]}>
+                      {activeGameFilterCount > 0 ? `Filters (${activeGameFilterCount})` : 'Filters'}
+                    </Text>
                   </TouchableOpacity>
-                </View>
+                </ScrollView>
+
+                {showGameFilters && (
+                  <View style={styles.gameFilterPanel}>
+                    {!userLocation && (
+                      <TouchableOpacity style={styles.locationHint} onPress={() => navigation.navigate('Settings')}>
+                        <Ionicons name="location-outline" size={16} color="#ffa726" />
+                        <Text style={styles.locationHintText}>
+                          Turn on Location Services in Settings to sort and filter by distance
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    {renderGameFilterRow('Sort by', SORT_OPTIONS)}
+                    {!!userLocation && renderGameFilterRow('Distance', RADIUS_OPTIONS)}
+                    {renderGameFilterRow('When', getDateOptions())}
+                    {renderGameFilterRow('Price', PRICE_OPTIONS)}
+                    {renderGameFilterRow('Open spots', OPEN_SPOT_OPTIONS)}
+                  </View>
+                )}
                 
                 {loadingPublicGames ? (
                   <View style={styles.loadingContainer}>
@@ -824,8 +1576,27 @@ const PlayScreen: React.FC = () => {
                         <Ionicons name="time" size={14} color="rgba(255, 255, 255, 0.6)" />
                         <Text style={styles.gameDetailText}>{game.time}</Text>
                       </View>
+                      {game.format && (
+                        <View style={styles.gameDetail}>
+                          <Ionicons name="football-outline" size={14} color="rgba(255, 255, 255, 0.6)" />
+                          <Text style={styles.gameDetailText}>{GAME_FORMATS[game.format].label}</Text>
+                        </View>
+                      )}
+                      {game.distanceKm !== null && (
+                        <View style={styles.gameDetail}>
+                          <Ionicons name="navigate-outline" size={14} color="rgba(255, 255, 255, 0.6)" />
+                          <Text style={styles.gameDetailText}>{formatDistance(game.distanceKm)}</Text>
+                        </View>
+                      )}
                     </View>
 
+                    {countOpenPositions(game.positionsLeft) > 0 && (
+                      <View style={styles.positionsNeeded}>
+                        <Ionicons name="hand-right-outline" size={14} color="#ffa726" />
+                        <Text style={styles.positionsNeededText}>Needs {describeOpenPositions(game.positionsLeft)}</Text>
+                      </View>
+                    )}
+
                     <View style={styles.gameFooter}>
                       <View style={styles.gameCreator}>
                         <Ionicons name="person" size={14} color="rgba(255, 255, 255, 0.6)" />
@@ -866,10 +1637,10 @@ const PlayScreen: React.FC = () => {
                         <TouchableOpacity 
                           style={[
                             styles.joinButton, 
-                            !canJoinGame(game) && styles.joinButtonDisabled
+                            !canJoinGame(game) && !canJoinWaitlist(game) && styles.joinButtonDisabled
                           ]}
-                          onPress={() => canJoinGame(game) && handleJoinGame(game.id)}
-                          disabled={!canJoinGame(game) || joiningGame === game.id}
+                          onPress={() => canJoinWaitlist(game) ? handleJoinWaitlist(game.id) : canJoinGame(game) && handleJoinPress(game)}
+                          disabled={(!canJoinGame(game) && !canJoinWaitlist(game)) || joiningGame === game.id}
                         >
                           {joiningGame === game.id ? (
                             <ActivityIndicator size="small" color="#fff" />
@@ -888,16 +1659,87 @@ const PlayScreen: React.FC = () => {
                 {publicGames.length === 0 && (
                   <View style={styles.noGamesCard}>
                     <Ionicons name="football" size={48} color="rgba(255, 255, 255, 0.3)" />
-                    <Text style={styles.noGamesText}>No public games available</Text>
-                    <Text style={styles.noGamesSubtext}>Be the first to create a match!</Text>
+                    <Text style={styles.noGamesText}>
+                      {activeGameFilterCount > 0
+                        ? 'No games match your filters'
+                        : publicGameFilters.format ? `No ${GAME_FORMATS[publicGameFilters.format].label} games available` : 'No public games available'}
+                    </Text>
+                    <Text style={styles.noGamesSubtext}>
+                      {activeGameFilterCount > 0 ? 'Try a wider search, or create a match yourself!' : 'Be the first to create a match!'}
+                    </Text>
                   </View>
                 )}
+                </>
+                )}
               </View>
             )}
           </View>
         </ScrollView>
         </View>
 
+        <PositionPickerModal
+          visible={!!positionPickerGame}
+          positionsLeft={positionPickerGame?.positionsLeft || {}}
+          preferred={isPlayerPosition(userProfile?.position) ? userProfile?.position as PlayerPosition : null}
+          canJoinWithoutPosition={
+            !!positionPickerGame &&
+            positionPickerGame.players + countOpenPositions(positionPickerGame.positionsLeft) < positionPickerGame.maxPlayers
+          }
+          onPick={(position) => {
+            const game = positionPickerGame;
+            setPositionPickerGame(null);
+            if (game) handleJoinGame(game.id, position);
+          }}
+          onClose={() => setPositionPickerGame(null)}
+        />
+
+        {/* Join Code Modal */}
+        <Modal
+          visible={showJoinCodeModal}
+          transparent={true}
+          animationType="fade"
+          onRequestClose={() => setShowJoinCodeModal(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.successModal}>
+              <View style={styles.successIconContainer}>
+                <Ionicons name="key" size={32} color="#4CAF50" />
+              </View>
+              <Text style={styles.successTitle}>Join with Code</Text>
+              <Text style={styles.successMessage}>
+                Enter the code or paste the invite link the organizer shared with you.
+              </Text>
+              <TextInput
+                style={[styles.textInput, styles.cancelReasonInput]}
+                placeholder="e.g. K7QM2XPA"
+                placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                value={joinCodeInput}
+                onChangeText={text => {
+                  setJoinCodeInput(text);
+                  setJoinCodeError('');
+                }}
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+              {!!joinCodeError && <Text style={styles.formatWarning}>{joinCodeError}</Text>}
+              <View style={styles.confirmationButtons}>
+                <TouchableOpacity 
+                  style={styles.confirmationButtonSecondary}
+                  onPress={() => setShowJoinCodeModal(false)}
+                >
+                  <Text style={styles.confirmationButtonTextSecondary}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  style={styles.confirmationButtonPrimary}
+                  onPress={handleOpenJoinCode}
+                >
+                  <Text style={styles.confirmationButtonTextPrimary}>Find Game</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
         {/* Error Modal */}
         <Modal
           visible={showErrorModal}
@@ -990,8 +1832,36 @@ const PlayScreen: React.FC = () => {
               </View>
               <Text style={styles.successTitle}>Cancel Game</Text>
               <Text style={styles.successMessage}>
-                Are you sure you want to cancel this game? This action cannot be undone and will remove all players from the game.
+                Are you sure you want to cancel this game? This action cannot be undone and all players will be notified.
               </Text>
+              {cancelTerms ? (
+                <Text style={styles.cancelTermsText}>{cancelTerms}</Text>
+              ) : (
+                <ActivityIndicator size="small" color="#4CAF50" />
+              )}
+              <TextInput
+                style={[styles.textInput, styles.cancelReasonInput]}
+                placeholder="Reason (optional)"
+                placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                value={cancelReason}
+                onChangeText={setCancelReason}
+              />
+              <View style={styles.refundDestinationRow}>
+                {([
+                  { label: 'Refund to card', value: 'original' },
+                  { label: 'Keep as credit', value: 'credit' },
+                ] as Array<{ label: string; value: RefundDestination }>).map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.filterChip, cancelRefundTo === option.value && styles.filterChipActive]}
+                    onPress={() => setCancelRefundTo(option.value)}
+                  >
+                    <Text style={[styles.filterChipText, cancelRefundTo === option.value && styles.filterChipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
               <View style={styles.confirmationButtons}>
                 <TouchableOpacity 
                   style={styles.confirmationButtonSecondary}
@@ -1019,7 +1889,26 @@ const PlayScreen: React.FC = () => {
     );
   }
 
-  if (currentStep === 'details') {
+  if (currentStep === 'pitch') {
+    const sizeOptions: Array<{ label: string; value?: PitchSize }> = [
+      { label: 'All' },
+      { label: '5-a-side', value: 5 },
+      { label: '7-a-side', value: 7 },
+      { label: '11-a-side', value: 11 },
+    ];
+    const settingOptions: Array<{ label: string; value?: boolean }> = [
+      { label: 'All' },
+      { label: 'Indoor', value: true },
+      { label: 'Outdoor', value: false },
+    ];
+    const surfaceOptions: Array<{ label: string; value?: PitchSurface }> = [
+      { label: 'All' },
+      ...(Object.keys(PITCH_SURFACE_LABELS) as PitchSurface[]).map(surface => ({
+        label: PITCH_SURFACE_LABELS[surface],
+        value: surface,
+      })),
+    ];
+
     return (
       <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
         <View style={styles.backgroundOverlay}>
@@ -1028,12 +1917,143 @@ const PlayScreen: React.FC = () => {
             <TouchableOpacity style={styles.backButton} onPress={() => setCurrentStep('main')}>
               <Ionicons name="arrow-back" size={24} color="#fff" />
             </TouchableOpacity>
-            <Text style={styles.title}>Match Details</Text>
-            <Text style={styles.subtitle}>Choose pitch, date and time</Text>
+            <Text style={styles.title}>Choose Pitch</Text>
+            <Text style={styles.subtitle}>Browse venues and pick a pitch</Text>
           </View>
 
           <StepIndicator currentStepIndex={0} />
 
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <View style={styles.filterSection}>
+              <TextInput
+                style={styles.textInput}
+                value={pitchFilters.search || ''}
+                onChangeText={(text) => updatePitchFilters({ search: text })}
+                placeholder="Search venue or area"
+                placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                autoCorrect={false}
+              />
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+                {sizeOptions.map(option => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.filterChip, pitchFilters.size === option.value && styles.filterChipActive]}
+                    onPress={() => updatePitchFilters({ size: option.value })}
+                  >
+                    <Text style={[styles.filterChipText, pitchFilters.size === option.value && styles.filterChipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+                {settingOptions.map(option => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.filterChip, pitchFilters.isIndoor === option.value && styles.filterChipActive]}
+                    onPress={() => updatePitchFilters({ isIndoor: option.value })}
+                  >
+                    <Text style={[styles.filterChipText, pitchFilters.isIndoor === option.value && styles.filterChipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+                {surfaceOptions.map(option => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.filterChip, pitchFilters.surface === option.value && styles.filterChipActive]}
+                    onPress={() => updatePitchFilters({ surface: option.value })}
+                  >
+                    <Text style={[styles.filterChipText, pitchFilters.surface === option.value && styles.filterChipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+
+            {loadingPitches ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color="#4CAF50" />
+                <Text style={styles.loadingText}>Loading pitches...</Text>
+              </View>
+            ) : pitches.length === 0 ? (
+              <View style={styles.noGamesCard}>
+                <Ionicons name="search" size={48} color="rgba(255, 255, 255, 0.3)" />
+                <Text style={styles.noGamesText}>No pitches found</Text>
+                <Text style={styles.noGamesSubtext}>Try changing your filters</Text>
+              </View>
+            ) : (
+              <View style={styles.pitchGridContainer}>
+                <View style={styles.pitchGrid}>
+                  {pitches.map((pitch) => (
+                    <TouchableOpacity
+                      key={pitch.id}
+                      activeOpacity={0.9}
+                      style={styles.pitchCardGradient}
+                      onPress={() => handleSelectPitch(pitch)}
+                    >
+                      <View style={styles.pitchCardInner}>
+                        {pitch.photos.length > 0 ? (
+                          <Image source={{ uri: pitch.photos[0] }} style={styles.pitchPhoto} />
+                        ) : (
+                          <View style={styles.pitchIcon}>
+                            <Ionicons name="football" size={24} color="#4CAF50" />
+                          </View>
+                        )}
+                        <Text style={styles.pitchName}>{pitch.name}</Text>
+                        <Text style={styles.pitchLocation}>
+                          {pitch.venue ? `${pitch.venue.name} · ${pitch.venue.location}` : ''}
+                        </Text>
+                        <Text style={styles.pitchAttributes}>{getPitchSummary(pitch)}</Text>
+                        <View style={styles.pitchFooterRow}>
+                          <Ionicons name="cash-outline" size={14} color="#66BB6A" />
+                          <Text style={styles.pitchPrice}>{formatMoney(pitch.price)}</Text>
+                        </View>
+                      </View>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+          </ScrollView>
+        </View>
+        </View>
+      </ImageBackground>
+    );
+  }
+
+  if (currentStep === 'details') {
+    const selectedClosure = pitchSchedule && selectedDate ? getClosure(pitchSchedule, selectedDate) : null;
+
+    return (
+      <ImageBackground source={require('../../assets/hage.jpeg')} style={styles.container}>
+        <View style={styles.backgroundOverlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => {
+                releaseSlotHold();
+                setSelectedTimeSlot(null);
+                setCurrentStep('pitch');
+              }}
+            >
+              <Ionicons name="arrow-back" size={24} color="#fff" />
+            </TouchableOpacity>
+            <Text style={styles.title}>Match Details</Text>
+            <Text style={styles.subtitle}>
+              {selectedPitch ? `${selectedPitch.name} · choose date and time` : 'Choose date and time'}
+            </Text>
+          </View>
+
+          <StepIndicator currentStepIndex={1} />
+
           <ScrollView showsVerticalScrollIndicator={false}>
 
             <View style={styles.section}>
@@ -1059,6 +2079,65 @@ const PlayScreen: React.FC = () => {
               </Text>
             </View>
 
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Game Format</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+                {GAME_FORMAT_OPTIONS.map(format => (
+                  <TouchableOpacity
+                    key={format}
+                    style={[styles.filterChip, gameFormat === format && styles.filterChipActive]}
+                    onPress={() => selectGameFormat(format)}
+                  >
+                    <Text style={[styles.filterChipText, gameFormat === format && styles.filterChipTextActive]}>
+                      {GAME_FORMATS[format].label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+              <View style={[styles.repeatStepper, styles.substitutesStepper]}>
+                <TouchableOpacity onPress={() => setSubstitutes(Math.max(0, substitutes - 1))}>
+                  <Ionicons name="remove-circle-outline" size={28} color="#4CAF50" />
+                </TouchableOpacity>
+                <Text style={styles.repeatStepperValue}>
+                  {substitutes === 1 ? '1 substitute' : `${substitutes} substitutes`}
+                </Text>
+                <TouchableOpacity onPress={() => setSubstitutes(Math.min(MAX_SUBSTITUTES, substitutes + 1))}>
+                  <Ionicons name="add-circle-outline" size={28} color="#4CAF50" />
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.visibilityInfo}>
+                {`${getFormatCapacity(gameFormat, substitutes)} players · ${GAME_FORMATS[gameFormat].matchMinutes} min match · best on a ${GAME_FORMATS[gameFormat].pitchSize}-a-side pitch`}
+              </Text>
+              {selectedPitch && selectedPitch.size < GAME_FORMATS[gameFormat].pitchSize && (
+                <Text style={styles.formatWarning}>
+                  {`${selectedPitch.name} is a ${selectedPitch.size}-a-side pitch, which is small for ${GAME_FORMATS[gameFormat].label}`}
+                </Text>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Open Positions</Text>
+              {PLAYER_POSITIONS.map(position => (
+                <View key={position} style={styles.positionRow}>
+                  <Text style={styles.positionLabel}>{POSITION_LABELS[position]}</Text>
+                  <View style={styles.repeatStepper}>
+                    <TouchableOpacity onPress={() => changeOpenPosition(position, -1)}>
+                      <Ionicons name="remove-circle-outline" size={26} color="#4CAF50" />
+                    </TouchableOpacity>
+                    <Text style={styles.repeatStepperValue}>{openPositions[position] || 0}</Text>
+                    <TouchableOpacity onPress={() => changeOpenPosition(position, 1)}>
+                      <Ionicons name="add-circle-outline" size={26} color="#4CAF50" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+              <Text style={styles.visibilityInfo}>
+                {countOpenPositions(openPositions) > 0
+                  ? 'Players joining pick one of these; the other spots are open to anyone'
+                  : 'Leave at zero if any position will do'}
+              </Text>
+            </View>
+
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Select Date</Text>
               <View style={styles.calendarWrapper}>
@@ -1089,7 +2168,7 @@ const PlayScreen: React.FC = () => {
                         if (!dateObj.isPast) {
                           setSelectedDate(dateObj.dateString);
                           setSelectedTimeSlot(null); // Reset time slot when date changes
-                          loadAvailableSlots(dateObj.dateString); // Load available slots for this date
+                          releaseSlotHold();
                         }
                       }}
                       disabled={dateObj.isPast}
@@ -1121,127 +2200,93 @@ const PlayScreen: React.FC = () => {
                 </View>
               )}
               
-              <View style={styles.timeSlotsContainer}>
-                {/* Evening Slots */}
-                <View style={styles.timePeriodSection}>
-                  <View style={styles.timePeriodHeader}>
-                    <Ionicons name="sunny" size={16} color="#FF9800" />
-                    <Text style={styles.timePeriodTitle}>Evening</Text>
-                  </View>
-                  <View style={styles.timeGrid}>
-                    {getTimeSlots().filter(slot => slot.period === 'Evening').map((slot) => {
-                      const isAvailable = availableSlots.includes(slot.value);
-                      const isSelected = selectedTimeSlot === slot.value;
-                      
-                      return (
-                        <TouchableOpacity
-                          key={slot.value}
-                          style={[
-                            styles.timeOption,
-                            isSelected && styles.selectedOption,
-                            !isAvailable && styles.unavailableOption
-                          ]}
-                          onPress={() => isAvailable && setSelectedTimeSlot(slot.value)}
-                          disabled={!isAvailable}
-                        >
-                          <Text style={[
-                            styles.optionText,
-                            isSelected && styles.selectedOptionText,
-                            !isAvailable && styles.unavailableOptionText
-                          ]}>
-                            {slot.label}
-                          </Text>
-                          {!isAvailable && (
-                            <Ionicons name="close-circle" size={16} color="#f44336" />
-                          )}
-                        </TouchableOpacity>
-                      );
-                    })}
-                  </View>
-                </View>
+              {selectedClosure ? (
+                <Text style={styles.noMembersText}>
+                  Closed on this date{selectedClosure.reason ? `: ${selectedClosure.reason}` : ''}
+                </Text>
+              ) : selectedDate && !loadingSlots && getTimeSlots().length === 0 ? (
+                <Text style={styles.noMembersText}>This pitch is not open on the selected date</Text>
+              ) : !selectedDate ? (
+                <Text style={styles.noMembersText}>Pick a date to see open slots</Text>
+              ) : null}
 
-                {/* Night Slots */}
-                <View style={styles.timePeriodSection}>
-                  <View style={styles.timePeriodHeader}>
-                    <Ionicons name="moon" size={16} color="#4A90E2" />
-                    <Text style={styles.timePeriodTitle}>Night</Text>
-                  </View>
-                  <View style={styles.timeGrid}>
-                    {getTimeSlots().filter(slot => slot.period === 'Night').map((slot) => {
-                      const isAvailable = availableSlots.includes(slot.value);
-                      const isSelected = selectedTimeSlot === slot.value;
-                      
-                      return (
-                        <TouchableOpacity
-                          key={slot.value}
-                          style={[
-                            styles.timeOption,
-                            isSelected && styles.selectedOption,
-                            !isAvailable && styles.unavailableOption
-                          ]}
-                          onPress={() => isAvailable && setSelectedTimeSlot(slot.value)}
-                          disabled={!isAvailable}
-                        >
-                          <Text style={[
-                            styles.optionText,
-                            isSelected && styles.selectedOptionText,
-                            !isAvailable && styles.unavailableOptionText
-                          ]}>
-                            {slot.label}
-                          </Text>
-                          {!isAvailable && (
-                            <Ionicons name="close-circle" size={16} color="#f44336" />
-                          )}
-                        </TouchableOpacity>
-                      );
-                    })}
-                  </View>
-                </View>
+              <View style={styles.timeSlotsContainer}>
+                {selectedDate !== '' && SLOT_PERIODS.map((period) => {
+                  const periodSlots = getTimeSlots().filter(slot => slot.period === period);
+                  if (periodSlots.length === 0) return null;
 
-                {/* Late Night Slots */}
-                <View style={styles.timePeriodSection}>
-                  <View style={styles.timePeriodHeader}>
-                    <Ionicons name="star" size={16} color="#9B59B6" />
-                    <Text style={styles.timePeriodTitle}>Late Night</Text>
-                  </View>
-                  <View style={styles.timeGrid}>
-                    {getTimeSlots().filter(slot => slot.period === 'Late Night').map((slot) => {
-                      const isAvailable = availableSlots.includes(slot.value);
-                      const isSelected = selectedTimeSlot === slot.value;
-                      
-                      return (
-                        <TouchableOpacity
-                          key={slot.value}
-                          style={[
-                            styles.timeOption,
-                            isSelected && styles.selectedOption,
-                            !isAvailable && styles.unavailableOption
-                          ]}
-                          onPress={() => isAvailable && setSelectedTimeSlot(slot.value)}
-                          disabled={!isAvailable}
-                        >
-                          <Text style={[
-                            styles.optionText,
-                            isSelected && styles.selectedOptionText,
-                            !isAvailable && styles.unavailableOptionText
-                          ]}>
-                            {slot.label}
-                          </Text>
-                          {!isAvailable && (
-                            <Ionicons name="close-circle" size={16} color="#f44336" />
-                          )}
-                        </TouchableOpacity>
-                      );
-                    })}
-                  </View>
-                </View>
+                  return (
+                    <View key={period} style={styles.timePeriodSection}>
+                      <View style={styles.timePeriodHeader}>
+                        <Ionicons name={periodIcons[period].name} size={16} color={periodIcons[period].color} />
+                        <Text style={styles.timePeriodTitle}>{period}</Text>
+                      </View>
+                      <View style={styles.timeGrid}>
+                        {periodSlots.map((slot) => {
+                          const isHeld = heldSlots.includes(slot.value);
+                          const isAvailable = availableSlots.includes(slot.value);
+                          const isSelected = selectedTimeSlot === slot.value;
+                          const slotPrice = getSlotPrice(slot.value);
+                          const isDeal = !!slotPrice && !!selectedPitch && slotPrice.price.amount < selectedPitch.price.amount;
+                          
+                          return (
+                            <TouchableOpacity
+                              key={slot.value}
+                              style={[
+                                styles.timeOption,
+                                isSelected && styles.selectedOption,
+                                isHeld && styles.heldOption,
+                                !isAvailable && !isHeld && styles.unavailableOption
+                              ]}
+                              onPress={() => isAvailable && !isSelected && handleSelectTimeSlot(slot.value)}
+                              disabled={!isAvailable || holdingSlot !== null}
+                            >
+                              <Text style={[
+                                styles.optionText,
+                                isSelected && styles.selectedOptionText,
+                                !isAvailable && styles.unavailableOptionText
+                              ]}>
+                                {slot.label}
+                              </Text>
+                              {slotPrice && (
+                                <Text style={[
+                                  styles.slotPriceText,
+                                  isDeal && styles.slotPriceDeal,
+                                  isSelected && styles.selectedOptionText
+                                ]}>
+                                  {formatMoney(slotPrice.price)}
+                                </Text>
+                              )}
+                              {holdingSlot === slot.value ? (
+                                <ActivityIndicator size="small" color="#4CAF50" />
+                              ) : isHeld ? (
+                                <Ionicons name="hourglass-outline" size={16} color="#FFC107" />
+                              ) : !isAvailable && (
+                                <Ionicons name="close-circle" size={16} color="#f44336" />
+                              )}
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </View>
+                  );
+                })}
               </View>
             </View>
 
+            {slotHold && (
+              <View style={styles.holdBanner}>
+                <Ionicons name="timer-outline" size={18} color="#FFC107" />
+                <Text style={styles.holdBannerText}>
+                  {getSlotLabel(slotHold.time_slot)} is held for you · {formatCountdown(holdSecondsLeft)}
+                </Text>
+              </View>
+            )}
+
             {selectedDate && selectedTimeSlot !== null && (
               <GradientButton
                 title="Continue to Confirm"
-                onPress={() => setCurrentStep('summary')}
+                onPress={handleConfirmBooking}
               />
             )}
           </ScrollView>
@@ -1267,9 +2312,18 @@ const PlayScreen: React.FC = () => {
             <Text style={styles.title}>Confirm Booking</Text>
           </View>
 
-          <StepIndicator currentStepIndex={1} />
+          <StepIndicator currentStepIndex={2} />
 
           <ScrollView showsVerticalScrollIndicator={false}>
+            {slotHold && (
+              <View style={styles.holdBanner}>
+                <Ionicons name="timer-outline" size={18} color="#FFC107" />
+                <Text style={styles.holdBannerText}>
+                  {getSlotLabel(slotHold.time_slot)} is held for you · {formatCountdown(holdSecondsLeft)}
+                </Text>
+              </View>
+            )}
+
             <View style={styles.summaryCard}>
               <Text style={styles.summaryTitle}>Match Details</Text>
               
@@ -1277,6 +2331,30 @@ const PlayScreen: React.FC = () => {
                 <Text style={styles.summaryLabel}>Pitch:</Text>
                 <Text style={styles.summaryValue}>{selectedPitch?.name}</Text>
               </View>
+
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Venue:</Text>
+                <Text style={styles.summaryValue}>
+                  {selectedPitch?.venue ? `${selectedPitch.venue.name}, ${selectedPitch.venue.location}` : '-'}
+                </Text>
+              </View>
+
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Pitch type:</Text>
+                <Text style={styles.summaryValue}>{selectedPitch ? getPitchSummary(selectedPitch) : '-'}</Text>
+              </View>
+
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Format:</Text>
+                <Text style={styles.summaryValue}>{describeGameFormat(gameFormat, substitutes)}</Text>
+              </View>
+
+              {countOpenPositions(openPositions) > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Positions:</Text>
+                  <Text style={styles.summaryValue}>{describeOpenPositions(openPositions)}</Text>
+                </View>
+              )}
               
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Date:</Text>
@@ -1286,19 +2364,292 @@ const PlayScreen: React.FC = () => {
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Time:</Text>
                 <Text style={styles.summaryValue}>
-                  {selectedTimeSlot !== null ? getTimeSlots().find(slot => slot.value === selectedTimeSlot)?.label : 'Not selected'}
+                  {selectedTimeSlot !== null ? getSlotLabel(selectedTimeSlot) : 'Not selected'}
                 </Text>
               </View>
               
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Price:</Text>
-                <Text style={styles.summaryValue}>{selectedPitch?.price}</Text>
+                <Text style={styles.summaryValue}>{formatMoney(selectedSlotPrice?.price || selectedPitch?.price)}</Text>
+              </View>
+
+              {selectedPitch && selectedSlotPrice?.rule && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Pricing:</Text>
+                  <Text style={styles.summaryValue}>
+                    {describePriceChange(selectedPitch.price, selectedSlotPrice)} · usually {formatMoney(selectedPitch.price)}
+                  </Text>
+                </View>
+              )}
+
+              {addonsMinor > 0 && bookingTotal && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Add-ons:</Text>
+                  <Text style={styles.summaryValue}>
+                    +{formatMoney({ amount: fromMinorUnits(addonsMinor), currency: bookingTotal.currency })}
+                  </Text>
+                </View>
+              )}
+
+              {appliedPromo && canUseDiscounts && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Promo ({appliedPromo.code}):</Text>
+                  <Text style={[styles.summaryValue, styles.discountValue]}>-{formatMoney(appliedPromo.discount)}</Text>
+                </View>
+              )}
+
+              {creditToApply > 0 && bookingTotal && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Credit:</Text>
+                  <Text style={[styles.summaryValue, styles.discountValue]}>
+                    -{formatMoney({ amount: creditToApply, currency: bookingTotal.currency })}
+                  </Text>
+                </View>
+              )}
+
+              {(addonsMinor > 0 || ((appliedPromo || creditToApply > 0) && canUseDiscounts)) && bookingTotal && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>You pay now:</Text>
+                  <Text style={styles.summaryValue}>
+                    {formatMoney({
+                      amount: fromMinorUnits(
+                        toMinorUnits(paymentMode === 'per_player' ? parsedPerPlayerFee || 0 : bookingTotal.amount) - toMinorUnits(creditToApply)
+                      ),
+                      currency: bookingTotal.currency,
+                    })}
+                  </Text>
+                </View>
+              )}
+
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Visibility:</Text>
+                <Text style={styles.summaryValue}>{isPublic ? 'Public' : 'Private'}</Text>
+              </View>
+            </View>
+
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryTitle}>Repeat</Text>
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+                {([
+                  { label: 'Just once', value: null },
+                  { label: SERIES_FREQUENCY_LABELS.weekly, value: 'weekly' },
+                  { label: SERIES_FREQUENCY_LABELS.biweekly, value: 'biweekly' },
+                ] as Array<{ label: string; value: SeriesFrequency | null }>).map(option => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.filterChip, repeatFrequency === option.value && styles.filterChipActive]}
+                    onPress={() => updateRepeatOptions(() => setRepeatFrequency(option.value))}
+                  >
+                    <Text style={[styles.filterChipText, repeatFrequency === option.value && styles.filterChipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              {repeatFrequency && (
+                <View style={styles.repeatOptions}>
+                  <View style={styles.repeatEndRow}>
+                    <TouchableOpacity
+                      style={[styles.filterChip, repeatEndMode === 'count' && styles.filterChipActive]}
+                      onPress={() => updateRepeatOptions(() => setRepeatEndMode('count'))}
+                    >
+                      <Text style={[styles.filterChipText, repeatEndMode === 'count' && styles.filterChipTextActive]}>
+                        Number of matches
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.filterChip, repeatEndMode === 'date' && styles.filterChipActive]}
+                      onPress={() => updateRepeatOptions(() => setRepeatEndMode('date'))}
+                    >
+                      <Text style={[styles.filterChipText, repeatEndMode === 'date' && styles.filterChipTextActive]}>
+                        End date
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {repeatEndMode === 'count' ? (
+                    <View style={styles.repeatStepper}>
+                      <TouchableOpacity
+                        onPress={() => updateRepeatOptions(() => setRepeatCount(Math.max(2, repeatCount - 1)))}
+                      >
+                        <Ionicons name="remove-circle-outline" size={28} color="#4CAF50" />
+                      </TouchableOpacity>
+                      <Text style={styles.repeatStepperValue}>{repeatCount} matches</Text>
+                      <TouchableOpacity
+                        onPress={() => updateRepeatOptions(() => setRepeatCount(Math.min(MAX_SERIES_OCCURRENCES, repeatCount + 1)))}
+                      >
+                        <Ionicons name="add-circle-outline" size={28} color="#4CAF50" />
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <TextInput
+                      style={styles.textInput}
+                      placeholder="Last date (YYYY-MM-DD)"
+                      placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                      value={repeatEndDate}
+                      onChangeText={(text) => updateRepeatOptions(() => setRepeatEndDate(text.trim()))}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                  )}
+
+                  <TouchableOpacity
+                    style={styles.addMemberButton}
+                    onPress={checkSeriesDates}
+                    disabled={checkingSeries}
+                  >
+                    {checkingSeries ? (
+                      <ActivityIndicator size="small" color="#4CAF50" />
+                    ) : (
+                      <Ionicons name="calendar-outline" size={20} color="#4CAF50" />
+                    )}
+                    <Text style={styles.addMemberText}>Check dates</Text>
+                  </TouchableOpacity>
+
+                  {seriesPreview && (
+                    <View style={styles.occurrenceList}>
+                      {seriesPreview.map(occurrence => (
+                        <View key={occurrence.date} style={styles.occurrenceRow}>
+                          <Ionicons
+                            name={occurrence.valid ? 'checkmark-circle' : 'close-circle'}
+                            size={18}
+                            color={occurrence.valid ? '#4CAF50' : '#ff6b6b'}
+                          />
+                          <Text style={styles.occurrenceDate}>{getDateDisplayText(occurrence.date)}</Text>
+                          {!occurrence.valid && (
+                            <Text style={styles.occurrenceMessage} numberOfLines={1}>{occurrence.message}</Text>
+                          )}
+                        </View>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              )}
+            </View>
+
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryTitle}>Payment</Text>
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+                {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(mode => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[styles.filterChip, paymentMode === mode && styles.filterChipActive]}
+                    onPress={() => setPaymentMode(mode)}
+                  >
+                    <Text style={[styles.filterChipText, paymentMode === mode && styles.filterChipTextActive]}>
+                      {PAYMENT_MODE_LABELS[mode]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              {paymentMode === 'per_player' && (
+                <TextInput
+                  style={styles.textInput}
+                  placeholder={`Fee per player (${selectedPitch?.price.currency || ''})`}
+                  placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                  value={perPlayerFee}
+                  onChangeText={(text) => setPerPlayerFee(text.replace(/[^0-9.]/g, ''))}
+                  keyboardType="decimal-pad"
+                />
+              )}
+
+              {selectedPitch && (
+                <Text style={styles.paymentPreview}>{getPaymentPreview()}</Text>
+              )}
+            </View>
+
+            {slotAddons.length > 0 && (
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryTitle}>Add-ons</Text>
+                {slotAddons.map(addon => {
+                  const quantity = addonQuantities[addon.id] || 0;
+                  const limit = getAddonLimit(addon);
+                  return (
+                    <View key={addon.id} style={styles.addonRow}>
+                      <Ionicons name={(addon.icon || 'add-circle-outline') as any} size={22} color="#4CAF50" />
+                      <View style={styles.addonInfo}>
+                        <Text style={styles.addonName}>{addon.name}</Text>
+                        <Text style={styles.addonDetail}>
+                          {formatMoney(addon.price)}
+                          {addon.available !== null ? ` · ${addon.available > 0 ? `${addon.available} left` : 'Fully booked'}` : ''}
+                        </Text>
+                      </View>
+                      <View style={styles.addonStepper}>
+                        <TouchableOpacity onPress={() => changeAddonQuantity(addon, -1)} disabled={quantity === 0}>
+                          <Ionicons name="remove-circle-outline" size={26} color={quantity === 0 ? 'rgba(255, 255, 255, 0.3)' : '#fff'} />
+                        </TouchableOpacity>
+                        <Text style={styles.addonQuantity}>{quantity}</Text>
+                        <TouchableOpacity onPress={() => changeAddonQuantity(addon, 1)} disabled={quantity >= limit}>
+                          <Ionicons name="add-circle-outline" size={26} color={quantity >= limit ? 'rgba(255, 255, 255, 0.3)' : '#4CAF50'} />
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  );
+                })}
+                {repeatFrequency && (
+                  <Text style={styles.paymentPreview}>Add-ons are booked with every match in the series when available.</Text>
+                )}
               </View>
+            )}
+
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryTitle}>Promo Code & Credit</Text>
+
+              {!canUseDiscounts ? (
+                <Text style={styles.paymentPreview}>Promo codes and credit can only be used on single bookings.</Text>
+              ) : (
+                <>
+                  {appliedPromo ? (
+                    <View style={styles.promoApplied}>
+                      <Ionicons name="pricetag" size={18} color="#4CAF50" />
+                      <Text style={styles.promoAppliedText}>
+                        {appliedPromo.code} · {formatMoney(appliedPromo.discount)} off
+                        {appliedPromo.description ? ` · ${appliedPromo.description}` : ''}
+                      </Text>
+                      <TouchableOpacity onPress={handleRemovePromo}>
+                        <Ionicons name="close-circle" size={20} color="#ff6b6b" />
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <View style={styles.promoRow}>
+                      <TextInput
+                        style={[styles.textInput, styles.promoInput]}
+                        placeholder="Promo code"
+                        placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                        value={promoInput}
+                        onChangeText={setPromoInput}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                      />
+                      <TouchableOpacity
+                        style={styles.addMemberButton}
+                        onPress={handleApplyPromo}
+                        disabled={checkingPromo || !promoInput.trim()}
+                      >
+                        {checkingPromo ? (
+                          <ActivityIndicator size="small" color="#4CAF50" />
+                        ) : (
+                          <Text style={styles.addMemberText}>Apply</Text>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                  {!!promoError && <Text style={styles.inviteErrorText}>{promoError}</Text>}
 
-              <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Visibility:</Text>
-                <Text style={styles.summaryValue}>{isPublic ? 'Public' : 'Private'}</Text>
-              </View>
+                  {availableCredit > 0 && bookingTotal && (
+                    <TouchableOpacity style={styles.creditToggle} onPress={() => setUseCredit(!useCredit)}>
+                      <Ionicons name={useCredit ? 'checkbox' : 'square-outline'} size={20} color="#4CAF50" />
+                      <Text style={styles.creditToggleText}>
+                        Use my credit ({formatMoney({ amount: availableCredit, currency: bookingTotal.currency })} available)
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
             </View>
 
             <View style={styles.membersCard}>
@@ -1313,7 +2664,7 @@ const PlayScreen: React.FC = () => {
                 </TouchableOpacity>
               </View>
 
-              {invitedUsers.length === 0 ? (
+              {invitedUsers.length === 0 && members.length === 0 ? (
                 <Text style={styles.noMembersText}>No invites added yet</Text>
               ) : (
                 <View style={styles.membersList}>
@@ -1331,6 +2682,21 @@ const PlayScreen: React.FC = () => {
                       </TouchableOpacity>
                     </View>
                   ))}
+                  {members.map((member) => (
+                    <View key={member.id} style={styles.memberItem}>
+                      <View style={styles.memberInfo}>
+                        <Text style={styles.memberName}>{member.name} · Guest</Text>
+                        {!!member.email && <Text style={styles.memberEmail}>{member.email}</Text>}
+                        {!!member.phone && <Text style={styles.memberPhone}>{member.phone}</Text>}
+                      </View>
+                      <TouchableOpacity 
+                        style={styles.removeMemberButton}
+                        onPress={() => removeMember(member.id)}
+                      >
+                        <Ionicons name="close-circle" size={20} color="#ff6b6b" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
                 </View>
               )}
             </View>
@@ -1402,6 +2768,55 @@ const PlayScreen: React.FC = () => {
                     </View>
                   )}
 
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Or add a guest without the app</Text>
+                    <TextInput
+                      style={styles.textInput}
+                      value={newMemberName}
+                      onChangeText={setNewMemberName}
+                      placeholder="Name"
+                      placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                    />
+                    <TextInput
+                      style={styles.textInput}
+                      value={newMemberEmail}
+                      onChangeText={setNewMemberEmail}
+                      placeholder="Email (optional, for the invite)"
+                      placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                      keyboardType="email-address"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                    <TextInput
+                      style={styles.textInput}
+                      value={newMemberPhone}
+                      onChangeText={setNewMemberPhone}
+                      placeholder="Phone (optional, for the invite)"
+                      placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                      keyboardType="phone-pad"
+                    />
+                    {!!guestError && (
+                      <Text style={styles.inviteErrorText}>{guestError}</Text>
+                    )}
+                    <TouchableOpacity style={styles.addMemberButton} onPress={addMember}>
+                      <Ionicons name="person-add-outline" size={20} color="#4CAF50" />
+                      <Text style={styles.addMemberText}>Add Guest</Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {members.length > 0 && (
+                    <View style={styles.invitedChipsWrap}>
+                      {members.map(member => (
+                        <View key={member.id} style={styles.invitedChip}>
+                          <Text style={styles.invitedChipText}>{member.name}</Text>
+                          <TouchableOpacity onPress={() => removeMember(member.id)}>
+                            <Ionicons name="close" size={12} color="rgba(255,255,255,0.8)" />
+                          </TouchableOpacity>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
                   <TouchableOpacity style={styles.addMemberSubmitButton} onPress={() => setShowMemberModal(false)}>
                     <Text style={styles.addMemberSubmitText}>Done</Text>
                   </TouchableOpacity>
@@ -1445,8 +2860,8 @@ const PlayScreen: React.FC = () => {
 };
 
 // Step indicator for the create-match flow
-const StepIndicator: React.FC<{ currentStepIndex: 0 | 1 }> = ({ currentStepIndex }) => {
-  const steps = ['Details', 'Confirm'];
+const StepIndicator: React.FC<{ currentStepIndex: 0 | 1 | 2 }> = ({ currentStepIndex }) => {
+  const steps = ['Pitch', 'Details', 'Confirm'];
   return (
     <View style={styles.stepContainer}>
       {steps.map((label, index) => (
@@ -1544,6 +2959,19 @@ const styles = StyleSheet.create({
     marginLeft: 16,
     flex: 1,
   },
+  joinCodeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 10,
+  },
+  joinCodeButtonText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   buttonText: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -1574,6 +3002,41 @@ const styles = StyleSheet.create({
   publicGamesSection: {
     width: '100%',
   },
+  publicFilterRow: {
+    marginBottom: 12,
+  },
+  filterToggleChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  gameFilterPanel: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  gameFilterGroup: {
+    marginBottom: 10,
+  },
+  gameFilterLabel: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginBottom: 6,
+  },
+  locationHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  locationHintText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#ffa726',
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -1590,6 +3053,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  sectionHeaderActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   refreshButton: {
     padding: 8,
     backgroundColor: 'rgba(255, 255, 255, 0.1)',
@@ -1825,6 +3292,194 @@ const styles = StyleSheet.create({
     color: '#66BB6A',
     textAlign: 'center',
   },
+  pitchPhoto: {
+    width: '100%',
+    height: 80,
+    borderRadius: 10,
+    marginBottom: 12,
+  },
+  pitchAttributes: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.55)',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  filterSection: {
+    marginBottom: 16,
+    gap: 10,
+  },
+  filterRow: {
+    flexGrow: 0,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    marginRight: 8,
+  },
+  filterChipActive: {
+    borderColor: '#4CAF50',
+    backgroundColor: 'rgba(76, 175, 80, 0.15)',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontWeight: '500',
+  },
+  filterChipTextActive: {
+    color: '#4CAF50',
+  },
+  repeatOptions: {
+    marginTop: 16,
+    gap: 12,
+  },
+  repeatEndRow: {
+    flexDirection: 'row',
+  },
+  repeatStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 20,
+  },
+  repeatStepperValue: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  substitutesStepper: {
+    marginVertical: 12,
+  },
+  positionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  positionLabel: {
+    fontSize: 15,
+    color: '#fff',
+  },
+  positionsNeeded: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  positionsNeededText: {
+    fontSize: 13,
+    color: '#ffa726',
+    fontWeight: '600',
+  },
+  formatWarning: {
+    fontSize: 13,
+    color: '#ffa726',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  occurrenceList: {
+    gap: 8,
+  },
+  occurrenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  occurrenceDate: {
+    fontSize: 14,
+    color: '#fff',
+    fontWeight: '500',
+  },
+  occurrenceMessage: {
+    flex: 1,
+    fontSize: 12,
+    color: '#ff6b6b',
+  },
+  cancelTermsText: {
+    fontSize: 13,
+    color: '#FF9800',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  cancelReasonInput: {
+    alignSelf: 'stretch',
+    marginBottom: 16,
+  },
+  paymentPreview: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: 8,
+  },
+  discountValue: {
+    color: '#4CAF50',
+  },
+  addonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  addonInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  addonName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  addonDetail: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 2,
+  },
+  addonStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  addonQuantity: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  promoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  promoInput: {
+    flex: 1,
+  },
+  promoApplied: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  promoAppliedText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  creditToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  creditToggleText: {
+    fontSize: 14,
+    color: '#fff',
+    marginLeft: 8,
+  },
+  refundDestinationRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
   section: {
     marginBottom: 30,
   },
@@ -2019,6 +3674,14 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.2)',
   },
+  confirmationButtonPrimary: {
+    flex: 1,
+    backgroundColor: '#4CAF50',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
   confirmationButtonDanger: {
     flex: 1,
     backgroundColor: '#F44336',
@@ -2539,10 +4202,41 @@ const styles = StyleSheet.create({
     borderColor: 'rgba(244, 67, 54, 0.3)',
     opacity: 0.6,
   },
+  heldOption: {
+    backgroundColor: 'rgba(255, 193, 7, 0.1)',
+    borderColor: 'rgba(255, 193, 7, 0.3)',
+    opacity: 0.7,
+  },
+  holdBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'rgba(255, 193, 7, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 193, 7, 0.3)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  holdBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFC107',
+    fontWeight: '600',
+  },
   unavailableOptionText: {
     color: 'rgba(255, 255, 255, 0.5)',
     textDecorationLine: 'line-through',
   },
+  slotPriceText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  slotPriceDeal: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
   loadingSlotsContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -19,6 +19,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { auth, db, supabase } from '../lib/supabase';
 import HourglassLoader from '../components/HourglassLoader';
+import { formatRating } from '../utils/votes';
 
 type ProfileNavigationProp = StackNavigationProp<RootStackParamList, 'Profile'>;
 type ProfileRouteProp = RouteProp<RootStackParamList, 'Profile'>;
@@ -47,6 +48,8 @@ interface UserProfile {
     mvps: number;
     goals?: number;
     assists?: number;
+    avg_rating?: number | null;
+    rated_matches?: number;
   };
 }
 
@@ -140,6 +143,8 @@ const ProfileScreen: React.FC = () => {
             mvps: profile.mvps || 0,
             goals: profile.goals || 0,
             assists: profile.assists || 0,
+            avg_rating: profile.avg_rating ?? null,
+            rated_matches: profile.rated_matches || 0,
           },
         };
 
@@ -572,6 +577,22 @@ const ProfileScreen: React.FC = () => {
             <Text style={styles.statLabel}>Win Rate</Text>
           </View>
         </View>
+        <View style={[styles.statsRow, styles.statsRowSpaced]}>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{userProfile?.stats.mvps || 0}</Text>
+            <Text style={styles.statLabel}>MVPs</Text>
+          </View>
+          <View style={styles.statItem}>
+            <View style={[styles.ratingContainer, styles.playerRatingContainer]}>
+              <Text style={styles.ratingValue}>{formatRating(userProfile?.stats.avg_rating)}</Text>
+            </View>
+            <Text style={styles.statLabel}>Avg Rating</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{userProfile?.stats.rated_matches || 0}</Text>
+            <Text style={styles.statLabel}>Rated Matches</Text>
+          </View>
+        </View>
       </View>
     );
   };
@@ -985,6 +1006,12 @@ const styles = StyleSheet.create({
     paddingHorizontal: 8,
     paddingVertical: 4,
   },
+  statsRowSpaced: {
+    marginTop: 16,
+  },
+  playerRatingContainer: {
+    backgroundColor: '#ffa726',
+  },
   ratingValue: {
     color: '#fff',
     fontSize: 16,
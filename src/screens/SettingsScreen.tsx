@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -13,11 +13,15 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
+import { calendarService } from '../services/calendarService';
+import { locationService } from '../services/locationService';
+import { useAppData } from '../context/AppDataContext';
 
 type SettingsNavigationProp = StackNavigationProp<RootStackParamList, 'Settings'>;
 
 const SettingsScreen: React.FC = () => {
   const navigation = useNavigation<SettingsNavigationProp>();
+  const { refreshPublicGames } = useAppData();
   const [settings, setSettings] = useState({
     darkMode: true,
     autoSave: true,
@@ -29,11 +33,65 @@ const SettingsScreen: React.FC = () => {
     offlineMode: false,
   });
 
+  useEffect(() => {
+    locationService.isEnabled().then(locationServices => {
+      setSettings(prev => ({ ...prev, locationServices }));
+    });
+  }, []);
+
+  const handleToggleSetting = async (key: keyof typeof settings, value: boolean) => {
+    if (key !== 'locationServices') {
+      setSettings(prev => ({ ...prev, [key]: value }));
+      return;
+    }
+
+    // Saved straight away: turning it on asks for permission first
+    const result = await locationService.setEnabled(value);
+    if (!result.success) {
+      Alert.alert('Location Services', result.error || 'Could not turn on Location Services');
+      return;
+    }
+    setSettings(prev => ({ ...prev, locationServices: value }));
+    refreshPublicGames();
+  };
+
   const handleSaveSettings = () => {
     // Here you would typically save to local storage or Supabase
     Alert.alert('Success', 'Settings saved successfully!');
   };
 
+  const handleSubscribeCalendar = async () => {
+    const result = await calendarService.subscribe();
+    if (!result.success) {
+      Alert.alert('Calendar', result.error || 'Could not open your calendar');
+    }
+  };
+
+  const handleShareCalendarLink = async () => {
+    const result = await calendarService.shareFeedLink();
+    if (!result.success) {
+      Alert.alert('Calendar', result.error || 'Could not share your calendar link');
+    }
+  };
+
+  const handleResetCalendarLink = () => {
+    Alert.alert(
+      'Reset Calendar Link',
+      'Calendars subscribed to your current link will stop updating. You will need to subscribe again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await calendarService.resetFeed();
+            Alert.alert('Calendar', result.success ? 'Your calendar link was reset.' : result.error || 'Could not reset your calendar link');
+          },
+        },
+      ]
+    );
+  };
+
   const settingsItems = [
     {
       key: 'darkMode',
@@ -139,7 +197,7 @@ const SettingsScreen: React.FC = () => {
                   </View>
                   <Switch
                     value={settings[item.key as keyof typeof settings] as boolean}
-                    onValueChange={(value) => setSettings({...settings, [item.key]: value})}
+                    onValueChange={(value) => handleToggleSetting(item.key as keyof typeof settings, value)}
                     trackColor={{ false: 'rgba(255, 255, 255, 0.2)', true: '#059669' }}
                     thumbColor={settings[item.key as keyof typeof settings] ? '#fff' : 'rgba(255, 255, 255, 0.5)'}
                   />
@@ -148,6 +206,46 @@ const SettingsScreen: React.FC = () => {
             </View>
           ))}
 
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Calendar</Text>
+            <TouchableOpacity style={styles.actionItem} onPress={handleSubscribeCalendar}>
+              <View style={styles.actionContent}>
+                <View style={styles.actionIcon}>
+                  <Ionicons name="calendar" size={20} color="#059669" />
+                </View>
+                <View style={styles.actionText}>
+                  <Text style={styles.actionTitle}>Subscribe in Calendar</Text>
+                  <Text style={styles.actionSubtitle}>Your games, matches and fixtures, kept up to date</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="rgba(255, 255, 255, 0.5)" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionItem} onPress={handleShareCalendarLink}>
+              <View style={styles.actionContent}>
+                <View style={styles.actionIcon}>
+                  <Ionicons name="link" size={20} color="#059669" />
+                </View>
+                <View style={styles.actionText}>
+                  <Text style={styles.actionTitle}>Share Calendar Link</Text>
+                  <Text style={styles.actionSubtitle}>Add the feed to Google Calendar or Outlook</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="rgba(255, 255, 255, 0.5)" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionItem} onPress={handleResetCalendarLink}>
+              <View style={styles.actionContent}>
+                <View style={styles.actionIcon}>
+                  <Ionicons name="key" size={20} color="#ef4444" />
+                </View>
+                <View style={styles.actionText}>
+                  <Text style={styles.actionTitle}>Reset Calendar Link</Text>
+                  <Text style={styles.actionSubtitle}>Stop anyone with the old link from seeing your games</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="rgba(255, 255, 255, 0.5)" />
+            </TouchableOpacity>
+          </View>
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Account</Text>
             <TouchableOpacity style={styles.actionItem}>
@@ -19,6 +19,7 @@ import { useNavigation } from '@react-navigation/native';
 import { supabase } from '../lib/supabase';
 import HourglassLoader from '../components/HourglassLoader';
 import TournamentBracket from '../components/TournamentBracket';
+import { calendarService } from '../services/calendarService';
 
 const { width } = Dimensions.get('window');
 
@@ -185,6 +186,32 @@ const TournamentsScreen: React.FC = () => {
     }
   };
 
+  const handleFixturePress = (match: any) => {
+    if (!match.scheduled_time || match.status !== 'scheduled') return;
+    Alert.alert(
+      `${match.team1?.name || 'TBD'} vs ${match.team2?.name || 'TBD'}`,
+      new Date(match.scheduled_time).toLocaleString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      }),
+      [
+        { text: 'Close', style: 'cancel' },
+        {
+          text: 'Add to Calendar',
+          onPress: async () => {
+            const result = await calendarService.addToCalendar('fixture', match.id);
+            if (!result.success) {
+              Alert.alert('Calendar', result.error || 'Could not add this fixture to your calendar');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const loadRegisteredTeams = async (tournamentId: string) => {
     try {
       const { data: teams } = await supabase
@@ -672,6 +699,7 @@ const TournamentsScreen: React.FC = () => {
               <TournamentBracket
                 tournamentId={selectedTournament.id}
                 matches={tournamentMatches}
+                onMatchPress={handleFixturePress}
               />
             )}
           </View>
@@ -0,0 +1,111 @@
+// Calendar Service
+// Links to the server's iCalendar endpoints: a personal feed that calendar apps
+// subscribe to, and one-off .ics downloads for a single game
+
+import { Linking, Share } from 'react-native';
+import { db } from '../lib/supabase';
+import { getServerUrl } from '../config/server';
+
+export type CalendarEventKind = 'booking' | 'match' | 'fixture';
+
+class CalendarService {
+  private token: string | null = null;
+
+  private async getToken(): Promise<string | null> {
+    if (this.token) {
+      return this.token;
+    }
+
+    const { data, error } = await db.getCalendarFeedToken();
+    if (error || !data) {
+      console.error('❌ Error loading calendar feed token:', error);
+      return null;
+    }
+
+    this.token = data;
+    return data;
+  }
+
+  /**
+   * HTTPS address of the user's feed (for copying into web calendars)
+   */
+  async getFeedUrl(): Promise<string | null> {
+    const token = await this.getToken();
+    return token ? `${getServerUrl()}/calendar/${token}.ics` : null;
+  }
+
+  /**
+   * Open the feed with webcal:// so the device calendar offers to subscribe
+   */
+  async subscribe(): Promise<{ success: boolean; error?: string }> {
+    const feedUrl = await this.getFeedUrl();
+    if (!feedUrl) {
+      return { success: false, error: 'Could not load your calendar link' };
+    }
+
+    try {
+      await Linking.openURL(feedUrl.replace(/^https?:\/\//, 'webcal://'));
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error opening calendar subscription:', error);
+      return { success: false, error: 'No calendar app could open the feed' };
+    }
+  }
+
+  /**
+   * Share the feed link through the system share sheet
+   */
+  async shareFeedLink(): Promise<{ success: boolean; error?: string }> {
+    const feedUrl = await this.getFeedUrl();
+    if (!feedUrl) {
+      return { success: false, error: 'Could not load your calendar link' };
+    }
+
+    await Share.share({ message: feedUrl, url: feedUrl });
+    return { success: true };
+  }
+
+  /**
+   * Issue a new feed token; calendars subscribed to the old link stop updating
+   */
+  async resetFeed(): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await db.resetCalendarFeedToken();
+    if (error || !data) {
+      return { success: false, error: 'Could not reset your calendar link' };
+    }
+
+    this.token = data;
+    return { success: true };
+  }
+
+  /**
+   * Download a single booking, ranked match or tournament fixture as an .ics event
+   */
+  async addToCalendar(kind: CalendarEventKind, id: string): Promise<{ success: boolean; error?: string }> {
+    const token = await this.getToken();
+    if (!token) {
+      return { success: false, error: 'Could not load your calendar link' };
+    }
+
+    try {
+      await Linking.openURL(`${getServerUrl()}/calendar/${token}/${kind}/${id}.ics`);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error opening calendar event:', error);
+      return { success: false, error: 'Could not open the calendar event' };
+    }
+  }
+
+  /**
+   * Forget the cached token (on sign-out)
+   */
+  clear() {
+    this.token = null;
+  }
+}
+
+// Export singleton instance
+export const calendarService = new CalendarService();
+
+// Export the class for testing
+export default CalendarService;
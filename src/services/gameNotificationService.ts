@@ -0,0 +1,128 @@
+// Game Notification Service
+// Tells the players of a game about changes to it (cancellations, moves,
+// freed-up spots) with an in-app notification plus a push message
+
+import { supabase } from '../lib/supabase';
+import { getServerUrl } from '../config/server';
+
+export interface GameUpdate {
+  type: string;
+  title: string;
+  message: string;
+  gameId: string;
+  data?: Record<string, any>;
+}
+
+class GameNotificationService {
+  /**
+   * Notify every joined member of a game except the person making the change
+   */
+  async notifyGameMembers(
+    gameId: string,
+    actorUserId: string,
+    update: Omit<GameUpdate, 'gameId'>,
+    excludeUserIds: string[] = []
+  ): Promise<{ success: number; failed: number }> {
+    const { data: members, error } = await supabase
+      .from('game_members')
+      .select('user_id')
+      .eq('game_id', gameId)
+      .eq('status', 'joined');
+
+    if (error) {
+      console.error('❌ Error loading game members to notify:', error);
+      return { success: 0, failed: 0 };
+    }
+
+    const skip = new Set([actorUserId, ...excludeUserIds]);
+    const userIds = (members || []).map((member: any) => member.user_id).filter((id: string) => !skip.has(id));
+
+    return this.notifyUsers(userIds, actorUserId, { ...update, gameId });
+  }
+
+  /**
+   * Send the same game update to a list of users
+   */
+  async notifyUsers(
+    userIds: string[],
+    actorUserId: string,
+    update: GameUpdate
+  ): Promise<{ success: number; failed: number }> {
+    let success = 0;
+    let failed = 0;
+
+    for (const userId of userIds) {
+      const result = await this.notifyUser(userId, actorUserId, update);
+      if (result.success) {
+        success++;
+      } else {
+        failed++;
+      }
+    }
+
+    console.log(`📊 ${update.type} notifications: ${success} sent, ${failed} failed`);
+    return { success, failed };
+  }
+
+  /**
+   * Store the notification and try a push; a failed push doesn't fail the notification
+   */
+  async notifyUser(userId: string, actorUserId: string, update: GameUpdate): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert([{
+          user_id: userId,
+          type: update.type,
+          title: update.title,
+          message: update.message,
+          game_id: update.gameId,
+          invited_by: actorUserId,
+          status: 'unread',
+          created_at: new Date().toISOString()
+        }]);
+
+      if (notificationError) {
+        console.error('❌ Error creating game notification:', notificationError);
+        return { success: false, error: 'Failed to create notification' };
+      }
+
+      try {
+        const response = await fetch(`${getServerUrl()}/send-user-notification`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            userId,
+            title: update.title,
+            message: update.message,
+            data: {
+              screen: 'GameDetails',
+              gameId: update.gameId,
+              type: update.type,
+              ...update.data,
+            },
+          }),
+        });
+
+        if (!response.ok) {
+          console.warn(`⚠️ Push notification for ${userId} returned status ${response.status}`);
+        }
+      } catch (pushError) {
+        console.error('❌ Error sending push notification:', pushError);
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error in notifyUser:', error);
+      return { success: false, error: 'Unexpected error occurred' };
+    }
+  }
+}
+
+// Export singleton instance
+export const gameNotificationService = new GameNotificationService();
+
+// Export the class for testing
+export default GameNotificationService;
@@ -0,0 +1,120 @@
+// Location Service
+// Where the player is, for sorting and filtering games by distance. Only used
+// once the player turns on Location Services in Settings. The position comes
+// from a swappable source so tests and simulators can use fixed coordinates.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { Coordinates } from '../utils/location';
+
+export interface LocationSource {
+  requestPermission(): Promise<boolean>;
+  getCurrentPosition(): Promise<Coordinates | null>;
+}
+
+const ENABLED_KEY = 'settings.locationServices';
+const MAX_POSITION_AGE_MS = 5 * 60 * 1000;
+
+// The device's GPS through expo-location
+export const deviceLocationSource: LocationSource = {
+  async requestPermission() {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    return status === 'granted';
+  },
+
+  async getCurrentPosition() {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      return null;
+    }
+
+    const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+    return { latitude: position.coords.latitude, longitude: position.coords.longitude };
+  },
+};
+
+// Always reports the same place and never asks for permission
+export const createFixedLocationSource = (coordinates: Coordinates): LocationSource => ({
+  requestPermission: async () => true,
+  getCurrentPosition: async () => coordinates,
+});
+
+class LocationService {
+  private source: LocationSource = deviceLocationSource;
+  private enabled: boolean | null = null;
+  private lastPosition: { coordinates: Coordinates; at: number } | null = null;
+
+  /**
+   * Swap where positions come from (e.g. a fixed source in tests)
+   */
+  setSource(source: LocationSource) {
+    this.source = source;
+    this.lastPosition = null;
+  }
+
+  /**
+   * Whether the player has turned on Location Services in Settings
+   */
+  async isEnabled(): Promise<boolean> {
+    if (this.enabled === null) {
+      try {
+        this.enabled = (await AsyncStorage.getItem(ENABLED_KEY)) === 'true';
+      } catch (error) {
+        console.error('❌ Error loading location setting:', error);
+        this.enabled = false;
+      }
+    }
+    return this.enabled;
+  }
+
+  /**
+   * Turn Location Services on or off. Turning it on asks for permission first
+   * and stays off if the player refuses.
+   */
+  async setEnabled(enabled: boolean): Promise<{ success: boolean; error?: string }> {
+    if (enabled) {
+      const granted = await this.source.requestPermission().catch(() => false);
+      if (!granted) {
+        return { success: false, error: 'Allow location access for HAGZ in your device settings to see games near you.' };
+      }
+    }
+
+    this.enabled = enabled;
+    this.lastPosition = null;
+    try {
+      await AsyncStorage.setItem(ENABLED_KEY, enabled ? 'true' : 'false');
+    } catch (error) {
+      console.error('❌ Error saving location setting:', error);
+    }
+    return { success: true };
+  }
+
+  /**
+   * The player's position, or null when Location Services are off or the
+   * position can't be read. Reuses a fix from the last few minutes.
+   */
+  async getCurrentPosition(): Promise<Coordinates | null> {
+    if (!(await this.isEnabled())) {
+      return null;
+    }
+
+    if (this.lastPosition && Date.now() - this.lastPosition.at < MAX_POSITION_AGE_MS) {
+      return this.lastPosition.coordinates;
+    }
+
+    try {
+      const coordinates = await this.source.getCurrentPosition();
+      this.lastPosition = coordinates ? { coordinates, at: Date.now() } : null;
+      return coordinates;
+    } catch (error) {
+      console.error('❌ Error reading current location:', error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const locationService = new LocationService();
+
+// Export the class for testing
+export default LocationService;
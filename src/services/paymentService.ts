@@ -0,0 +1,81 @@
+// Payment Service
+// Keeps booking shares in sync and pays them. The app never writes the payments
+// ledger itself: charges go through the payments server, which records what the
+// provider answered, and refunds are queued by the database whenever a re-split
+// leaves someone overpaid (including after cancel_booking and leave_game).
+
+import { db, supabase } from '../lib/supabase';
+import { getServerUrl } from '../config/server';
+import { ENV } from '../config/env';
+
+class PaymentService {
+  /**
+   * Recompute shares for a booking; anyone who has now overpaid gets a refund queued
+   */
+  async syncShares(bookingId: string): Promise<{ success: boolean; error?: string }> {
+    const { data: summaries, error } = await db.syncBookingShares(bookingId);
+    if (error || !summaries) {
+      return { success: false, error: error?.message || 'Failed to update payment shares' };
+    }
+    return { success: true };
+  }
+
+  /**
+   * Charge the signed-in member whatever they still owe for a booking
+   */
+  async payShare(bookingId: string): Promise<{ success: boolean; error?: string }> {
+    if (!ENV.ENABLE_SUPABASE) {
+      return { success: false, error: 'Payments are unavailable offline' };
+    }
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        return { success: false, error: 'Please sign in to pay' };
+      }
+
+      const response = await fetch(`${getServerUrl()}/payments/pay-share`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ bookingId }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        return { success: false, error: result.error || 'Payment failed' };
+      }
+
+      console.log(`💳 Paid ${result.currency} ${result.amount} for booking ${bookingId}`);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error paying booking share:', error);
+      return { success: false, error: 'Payment failed' };
+    }
+  }
+
+  /**
+   * Pay up to amount of a member's outstanding share from their booking credit
+   */
+  async payWithCredit(bookingId: string, userId: string, amount: number): Promise<{ success: boolean; amount?: number; error?: string }> {
+    const { data: result, error } = await db.spendBookingCredit(bookingId, amount);
+    if (error || !result) {
+      return { success: false, error: 'Failed to use your credit' };
+    }
+    if (!result.success) {
+      return { success: false, error: result.message };
+    }
+
+    await db.syncBookingShares(bookingId);
+    console.log(`🎟️ Paid ${result.currency} ${result.amount} of booking ${bookingId} with ${userId}'s credit`);
+    return { success: true, amount: result.amount };
+  }
+}
+
+// Export singleton instance
+export const paymentService = new PaymentService();
+
+// Export the class for testing
+export default PaymentService;
@@ -0,0 +1,30 @@
+// Add-on rental types shared by checkout, booking details and db helpers
+
+import { Money } from '../utils/money';
+
+// An add-on offered on a pitch, with what's left of it for one slot
+export interface SlotAddon {
+  id: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  price: Money;
+  max_per_booking: number;
+  available: number | null; // null = no stock limit
+}
+
+// What the user picked at checkout, sent with the booking
+export interface AddonSelection {
+  addon_id: string;
+  quantity: number;
+}
+
+// An add-on rented with a booking, priced when the booking was made
+export interface BookingAddon {
+  id: string;
+  booking_id: string;
+  addon_id: string | null;
+  name: string;
+  quantity: number;
+  unit_price: Money;
+}
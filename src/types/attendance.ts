@@ -0,0 +1,27 @@
+// Check-in and attendance types shared by the game screens and db helpers
+
+export type Attendance = 'present' | 'no_show';
+
+// What the organizer or venue shows as a QR code
+export interface CheckInCode {
+  code: string;
+  opens_at: string;
+  closes_at: string;
+}
+
+export type CheckInResult =
+  | { success: true; game_id: string; message: string }
+  | { success: false; game_id?: string; message: string };
+
+// Answers to the "still coming?" prompts before kick-off
+export type RsvpResponse = 'pending' | 'yes' | 'no' | 'maybe';
+
+export interface GameRsvp {
+  user_id: string;
+  response: RsvpResponse;
+  round: number;
+  prompted_at: string | null;
+  reminders_sent: number;
+  responded_at: string | null;
+  user_profiles?: { full_name: string; username: string } | null;
+}
@@ -0,0 +1,96 @@
+// Booking, slot hold and payment types shared by the booking flow and db helpers
+
+import { GameFormat } from '../utils/gameFormats';
+import { MemberPaymentStatus, PaymentMode } from '../utils/payments';
+
+export type BookingConflictCode = 'closed' | 'outside_hours' | 'slot_taken' | 'held' | 'not_found' | 'forbidden' | 'promo_invalid' | 'addon_unavailable' | 'no_price';
+
+export interface BookingConflict {
+  code: BookingConflictCode;
+  message: string;
+  conflicting_booking?: {
+    source_type: 'match' | 'booking' | 'block';
+    source_id: string;
+    time_slot: number;
+  } | null;
+  expires_at?: string;
+}
+
+export interface Booking {
+  id: string;
+  pitch_id: string;
+  venue_id?: string | null;
+  pitch_name: string;
+  pitch_location: string;
+  date: string;
+  time: string;
+  time_slot: number;
+  price_amount: number | null;
+  price_currency: string;
+  payment_mode: PaymentMode;
+  per_player_fee?: number | null;
+  created_by: string;
+  max_players: number; // kept in step with the format on the server
+  game_format?: GameFormat | null;
+  substitutes?: number;
+  match_minutes?: number | null;
+  is_public: boolean;
+  status: string;
+  series_id?: string | null;
+  promo_code?: string | null;
+  discount_amount?: number | null; // already taken off price_amount
+  credit_applied?: number;
+  addons_amount?: number; // already included in price_amount
+  created_at?: string;
+}
+
+// Where a booking moves to when the organizer reschedules it. The pitch details
+// and price are looked up again by update_booking.
+export interface RescheduleChanges {
+  pitch_id: string;
+  date: string;
+  time: string;
+  time_slot: number;
+}
+
+export type ReconfirmStatus = 'pending' | 'confirmed';
+
+export type BookingResult =
+  | { success: true; booking: Booking }
+  | { success: false; conflict: BookingConflict };
+
+// A short-lived reservation taken while the user completes checkout
+export interface SlotHold {
+  id: string;
+  pitch_id: string;
+  booking_date: string;
+  time_slot: number;
+  expires_at: string;
+}
+
+export type SlotHoldResult =
+  | { success: true; hold: SlotHold }
+  | { success: false; conflict: BookingConflict };
+
+// One row of the payments ledger
+export interface BookingPayment {
+  id: string;
+  booking_id: string;
+  user_id: string;
+  kind: 'charge' | 'refund' | 'fee';
+  amount: number;
+  currency: string;
+  status: 'pending' | 'sending' | 'succeeded' | 'failed';
+  provider: string;
+  provider_reference?: string | null;
+  reason?: string | null;
+  created_at?: string;
+}
+
+export interface MemberPaymentSummary {
+  user_id: string;
+  amount_due: number;
+  amount_paid: number;
+  payment_status: MemberPaymentStatus;
+  currency: string;
+}
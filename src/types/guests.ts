@@ -0,0 +1,18 @@
+// Guest player types shared by the game screens and db helpers
+
+// A player without an account who has a spot in a game. Contact details and
+// the claim code are only returned to the organizer.
+export interface GameGuest {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  claim_token?: string | null;
+  created_at: string;
+}
+
+export interface NewGameGuest {
+  name: string;
+  email?: string;
+  phone?: string;
+}
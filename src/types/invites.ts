@@ -0,0 +1,23 @@
+// Join code types shared by the game screens and db helpers
+
+// A game's shareable code, as its organizer sees it
+export interface GameJoinCode {
+  code: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  uses: number;
+  revoked: boolean;
+}
+
+// What someone opening an invite link sees before joining
+export interface JoinCodeGame {
+  game_id: string;
+  pitch_name: string;
+  pitch_location: string;
+  date: string;
+  time: string;
+  players: number;
+  max_players: number;
+  is_member: boolean;
+  problem: string | null; // why the code can't be used right now
+}
@@ -0,0 +1,62 @@
+// Venue operator portal types shared by the operator screens and db helpers
+
+import { Money } from '../utils/money';
+
+export type VenueOperatorRole = 'owner' | 'staff';
+
+export interface OperatorVenue {
+  venue_id: string;
+  venue_name: string;
+  role: VenueOperatorRole;
+}
+
+export type ScheduleEntrySource = 'match' | 'booking' | 'block';
+
+// One occupied slot on a pitch. The booking details are only filled in for
+// operators of the pitch.
+export interface ScheduleEntry {
+  pitch_id: string;
+  booking_date: string;
+  time_slot: number;
+  duration_minutes: number;
+  source_type: ScheduleEntrySource;
+  source_id: string;
+  status: string | null;
+  booked_by: string | null;
+  player_count: number | null;
+  block_reason: string | null;
+}
+
+export interface BookingConflictsRange {
+  start_date: string;
+  end_date: string;
+  conflicts: ScheduleEntry[];
+}
+
+// A booking waiting for the operator's decision
+export interface PendingApproval {
+  id: string;
+  pitch_id: string;
+  pitch_name: string;
+  date: string;
+  time: string;
+  time_slot: number;
+  price: Money | null;
+  booked_by: string | null;
+  created_at: string;
+}
+
+export interface PitchRevenue {
+  pitch_id: string;
+  pitch_name: string;
+  currency: string;
+  bookings: number;
+  charged: number;
+  refunded: number;
+  fees: number;
+  net: number;
+}
+
+export type BlockSlotResult =
+  | { success: true; block_id: string }
+  | { success: false; conflict: { code: string; message: string } };
@@ -0,0 +1,20 @@
+// Promo code and booking credit types shared by checkout, payments and db helpers
+
+import { Money } from '../utils/money';
+
+// Result of checking a code against a slot's price
+export type PromoCodeCheck =
+  | { valid: true; promo_code_id: string; code: string; description: string | null; discount: Money }
+  | { valid: false; message: string };
+
+export interface CreditBalance {
+  currency: string;
+  balance: number;
+}
+
+export type CreditResult =
+  | { success: true; amount: number; currency: string }
+  | { success: false; message: string };
+
+// Where refunded money goes: back the way it was paid, or into the member's booking credit
+export type RefundDestination = 'original' | 'credit';
@@ -0,0 +1,32 @@
+// Game result types shared by the game screens and db helpers
+
+export type GameResultStatus = 'pending' | 'disputed' | 'final';
+
+export type ResultResponse = 'confirmed' | 'disputed';
+
+// One line of the result sheet
+export interface ResultPlayer {
+  user_id: string;
+  team_index: number | null; // 0 = Team A, null when not on a team
+  goals: number;
+  assists: number;
+  user_profiles?: { full_name: string; username: string } | null;
+}
+
+export interface ResultConfirmation {
+  user_id: string;
+  response: ResultResponse;
+  reason?: string | null;
+  responded_at: string;
+}
+
+// The score the organizer entered and where it is in the confirmation window
+export interface GameResult {
+  scores: number[]; // goals per team, Team A first
+  status: GameResultStatus;
+  submitted_at: string;
+  confirm_by: string;
+  finalized_at?: string | null;
+  players: ResultPlayer[];
+  responses: ResultConfirmation[];
+}
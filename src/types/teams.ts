@@ -0,0 +1,14 @@
+// Team split types shared by the game screens and db helpers
+
+export interface TeamPlayer {
+  user_id: string;
+  team_index: number; // 0 = Team A
+  lock_group: number | null;
+}
+
+// The split the organizer published for everyone in the game
+export interface PublishedTeams {
+  team_count: number;
+  published_at: string;
+  players: TeamPlayer[];
+}
@@ -0,0 +1,72 @@
+// Venue and pitch catalog types shared by the booking flow and db helpers
+
+import { Money } from '../utils/money';
+import { Coordinates } from '../utils/location';
+import { GameFormat } from '../utils/gameFormats';
+
+export type PitchSurface = 'artificial_grass' | 'natural_grass' | 'hard_court' | 'indoor_turf';
+
+export type PitchSize = 5 | 7 | 11;
+
+export interface Venue {
+  id: string;
+  name: string;
+  location: string;
+  address?: string | null;
+  description?: string | null;
+  photos: string[];
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface Pitch {
+  id: string;
+  venue_id: string;
+  name: string;
+  surface: PitchSurface;
+  size: PitchSize;
+  is_indoor: boolean;
+  photos: string[];
+  price: Money;
+  venue?: Venue;
+}
+
+// A public game with spots left, as shown on the venue map
+export interface VenueGame {
+  id: string;
+  venue_id: string;
+  pitch_id: string | null;
+  pitch_name: string;
+  time: string;
+  format: GameFormat | null;
+  players: number;
+  max_players: number;
+}
+
+export interface PitchAvailability {
+  pitch: Pitch;
+  free_slots: number[]; // slot start times, minutes after midnight
+}
+
+// Everything a venue pin on the map summarizes for one day
+export interface VenueDaySummary {
+  venue: Venue;
+  coordinates: Coordinates;
+  pitches: PitchAvailability[];
+  open_games: VenueGame[];
+}
+
+export interface PitchFilters {
+  venueId?: string;
+  size?: PitchSize;
+  surface?: PitchSurface;
+  isIndoor?: boolean;
+  search?: string;
+}
+
+export const PITCH_SURFACE_LABELS: Record<PitchSurface, string> = {
+  artificial_grass: 'Artificial Grass',
+  natural_grass: 'Natural Grass',
+  hard_court: 'Hard Court',
+  indoor_turf: 'Indoor Turf',
+};
@@ -0,0 +1,36 @@
+// Post-match MVP vote types shared by the match screens and db helpers
+
+// Pickup games vote on their booking, ranked matches on their matches row
+export type VoteSource = 'game' | 'match';
+
+export interface VoteParticipant {
+  user_id: string;
+  side: string | null; // team index of a pickup game or team id of a ranked match
+  full_name: string | null;
+  username: string | null;
+}
+
+export interface MyVote {
+  mvp_id: string | null;
+  ratings: Record<string, number>; // player id -> 1-10
+}
+
+// A player's tallied outcome for one match
+export interface PlayerVoteResult {
+  player_id: string;
+  avg_rating: number | null;
+  ratings: number;
+  mvp_votes: number;
+  is_mvp: boolean;
+}
+
+export interface MatchVote {
+  opens_at: string;
+  closes_at: string;
+  tallied_at: string | null;
+  mvp_ids: string[];
+  participants: VoteParticipant[];
+  voters: number;
+  my_vote: MyVote | null;
+  results: PlayerVoteResult[];
+}
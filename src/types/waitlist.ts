@@ -0,0 +1,17 @@
+// Waitlist types shared by the game screens and db helpers
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'accepted' | 'declined' | 'expired' | 'left';
+
+// The current user's place in a game's queue
+export interface WaitlistSummary {
+  status: WaitlistStatus | null;
+  position: number | null;
+  offer_expires_at: string | null;
+  waiting_count: number;
+  reserved_spots: number;
+}
+
+export interface WaitlistOffer {
+  user_id: string;
+  offer_expires_at: string;
+}
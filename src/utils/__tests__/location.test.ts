@@ -0,0 +1,73 @@
+import { formatDistance, getBoundingBox, getDistanceKm, getRowCoordinates } from '../location';
+
+const london = { latitude: 51.5074, longitude: -0.1278 };
+const paris = { latitude: 48.8566, longitude: 2.3522 };
+
+describe('getDistanceKm', () => {
+  it('measures the great-circle distance between two points', () => {
+    expect(getDistanceKm(london, paris)).toBeCloseTo(343.5, 0);
+    expect(getDistanceKm(paris, london)).toBeCloseTo(getDistanceKm(london, paris), 6);
+  });
+
+  it('is zero for the same point', () => {
+    expect(getDistanceKm(london, london)).toBe(0);
+  });
+});
+
+describe('getBoundingBox', () => {
+  it('contains every point within the radius', () => {
+    const box = getBoundingBox(london, 10);
+    // Due north, south, east and west, just inside 10 km
+    const edges = [0, 90, 180, 270].map(bearing => {
+      const radians = (bearing * Math.PI) / 180;
+      return {
+        latitude: london.latitude + (9.99 / 111.32) * Math.cos(radians),
+        longitude: london.longitude + (9.99 / (111.32 * Math.cos((london.latitude * Math.PI) / 180))) * Math.sin(radians),
+      };
+    });
+
+    edges.forEach(point => {
+      expect(getDistanceKm(london, point)).toBeLessThan(10);
+      expect(point.latitude).toBeGreaterThanOrEqual(box.minLatitude);
+      expect(point.latitude).toBeLessThanOrEqual(box.maxLatitude);
+      expect(point.longitude).toBeGreaterThanOrEqual(box.minLongitude);
+      expect(point.longitude).toBeLessThanOrEqual(box.maxLongitude);
+    });
+  });
+
+  it('takes in every longitude right by a pole', () => {
+    const box = getBoundingBox({ latitude: 89.99, longitude: 10 }, 50);
+
+    expect(box.maxLatitude).toBe(90);
+    expect(box.minLongitude).toBe(-180);
+    expect(box.maxLongitude).toBe(180);
+  });
+});
+
+describe('getRowCoordinates', () => {
+  it('reads numeric and string coordinates off a row', () => {
+    expect(getRowCoordinates({ latitude: '51.5', longitude: -0.12 })).toEqual({ latitude: 51.5, longitude: -0.12 });
+  });
+
+  it('is null for rows that are not on the map', () => {
+    expect(getRowCoordinates(null)).toBeNull();
+    expect(getRowCoordinates({ latitude: 51.5, longitude: null })).toBeNull();
+    expect(getRowCoordinates({ longitude: -0.12 })).toBeNull();
+  });
+
+  it('keeps a coordinate of zero', () => {
+    expect(getRowCoordinates({ latitude: 0, longitude: 0 })).toEqual({ latitude: 0, longitude: 0 });
+  });
+});
+
+describe('formatDistance', () => {
+  it('rounds short distances to 50 metres, with a 50 m floor', () => {
+    expect(formatDistance(0.01)).toBe('50 m');
+    expect(formatDistance(0.349)).toBe('350 m');
+  });
+
+  it('shows one decimal under 10 km and whole kilometres above', () => {
+    expect(formatDistance(4.24)).toBe('4.2 km');
+    expect(formatDistance(18.4)).toBe('18 km');
+  });
+});
@@ -0,0 +1,70 @@
+import { Coordinates } from '../location';
+import { MapRegion, clusterPoints, getRegionForPoints } from '../mapClusters';
+
+interface Pin {
+  id: string;
+  coordinates: Coordinates;
+}
+
+const pin = (id: string, latitude: number, longitude: number): Pin => ({ id, coordinates: { latitude, longitude } });
+
+const region = (delta: number): MapRegion => ({ latitude: 51.5, longitude: -0.1, latitudeDelta: delta, longitudeDelta: delta });
+
+const pins = [
+  pin('a', 51.5001, -0.1001),
+  pin('b', 51.5003, -0.1003),
+  pin('c', 51.55, -0.15),
+];
+
+describe('clusterPoints', () => {
+  it('groups nearby pins into one cluster when zoomed out', () => {
+    const clusters = clusterPoints(pins, item => item.coordinates, region(0.6));
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].items.map(item => item.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('splits pins apart when zoomed in', () => {
+    const clusters = clusterPoints(pins, item => item.coordinates, region(0.06));
+
+    expect(clusters.map(cluster => cluster.items.map(item => item.id))).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('places a cluster at the average of its pins', () => {
+    const [cluster] = clusterPoints(pins.slice(0, 2), item => item.coordinates, region(0.06));
+
+    expect(cluster.coordinates.latitude).toBeCloseTo(51.5002, 6);
+    expect(cluster.coordinates.longitude).toBeCloseTo(-0.1002, 6);
+  });
+
+  it('returns no clusters for no pins', () => {
+    expect(clusterPoints([], (item: Pin) => item.coordinates, region(0.6))).toEqual([]);
+  });
+});
+
+describe('getRegionForPoints', () => {
+  it('is null with no points', () => {
+    expect(getRegionForPoints([])).toBeNull();
+  });
+
+  it('centres on the points with a margin around them', () => {
+    const fitted = getRegionForPoints([
+      { latitude: 51.4, longitude: -0.2 },
+      { latitude: 51.6, longitude: 0 },
+    ]);
+
+    expect(fitted?.latitude).toBeCloseTo(51.5, 6);
+    expect(fitted?.longitude).toBeCloseTo(-0.1, 6);
+    expect(fitted?.latitudeDelta).toBeCloseTo(0.28, 6);
+    expect(fitted?.longitudeDelta).toBeCloseTo(0.28, 6);
+  });
+
+  it('does not zoom in past the closest level for a single point', () => {
+    expect(getRegionForPoints([{ latitude: 51.5, longitude: -0.1 }])).toEqual({
+      latitude: 51.5,
+      longitude: -0.1,
+      latitudeDelta: 0.02,
+      longitudeDelta: 0.02,
+    });
+  });
+});
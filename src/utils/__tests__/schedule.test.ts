@@ -0,0 +1,108 @@
+import {
+  DEFAULT_PITCH_SCHEDULE,
+  PitchSchedule,
+  formatSlotLabel,
+  generateTimeSlots,
+  getClosure,
+  getSlotLabel,
+  getSlotPeriod,
+} from '../schedule';
+
+const schedule = (overrides: Partial<Omit<PitchSchedule, 'pitch_id'>> = {}): Omit<PitchSchedule, 'pitch_id'> => ({
+  ...DEFAULT_PITCH_SCHEDULE,
+  ...overrides,
+});
+
+describe('formatSlotLabel', () => {
+  it('formats minutes from midnight as a 12-hour clock time', () => {
+    expect(formatSlotLabel(0)).toBe('12:00 AM');
+    expect(formatSlotLabel(12 * 60)).toBe('12:00 PM');
+    expect(formatSlotLabel(18 * 60 + 30)).toBe('6:30 PM');
+  });
+
+  it('wraps slots after midnight onto the next morning', () => {
+    expect(formatSlotLabel(1500)).toBe('1:00 AM');
+    expect(formatSlotLabel(1440)).toBe('12:00 AM');
+  });
+});
+
+describe('getSlotPeriod', () => {
+  it('groups slots by time of day', () => {
+    expect(getSlotPeriod(9 * 60)).toBe('Morning');
+    expect(getSlotPeriod(14 * 60)).toBe('Afternoon');
+    expect(getSlotPeriod(18 * 60)).toBe('Evening');
+    expect(getSlotPeriod(22 * 60)).toBe('Night');
+  });
+
+  it('treats the small hours as late night on either side of midnight', () => {
+    expect(getSlotPeriod(2 * 60)).toBe('Late Night');
+    expect(getSlotPeriod(25 * 60)).toBe('Late Night');
+  });
+});
+
+describe('generateTimeSlots', () => {
+  it('keeps the league default of hourly slots from 6pm to 3am', () => {
+    const slots = generateTimeSlots(schedule(), '2026-10-19');
+
+    expect(slots.map(slot => slot.value)).toEqual([1080, 1140, 1200, 1260, 1320, 1380, 1440, 1500, 1560]);
+    expect(slots[slots.length - 1]).toMatchObject({ end: 1620, label: '2:00 AM', period: 'Late Night' });
+  });
+
+  it('leaves the buffer between slots and drops a slot that would run past closing', () => {
+    const slots = generateTimeSlots(schedule({
+      slot_duration_minutes: 90,
+      buffer_minutes: 15,
+      opening_hours: [{ weekday: 1, opens_at: 9 * 60, closes_at: 13 * 60 + 30 }],
+    }), '2026-10-19');
+
+    expect(slots.map(slot => [slot.value, slot.end])).toEqual([[540, 630], [645, 735]]);
+  });
+
+  it('only uses the opening hours of the date\'s weekday', () => {
+    const weekdayOnly = schedule({
+      opening_hours: [{ weekday: 1, opens_at: 600, closes_at: 720 }],
+    });
+
+    // 2026-10-19 is a Monday, 2026-10-18 a Sunday
+    expect(generateTimeSlots(weekdayOnly, '2026-10-19')).toHaveLength(2);
+    expect(generateTimeSlots(weekdayOnly, '2026-10-18')).toEqual([]);
+  });
+
+  it('merges split opening hours in time order', () => {
+    const slots = generateTimeSlots(schedule({
+      opening_hours: [
+        { weekday: 1, opens_at: 1080, closes_at: 1200 },
+        { weekday: 1, opens_at: 600, closes_at: 660 },
+      ],
+    }), '2026-10-19');
+
+    expect(slots.map(slot => slot.value)).toEqual([600, 1080, 1140]);
+  });
+
+  it('has no slots on a closure date', () => {
+    const closed = schedule({ closures: [{ date: '2026-10-19', reason: 'Resurfacing' }] });
+
+    expect(generateTimeSlots(closed, '2026-10-19')).toEqual([]);
+    expect(getClosure(closed, '2026-10-19')).toEqual({ date: '2026-10-19', reason: 'Resurfacing' });
+    expect(getClosure(closed, '2026-10-20')).toBeNull();
+  });
+
+  it('uses the first opening hours when no date is given', () => {
+    const slots = generateTimeSlots(schedule({
+      opening_hours: [
+        { weekday: 3, opens_at: 600, closes_at: 720 },
+        { weekday: 4, opens_at: 900, closes_at: 960 },
+      ],
+    }));
+
+    expect(slots.map(slot => slot.value)).toEqual([600, 660]);
+  });
+});
+
+describe('getSlotLabel', () => {
+  it('labels a missing slot as unknown', () => {
+    expect(getSlotLabel(null)).toBe('Unknown');
+    expect(getSlotLabel(undefined)).toBe('Unknown');
+    expect(getSlotLabel(1080)).toBe('6:00 PM');
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  BalancePlayer,
+  balanceTeams,
+  getLockGroups,
+  getPlayerRating,
+  getTeamCountOptions,
+  toTeamPlayers,
+} from '../teamBalance';
+
+// No reshuffle noise, so the split is deterministic
+const noShuffle = () => 0;
+
+const player = (user_id: string, overrides: Partial<BalancePlayer> = {}): BalancePlayer => ({
+  user_id,
+  skill_level: 'intermediate',
+  ...overrides,
+});
+
+const teamOf = (teams: ReturnType<typeof balanceTeams>, userId: string) =>
+  teams.find(team => team.playerIds.includes(userId))?.index;
+
+describe('getPlayerRating', () => {
+  it('rates new players by the skill level they picked', () => {
+    expect(getPlayerRating(player('a', { skill_level: 'beginner' }))).toBe(40);
+    expect(getPlayerRating(player('a', { skill_level: 'professional' }))).toBe(85);
+    expect(getPlayerRating(player('a', { skill_level: null }))).toBe(50);
+  });
+
+  it('nudges the rating by win rate and MVPs once they have a record', () => {
+    // 10 games, all won, 5 MVPs: +10 for winning, +5 for MVPs
+    expect(getPlayerRating(player('a', { matches_played: 10, wins: 10, mvps: 5 }))).toBe(70);
+    // 10 games, none won: -10
+    expect(getPlayerRating(player('a', { matches_played: 10, wins: 0 }))).toBe(45);
+  });
+
+  it('only counts part of a short record', () => {
+    // 5 of 10 games needed, all won: half of +10
+    expect(getPlayerRating(player('a', { matches_played: 5, wins: 5 }))).toBe(60);
+  });
+});
+
+describe('getTeamCountOptions', () => {
+  it('always offers two sides and more only with at least two players each', () => {
+    expect(getTeamCountOptions(3)).toEqual([2]);
+    expect(getTeamCountOptions(6)).toEqual([2, 3]);
+    expect(getTeamCountOptions(8)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('balanceTeams', () => {
+  it('splits players into even sides with close ratings', () => {
+    const players = [
+      player('pro', { skill_level: 'professional' }),
+      player('adv', { skill_level: 'advanced' }),
+      player('int1'),
+      player('int2'),
+      player('beg1', { skill_level: 'beginner' }),
+      player('beg2', { skill_level: 'beginner' }),
+    ];
+
+    const teams = balanceTeams(players, 2, [], noShuffle);
+
+    expect(teams.map(team => team.playerIds.length)).toEqual([3, 3]);
+    expect(teams.flatMap(team => team.playerIds).sort()).toEqual(players.map(p => p.user_id).sort());
+    expect(Math.abs(teams[0].rating - teams[1].rating)).toBeLessThanOrEqual(15);
+    expect(teamOf(teams, 'pro')).not.toBe(teamOf(teams, 'adv'));
+  });
+
+  it('puts the goalkeepers on different sides', () => {
+    const players = [
+      player('gk1', { position: 'goalkeeper', skill_level: 'professional' }),
+      player('gk2', { position: 'goalkeeper', skill_level: 'professional' }),
+      player('a'),
+      player('b'),
+      player('c'),
+      player('d'),
+    ];
+
+    const teams = balanceTeams(players, 2, [], noShuffle);
+
+    expect(teamOf(teams, 'gk1')).not.toBe(teamOf(teams, 'gk2'));
+  });
+
+  it('keeps locked players together', () => {
+    const players = [
+      player('pro1', { skill_level: 'professional' }),
+      player('pro2', { skill_level: 'professional' }),
+      player('a'),
+      player('b'),
+      player('c'),
+      player('d'),
+    ];
+
+    const teams = balanceTeams(players, 2, [['pro1', 'pro2']], noShuffle);
+
+    expect(teamOf(teams, 'pro1')).toBe(teamOf(teams, 'pro2'));
+  });
+
+  it('gives every requested side some players', () => {
+    const players = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(id => player(id));
+
+    const teams = balanceTeams(players, 4, [], noShuffle);
+
+    expect(teams).toHaveLength(4);
+    expect(teams.map(team => team.playerIds.length)).toEqual([2, 2, 2, 2]);
+  });
+});
+
+describe('published splits', () => {
+  it('round-trips lock groups through the published rows', () => {
+    const teams = [
+      { index: 0, playerIds: ['a', 'b'], rating: 110 },
+      { index: 1, playerIds: ['c', 'd'], rating: 110 },
+    ];
+    const lockGroups = [['a', 'b'], ['c']];
+
+    const rows = toTeamPlayers(teams, lockGroups);
+
+    expect(rows).toEqual([
+      { user_id: 'a', team_index: 0, lock_group: 0 },
+      { user_id: 'b', team_index: 0, lock_group: 0 },
+      { user_id: 'c', team_index: 1, lock_group: null },
+      { user_id: 'd', team_index: 1, lock_group: null },
+    ]);
+    expect(getLockGroups(rows)).toEqual([['a', 'b']]);
+  });
+});
@@ -0,0 +1,74 @@
+// Cancellation policy helpers
+// Each pitch sets a free cancellation window, a late-cancel fee and a cutoff
+// after which nothing is refunded. Hours are counted back from kick-off.
+
+import { Money, fromMinorUnits, toMinorUnits } from './money';
+
+export interface CancellationPolicy {
+  free_cancellation_hours: number;
+  late_cancel_fee_percent: number; // 0 - 100
+  no_refund_hours: number;
+}
+
+export type CancellationTier = 'free' | 'late' | 'no_refund';
+
+export interface CancellationTerms {
+  tier: CancellationTier;
+  hours_until_start: number;
+  fee_percent: number; // share of the amount paid that is kept
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  free_cancellation_hours: 24,
+  late_cancel_fee_percent: 50,
+  no_refund_hours: 2,
+};
+
+// Kick-off time for a booking date and slot (slots past 1440 roll into the next day)
+export const getMatchStart = (dateString: string, timeSlot: number) => {
+  const start = new Date(`${dateString}T00:00:00`);
+  start.setMinutes(start.getMinutes() + timeSlot);
+  return start;
+};
+
+export const getCancellationTerms = (
+  policy: CancellationPolicy,
+  matchStart: Date,
+  now: Date = new Date()
+): CancellationTerms => {
+  const hoursUntilStart = (matchStart.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+  if (hoursUntilStart >= policy.free_cancellation_hours) {
+    return { tier: 'free', hours_until_start: hoursUntilStart, fee_percent: 0 };
+  }
+  if (hoursUntilStart >= policy.no_refund_hours) {
+    return { tier: 'late', hours_until_start: hoursUntilStart, fee_percent: policy.late_cancel_fee_percent };
+  }
+  return { tier: 'no_refund', hours_until_start: hoursUntilStart, fee_percent: 100 };
+};
+
+// Portion of an amount kept as the cancellation fee
+export const getCancellationFee = (amount: Money, terms: CancellationTerms): Money => ({
+  amount: fromMinorUnits(Math.round(toMinorUnits(amount.amount) * terms.fee_percent / 100)),
+  currency: amount.currency,
+});
+
+export const describeCancellationPolicy = (policy: CancellationPolicy) => {
+  const parts = [`Free cancellation up to ${policy.free_cancellation_hours}h before kick-off`];
+  if (policy.free_cancellation_hours > policy.no_refund_hours && policy.late_cancel_fee_percent > 0) {
+    parts.push(`${policy.late_cancel_fee_percent}% fee after that`);
+  }
+  parts.push(`no refunds within ${policy.no_refund_hours}h`);
+  return parts.join(', ');
+};
+
+export const describeCancellationTerms = (terms: CancellationTerms) => {
+  switch (terms.tier) {
+    case 'free':
+      return 'You can cancel for free.';
+    case 'late':
+      return `Late cancellation: ${terms.fee_percent}% of what was paid is kept as a fee.`;
+    default:
+      return 'Too close to kick-off: payments will not be refunded.';
+  }
+};
@@ -0,0 +1,62 @@
+// Game format helpers
+// The format an organizer picks sets how many play on each side, the default
+// number of substitutes, how long the match runs and the pitch size that suits
+// it. A game's capacity is both line-ups plus its substitutes (see
+// game_formats.sql, which keeps bookings.max_players in step).
+
+import { PitchSize } from '../types/venues';
+
+export type GameFormat = '5_a_side' | '7_a_side' | '11_a_side';
+
+export interface GameFormatDetails {
+  label: string;
+  playersPerSide: number;
+  substitutes: number; // default, shared between both teams
+  matchMinutes: number;
+  pitchSize: PitchSize;
+}
+
+export const GAME_FORMATS: Record<GameFormat, GameFormatDetails> = {
+  '5_a_side': { label: '5-a-side', playersPerSide: 5, substitutes: 2, matchMinutes: 50, pitchSize: 5 },
+  '7_a_side': { label: '7-a-side', playersPerSide: 7, substitutes: 2, matchMinutes: 60, pitchSize: 7 },
+  '11_a_side': { label: '11-a-side', playersPerSide: 11, substitutes: 4, matchMinutes: 90, pitchSize: 11 },
+};
+
+export const GAME_FORMAT_OPTIONS = Object.keys(GAME_FORMATS) as GameFormat[];
+
+export const MAX_SUBSTITUTES = 10;
+
+// Games created before formats existed took eight players
+const LEGACY_MAX_PLAYERS = 8;
+
+export interface GameFormatFields {
+  game_format?: GameFormat | null;
+  substitutes?: number | null;
+  max_players?: number | null;
+}
+
+export const getFormatCapacity = (format: GameFormat, substitutes: number = GAME_FORMATS[format].substitutes) =>
+  GAME_FORMATS[format].playersPerSide * 2 + substitutes;
+
+// How many players a game takes, from its format when it has one
+export const getGameCapacity = (game: GameFormatFields) => {
+  if (game.game_format && GAME_FORMATS[game.game_format]) {
+    return getFormatCapacity(game.game_format, game.substitutes ?? 0);
+  }
+  return game.max_players || LEGACY_MAX_PLAYERS;
+};
+
+// The format that's usually played on a pitch of this size
+export const getFormatForPitchSize = (size: PitchSize): GameFormat => {
+  if (size >= 11) return '11_a_side';
+  if (size >= 7) return '7_a_side';
+  return '5_a_side';
+};
+
+// "5-a-side · 10 + 2 subs · 50 min"
+export const describeGameFormat = (format: GameFormat, substitutes: number, matchMinutes?: number | null) => {
+  const details = GAME_FORMATS[format];
+  const subs = substitutes === 1 ? '1 sub' : `${substitutes} subs`;
+  const minutes = matchMinutes || details.matchMinutes;
+  return `${details.label} · ${details.playersPerSide * 2} + ${subs} · ${minutes} min`;
+};
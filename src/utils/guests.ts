@@ -0,0 +1,45 @@
+// Guest helpers
+// Friends without the app can hold a spot in a game as guests (see
+// game_guests.sql). They get an email or SMS with a hagz://guest/<code> link
+// that claims their spots once they have an account.
+
+import { GameGuest } from '../types/guests';
+
+export const GUEST_CLAIM_URL_PREFIX = 'hagz://guest/';
+
+export const buildGuestClaimUrl = (token: string) => `${GUEST_CLAIM_URL_PREFIX}${token}`;
+
+// Spots a game has taken, counting guests alongside members
+export const getTakenSpots = (memberCount: number, booking: { guest_count?: number | null }) =>
+  memberCount + (booking.guest_count || 0);
+
+export interface GuestInviteDetails {
+  gameTitle: string;
+  gameDate: string;
+  gameTime: string;
+  organizerName: string;
+}
+
+// The invitation text a guest gets by email or SMS
+export const buildGuestInviteMessage = (guest: GameGuest, details: GuestInviteDetails) => {
+  const subject = `You're in: ${details.gameTitle} on ${details.gameDate}`;
+  const body = [
+    `Hi ${guest.name},`,
+    `${details.organizerName} saved you a spot at ${details.gameTitle} on ${details.gameDate} at ${details.gameTime}.`,
+    guest.claim_token
+      ? `Get the HAGZ app and open ${buildGuestClaimUrl(guest.claim_token)} to claim your spot and keep your match history.`
+      : 'Get the HAGZ app to keep track of your games.',
+  ].join('\n\n');
+  return { subject, body };
+};
+
+// mailto:/sms: links that open the invitation ready to send
+export const buildGuestInviteLink = (channel: 'email' | 'sms', guest: GameGuest, details: GuestInviteDetails) => {
+  const { subject, body } = buildGuestInviteMessage(guest, details);
+  if (channel === 'email') {
+    return `mailto:${guest.email || ''}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+  }
+  return `sms:${guest.phone || ''}?body=${encodeURIComponent(body)}`;
+};
+
+export const isValidGuestEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
@@ -0,0 +1,45 @@
+// Join code helpers
+// Private games are shared as a short code or a hagz://game/<code> link (see
+// game_join_codes.sql). Codes are eight characters without look-alikes.
+
+import { GameJoinCode } from '../types/invites';
+
+export const JOIN_URL_PREFIX = 'hagz://game/';
+
+export const JOIN_CODE_EXPIRY_OPTIONS: Array<{ label: string; hours: number | null }> = [
+  { label: 'Never', hours: null },
+  { label: '24 hours', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '1 week', hours: 168 },
+];
+
+export const JOIN_CODE_USE_OPTIONS: Array<{ label: string; uses: number | null }> = [
+  { label: 'Unlimited', uses: null },
+  { label: '5 players', uses: 5 },
+  { label: '10 players', uses: 10 },
+  { label: '20 players', uses: 20 },
+];
+
+export const buildJoinUrl = (code: string) => `${JOIN_URL_PREFIX}${code}`;
+
+// The code in a pasted link or typed code, or null when it isn't one
+export const parseJoinCode = (input: string) => {
+  const value = input.trim();
+  const code = (value.toLowerCase().startsWith(JOIN_URL_PREFIX) ? value.slice(JOIN_URL_PREFIX.length) : value).toUpperCase();
+  return /^[A-Z0-9]{6,12}$/.test(code) ? code : null;
+};
+
+export const isJoinCodeActive = (code: GameJoinCode) =>
+  !code.revoked &&
+  (!code.expires_at || new Date(code.expires_at).getTime() > Date.now()) &&
+  (code.max_uses === null || code.uses < code.max_uses);
+
+// "Expires Oct 20, 9:00 PM · 3 of 10 used"
+export const describeJoinCodeLimits = (code: GameJoinCode) => {
+  if (code.revoked) return 'Turned off';
+  const expiry = code.expires_at
+    ? `Expires ${new Date(code.expires_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+    : 'No expiry';
+  const uses = code.max_uses === null ? `${code.uses} used` : `${code.uses} of ${code.max_uses} used`;
+  return `${expiry} · ${uses}`;
+};
@@ -0,0 +1,67 @@
+// Distance helpers for finding games near the player
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle (haversine) distance between two points in kilometres
+export const getDistanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// A box that contains every point within radiusKm of the centre, for a cheap
+// first-pass database filter. Corners are further than radiusKm, so results
+// still need an exact getDistanceKm check.
+export const getBoundingBox = (center: Coordinates, radiusKm: number): BoundingBox => {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const cosLat = Math.cos(toRadians(center.latitude));
+  // Right by a pole the circle can take in every longitude
+  const lngDelta = cosLat > 0.01 ? radiusKm / (KM_PER_DEGREE_LATITUDE * cosLat) : 180;
+  const allLongitudes = lngDelta >= 180;
+
+  return {
+    minLatitude: Math.max(-90, center.latitude - latDelta),
+    maxLatitude: Math.min(90, center.latitude + latDelta),
+    minLongitude: allLongitudes ? -180 : Math.max(-180, center.longitude - lngDelta),
+    maxLongitude: allLongitudes ? 180 : Math.min(180, center.longitude + lngDelta),
+  };
+};
+
+// Coordinates off a venue row, or null when it hasn't been placed on the map
+export const getRowCoordinates = (
+  row: { latitude?: number | string | null; longitude?: number | string | null } | null | undefined
+): Coordinates | null => {
+  if (!row || row.latitude === null || row.latitude === undefined || row.longitude === null || row.longitude === undefined) {
+    return null;
+  }
+  return { latitude: Number(row.latitude), longitude: Number(row.longitude) };
+};
+
+// "350 m", "4.2 km", "18 km"
+export const formatDistance = (distanceKm: number): string => {
+  if (distanceKm < 1) {
+    return `${Math.max(50, Math.round((distanceKm * 1000) / 50) * 50)} m`;
+  }
+  if (distanceKm < 10) {
+    return `${distanceKm.toFixed(1)} km`;
+  }
+  return `${Math.round(distanceKm)} km`;
+};
@@ -0,0 +1,67 @@
+// Grid clustering for map pins: points that fall into the same cell of the
+// visible map are drawn as one pin, so zooming in splits them apart
+
+import { Coordinates } from './location';
+
+export interface MapRegion extends Coordinates {
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface MapCluster<T> {
+  key: string;
+  coordinates: Coordinates;
+  items: T[];
+}
+
+// Cells across the shorter side of the visible map
+const CLUSTER_GRID_SIZE = 6;
+// Closest a cluster tap or the initial fit will zoom in
+const MIN_REGION_DELTA = 0.02;
+const REGION_PADDING = 1.4;
+
+export const clusterPoints = <T>(
+  items: T[],
+  getCoordinates: (item: T) => Coordinates,
+  region: MapRegion
+): MapCluster<T>[] => {
+  const cellSize = Math.max(Math.min(region.latitudeDelta, region.longitudeDelta) / CLUSTER_GRID_SIZE, 1e-6);
+  const cells = new Map<string, T[]>();
+
+  for (const item of items) {
+    const { latitude, longitude } = getCoordinates(item);
+    const key = `${Math.floor(latitude / cellSize)}:${Math.floor(longitude / cellSize)}`;
+    cells.set(key, [...(cells.get(key) || []), item]);
+  }
+
+  return Array.from(cells.entries()).map(([key, cellItems]) => {
+    const points = cellItems.map(getCoordinates);
+    return {
+      key,
+      coordinates: {
+        latitude: points.reduce((sum, point) => sum + point.latitude, 0) / points.length,
+        longitude: points.reduce((sum, point) => sum + point.longitude, 0) / points.length,
+      },
+      items: cellItems,
+    };
+  });
+};
+
+// The smallest region showing every point with a margin, or null with no points
+export const getRegionForPoints = (points: Coordinates[]): MapRegion | null => {
+  if (points.length === 0) return null;
+
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const minLatitude = Math.min(...latitudes);
+  const maxLatitude = Math.max(...latitudes);
+  const minLongitude = Math.min(...longitudes);
+  const maxLongitude = Math.max(...longitudes);
+
+  return {
+    latitude: (minLatitude + maxLatitude) / 2,
+    longitude: (minLongitude + maxLongitude) / 2,
+    latitudeDelta: Math.max((maxLatitude - minLatitude) * REGION_PADDING, MIN_REGION_DELTA),
+    longitudeDelta: Math.max((maxLongitude - minLongitude) * REGION_PADDING, MIN_REGION_DELTA),
+  };
+};
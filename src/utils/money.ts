@@ -0,0 +1,44 @@
+// Money helpers
+// Prices are stored as a numeric amount plus an ISO currency code. Amounts are
+// handled in minor units (cents) when splitting so shares always add up.
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  EGP: 'E£',
+};
+
+export const toMinorUnits = (amount: number) => Math.round(amount * 100);
+
+export const fromMinorUnits = (minor: number) => minor / 100;
+
+export const formatMoney = (money: Money | null | undefined) => {
+  if (!money) return '-';
+  const symbol = CURRENCY_SYMBOLS[money.currency];
+  const value = money.amount % 1 === 0 ? money.amount.toFixed(0) : money.amount.toFixed(2);
+  return symbol ? `${symbol}${value}` : `${value} ${money.currency}`;
+};
+
+// Read the structured price off a booking or pitch row, falling back to the old
+// display string (e.g. "$25/hour") for rows created before the migration
+export const getRowPrice = (row: { price_amount?: number | string | null; price_currency?: string | null; price?: string | null }): Money | null => {
+  if (row.price_amount !== null && row.price_amount !== undefined) {
+    return { amount: Number(row.price_amount), currency: row.price_currency || DEFAULT_CURRENCY };
+  }
+  return parseLegacyPrice(row.price);
+};
+
+export const parseLegacyPrice = (price: string | null | undefined): Money | null => {
+  if (!price) return null;
+  const match = price.match(/(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  return { amount: Number(match[1]), currency: DEFAULT_CURRENCY };
+};
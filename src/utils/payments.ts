@@ -0,0 +1,54 @@
+// Cost splitting for booking payments
+
+import { Money, fromMinorUnits, toMinorUnits } from './money';
+
+export type PaymentMode = 'organizer_pays' | 'split_equally' | 'per_player';
+
+export type MemberPaymentStatus = 'not_required' | 'pending' | 'paid' | 'refunded';
+
+export interface MemberShare {
+  user_id: string;
+  amount: number;
+}
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  organizer_pays: 'Organizer pays',
+  split_equally: 'Split equally',
+  per_player: 'Per-player fee',
+};
+
+// Work out what each member owes. Rounding leftovers from an equal split go to the
+// organizer so the shares always add up to the pitch price.
+export const calculateShares = (
+  mode: PaymentMode,
+  total: Money,
+  memberIds: string[],
+  organizerId: string,
+  perPlayerFee?: number | null
+): MemberShare[] => {
+  if (memberIds.length === 0) return [];
+
+  if (mode === 'per_player') {
+    const fee = perPlayerFee || 0;
+    return memberIds.map(user_id => ({ user_id, amount: fee }));
+  }
+
+  if (mode === 'organizer_pays') {
+    return memberIds.map(user_id => ({ user_id, amount: user_id === organizerId ? total.amount : 0 }));
+  }
+
+  const totalMinor = toMinorUnits(total.amount);
+  const baseMinor = Math.floor(totalMinor / memberIds.length);
+  const remainder = totalMinor - baseMinor * memberIds.length;
+  const remainderHolder = memberIds.includes(organizerId) ? organizerId : memberIds[0];
+
+  return memberIds.map(user_id => ({
+    user_id,
+    amount: fromMinorUnits(baseMinor + (user_id === remainderHolder ? remainder : 0)),
+  }));
+};
+
+export const getPaymentStatus = (amountDue: number, amountPaid: number): MemberPaymentStatus => {
+  if (amountDue <= 0) return 'not_required';
+  return amountPaid >= amountDue ? 'paid' : 'pending';
+};
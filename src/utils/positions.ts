@@ -0,0 +1,54 @@
+// Position helpers
+// Organizers list the positions a game needs and players claim one when they
+// join (see game_positions.sql). Positions nobody has claimed yet are held
+// back: players joining without a position only get the other spots.
+
+export type PlayerPosition = 'goalkeeper' | 'defender' | 'midfielder' | 'forward';
+
+// Spots per position the organizer opened
+export type OpenPositions = Partial<Record<PlayerPosition, number>>;
+
+export const PLAYER_POSITIONS: PlayerPosition[] = ['goalkeeper', 'defender', 'midfielder', 'forward'];
+
+export const POSITION_LABELS: Record<PlayerPosition, string> = {
+  goalkeeper: 'Goalkeeper',
+  defender: 'Defender',
+  midfielder: 'Midfielder',
+  forward: 'Forward',
+};
+
+export const POSITION_SHORT: Record<PlayerPosition, string> = {
+  goalkeeper: 'GK',
+  defender: 'DEF',
+  midfielder: 'MID',
+  forward: 'FWD',
+};
+
+// Onboarding also offers "flexible", which isn't a position you can claim
+export const isPlayerPosition = (value: string | null | undefined): value is PlayerPosition =>
+  !!value && (PLAYER_POSITIONS as string[]).includes(value);
+
+export const countOpenPositions = (positions: OpenPositions | null | undefined) =>
+  PLAYER_POSITIONS.reduce((sum, position) => sum + (positions?.[position] || 0), 0);
+
+// Spots left per position once the members' claims are taken off
+export const getPositionsLeft = (
+  positions: OpenPositions | null | undefined,
+  members: Array<{ position?: string | null }>
+): OpenPositions => {
+  const left: OpenPositions = {};
+  for (const position of PLAYER_POSITIONS) {
+    const open = positions?.[position] || 0;
+    if (open === 0) continue;
+    const claimed = members.filter(member => member.position === position).length;
+    left[position] = Math.max(open - claimed, 0);
+  }
+  return left;
+};
+
+// "1 GK, 2 DEF"
+export const describeOpenPositions = (positions: OpenPositions | null | undefined) =>
+  PLAYER_POSITIONS
+    .filter(position => (positions?.[position] || 0) > 0)
+    .map(position => `${positions![position]} ${POSITION_SHORT[position]}`)
+    .join(', ');
@@ -0,0 +1,111 @@
+// Dynamic pricing helpers
+// A pitch's base price can be changed per slot by rules matching the weekday,
+// an hour band, a season (MM-DD range) and how soon the slot starts. The
+// highest-priority matching rule wins. Mirrors resolve_slot_price in
+// Database/pricing_rules.sql, which sets the price actually charged.
+
+import { Money, fromMinorUnits, toMinorUnits } from './money';
+import { getMatchStart } from './cancellation';
+
+export type PriceAdjustmentType = 'fixed' | 'percent' | 'amount';
+
+export interface PricingRule {
+  id: string;
+  pitch_id: string;
+  name: string;
+  priority: number;
+  weekdays: number[] | null; // 0 = Sunday ... 6 = Saturday
+  start_minute: number | null; // minutes from midnight, inclusive
+  end_minute: number | null; // exclusive, may exceed 1440
+  season_start: string | null; // MM-DD
+  season_end: string | null; // MM-DD
+  min_lead_hours: number | null;
+  max_lead_hours: number | null;
+  adjustment_type: PriceAdjustmentType;
+  adjustment_value: number;
+  is_active: boolean;
+  created_at?: string;
+}
+
+export interface SlotPrice {
+  price: Money;
+  rule: Pick<PricingRule, 'id' | 'name'> | null;
+}
+
+const isInSeason = (rule: PricingRule, dateString: string) => {
+  if (!rule.season_start || !rule.season_end) return true;
+  const monthDay = dateString.slice(5, 10);
+  if (rule.season_start <= rule.season_end) {
+    return monthDay >= rule.season_start && monthDay <= rule.season_end;
+  }
+  // Wraps over the new year, e.g. 12-01 to 02-28
+  return monthDay >= rule.season_start || monthDay <= rule.season_end;
+};
+
+export const ruleMatchesSlot = (
+  rule: PricingRule,
+  dateString: string,
+  timeSlot: number,
+  now: Date = new Date()
+) => {
+  if (!rule.is_active) return false;
+
+  if (rule.weekdays && rule.weekdays.length > 0) {
+    const [year, month, day] = dateString.split('-').map(Number);
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    if (!rule.weekdays.includes(weekday)) return false;
+  }
+
+  if (rule.start_minute !== null && timeSlot < rule.start_minute) return false;
+  if (rule.end_minute !== null && timeSlot >= rule.end_minute) return false;
+  if (!isInSeason(rule, dateString)) return false;
+
+  if (rule.min_lead_hours !== null || rule.max_lead_hours !== null) {
+    const leadHours = (getMatchStart(dateString, timeSlot).getTime() - now.getTime()) / (60 * 60 * 1000);
+    if (rule.min_lead_hours !== null && leadHours < rule.min_lead_hours) return false;
+    if (rule.max_lead_hours !== null && leadHours >= rule.max_lead_hours) return false;
+  }
+
+  return true;
+};
+
+export const applyPriceAdjustment = (base: Money, rule: PricingRule): Money => {
+  let minor: number;
+  switch (rule.adjustment_type) {
+    case 'fixed':
+      minor = toMinorUnits(rule.adjustment_value);
+      break;
+    case 'percent':
+      minor = Math.round(toMinorUnits(base.amount) * (100 + rule.adjustment_value) / 100);
+      break;
+    default:
+      minor = toMinorUnits(base.amount) + toMinorUnits(rule.adjustment_value);
+  }
+  return { amount: fromMinorUnits(Math.max(minor, 0)), currency: base.currency };
+};
+
+// Highest priority first; earlier rules win ties
+const sortRules = (rules: PricingRule[]) =>
+  [...rules].sort((a, b) => b.priority - a.priority || (a.created_at || '').localeCompare(b.created_at || ''));
+
+export const resolveSlotPrice = (
+  base: Money,
+  rules: PricingRule[],
+  dateString: string,
+  timeSlot: number,
+  now: Date = new Date()
+): SlotPrice => {
+  const rule = sortRules(rules).find(candidate => ruleMatchesSlot(candidate, dateString, timeSlot, now));
+  if (!rule) {
+    return { price: base, rule: null };
+  }
+  return { price: applyPriceAdjustment(base, rule), rule: { id: rule.id, name: rule.name } };
+};
+
+export const describePriceChange = (base: Money, slotPrice: SlotPrice) => {
+  if (!slotPrice.rule) return '';
+  const difference = toMinorUnits(slotPrice.price.amount) - toMinorUnits(base.amount);
+  if (difference === 0) return slotPrice.rule.name;
+  const percent = Math.round((difference / Math.max(toMinorUnits(base.amount), 1)) * 100);
+  return `${slotPrice.rule.name} (${percent > 0 ? '+' : ''}${percent}%)`;
+};
@@ -0,0 +1,63 @@
+// Booking series helpers
+// A series repeats the same pitch and time slot every week or every other week,
+// ending either on a date or after a number of occurrences.
+
+export type SeriesFrequency = 'weekly' | 'biweekly';
+
+export interface SeriesRule {
+  frequency: SeriesFrequency;
+  start_date: string; // YYYY-MM-DD, first occurrence
+  end_date?: string | null; // inclusive
+  occurrence_count?: number | null;
+}
+
+export interface OccurrenceCheck {
+  date: string;
+  valid: boolean;
+  message: string;
+  conflict?: any;
+}
+
+// Hard cap so an open-ended rule can't reserve a pitch for years
+export const MAX_SERIES_OCCURRENCES = 26;
+
+export const SERIES_FREQUENCY_LABELS: Record<SeriesFrequency, string> = {
+  weekly: 'Every week',
+  biweekly: 'Every 2 weeks',
+};
+
+const toUTCDate = (dateString: string) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+export const addDays = (dateString: string, days: number) => {
+  const date = toUTCDate(dateString);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateString(date);
+};
+
+export const getIntervalDays = (frequency: SeriesFrequency) => (frequency === 'biweekly' ? 14 : 7);
+
+// Expand a rule into the dates it covers
+export const generateSeriesDates = (rule: SeriesRule): string[] => {
+  const step = getIntervalDays(rule.frequency);
+  const limit = Math.min(rule.occurrence_count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const dates: string[] = [];
+
+  let current = rule.start_date;
+  while (dates.length < limit) {
+    if (rule.end_date && current > rule.end_date) break;
+    dates.push(current);
+    current = addDays(current, step);
+  }
+
+  return dates;
+};
+
+export const isValidDateString = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  return toDateString(toUTCDate(value)) === value;
+};
@@ -0,0 +1,38 @@
+// Attendance and reliability helpers
+// A player's reliability score is the share of recorded games they turned up
+// to. Chronic no-shows are kept out of public games (see game_attendance.sql).
+
+export interface PlayerReliability {
+  games_attended: number;
+  no_shows: number;
+  reliability_score: number; // 0 - 100
+}
+
+export const CHRONIC_NO_SHOW_COUNT = 3;
+export const MIN_PUBLIC_RELIABILITY = 70;
+
+// Check-in QR codes carry the game's secret code behind this prefix
+export const CHECK_IN_URL_PREFIX = 'hagz://check-in/';
+
+export const isChronicNoShow = (reliability: PlayerReliability | null | undefined) =>
+  !!reliability &&
+  reliability.no_shows >= CHRONIC_NO_SHOW_COUNT &&
+  reliability.reliability_score < MIN_PUBLIC_RELIABILITY;
+
+export const describeReliability = (reliability: PlayerReliability | null | undefined) => {
+  if (!reliability || reliability.games_attended + reliability.no_shows === 0) {
+    return 'New player';
+  }
+  const noShows = reliability.no_shows === 1 ? '1 no-show' : `${reliability.no_shows} no-shows`;
+  return `${reliability.reliability_score}% reliable · ${noShows}`;
+};
+
+export const buildCheckInUrl = (code: string) => `${CHECK_IN_URL_PREFIX}${code}`;
+
+// The code inside a scanned QR, or null when it isn't one of ours
+export const parseCheckInCode = (scanned: string) => {
+  const value = scanned.trim();
+  if (!value.startsWith(CHECK_IN_URL_PREFIX)) return null;
+  const code = value.slice(CHECK_IN_URL_PREFIX.length);
+  return /^[a-z0-9]+$/i.test(code) ? code : null;
+};
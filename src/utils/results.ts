@@ -0,0 +1,50 @@
+// Game result helpers
+// The organizer enters the score once the game is over and the players on the
+// sheet confirm or dispute it (see game_results.sql). The checks here mirror
+// the server's so mistakes show up before submitting.
+
+import { GameResultStatus, ResultPlayer } from '../types/results';
+
+export type MatchOutcome = 'win' | 'draw' | 'loss';
+
+// Matches without a set length count as an hour, as on the server
+export const DEFAULT_MATCH_MINUTES = 60;
+
+export const RESULT_STATUS_LABELS: Record<GameResultStatus, string> = {
+  pending: 'Waiting for players to confirm',
+  disputed: 'Disputed',
+  final: 'Final',
+};
+
+export const getMatchEnd = (matchStart: Date, matchMinutes?: number | null) =>
+  new Date(matchStart.getTime() + (matchMinutes || DEFAULT_MATCH_MINUTES) * 60 * 1000);
+
+// "3 - 2", or "3 - 2 - 1" for three teams
+export const describeScore = (scores: number[]) => scores.join(' - ');
+
+// A win needs the outright top score; sharing it is a draw
+export const getMatchOutcome = (scores: number[], teamIndex: number | null): MatchOutcome | null => {
+  if (teamIndex === null || scores[teamIndex] === undefined) return null;
+  const best = Math.max(...scores);
+  if (scores[teamIndex] < best) return 'loss';
+  return scores.filter(score => score === best).length > 1 ? 'draw' : 'win';
+};
+
+// The first problem with a result sheet, or null when it can be submitted
+export const validateResult = (scores: number[], players: ResultPlayer[]) => {
+  if (scores.length < 2 || scores.some(score => !Number.isInteger(score) || score < 0)) {
+    return 'Enter a score for every team';
+  }
+  if (players.length === 0) {
+    return 'Add the players who played';
+  }
+  for (let index = 0; index < scores.length; index++) {
+    const teamGoals = players
+      .filter(player => player.team_index === index)
+      .reduce((total, player) => total + player.goals, 0);
+    if (teamGoals > scores[index]) {
+      return 'A team\'s goalscorers add up to more than its score';
+    }
+  }
+  return null;
+};
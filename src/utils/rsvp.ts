@@ -0,0 +1,58 @@
+// RSVP helpers
+// Members are asked "still coming?" at the hours before kick-off the organizer
+// picked (see game_rsvps.sql). Saying no takes them out of the game.
+
+import { GameRsvp, RsvpResponse } from '../types/attendance';
+
+export const RSVP_HOUR_OPTIONS = [48, 24, 12, 6, 3, 1];
+export const DEFAULT_RSVP_HOURS = [24, 3];
+
+export const RSVP_LABELS: Record<RsvpResponse, string> = {
+  pending: 'No answer',
+  yes: 'Coming',
+  maybe: 'Maybe',
+  no: 'Dropped out',
+};
+
+export const RSVP_COLORS: Record<RsvpResponse, string> = {
+  pending: 'rgba(255, 255, 255, 0.5)',
+  yes: '#4CAF50',
+  maybe: '#ffa726',
+  no: '#ff6b6b',
+};
+
+// "24h & 3h before"
+export const describeRsvpHours = (hours: number[]) =>
+  hours.length === 0
+    ? 'No RSVP reminders'
+    : `${[...hours].sort((a, b) => b - a).map(hour => `${hour}h`).join(' & ')} before`;
+
+// When the first round opens, or null when the game has no rounds
+export const getRsvpOpensAt = (matchStart: Date, hours: number[]) =>
+  hours.length === 0 ? null : new Date(matchStart.getTime() - Math.max(...hours) * 60 * 60 * 1000);
+
+interface BoardMember {
+  user_id: string;
+  joined_at: string;
+}
+
+// Sorts the organizer's attendance board. Members who never got a prompt count
+// as no answer; a "no" from before someone rejoined is ignored.
+export const getRsvpBoard = <T extends BoardMember>(members: T[], rsvps: GameRsvp[]) => {
+  const board: Record<RsvpResponse, string[]> = { yes: [], maybe: [], pending: [], no: [] };
+
+  for (const member of members) {
+    const rsvp = rsvps.find(item => item.user_id === member.user_id);
+    const rejoined = rsvp?.response === 'no' && !!rsvp.responded_at &&
+      new Date(member.joined_at).getTime() > new Date(rsvp.responded_at).getTime();
+    board[!rsvp || rejoined ? 'pending' : rsvp.response].push(member.user_id);
+  }
+
+  for (const rsvp of rsvps) {
+    if (rsvp.response === 'no' && !members.some(member => member.user_id === rsvp.user_id)) {
+      board.no.push(rsvp.user_id);
+    }
+  }
+
+  return board;
+};
@@ -0,0 +1,109 @@
+// Pitch schedule helpers
+// Time slots are expressed as minutes from midnight of the booking date. Values
+// of 1440 and above fall after midnight (e.g. 1500 = 1:00 AM the next day), so a
+// pitch that closes at 3am still books its late slots on the same date.
+
+export type SlotPeriod = 'Morning' | 'Afternoon' | 'Evening' | 'Night' | 'Late Night';
+
+export interface OpeningHours {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  opens_at: number; // minutes from midnight
+  closes_at: number; // minutes from midnight, may exceed 1440
+}
+
+export interface PitchClosure {
+  date: string; // YYYY-MM-DD
+  reason?: string | null;
+}
+
+export interface PitchSchedule {
+  pitch_id: string;
+  slot_duration_minutes: number;
+  buffer_minutes: number;
+  opening_hours: OpeningHours[];
+  closures: PitchClosure[];
+}
+
+export interface TimeSlot {
+  value: number;
+  end: number;
+  label: string;
+  period: SlotPeriod;
+}
+
+export const SLOT_PERIODS: SlotPeriod[] = ['Morning', 'Afternoon', 'Evening', 'Night', 'Late Night'];
+
+// Matches the league's original 6pm - 3am hourly slots
+export const DEFAULT_PITCH_SCHEDULE: Omit<PitchSchedule, 'pitch_id'> = {
+  slot_duration_minutes: 60,
+  buffer_minutes: 0,
+  opening_hours: [0, 1, 2, 3, 4, 5, 6].map(weekday => ({
+    weekday,
+    opens_at: 18 * 60,
+    closes_at: 27 * 60,
+  })),
+  closures: [],
+};
+
+export const formatSlotLabel = (minutes: number) => {
+  const minuteOfDay = ((minutes % 1440) + 1440) % 1440;
+  const hour24 = Math.floor(minuteOfDay / 60);
+  const minute = minuteOfDay % 60;
+  const suffix = hour24 >= 12 ? 'PM' : 'AM';
+  const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12;
+  return `${hour12}:${minute.toString().padStart(2, '0')} ${suffix}`;
+};
+
+export const getSlotPeriod = (minutes: number): SlotPeriod => {
+  if (minutes >= 24 * 60 || minutes < 5 * 60) return 'Late Night';
+  if (minutes < 12 * 60) return 'Morning';
+  if (minutes < 17 * 60) return 'Afternoon';
+  if (minutes < 21 * 60) return 'Evening';
+  return 'Night';
+};
+
+const getWeekday = (dateString: string) => {
+  // Parse as a calendar date so the weekday doesn't shift with the device timezone
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+export const getClosure = (schedule: Pick<PitchSchedule, 'closures'>, dateString: string) => {
+  return schedule.closures.find(closure => closure.date === dateString) || null;
+};
+
+export const buildTimeSlot = (start: number, durationMinutes: number): TimeSlot => ({
+  value: start,
+  end: start + durationMinutes,
+  label: formatSlotLabel(start),
+  period: getSlotPeriod(start),
+});
+
+// Generate every bookable slot for a date, or all slots of the first open day when no date is given
+export const generateTimeSlots = (schedule: Omit<PitchSchedule, 'pitch_id'>, dateString?: string): TimeSlot[] => {
+  const duration = Math.max(schedule.slot_duration_minutes, 1);
+  const step = duration + Math.max(schedule.buffer_minutes, 0);
+
+  let hours: OpeningHours[];
+  if (dateString) {
+    if (getClosure(schedule, dateString)) return [];
+    const weekday = getWeekday(dateString);
+    hours = schedule.opening_hours.filter(h => h.weekday === weekday);
+  } else {
+    hours = schedule.opening_hours.length > 0 ? [schedule.opening_hours[0]] : [];
+  }
+
+  const slots: TimeSlot[] = [];
+  for (const window of hours) {
+    for (let start = window.opens_at; start + duration <= window.closes_at; start += step) {
+      slots.push(buildTimeSlot(start, duration));
+    }
+  }
+
+  return slots.sort((a, b) => a.value - b.value);
+};
+
+export const getSlotLabel = (minutes: number | null | undefined) => {
+  if (minutes === null || minutes === undefined) return 'Unknown';
+  return formatSlotLabel(minutes);
+};
@@ -0,0 +1,170 @@
+// Team balancing helpers
+// Each player gets a rating from the skill level they picked during onboarding,
+// nudged by their record so far (win rate and MVPs). Sides are filled strongest
+// player first, always topping up the weakest side that still has room, then
+// evened out by swapping players. Goalkeepers are spread across the sides
+// first and left-footers are shared out when it costs nothing. Players the
+// organizer locked together are placed as one unit.
+
+import { TeamPlayer } from '../types/teams';
+
+export interface BalancePlayer {
+  user_id: string;
+  skill_level?: string | null;
+  position?: string | null;
+  preferred_foot?: string | null;
+  matches_played?: number | null;
+  wins?: number | null;
+  mvps?: number | null;
+}
+
+export interface BalancedTeam {
+  index: number;
+  playerIds: string[];
+  rating: number; // sum of the players' ratings
+}
+
+export const TEAM_NAMES = ['Team A', 'Team B', 'Team C', 'Team D'];
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 4;
+
+const SKILL_RATINGS: Record<string, number> = {
+  beginner: 40,
+  intermediate: 55,
+  advanced: 70,
+  professional: 85,
+};
+const DEFAULT_SKILL_RATING = 50;
+
+// A player's record counts fully once they've played this many games
+const FULL_FORM_GAMES = 10;
+
+// Random spread added when ordering players, so a reshuffle mixes up players
+// of about the same strength without unbalancing the sides
+const RESHUFFLE_SPREAD = 8;
+
+export const getPlayerRating = (player: BalancePlayer) => {
+  const base = SKILL_RATINGS[player.skill_level || ''] ?? DEFAULT_SKILL_RATING;
+  const played = player.matches_played || 0;
+  if (played === 0) return base;
+
+  const weight = Math.min(played, FULL_FORM_GAMES) / FULL_FORM_GAMES;
+  const winRate = Math.min((player.wins || 0) / played, 1);
+  const mvpRate = Math.min((player.mvps || 0) / played, 1);
+  return Math.round(base + weight * ((winRate - 0.5) * 20 + mvpRate * 10));
+};
+
+const isGoalkeeper = (player: BalancePlayer) => player.position === 'goalkeeper';
+const isLeftFooted = (player: BalancePlayer) => player.preferred_foot === 'left';
+
+// How many sides a game of this many players can be split into
+export const getTeamCountOptions = (playerCount: number) => {
+  const options: number[] = [];
+  for (let count = MIN_TEAMS; count <= MAX_TEAMS; count++) {
+    if (count === MIN_TEAMS || playerCount >= count * 2) options.push(count);
+  }
+  return options;
+};
+
+export const balanceTeams = (
+  players: BalancePlayer[],
+  teamCount: number,
+  lockGroups: string[][] = [],
+  random: () => number = Math.random
+): BalancedTeam[] => {
+  const byId = new Map(players.map(player => [player.user_id, player]));
+  const ratings = new Map(players.map(player => [player.user_id, getPlayerRating(player)]));
+
+  // Locked players move as one unit; everyone else on their own
+  const placed = new Set<string>();
+  const units: string[][] = [];
+  for (const group of lockGroups) {
+    const unit = group.filter(id => byId.has(id) && !placed.has(id));
+    unit.forEach(id => placed.add(id));
+    if (unit.length > 0) units.push(unit);
+  }
+  for (const player of players) {
+    if (!placed.has(player.user_id)) units.push([player.user_id]);
+  }
+
+  const unitRating = (unit: string[]) => unit.reduce((sum, id) => sum + (ratings.get(id) || 0), 0);
+  const countIn = (ids: string[], test: (player: BalancePlayer) => boolean) =>
+    ids.filter(id => test(byId.get(id)!)).length;
+
+  const ordered = units
+    .map(unit => ({
+      unit,
+      keepers: countIn(unit, isGoalkeeper),
+      sortKey: unitRating(unit) / unit.length + random() * RESHUFFLE_SPREAD,
+    }))
+    .sort((a, b) => (b.keepers > 0 ? 1 : 0) - (a.keepers > 0 ? 1 : 0) || b.sortKey - a.sortKey);
+
+  const teams: BalancedTeam[] = Array.from({ length: teamCount }, (_, index) => ({ index, playerIds: [], rating: 0 }));
+  const capacity = Math.ceil(players.length / teamCount);
+
+  for (const { unit, keepers } of ordered) {
+    const withRoom = teams.filter(team => team.playerIds.length + unit.length <= capacity);
+    const candidates = withRoom.length > 0 ? withRoom : teams;
+    const lefties = countIn(unit, isLeftFooted);
+
+    const best = [...candidates].sort((a, b) =>
+      (keepers > 0 ? countIn(a.playerIds, isGoalkeeper) - countIn(b.playerIds, isGoalkeeper) : 0) ||
+      a.rating - b.rating ||
+      (lefties > 0 ? countIn(a.playerIds, isLeftFooted) - countIn(b.playerIds, isLeftFooted) : 0) ||
+      a.playerIds.length - b.playerIds.length
+    )[0];
+
+    best.playerIds.push(...unit);
+    best.rating += unitRating(unit);
+  }
+
+  // Even things out by swapping unlocked players of the same kind between sides
+  const swappable = (id: string) => !lockGroups.some(group => group.length > 1 && group.includes(id));
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (const a of teams) {
+      for (const b of teams) {
+        if (a.index >= b.index) continue;
+        for (const idA of a.playerIds.filter(swappable)) {
+          for (const idB of b.playerIds.filter(swappable)) {
+            if (isGoalkeeper(byId.get(idA)!) !== isGoalkeeper(byId.get(idB)!)) continue;
+            const change = (ratings.get(idA) || 0) - (ratings.get(idB) || 0);
+            if (Math.abs(a.rating - b.rating - 2 * change) >= Math.abs(a.rating - b.rating)) continue;
+
+            a.playerIds[a.playerIds.indexOf(idA)] = idB;
+            b.playerIds[b.playerIds.indexOf(idB)] = idA;
+            a.rating -= change;
+            b.rating += change;
+            improved = true;
+            break;
+          }
+          if (improved) break;
+        }
+        if (improved) break;
+      }
+      if (improved) break;
+    }
+  }
+
+  return teams;
+};
+
+// The rows that get published for a split
+export const toTeamPlayers = (teams: BalancedTeam[], lockGroups: string[][]): TeamPlayer[] =>
+  teams.flatMap(team =>
+    team.playerIds.map(userId => {
+      const group = lockGroups.findIndex(ids => ids.length > 1 && ids.includes(userId));
+      return { user_id: userId, team_index: team.index, lock_group: group >= 0 ? group : null };
+    })
+  );
+
+// Lock groups back out of a published split
+export const getLockGroups = (players: TeamPlayer[]) => {
+  const groups = new Map<number, string[]>();
+  for (const player of players) {
+    if (player.lock_group === null) continue;
+    groups.set(player.lock_group, [...(groups.get(player.lock_group) || []), player.user_id]);
+  }
+  return Array.from(groups.values());
+};
@@ -0,0 +1,31 @@
+// Post-match vote helpers
+// Everyone who played picks an MVP and rates the others from 1 to 10 within a
+// day of the match (see match_votes.sql). Ratings feed a rolling average over
+// each player's last 10 rated matches.
+
+import { MatchVote } from '../types/votes';
+
+export const RATING_MIN = 1;
+export const RATING_MAX = 10;
+export const RATING_OPTIONS = Array.from({ length: RATING_MAX - RATING_MIN + 1 }, (_, index) => RATING_MIN + index);
+
+export const isVotingOpen = (vote: MatchVote | null, now: number = Date.now()) =>
+  !!vote && !vote.tallied_at && now < new Date(vote.closes_at).getTime();
+
+// "7.4", or "–" before anyone has rated the player
+export const formatRating = (rating: number | string | null | undefined) =>
+  rating === null || rating === undefined ? '–' : Number(rating).toFixed(1);
+
+// The first problem with a ballot, or null when it can be cast
+export const validateVote = (voterId: string, mvpId: string | null, ratings: Record<string, number>) => {
+  if (mvpId === voterId || ratings[voterId] !== undefined) {
+    return 'You can\'t vote for or rate yourself';
+  }
+  if (Object.values(ratings).some(rating => !Number.isInteger(rating) || rating < RATING_MIN || rating > RATING_MAX)) {
+    return `Ratings go from ${RATING_MIN} to ${RATING_MAX}`;
+  }
+  if (!mvpId && Object.keys(ratings).length === 0) {
+    return 'Pick an MVP or rate at least one player';
+  }
+  return null;
+};